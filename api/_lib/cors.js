@@ -0,0 +1,36 @@
+/**
+ * ============================================================================
+ * KIDS CALL HOME - CORS Headers
+ * ============================================================================
+ *
+ * Purpose: Cross-origin access to the API for configured origins only
+ * Technology: Node / Vercel response objects
+ *
+ * Features:
+ * - Same-origin only by default (the app and the API share a host, or
+ *   Vite proxies /api in development)
+ * - ALLOWED_ORIGINS (comma-separated) for an app served from elsewhere
+ *
+ * Last Updated: 2024-09-09
+ * ============================================================================
+ */
+
+const getAllowedOrigins = () => (process.env.ALLOWED_ORIGINS || '')
+  .split(',')
+  .map(origin => origin.trim())
+  .filter(Boolean);
+
+/**
+ * Allow the request's origin, if it's one of ALLOWED_ORIGINS, to call the
+ * handler with these methods (OPTIONS is always added)
+ */
+export const setCorsHeaders = (req, res, methods) => {
+  res.setHeader('Vary', 'Origin');
+
+  const origin = req.headers && req.headers.origin;
+  if (origin && getAllowedOrigins().includes(origin)) {
+    res.setHeader('Access-Control-Allow-Origin', origin);
+    res.setHeader('Access-Control-Allow-Methods', `${methods}, OPTIONS`);
+    res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization');
+  }
+};
@@ -0,0 +1,79 @@
+/**
+ * ============================================================================
+ * KIDS CALL HOME - Emergency Event Log
+ * ============================================================================
+ *
+ * Purpose: Keep the family's log of emergency button presses in the registry
+ * Technology: family registry
+ *
+ * Features:
+ * - One event added or updated at a time inside the registry's write
+ *   queue, so presses logged from two devices at once are both kept
+ * - Children can only log their own presses
+ * - The log devices send in family records is ignored - it only changes
+ *   through /api/emergency-events
+ *
+ * Last Updated: 2024-09-09
+ * ============================================================================
+ */
+
+import { RegistryError, updateFamily } from './familyRegistry.js';
+import { EMERGENCY_STATUSES } from './signalingProtocol.js';
+
+// Older events drop off the log (matches the app's limit)
+const MAX_EMERGENCY_EVENTS = 50;
+
+// Helper function to check an event sent by a device, keeping only known fields
+const validateEvent = (event, family) => {
+  if (!event || typeof event !== 'object') {
+    throw new RegistryError(400, 'Missing event in request body');
+  }
+  const { id, childId, status, startedAt, answeredBy } = event;
+  if (typeof id !== 'string' || !id || typeof startedAt !== 'string' || Number.isNaN(Date.parse(startedAt))) {
+    throw new RegistryError(400, 'Event needs an id and a startedAt time');
+  }
+  if (!EMERGENCY_STATUSES.includes(status)) {
+    throw new RegistryError(400, `Unknown event status: ${status}`);
+  }
+  if (!(family.children || []).some(child => child.id === childId)) {
+    throw new RegistryError(400, 'Event is not for a child in this family');
+  }
+  if (answeredBy !== undefined && !(family.guardians || []).some(guardian => guardian.id === answeredBy)) {
+    throw new RegistryError(400, 'Event was not answered by a guardian in this family');
+  }
+  return answeredBy === undefined
+    ? { id, childId, status, startedAt }
+    : { id, childId, status, startedAt, answeredBy };
+};
+
+/**
+ * Add an event to the family's log, or update it if it's already there.
+ * `memberId` is the signed-in member; children may only log their own
+ * presses. Returns the updated family.
+ */
+export const recordEmergencyEvent = (familyId, memberId, memberType, event) =>
+  updateFamily(familyId, (family) => {
+    const checked = validateEvent(event, family);
+    if (memberType === 'child' && checked.childId !== memberId) {
+      throw new RegistryError(403, 'Children can only log their own emergencies');
+    }
+
+    const events = family.emergencyEvents || [];
+    const existing = events.find(e => e.id === checked.id);
+    if (existing && existing.childId !== checked.childId) {
+      throw new RegistryError(409, 'Event belongs to another child');
+    }
+    family.emergencyEvents = existing
+      ? events.map(e => (e.id === checked.id ? checked : e))
+      : [...events, checked].slice(-MAX_EMERGENCY_EVENTS);
+    family.lastActive = new Date().toISOString();
+    return family;
+  });
+
+/**
+ * Keep the stored emergency log on a family record sent by a device
+ */
+export const withStoredEmergencyEvents = (family, stored) => ({
+  ...family,
+  emergencyEvents: (stored && stored.emergencyEvents) || []
+});
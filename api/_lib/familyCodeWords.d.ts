@@ -0,0 +1,12 @@
+/**
+ * ============================================================================
+ * KIDS CALL HOME - Family Code Words Types
+ * ============================================================================
+ *
+ * Purpose: Types for familyCodeWords.js, shared by the client
+ *
+ * Last Updated: 2024-09-09
+ * ============================================================================
+ */
+
+export declare const FAMILY_CODE_WORDS: readonly string[];
@@ -0,0 +1,53 @@
+/**
+ * ============================================================================
+ * KIDS CALL HOME - Family Code Words
+ * ============================================================================
+ *
+ * Purpose: Words family codes are made of, shared by the server and the app
+ *
+ * Last Updated: 2024-09-09
+ * ============================================================================
+ */
+
+/**
+ * Short, concrete, friendly words a young child can read and type.
+ * Avoids homophones, scary or rude words, and words that are easy to misspell.
+ */
+export const FAMILY_CODE_WORDS = [
+  // Animals
+  'ANT', 'APE', 'BAT', 'BEAR', 'BEE', 'BIRD', 'BUG', 'BULL', 'BUNNY', 'CALF',
+  'CAMEL', 'CAT', 'CHICK', 'CLAM', 'COW', 'CRAB', 'CROW', 'DEER', 'DOG', 'DOVE',
+  'DUCK', 'EAGLE', 'EEL', 'ELK', 'EMU', 'FISH', 'FLY', 'FOAL', 'FOX', 'FROG',
+  'GOAT', 'GOOSE', 'HEN', 'HIPPO', 'HORSE', 'KOALA', 'KIWI', 'LAMB', 'LION', 'LLAMA',
+  'MOLE', 'MOOSE', 'MOUSE', 'MULE', 'NEWT', 'OTTER', 'OWL', 'PANDA', 'PIG', 'PONY',
+  'PUPPY', 'QUAIL', 'RAVEN', 'ROBIN', 'SEAL', 'SHEEP', 'SLOTH', 'SNAIL', 'SWAN', 'TIGER',
+  'TOAD', 'TUNA', 'WHALE', 'WOLF', 'WORM', 'YAK', 'ZEBRA',
+  // Food
+  'APPLE', 'BAGEL', 'BEAN', 'BERRY', 'BREAD', 'BUN', 'CAKE', 'CANDY', 'CARROT', 'CHEESE',
+  'CHERRY', 'COCOA', 'COOKIE', 'CORN', 'CREAM', 'DONUT', 'EGG', 'FIG', 'GRAPE', 'HONEY',
+  'JAM', 'JELLY', 'JUICE', 'LEMON', 'LIME', 'MANGO', 'MELON', 'MILK', 'MUFFIN', 'NOODLE',
+  'OLIVE', 'ONION', 'ORANGE', 'PANCAKE', 'PASTA', 'PEACH', 'PEAR', 'PEA', 'PEPPER', 'PICKLE',
+  'PIE', 'PIZZA', 'PLUM', 'POPCORN', 'PRETZEL', 'PUDDING', 'RICE', 'SALAD', 'SOUP', 'TACO',
+  'TOAST', 'WAFFLE', 'YOGURT',
+  // Nature and weather
+  'ACORN', 'BEACH', 'BREEZE', 'BROOK', 'CLOUD', 'COMET', 'CORAL', 'DAISY', 'DEW', 'DUNE',
+  'EARTH', 'FERN', 'FIELD', 'FLOWER', 'FOREST', 'FROST', 'GARDEN', 'GRASS', 'HILL', 'ISLAND',
+  'LAKE', 'LEAF', 'LILY', 'MAPLE', 'MEADOW', 'MOON', 'MOSS', 'OCEAN', 'PEBBLE', 'PETAL',
+  'PINE', 'PLANET', 'POND', 'RAIN', 'RAINBOW', 'RIVER', 'ROCK', 'ROSE', 'SAND', 'SEED',
+  'SHELL', 'SKY', 'SNOW', 'SPROUT', 'STAR', 'STONE', 'SUN', 'SUNNY', 'THUNDER', 'TREE',
+  'TULIP', 'VALLEY', 'WAVE', 'WIND',
+  // Things and toys
+  'BALL', 'BALLOON', 'BASKET', 'BELL', 'BIKE', 'BLOCK', 'BOAT', 'BOOK', 'BOOT', 'BOX',
+  'BRUSH', 'BUBBLE', 'BUCKET', 'BUTTON', 'CANDLE', 'CASTLE', 'CHAIR', 'CLOCK', 'CRAYON', 'CROWN',
+  'CUP', 'DRUM', 'FLAG', 'FLUTE', 'GLOVE', 'GUITAR', 'HAT', 'HOUSE', 'KITE', 'LADDER',
+  'LAMP', 'MAP', 'MARBLE', 'MITTEN', 'PAINT', 'PENCIL', 'PIANO', 'PILLOW', 'PUZZLE', 'RING',
+  'ROBOT', 'ROCKET', 'SCARF', 'SHIP', 'SLED', 'SOCK', 'SPOON', 'SWING', 'TABLE', 'TENT',
+  'TRAIN', 'TRUCK', 'TRUMPET', 'VAN', 'WAGON', 'WHISTLE', 'YOYO',
+  // Friendly describing words
+  'BIG', 'BLUE', 'BOLD', 'BRAVE', 'BRIGHT', 'BUSY', 'CALM', 'CHEERY', 'CLEVER', 'COOL',
+  'COZY', 'CURLY', 'EAGER', 'FAST', 'FLUFFY', 'FUNNY', 'FUZZY', 'GENTLE', 'GIANT', 'GLAD',
+  'GOLD', 'GOOD', 'GREEN', 'HAPPY', 'JOLLY', 'KIND', 'LITTLE', 'LUCKY', 'MAGIC', 'MERRY',
+  'MIGHTY', 'NEAT', 'NICE', 'PINK', 'PLAYFUL', 'PROUD', 'PURPLE', 'QUICK', 'QUIET', 'READY',
+  'RED', 'ROUND', 'SHINY', 'SILLY', 'SILVER', 'SMART', 'SOFT', 'SPEEDY', 'SUPER', 'SWEET',
+  'TALL', 'TINY', 'WARM', 'WISE', 'YELLOW', 'ZIPPY',
+];
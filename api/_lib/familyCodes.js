@@ -0,0 +1,80 @@
+/**
+ * ============================================================================
+ * KIDS CALL HOME - Family Codes
+ * ============================================================================
+ *
+ * Purpose: New family codes made on the server
+ * Technology: node:crypto, family registry
+ *
+ * Features:
+ * - Codes in the app's format, from the shared word list
+ * - Code rotation by a guardian: the new code is picked here so no other
+ *   family has it, and the old one is kept in the family's code history
+ * - Rotating ends every other device's session (they sign in again with
+ *   the new code) and turns away devices still waiting with the old one
+ *
+ * Last Updated: 2024-09-09
+ * ============================================================================
+ */
+
+import { randomInt } from 'crypto';
+import { FAMILY_CODE_WORDS } from './familyCodeWords.js';
+import { RegistryError, replaceFamilyCode } from './familyRegistry.js';
+import { endDeviceSessions } from './trustedDevices.js';
+
+const DEFAULT_WORD_COUNT = 3;
+const MAX_WORD_COUNT = 8;
+
+// Helper function to check the code options a guardian asked for
+const validateCodeOptions = ({ wordCount = DEFAULT_WORD_COUNT, expiresInDays, maxUses } = {}) => {
+  const isPositive = (value) => typeof value === 'number' && Number.isFinite(value) && value > 0;
+  if (!Number.isInteger(wordCount) || wordCount < 1 || wordCount > MAX_WORD_COUNT) {
+    throw new RegistryError(400, `Family codes need 1 to ${MAX_WORD_COUNT} words`);
+  }
+  if (expiresInDays !== undefined && !isPositive(expiresInDays)) {
+    throw new RegistryError(400, 'expiresInDays must be a positive number');
+  }
+  if (maxUses !== undefined && !(isPositive(maxUses) && Number.isInteger(maxUses))) {
+    throw new RegistryError(400, 'maxUses must be a positive whole number');
+  }
+  return { wordCount, expiresInDays, maxUses };
+};
+
+/**
+ * A random code in the app's format ("BEAR-CAKE-MOON-42") with its
+ * expiry and usage limit
+ */
+export const createFamilyCode = ({ wordCount = DEFAULT_WORD_COUNT, expiresInDays, maxUses } = {}) => {
+  const words = Array.from({ length: wordCount }, () => FAMILY_CODE_WORDS[randomInt(FAMILY_CODE_WORDS.length)]);
+  words.push(String(randomInt(10, 100)));
+
+  return {
+    code: words.join('-'),
+    words,
+    expires: expiresInDays !== undefined
+      ? new Date(Date.now() + expiresInDays * 24 * 60 * 60 * 1000).toISOString()
+      : undefined,
+    maxUses,
+    uses: 0
+  };
+};
+
+/**
+ * Give a family a new code on behalf of a guardian signed in on
+ * `deviceId`, whose session carries on. Returns the updated family.
+ */
+export const rotateFamilyCode = (familyId, guardianId, deviceId, codeOptions) => {
+  const options = validateCodeOptions(codeOptions || {});
+  return replaceFamilyCode(familyId, () => createFamilyCode(options), (family, codeInfo) => {
+    const now = new Date().toISOString();
+    family.codeHistory = [
+      ...(family.codeHistory || []),
+      { previousCode: family.code, rotatedAt: now, rotatedBy: guardianId }
+    ];
+    family.code = codeInfo.code;
+    family.codeInfo = codeInfo;
+    family.lastActive = now;
+    endDeviceSessions(family, { deviceId, memberId: guardianId });
+    return family;
+  });
+};
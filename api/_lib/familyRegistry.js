@@ -0,0 +1,144 @@
+/**
+ * ============================================================================
+ * KIDS CALL HOME - Family Registry Store
+ * ============================================================================
+ *
+ * Purpose: Server-side persistence for family records
+ * Technology: registryStore (JSON file, or Redis on Vercel)
+ *
+ * Features:
+ * - Create, lookup (by id or code), update and delete families
+ * - Family code uniqueness across all stored families
+ * - Serialized writes so concurrent requests can't clobber each other,
+ *   retried when another function instance saved first
+ * - In-place updates of one family for server-side checks
+ *
+ * Last Updated: 2024-09-09
+ * ============================================================================
+ */
+
+import { RegistryError, getRegistryStore } from './registryStore.js';
+
+export { RegistryError };
+
+// Saves that find another instance got there first start over on fresh data
+const MAX_SAVE_ATTEMPTS = 5;
+
+// Give up looking for an unused family code after this many collisions
+const MAX_CODE_ATTEMPTS = 10;
+
+// Chain of pending writes - each mutation waits for the previous one
+let writeQueue = Promise.resolve();
+
+const readFamilies = async () => (await getRegistryStore().load()).families;
+
+const mutate = (mutation) => {
+  const run = writeQueue.then(async () => {
+    const store = getRegistryStore();
+    for (let attempt = 1; ; attempt++) {
+      const { families, version } = await store.load();
+      const result = await mutation(families);
+      if (await store.save(families, version)) return result;
+      if (attempt >= MAX_SAVE_ATTEMPTS) {
+        throw new RegistryError(503, 'The family registry is busy. Please try again.');
+      }
+    }
+  });
+  // Keep the queue alive even if this mutation fails
+  writeQueue = run.catch(() => undefined);
+  return run;
+};
+
+const normalizeCode = (code) => String(code).trim().toUpperCase();
+
+const isCodeTaken = (families, code, exceptFamilyId) =>
+  Object.values(families).some(
+    family => family.id !== exceptFamilyId && normalizeCode(family.code) === normalizeCode(code)
+  );
+
+/**
+ * Find a family by its id
+ */
+export const getFamilyById = async (familyId) => {
+  const families = await readFamilies();
+  return families[familyId] || null;
+};
+
+/**
+ * Find a family by its (case-insensitive) family code
+ */
+export const getFamilyByCode = async (code) => {
+  const families = await readFamilies();
+  return Object.values(families).find(
+    family => normalizeCode(family.code) === normalizeCode(code)
+  ) || null;
+};
+
+/**
+ * Store a brand new family
+ */
+export const createFamily = (family) => mutate((families) => {
+  if (families[family.id]) {
+    throw new RegistryError(409, `Family ${family.id} already exists`);
+  }
+  if (isCodeTaken(families, family.code)) {
+    throw new RegistryError(409, 'Family code is already in use');
+  }
+  families[family.id] = family;
+  return family;
+});
+
+/**
+ * Replace a family record, creating it if it doesn't exist yet. `merge`
+ * gets the incoming and stored records and returns the one to keep, so
+ * server-owned fields can be carried over inside the write queue.
+ */
+export const saveFamily = (family, merge = (incoming) => incoming) => mutate((families) => {
+  if (isCodeTaken(families, family.code, family.id)) {
+    throw new RegistryError(409, 'Family code is already in use');
+  }
+  const stored = families[family.id] || null;
+  families[family.id] = merge(family, stored);
+  return { family: families[family.id], created: !stored };
+});
+
+/**
+ * Change one stored family in place and return what the update returns.
+ * Runs inside the write queue, so read-check-write steps like counting
+ * failed PIN attempts can't interleave.
+ */
+export const updateFamily = (familyId, update) => mutate(async (families) => {
+  const family = families[familyId];
+  if (!family) {
+    throw new RegistryError(404, 'Family not found');
+  }
+  return update(family);
+});
+
+/**
+ * Give a stored family a new code that no family is using. `createCode`
+ * makes a candidate code; `update` gets the family and the chosen code
+ * and applies it, in the same write.
+ */
+export const replaceFamilyCode = (familyId, createCode, update) => mutate(async (families) => {
+  const family = families[familyId];
+  if (!family) {
+    throw new RegistryError(404, 'Family not found');
+  }
+  for (let attempt = 0; attempt < MAX_CODE_ATTEMPTS; attempt++) {
+    const codeInfo = createCode();
+    if (!isCodeTaken(families, codeInfo.code)) return update(family, codeInfo);
+  }
+  throw new RegistryError(503, 'Could not find an unused family code. Please try again.');
+});
+
+/**
+ * Remove a family record
+ */
+export const deleteFamily = (familyId) => mutate((families) => {
+  if (!families[familyId]) {
+    throw new RegistryError(404, 'Family not found');
+  }
+  delete families[familyId];
+  return true;
+});
@@ -0,0 +1,315 @@
+/**
+ * ============================================================================
+ * KIDS CALL HOME - Local Pusher Broker
+ * ============================================================================
+ *
+ * Purpose: In-process stand-in for Pusher, so the app runs end-to-end offline
+ * Technology: Node http + ws, speaking the Pusher Channels protocol (v7)
+ *
+ * Features:
+ * - HTTP events API (POST /apps/:appId/events) used by the Pusher server SDK,
+ *   with the same request signing checks as Pusher
+ * - WebSocket endpoint (/app/:key) that pusher-js connects to
+ * - Public, private and presence channels; private and presence
+ *   subscriptions must carry a valid channel signature
+ * - Presence members added/removed once per user, however many connections
+ * - onPresenceChange in place of Pusher's presence webhooks
+ *
+ * Started by dev-server.js when PUSHER_LOCAL=true. Not for production - there
+ * is one process, no persistence and no rate limiting.
+ *
+ * Last Updated: 2024-09-09
+ * ============================================================================
+ */
+
+import { createHash, createHmac, randomInt, timingSafeEqual } from 'crypto';
+import { createServer } from 'http';
+import { WebSocketServer } from 'ws';
+
+const ACTIVITY_TIMEOUT_SECONDS = 120;
+const PING_INTERVAL_MS = 30 * 1000;
+// Pusher rejects signed requests more than 10 minutes old
+const MAX_REQUEST_AGE_SECONDS = 600;
+const MAX_EVENT_BODY_BYTES = 64 * 1024;
+
+// Pusher protocol close/error codes
+const ERROR_APP_NOT_FOUND = 4001;
+const ERROR_UNAUTHORIZED = 4009;
+
+const hmac = (secret, data) => createHmac('sha256', secret).update(data).digest('hex');
+
+const safeEqual = (a, b) => {
+  const left = Buffer.from(String(a));
+  const right = Buffer.from(String(b));
+  return left.length === right.length && timingSafeEqual(left, right);
+};
+
+// Pusher sends event data as a JSON string inside the JSON frame
+const frame = (event, data, channel) =>
+  JSON.stringify({ event, ...(channel ? { channel } : {}), data: typeof data === 'string' ? data : JSON.stringify(data) });
+
+const send = (socket, message) => {
+  if (socket.readyState === socket.OPEN) {
+    socket.send(message);
+  }
+};
+
+const readBody = (req) => new Promise((resolve, reject) => {
+  const chunks = [];
+  let size = 0;
+  req.on('data', chunk => {
+    size += chunk.length;
+    if (size > MAX_EVENT_BODY_BYTES) {
+      reject(new Error('Request body too large'));
+      req.destroy();
+      return;
+    }
+    chunks.push(chunk);
+  });
+  req.on('end', () => resolve(Buffer.concat(chunks).toString('utf8')));
+  req.on('error', reject);
+});
+
+/**
+ * Start the broker on its own port, like a separate Pusher host.
+ * onPresenceChange({ channel, userId, isOnline }) is called where Pusher
+ * would send a member_added or member_removed webhook.
+ */
+export const startLocalPusherBroker = ({ appId, key, secret, port, onPresenceChange = () => {} }) => {
+  // channel name -> Set of sockets, and socket -> { socketId, channels: Map(name -> presence member or null) }
+  const channels = new Map();
+  const connections = new Map();
+
+  const presenceMembers = (channelName) => {
+    const members = new Map();
+    for (const socket of channels.get(channelName) || []) {
+      const member = connections.get(socket).channels.get(channelName);
+      if (member) members.set(member.user_id, member.user_info ?? null);
+    }
+    return members;
+  };
+
+  const publish = (channelName, message, except) => {
+    for (const socket of channels.get(channelName) || []) {
+      if (socket !== except) send(socket, message);
+    }
+  };
+
+  // Check a private/presence subscription signature made by authorizeChannel()
+  const isAuthorized = (socketId, channelName, auth, channelData) => {
+    const [authKey, signature] = String(auth || '').split(':');
+    const signed = channelName.startsWith('presence-')
+      ? `${socketId}:${channelName}:${channelData}`
+      : `${socketId}:${channelName}`;
+    return authKey === key && !!signature && safeEqual(signature, hmac(secret, signed));
+  };
+
+  const subscribe = (socket, { channel: channelName, auth, channel_data: channelData }) => {
+    const connection = connections.get(socket);
+    if (typeof channelName !== 'string' || !channelName) return;
+    if (connection.channels.has(channelName)) return;
+
+    const isPresence = channelName.startsWith('presence-');
+    if ((isPresence || channelName.startsWith('private-')) &&
+        !isAuthorized(connection.socketId, channelName, auth, channelData)) {
+      send(socket, frame('pusher:subscription_error', {
+        type: 'AuthError',
+        error: `Invalid signature for ${channelName}`,
+        status: 401
+      }, channelName));
+      return;
+    }
+
+    let member = null;
+    if (isPresence) {
+      try {
+        member = JSON.parse(channelData);
+      } catch {
+        member = null;
+      }
+      if (!member || member.user_id === undefined) {
+        send(socket, frame('pusher:error', { code: ERROR_UNAUTHORIZED, message: 'Presence channels need channel_data with a user_id' }));
+        return;
+      }
+      member.user_id = String(member.user_id);
+    }
+
+    const wasMember = member && presenceMembers(channelName).has(member.user_id);
+    if (!channels.has(channelName)) channels.set(channelName, new Set());
+    channels.get(channelName).add(socket);
+    connection.channels.set(channelName, member);
+
+    if (isPresence) {
+      if (!wasMember) {
+        publish(channelName, frame('pusher_internal:member_added', member, channelName), socket);
+        onPresenceChange({ channel: channelName, userId: member.user_id, isOnline: true });
+      }
+      const members = presenceMembers(channelName);
+      send(socket, frame('pusher_internal:subscription_succeeded', {
+        presence: { ids: [...members.keys()], hash: Object.fromEntries(members), count: members.size }
+      }, channelName));
+    } else {
+      send(socket, frame('pusher_internal:subscription_succeeded', {}, channelName));
+    }
+  };
+
+  const unsubscribe = (socket, channelName) => {
+    const connection = connections.get(socket);
+    if (!connection || !connection.channels.has(channelName)) return;
+
+    const member = connection.channels.get(channelName);
+    connection.channels.delete(channelName);
+    const subscribers = channels.get(channelName);
+    subscribers.delete(socket);
+    if (subscribers.size === 0) channels.delete(channelName);
+
+    if (member && !presenceMembers(channelName).has(member.user_id)) {
+      publish(channelName, frame('pusher_internal:member_removed', { user_id: member.user_id }, channelName));
+      onPresenceChange({ channel: channelName, userId: member.user_id, isOnline: false });
+    }
+  };
+
+  const reply = (res, status, body) => {
+    res.writeHead(status, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(body));
+  };
+
+  // Handle POST /apps/:appId/events from the Pusher server SDK
+  const handleEvents = async (req, res, url) => {
+    const body = await readBody(req);
+    const params = Object.fromEntries(url.searchParams);
+    const { auth_signature: signature, ...signedParams } = params;
+
+    const queryString = Object.keys(signedParams).sort().map(name => `${name}=${signedParams[name]}`).join('&');
+    const expected = hmac(secret, ['POST', url.pathname, queryString].join('\n'));
+    const age = Math.abs(Date.now() / 1000 - Number(params.auth_timestamp));
+
+    if (params.auth_key !== key || !signature || !safeEqual(signature, expected)) {
+      return reply(res, 401, { error: 'Invalid signature' });
+    }
+    if (!(age <= MAX_REQUEST_AGE_SECONDS)) {
+      return reply(res, 401, { error: 'Timestamp expired' });
+    }
+    if (body && params.body_md5 !== createHash('md5').update(body, 'utf8').digest('hex')) {
+      return reply(res, 401, { error: 'Body MD5 does not match' });
+    }
+
+    let event;
+    try {
+      event = JSON.parse(body);
+    } catch {
+      return reply(res, 400, { error: 'Body must be JSON' });
+    }
+
+    const targets = event.channels || (event.channel ? [event.channel] : []);
+    if (typeof event.name !== 'string' || !Array.isArray(targets) || targets.length === 0) {
+      return reply(res, 400, { error: 'Missing event name or channels' });
+    }
+
+    // socket_id excludes the connection that caused the event, as on Pusher
+    const except = [...connections].find(([, connection]) => connection.socketId === event.socket_id)?.[0];
+    for (const channelName of targets) {
+      publish(channelName, frame(event.name, event.data ?? '', channelName), except);
+    }
+    return reply(res, 200, {});
+  };
+
+  const server = createServer((req, res) => {
+    const url = new URL(req.url, 'http://localhost');
+    if (req.method === 'POST' && url.pathname === `/apps/${appId}/events`) {
+      handleEvents(req, res, url).catch(error => {
+        console.error('Local Pusher broker error:', error);
+        if (!res.headersSent) reply(res, 500, { error: error.message });
+      });
+      return;
+    }
+    reply(res, 404, { error: 'Not found' });
+  });
+
+  const wss = new WebSocketServer({ noServer: true });
+
+  server.on('upgrade', (req, socket, head) => {
+    const { pathname } = new URL(req.url, 'http://localhost');
+    if (!pathname.startsWith('/app/')) {
+      socket.destroy();
+      return;
+    }
+    wss.handleUpgrade(req, socket, head, ws => wss.emit('connection', ws, pathname.slice('/app/'.length)));
+  });
+
+  wss.on('connection', (socket, appKey) => {
+    if (appKey !== key) {
+      send(socket, frame('pusher:error', { code: ERROR_APP_NOT_FOUND, message: `App key ${appKey} not in this broker` }));
+      socket.close(ERROR_APP_NOT_FOUND, 'App key not found');
+      return;
+    }
+
+    const socketId = `${randomInt(1e9)}.${randomInt(1e9)}`;
+    const connection = { socketId, channels: new Map(), alive: true };
+    connections.set(socket, connection);
+    send(socket, frame('pusher:connection_established', { socket_id: socketId, activity_timeout: ACTIVITY_TIMEOUT_SECONDS }));
+
+    socket.on('pong', () => {
+      connection.alive = true;
+    });
+
+    socket.on('message', (raw) => {
+      let message;
+      try {
+        message = JSON.parse(raw.toString());
+      } catch {
+        return;
+      }
+      if (!message || typeof message !== 'object') return;
+
+      const data = message.data && typeof message.data === 'object' ? message.data : {};
+      switch (message.event) {
+        case 'pusher:subscribe':
+          subscribe(socket, data);
+          break;
+        case 'pusher:unsubscribe':
+          unsubscribe(socket, data.channel);
+          break;
+        case 'pusher:ping':
+          send(socket, frame('pusher:pong', {}));
+          break;
+        case 'pusher:pong':
+          break;
+        default:
+          // The app never sends client events, so they stay disabled
+          if (typeof message.event === 'string' && message.event.startsWith('client-')) {
+            send(socket, frame('pusher:error', { code: null, message: 'Client events are not enabled' }));
+          }
+      }
+    });
+
+    socket.on('close', () => {
+      [...connection.channels.keys()].forEach(channelName => unsubscribe(socket, channelName));
+      connections.delete(socket);
+    });
+
+    socket.on('error', (error) => {
+      console.warn('Local Pusher client error:', error.message);
+    });
+  });
+
+  // Drop connections that stopped answering pings, so presence stays accurate
+  const pingInterval = setInterval(() => {
+    for (const [socket, connection] of connections) {
+      if (!connection.alive) {
+        socket.terminate();
+        continue;
+      }
+      connection.alive = false;
+      socket.ping();
+    }
+  }, PING_INTERVAL_MS);
+
+  server.on('close', () => clearInterval(pingInterval));
+
+  server.listen(port, () => {
+    console.log(`🧪 Local Pusher broker running on ws://localhost:${port} (app ${appId}, key ${key})`);
+  });
+
+  return server;
+};
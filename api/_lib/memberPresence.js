@@ -0,0 +1,62 @@
+/**
+ * ============================================================================
+ * KIDS CALL HOME - Member Presence
+ * ============================================================================
+ *
+ * Purpose: Keep members' online status and last-seen time in the registry
+ * Technology: family registry
+ *
+ * Features:
+ * - Recorded when a member's first device joins the family channel and
+ *   when their last device leaves it (Pusher webhook, local broker or
+ *   WebSocket signaling)
+ * - Presence devices send in family records is ignored - only the
+ *   signaling server knows when a member really left
+ *
+ * Last Updated: 2024-09-09
+ * ============================================================================
+ */
+
+import { RegistryError, updateFamily } from './familyRegistry.js';
+
+const findMember = (family, memberId) =>
+  (family.guardians || []).find(g => g.id === memberId) ||
+  (family.children || []).find(c => c.id === memberId);
+
+/**
+ * Record a member coming online or going offline. Families or members that
+ * have since been removed are skipped.
+ */
+export const recordMemberPresence = async (familyId, memberId, isOnline, at = new Date()) => {
+  try {
+    await updateFamily(familyId, (family) => {
+      const member = findMember(family, memberId);
+      if (member) {
+        member.isOnline = isOnline;
+        member.lastSeen = at.toISOString();
+      }
+      return family;
+    });
+  } catch (error) {
+    if (!(error instanceof RegistryError && error.status === 404)) throw error;
+  }
+};
+
+/**
+ * Keep the stored presence on a family record sent by a device. Members
+ * the registry doesn't know yet keep what the device sent.
+ */
+export const withStoredPresence = (family, stored) => {
+  const keep = (member) => {
+    const storedMember = stored && findMember(stored, member.id);
+    return storedMember
+      ? { ...member, isOnline: storedMember.isOnline, lastSeen: storedMember.lastSeen }
+      : member;
+  };
+
+  return {
+    ...family,
+    guardians: family.guardians.map(keep),
+    children: family.children.map(keep)
+  };
+};
@@ -0,0 +1,187 @@
+/**
+ * ============================================================================
+ * KIDS CALL HOME - Member Secrets
+ * ============================================================================
+ *
+ * Purpose: Check and set members' PINs and picture passwords on the server
+ * Technology: bcryptjs, family registry
+ *
+ * Features:
+ * - bcrypt hashes that never leave the server
+ * - Failed-attempt counter and temporary lockout kept in the registry
+ * - Public copies of family records with the hashes removed
+ *
+ * Last Updated: 2024-09-09
+ * ============================================================================
+ */
+
+import bcrypt from 'bcryptjs';
+import { RegistryError, updateFamily } from './familyRegistry.js';
+
+export const MAX_FAILED_ATTEMPTS = 5;
+export const LOCKOUT_MINUTES = 5;
+
+const BCRYPT_ROUNDS = 10;
+const PIN_PATTERN = /^\d{4,8}$/;
+
+// Same pictures and length as the picture pad (src/services/memberCredentialService.ts)
+const PICTURE_PASSWORD_PICTURES = ['🐶', '🐱', '🦁', '🐸', '🐵', '🦄', '🍎', '⚽', '🚀', '🌈', '⭐', '🌻'];
+const PICTURE_PASSWORD_LENGTH = 3;
+
+const findMember = (family, memberId) => {
+  const guardian = (family.guardians || []).find(g => g.id === memberId);
+  if (guardian) return { member: guardian, memberType: 'guardian' };
+  const child = (family.children || []).find(c => c.id === memberId);
+  return child ? { member: child, memberType: 'child' } : null;
+};
+
+/**
+ * Which secret (if any) a member must enter after the family code
+ */
+export const getSecretKind = (member) => {
+  if (member.credentials?.pinHash) return 'pin';
+  if (member.credentials?.picturePasswordHash) return 'picture';
+  return null;
+};
+
+const isValidSecret = (kind, secret) => {
+  if (typeof secret !== 'string') return false;
+  if (kind === 'pin') return PIN_PATTERN.test(secret);
+  const pictures = secret.split(' ');
+  return pictures.length === PICTURE_PASSWORD_LENGTH &&
+    pictures.every(picture => PICTURE_PASSWORD_PICTURES.includes(picture));
+};
+
+const getLockedMessage = (kind, lockedUntil) => {
+  const minutes = Math.max(1, Math.ceil((lockedUntil.getTime() - Date.now()) / 60000));
+  return kind === 'pin'
+    ? `Too many wrong PINs. Please try again in ${minutes} minute${minutes === 1 ? '' : 's'}.`
+    : `Too many wrong tries. Please wait ${minutes} minute${minutes === 1 ? '' : 's'} or ask a parent for help.`;
+};
+
+/**
+ * Check a member's secret, counting failures and locking the member out
+ * after too many. Members without a secret always pass.
+ */
+export const verifyMemberSecret = (familyId, memberId, secret) => updateFamily(familyId, async (family) => {
+  const found = findMember(family, memberId);
+  if (!found) {
+    throw new RegistryError(404, 'Member not found');
+  }
+
+  const credentials = found.member.credentials;
+  const kind = getSecretKind(found.member);
+  if (!credentials || !kind) {
+    return { success: true };
+  }
+
+  const lockedUntil = credentials.lockedUntil ? new Date(credentials.lockedUntil) : null;
+  if (lockedUntil && lockedUntil.getTime() > Date.now()) {
+    return { success: false, error: getLockedMessage(kind, lockedUntil), secretRequired: kind, lockedUntil };
+  }
+
+  if (!secret) {
+    return {
+      success: false,
+      error: kind === 'pin' ? 'Please enter your PIN.' : 'Please tap your secret pictures.',
+      secretRequired: kind
+    };
+  }
+
+  const hash = kind === 'pin' ? credentials.pinHash : credentials.picturePasswordHash;
+  if (await bcrypt.compare(String(secret), hash)) {
+    credentials.failedAttempts = 0;
+    delete credentials.lockedUntil;
+    return { success: true };
+  }
+
+  credentials.failedAttempts = (credentials.failedAttempts || 0) + 1;
+  if (credentials.failedAttempts >= MAX_FAILED_ATTEMPTS) {
+    const until = new Date(Date.now() + LOCKOUT_MINUTES * 60 * 1000);
+    credentials.failedAttempts = 0;
+    credentials.lockedUntil = until.toISOString();
+    return { success: false, error: getLockedMessage(kind, until), secretRequired: kind, lockedUntil: until };
+  }
+
+  const attemptsLeft = MAX_FAILED_ATTEMPTS - credentials.failedAttempts;
+  return {
+    success: false,
+    error: kind === 'pin'
+      ? `That PIN is not right. ${attemptsLeft} ${attemptsLeft === 1 ? 'try' : 'tries'} left.`
+      : `Those pictures are not right. ${attemptsLeft} ${attemptsLeft === 1 ? 'try' : 'tries'} left.`,
+    secretRequired: kind
+  };
+});
+
+/**
+ * Set or clear a member's secret. Guardians get a PIN, children a picture
+ * password (pictures joined with spaces).
+ */
+export const setMemberSecret = async (familyId, memberId, secret) => {
+  const hash = secret === null ? null : await bcrypt.hash(String(secret), BCRYPT_ROUNDS);
+
+  return updateFamily(familyId, (family) => {
+    const found = findMember(family, memberId);
+    if (!found) {
+      throw new RegistryError(404, 'Member not found');
+    }
+
+    const kind = found.memberType === 'guardian' ? 'pin' : 'picture';
+    if (secret === null) {
+      delete found.member.credentials;
+    } else if (!isValidSecret(kind, secret)) {
+      throw new RegistryError(400, kind === 'pin'
+        ? 'PIN must be 4 to 8 digits'
+        : `Picture passwords need exactly ${PICTURE_PASSWORD_LENGTH} pictures`);
+    } else {
+      found.member.credentials = kind === 'pin'
+        ? { pinHash: hash, failedAttempts: 0 }
+        : { picturePasswordHash: hash, failedAttempts: 0 };
+    }
+    return family;
+  });
+};
+
+/**
+ * Credentials as devices see them: which kind of secret, and any lockout
+ */
+const toPublicCredentials = (member) => {
+  const kind = getSecretKind(member);
+  if (!kind) {
+    const { credentials: _credentials, ...rest } = member;
+    return rest;
+  }
+  const { lockedUntil } = member.credentials;
+  return { ...member, credentials: lockedUntil ? { kind, lockedUntil } : { kind } };
+};
+
+/**
+ * Copy of a family record that is safe to send to devices
+ */
+export const toPublicFamily = (family) => ({
+  ...family,
+  guardians: (family.guardians || []).map(toPublicCredentials),
+  children: (family.children || []).map(toPublicCredentials)
+});
+
+/**
+ * Keep the stored credentials on a family record sent by a device. Devices
+ * never see the hashes, so whatever credentials they send are ignored.
+ */
+export const withStoredCredentials = (family, stored) => {
+  const storedCredentials = (memberId) => {
+    const found = stored && findMember(stored, memberId);
+    return found ? found.member.credentials : undefined;
+  };
+  const keep = (member) => {
+    const { credentials: _credentials, ...rest } = member;
+    const credentials = storedCredentials(member.id);
+    return credentials ? { ...rest, credentials } : rest;
+  };
+
+  return {
+    ...family,
+    guardians: family.guardians.map(keep),
+    children: family.children.map(keep)
+  };
+};
@@ -0,0 +1,76 @@
+/**
+ * ============================================================================
+ * KIDS CALL HOME - Pusher Server Client
+ * ============================================================================
+ *
+ * Purpose: One server-side Pusher client for the API handlers
+ * Technology: Pusher server SDK
+ *
+ * Features:
+ * - Created on first use, so dev-server.js can load .env first
+ * - Event triggering with a consistent error
+ * - PUSHER_LOCAL=true points it at the local broker (see localPusherBroker.js)
+ *
+ * Last Updated: 2024-09-09
+ * ============================================================================
+ */
+
+import Pusher from 'pusher';
+
+export const DEFAULT_LOCAL_PUSHER_PORT = 6001;
+
+let pusher = null;
+
+/**
+ * Whether signaling goes through the local broker instead of Pusher
+ */
+export const isLocalPusher = () => process.env.PUSHER_LOCAL === 'true';
+
+/**
+ * Pusher credentials and host. The local broker uses fixed development
+ * credentials, so it works alongside a .env set up for real Pusher.
+ */
+export const getPusherConfig = () => {
+  if (isLocalPusher()) {
+    return {
+      appId: 'local-app',
+      key: 'local-key',
+      secret: 'local-secret',
+      host: 'localhost',
+      port: Number(process.env.PUSHER_LOCAL_PORT) || DEFAULT_LOCAL_PUSHER_PORT,
+      useTLS: false
+    };
+  }
+
+  return {
+    appId: process.env.PUSHER_APP_ID,
+    key: process.env.PUSHER_KEY,
+    secret: process.env.PUSHER_SECRET,
+    cluster: process.env.PUSHER_CLUSTER,
+    useTLS: true
+  };
+};
+
+/**
+ * Get the shared Pusher client
+ */
+export const getPusher = () => {
+  if (!pusher) {
+    const { port, ...config } = getPusherConfig();
+    pusher = new Pusher(port ? { ...config, port: String(port) } : config);
+  }
+  return pusher;
+};
+
+/**
+ * Send an event to a channel
+ */
+export const sendPusherEvent = async (channel, event, data) => {
+  try {
+    await getPusher().trigger(channel, event, data);
+    return { success: true };
+  } catch (error) {
+    console.error('Pusher error:', error);
+    throw new Error('Failed to send signaling message');
+  }
+};
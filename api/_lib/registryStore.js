@@ -0,0 +1,112 @@
+/**
+ * ============================================================================
+ * KIDS CALL HOME - Family Registry Storage
+ * ============================================================================
+ *
+ * Purpose: Where the family registry keeps its records
+ * Technology: JSON file, or Redis over REST (Vercel KV / Upstash)
+ *
+ * Features:
+ * - File store for servers with a persistent disk (dev-server.js)
+ * - Redis store for Vercel, whose functions have no persistent disk -
+ *   used when KV_REST_API_URL and KV_REST_API_TOKEN are set
+ * - Versioned saves, so a write from another function instance in
+ *   between is detected and the registry can retry on fresh data
+ *
+ * Last Updated: 2024-09-09
+ * ============================================================================
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+
+// Error carrying the HTTP status the API layer should respond with
+export class RegistryError extends Error {
+  constructor(status, message) {
+    super(message);
+    this.name = 'RegistryError';
+    this.status = status;
+  }
+}
+
+const REDIS_FAMILIES_KEY = 'kids-call-home:families';
+const REDIS_VERSION_KEY = 'kids-call-home:families:version';
+
+// Save only if nobody saved since we loaded (the version still matches)
+const REDIS_SAVE_SCRIPT = `
+if (redis.call('GET', KEYS[2]) or '0') ~= ARGV[1] then
+  return 0
+end
+redis.call('SET', KEYS[1], ARGV[2])
+redis.call('INCR', KEYS[2])
+return 1
+`;
+
+/**
+ * A JSON file on local disk. Writes are serialized by the registry's
+ * queue in this process, so every save succeeds.
+ */
+const createFileStore = (registryFile) => ({
+  async load() {
+    try {
+      const contents = await fs.readFile(registryFile, 'utf8');
+      return { families: JSON.parse(contents), version: null };
+    } catch (error) {
+      if (error.code === 'ENOENT') return { families: {}, version: null };
+      throw error;
+    }
+  },
+
+  async save(families) {
+    await fs.mkdir(path.dirname(registryFile), { recursive: true });
+    const tempFile = `${registryFile}.${process.pid}.tmp`;
+    await fs.writeFile(tempFile, JSON.stringify(families, null, 2));
+    await fs.rename(tempFile, registryFile);
+    return true;
+  }
+});
+
+/**
+ * Redis over its REST API (what Vercel KV and Upstash provide)
+ */
+const createRedisStore = ({ url, token }) => {
+  const command = async (...args) => {
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: { Authorization: `Bearer ${token}`, 'Content-Type': 'application/json' },
+      body: JSON.stringify(args)
+    });
+    const body = await response.json().catch(() => ({}));
+    if (!response.ok || body.error) {
+      throw new Error(`Registry storage error: ${body.error || response.status}`);
+    }
+    return body.result;
+  };
+
+  return {
+    async load() {
+      const [contents, version] = await command('MGET', REDIS_FAMILIES_KEY, REDIS_VERSION_KEY);
+      return { families: contents ? JSON.parse(contents) : {}, version: version || '0' };
+    },
+
+    async save(families, version) {
+      const saved = await command('EVAL', REDIS_SAVE_SCRIPT, '2', REDIS_FAMILIES_KEY, REDIS_VERSION_KEY, version, JSON.stringify(families));
+      return saved === 1;
+    }
+  };
+};
+
+/**
+ * The store for this deployment. Vercel functions must use Redis - each
+ * instance's disk is temporary, so families would silently disappear.
+ */
+export const getRegistryStore = () => {
+  const { KV_REST_API_URL: url, KV_REST_API_TOKEN: token } = process.env;
+  if (url && token) {
+    return createRedisStore({ url, token });
+  }
+  if (process.env.VERCEL) {
+    throw new RegistryError(503, 'Family registry storage is not configured. Connect a Vercel KV (Upstash Redis) store, see VERCEL_DEPLOYMENT.md.');
+  }
+  return createFileStore(process.env.FAMILY_REGISTRY_FILE || path.join(process.cwd(), '.data', 'families.json'));
+};
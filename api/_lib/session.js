@@ -0,0 +1,229 @@
+/**
+ * ============================================================================
+ * KIDS CALL HOME - Session Tokens
+ * ============================================================================
+ *
+ * Purpose: Signed session tokens proving which family member a device is
+ * Technology: HMAC-SHA256 (node:crypto), family registry
+ *
+ * Features:
+ * - Tokens carry familyId, memberId and deviceId and expire after 30 days.
+ *   The first one is issued by /api/sign-in (or when a family is created)
+ * - Bearer token parsing for API handlers, with a family-scoped check
+ * - Pairing tokens for devices waiting for approval, which only let the
+ *   device check its own status
+ * - Device checks against the registry, so revoking a device (or ending
+ *   its sessions, see endDeviceSessions) takes effect immediately rather
+ *   than when its token expires
+ * - Signaling message checks shared by the HTTP and WebSocket servers
+ *
+ * Last Updated: 2024-09-09
+ * ============================================================================
+ */
+
+import { createHmac, timingSafeEqual } from 'crypto';
+import { getFamilyById } from './familyRegistry.js';
+import { getPusherConfig } from './pusherServer.js';
+import { GUARDIAN_ONLY_ACTIONS, validateSignalingMessage } from './signalingProtocol.js';
+
+// Tokens are a device's sign-in, so they last a while; revoking the device
+// still ends them at once because every use re-checks the registry
+export const SESSION_TTL_SECONDS = 30 * 24 * 60 * 60;
+
+// A pending device polls for approval with its pairing token until a
+// guardian gets to it, and signs in again for a new one after a day
+const PAIRING_TOKEN_TTL_SECONDS = 24 * 60 * 60;
+
+// Sent with a 403 when the device can't be used for the family any more
+// (revoked, or its member or family removed), so the app signs it out
+export const DEVICE_REVOKED = 'device-revoked';
+
+// Error carrying the HTTP status (and optionally an error code) the API
+// layer should respond with
+export class SessionError extends Error {
+  constructor(status, message, code) {
+    super(message);
+    this.name = 'SessionError';
+    this.status = status;
+    this.code = code;
+  }
+}
+
+// Deployments without SESSION_SECRET fall back to the Pusher secret,
+// which is already private to the server (or the local broker's one)
+const getSecret = () => {
+  const secret = process.env.SESSION_SECRET || getPusherConfig().secret;
+  if (!secret) {
+    throw new Error('SESSION_SECRET is not configured');
+  }
+  return secret;
+};
+
+const sign = (payload) => createHmac('sha256', getSecret()).update(payload).digest('base64url');
+
+const signClaims = (claims) => {
+  const payload = Buffer.from(JSON.stringify(claims)).toString('base64url');
+  return `${payload}.${sign(payload)}`;
+};
+
+/**
+ * Issue a token for a member signed in on a device. `epoch` is the
+ * device's current session epoch.
+ */
+export const issueSessionToken = ({ familyId, memberId, deviceId, epoch = 0 }) => {
+  const issuedAt = Math.floor(Date.now() / 1000);
+  const claims = { familyId, memberId, deviceId, epoch, iat: issuedAt, exp: issuedAt + SESSION_TTL_SECONDS };
+
+  return {
+    token: signClaims(claims),
+    expiresAt: new Date(claims.exp * 1000).toISOString()
+  };
+};
+
+/**
+ * Issue a pairing token for a device waiting for a guardian's approval
+ */
+export const issuePairingToken = ({ familyId, memberId, deviceId }) => {
+  const issuedAt = Math.floor(Date.now() / 1000);
+  return signClaims({ kind: 'pairing', familyId, memberId, deviceId, iat: issuedAt, exp: issuedAt + PAIRING_TOKEN_TTL_SECONDS });
+};
+
+// Check a token's signature and expiry, returning its claims
+const verifyToken = (token) => {
+  const [payload, signature] = String(token).split('.');
+  if (!payload || !signature) {
+    throw new SessionError(401, 'Malformed session token');
+  }
+
+  const expected = Buffer.from(sign(payload));
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+    throw new SessionError(401, 'Invalid session token');
+  }
+
+  let claims;
+  try {
+    claims = JSON.parse(Buffer.from(payload, 'base64url').toString('utf8'));
+  } catch {
+    throw new SessionError(401, 'Malformed session token');
+  }
+
+  if (typeof claims.exp !== 'number' || claims.exp * 1000 <= Date.now()) {
+    throw new SessionError(401, 'Session token has expired');
+  }
+  return claims;
+};
+
+/**
+ * Check a session token's signature and expiry, returning its claims
+ */
+export const verifySessionToken = (token) => {
+  const claims = verifyToken(token);
+  if (claims.kind === 'pairing') {
+    throw new SessionError(401, 'Pairing tokens can only check a device\'s approval');
+  }
+  return claims;
+};
+
+// Helper function to read the bearer token on a request
+const getBearerToken = (req) => {
+  const header = (req.headers && req.headers.authorization) || '';
+  const match = /^Bearer\s+(\S+)$/i.exec(header);
+  if (!match) {
+    throw new SessionError(401, 'Missing session token');
+  }
+  return match[1];
+};
+
+/**
+ * Read and verify the session token on a request
+ */
+export const authenticateRequest = (req) => verifySessionToken(getBearerToken(req));
+
+/**
+ * Make sure a session's device is approved for a member of the family and
+ * the session hasn't been ended. Returns the family, the device and
+ * whether the member is a guardian or a child.
+ */
+export const requireApprovedDevice = async ({ familyId, memberId, deviceId, epoch = 0 }) => {
+  const family = await getFamilyById(familyId);
+  if (!family) {
+    throw new SessionError(403, 'Family not found', DEVICE_REVOKED);
+  }
+
+  const isGuardian = (family.guardians || []).some(guardian => guardian.id === memberId);
+  const isChild = (family.children || []).some(child => child.id === memberId);
+  if (!isGuardian && !isChild) {
+    throw new SessionError(403, 'Not a member of this family', DEVICE_REVOKED);
+  }
+
+  const device = (family.devices || []).find(
+    d => d.deviceId === deviceId && d.memberId === memberId
+  );
+  if (!device || device.status !== 'approved') {
+    throw new SessionError(403, 'Device is not approved for this member', DEVICE_REVOKED);
+  }
+  if (epoch !== (device.sessionEpoch || 0)) {
+    throw new SessionError(401, 'This sign-in has ended. Please sign in again.');
+  }
+
+  return { family, device, memberType: isGuardian ? 'guardian' : 'child' };
+};
+
+/**
+ * Authenticate a request for one family's data. Returns the session,
+ * the family and whether the member is a guardian or a child.
+ */
+export const requireFamilySession = async (req, familyId) => {
+  const session = authenticateRequest(req);
+  if (session.familyId !== familyId) {
+    throw new SessionError(403, 'Session is not for this family');
+  }
+  const { family, memberType } = await requireApprovedDevice(session);
+  return { session, family, memberType };
+};
+
+/**
+ * Authenticate a request for a device's approval status: the device's
+ * own pairing token, or a guardian's session for the family
+ */
+export const requireDeviceStatusAccess = async (req, { familyId, memberId, deviceId }) => {
+  const claims = verifyToken(getBearerToken(req));
+  if (claims.kind === 'pairing') {
+    if (claims.familyId !== familyId || claims.memberId !== memberId || claims.deviceId !== deviceId) {
+      throw new SessionError(403, 'Pairing token is for another device');
+    }
+    return;
+  }
+
+  const { memberType } = await requireFamilySession(req, familyId);
+  if (memberType !== 'guardian') {
+    throw new SessionError(403, 'Only guardians can check other devices');
+  }
+};
+
+/**
+ * Validate a signaling message and make sure this session may send it.
+ * Returns the message or throws SignalingValidationError/SessionError.
+ */
+export const authorizeSignalingMessage = async (session, body) => {
+  const message = validateSignalingMessage(body);
+
+  // The sender must be the device (and member) the session was issued to
+  if (message.familyId !== session.familyId) {
+    throw new SessionError(403, 'Session is not for this family');
+  }
+  if (message.fromDeviceId !== session.deviceId) {
+    throw new SessionError(403, 'fromDeviceId does not belong to this session');
+  }
+  if (message.data && message.data.fromMemberId !== undefined && message.data.fromMemberId !== session.memberId) {
+    throw new SessionError(403, 'fromMemberId does not belong to this session');
+  }
+
+  const { memberType } = await requireApprovedDevice(session);
+  if (GUARDIAN_ONLY_ACTIONS.includes(message.action) && memberType !== 'guardian') {
+    throw new SessionError(403, `Only guardians can send ${message.action}`);
+  }
+
+  return message;
+};
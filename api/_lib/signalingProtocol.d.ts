@@ -0,0 +1,87 @@
+/**
+ * ============================================================================
+ * KIDS CALL HOME - Signaling Protocol Types
+ * ============================================================================
+ *
+ * Purpose: Types for signalingProtocol.js, shared by the client
+ *
+ * Last Updated: 2024-09-09
+ * ============================================================================
+ */
+
+export declare const SIGNALING_PROTOCOL_VERSION: 6;
+export declare const MAX_SIGNALING_MESSAGE_BYTES: number;
+export declare const MAX_ICE_CANDIDATES_PER_MESSAGE: number;
+export declare const MAX_CALL_PARTICIPANTS: number;
+
+export type EndCallReason = 'completed' | 'missed' | 'declined' | 'cancelled' | 'timed-out' | 'failed';
+export declare const END_CALL_REASONS: EndCallReason[];
+
+export type EmergencyStatus = 'ringing' | 'answered' | 'unanswered' | 'cancelled';
+export declare const EMERGENCY_STATUSES: EmergencyStatus[];
+
+/**
+ * A numbered batch of trickle ICE candidates for one call
+ */
+export interface IceCandidateBatch {
+  callId: string;
+  generation?: number;        // ICE restarts so far (0 if omitted)
+  seq: number;
+  candidates: RTCIceCandidateInit[];
+  endOfCandidates?: boolean;  // No more candidates after this batch
+}
+
+/**
+ * A device in a group call and the member signed in on it
+ */
+export interface CallParticipantInfo {
+  memberId: string;
+  deviceId: string;
+}
+
+/**
+ * The data each action carries (undefined = no data)
+ */
+export interface SignalingDataByAction {
+  'offer': RTCSessionDescriptionInit;
+  'answer': RTCSessionDescriptionInit;
+  'ice-candidates': IceCandidateBatch;
+  'end-call': { reason?: EndCallReason; callId?: string };
+  'call-request': { callType: 'voice' | 'video'; callId: string; fromMemberId: string; participants?: CallParticipantInfo[] };
+  'call-accepted': { callId: string; fromMemberId: string };
+  'call-rejected': { callId: string; fromMemberId: string; reply?: string };
+  'call-cancelled': { callId: string; answeredBy?: string };  // Device that picked up
+  'participant-joined': { callId: string } & CallParticipantInfo;
+  'call-hold': { callId: string; held: boolean };
+  'family-code-rotated': undefined;
+  'device-revoked': { deviceId: string; memberId: string };
+  'emergency-alert': { eventId: string; fromMemberId: string; status: EmergencyStatus; startedAt: string; answeredBy?: string };
+  'chat-message': { messageId: string; fromMemberId: string; text: string };
+}
+
+export type SignalingAction = keyof SignalingDataByAction;
+export declare const SIGNALING_ACTIONS: SignalingAction[];
+export declare const GUARDIAN_ONLY_ACTIONS: SignalingAction[];
+
+export interface SignalingMessage<A extends SignalingAction = SignalingAction> {
+  version: typeof SIGNALING_PROTOCOL_VERSION;
+  action: A;
+  fromDeviceId: string;
+  toDeviceId: string;
+  familyId: string;
+  data?: SignalingDataByAction[A];
+}
+
+export declare class SignalingValidationError extends Error {
+  status: number;
+  constructor(status: number, message: string);
+}
+
+export declare function validateSignalingMessage(body: unknown): SignalingMessage;
+
+export declare function familyChannelName(familyId: string): string;
+
+export declare function toPusherEvent(
+  message: SignalingMessage,
+  timestamp: string
+): { event: string; payload: Record<string, unknown> };
@@ -0,0 +1,388 @@
+/**
+ * ============================================================================
+ * KIDS CALL HOME - Signaling Protocol
+ * ============================================================================
+ *
+ * Purpose: One definition of the signaling messages for client and server
+ * Technology: Plain ES module (typed by signalingProtocol.d.ts)
+ *
+ * Features:
+ * - Protocol version carried on every message
+ * - Per-action payload validation with precise error messages
+ * - Unknown actions, unknown fields and oversized messages are rejected
+ * - Mapping from actions to the events clients listen for (Pusher or WebSocket)
+ * - Presence family channel naming (subscriptions need /api/pusher/auth)
+ *
+ * Last Updated: 2024-09-09
+ * ============================================================================
+ */
+
+// 2: ICE candidates are sent in numbered batches ('ice-candidates')
+// 3: Calls can ring several members - answers and declines say who they're
+//    from, and the rest are told to stop ringing ('call-cancelled')
+// 4: Emergency button alerts ('emergency-alert')
+// 5: Group calls - invites list who's already in the call, and the rest of
+//    the call is told to connect to whoever joins ('participant-joined')
+// 6: Call waiting - calls can be put on hold ('call-hold'), and a declined
+//    call can carry a short reply
+export const SIGNALING_PROTOCOL_VERSION = 6;
+
+// Pusher rejects events over 10KB, so there's no point accepting more
+export const MAX_SIGNALING_MESSAGE_BYTES = 10 * 1024;
+
+const MAX_ID_LENGTH = 128;
+const MAX_CHAT_TEXT_LENGTH = 1000;
+const MAX_CALL_REPLY_LENGTH = 200;
+const MAX_ICE_CANDIDATE_LENGTH = 512;
+
+// Keeps a full batch of long candidates under the message size limit
+export const MAX_ICE_CANDIDATES_PER_MESSAGE = 12;
+
+// Group calls are a mesh (everyone sends to everyone), so keep them small
+export const MAX_CALL_PARTICIPANTS = 4;
+
+// Actions that only guardians may send
+export const GUARDIAN_ONLY_ACTIONS = ['family-code-rotated', 'device-revoked'];
+
+export const END_CALL_REASONS = ['completed', 'missed', 'declined', 'cancelled', 'timed-out', 'failed'];
+
+export const EMERGENCY_STATUSES = ['ringing', 'answered', 'unanswered', 'cancelled'];
+
+// Error carrying the HTTP status the API layer should respond with
+export class SignalingValidationError extends Error {
+  constructor(status, message) {
+    super(message);
+    this.name = 'SignalingValidationError';
+    this.status = status;
+  }
+}
+
+const invalid = (message) => new SignalingValidationError(400, message);
+
+const isPlainObject = (value) =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Field checks - each returns an error message or null
+const requiredString = (maxLength) => (value) =>
+  typeof value !== 'string' || value.length === 0
+    ? 'expected a non-empty string'
+    : value.length > maxLength ? `must be at most ${maxLength} characters` : null;
+
+const optionalString = (maxLength) => (value) =>
+  value === undefined || value === null ? null
+    : typeof value !== 'string' ? 'expected a string'
+      : value.length > maxLength ? `must be at most ${maxLength} characters` : null;
+
+const optionalInteger = (value) =>
+  value === undefined || value === null || Number.isInteger(value) ? null : 'expected an integer';
+
+const nonNegativeInteger = (value) =>
+  Number.isInteger(value) && value >= 0 ? null : 'expected a non-negative integer';
+
+const requiredBoolean = (value) =>
+  typeof value === 'boolean' ? null : 'expected a boolean';
+
+const optionalBoolean = (value) =>
+  value === undefined || typeof value === 'boolean' ? null : 'expected a boolean';
+
+const oneOf = (allowed, { optional = false } = {}) => (value) =>
+  (optional && value === undefined) || allowed.includes(value)
+    ? null
+    : `expected one of ${allowed.join(', ')}`;
+
+const sessionDescription = (type) => ({
+  type: oneOf([type]),
+  sdp: requiredString(MAX_SIGNALING_MESSAGE_BYTES),
+});
+
+const callParticipant = {
+  memberId: requiredString(MAX_ID_LENGTH),
+  deviceId: requiredString(MAX_ID_LENGTH),
+};
+
+const iceCandidate = {
+  candidate: (value) =>
+    typeof value !== 'string' ? 'expected a string'
+      : value.length > MAX_ICE_CANDIDATE_LENGTH ? `must be at most ${MAX_ICE_CANDIDATE_LENGTH} characters` : null,
+  sdpMid: optionalString(MAX_ID_LENGTH),
+  sdpMLineIndex: optionalInteger,
+  usernameFragment: optionalString(MAX_ID_LENGTH),
+};
+
+// Check an object against a schema - returns { unknownFields }, the first
+// { field, problem }, or null when it's valid
+const checkFields = (schema, value) => {
+  const unknownFields = Object.keys(value).filter(field => !(field in schema));
+  if (unknownFields.length > 0) {
+    return { unknownFields };
+  }
+
+  for (const [field, check] of Object.entries(schema)) {
+    const problem = check(value[field]);
+    if (problem) return { field, problem };
+  }
+  return null;
+};
+
+const arrayOf = (schema, maxItems) => (value) => {
+  if (!Array.isArray(value)) return 'expected an array';
+  if (value.length > maxItems) return `must have at most ${maxItems} items`;
+
+  for (const [index, item] of value.entries()) {
+    if (!isPlainObject(item)) return `item ${index}: expected an object`;
+    const result = checkFields(schema, item);
+    if (result?.unknownFields) return `item ${index}: unknown fields ${result.unknownFields.join(', ')}`;
+    if (result) return `item ${index} "${result.field}": ${result.problem}`;
+  }
+  return null;
+};
+
+/**
+ * Data schema per action. `null` means the action carries no data.
+ */
+const ACTION_SCHEMAS = {
+  'offer': sessionDescription('offer'),
+  'answer': sessionDescription('answer'),
+  // Batches are numbered from 0 per call and ICE generation (which goes up
+  // with each ICE restart); the last one may carry no candidates
+  'ice-candidates': {
+    callId: requiredString(MAX_ID_LENGTH),
+    generation: (value) => (value === undefined ? null : nonNegativeInteger(value)),
+    seq: nonNegativeInteger,
+    candidates: arrayOf(iceCandidate, MAX_ICE_CANDIDATES_PER_MESSAGE),
+    endOfCandidates: optionalBoolean,
+  },
+  // callId says which call is ending when two calls cross
+  'end-call': {
+    reason: oneOf(END_CALL_REASONS, { optional: true }),
+    callId: optionalString(MAX_ID_LENGTH),
+  },
+  // participants: when adding someone to a group call, everyone already in
+  // it other than the caller
+  'call-request': {
+    callType: oneOf(['voice', 'video']),
+    callId: requiredString(MAX_ID_LENGTH),
+    fromMemberId: requiredString(MAX_ID_LENGTH),
+    participants: (value) => (value === undefined ? null : arrayOf(callParticipant, MAX_CALL_PARTICIPANTS - 2)(value)),
+  },
+  'call-accepted': {
+    callId: requiredString(MAX_ID_LENGTH),
+    fromMemberId: requiredString(MAX_ID_LENGTH),
+  },
+  // reply: a message for the caller, e.g. "I'll call you right back"
+  'call-rejected': {
+    callId: requiredString(MAX_ID_LENGTH),
+    fromMemberId: requiredString(MAX_ID_LENGTH),
+    reply: optionalString(MAX_CALL_REPLY_LENGTH),
+  },
+  // Stop ringing - answeredBy is the device that picked up, if any
+  'call-cancelled': {
+    callId: requiredString(MAX_ID_LENGTH),
+    answeredBy: optionalString(MAX_ID_LENGTH),
+  },
+  // Someone added to a group call picked up - sent by whoever added them to
+  // everyone else in the call, who then connect to the newcomer
+  'participant-joined': {
+    callId: requiredString(MAX_ID_LENGTH),
+    memberId: requiredString(MAX_ID_LENGTH),
+    deviceId: requiredString(MAX_ID_LENGTH),
+  },
+  // Sent to everyone else in the call when it's put on hold or taken off it
+  'call-hold': {
+    callId: requiredString(MAX_ID_LENGTH),
+    held: requiredBoolean,
+  },
+  'family-code-rotated': null,
+  'device-revoked': {
+    deviceId: requiredString(MAX_ID_LENGTH),
+    memberId: requiredString(MAX_ID_LENGTH),
+  },
+  // Sent by the child's device as the emergency progresses (same eventId throughout)
+  'emergency-alert': {
+    eventId: requiredString(MAX_ID_LENGTH),
+    fromMemberId: requiredString(MAX_ID_LENGTH),
+    status: oneOf(EMERGENCY_STATUSES),
+    startedAt: requiredString(MAX_ID_LENGTH),
+    answeredBy: optionalString(MAX_ID_LENGTH),
+  },
+  'chat-message': {
+    messageId: requiredString(MAX_ID_LENGTH),
+    fromMemberId: requiredString(MAX_ID_LENGTH),
+    text: requiredString(MAX_CHAT_TEXT_LENGTH),
+  },
+};
+
+export const SIGNALING_ACTIONS = Object.keys(ACTION_SCHEMAS);
+
+const ENVELOPE_FIELDS = ['version', 'action', 'fromDeviceId', 'toDeviceId', 'familyId', 'data'];
+
+/**
+ * Validate the data for an action against its schema
+ */
+const validateData = (action, data) => {
+  const schema = ACTION_SCHEMAS[action];
+
+  if (schema === null) {
+    if (data !== undefined && !(isPlainObject(data) && Object.keys(data).length === 0)) {
+      throw invalid(`Action "${action}" does not take data`);
+    }
+    return;
+  }
+
+  if (!isPlainObject(data)) {
+    throw invalid(`Invalid "data" for action "${action}": expected an object`);
+  }
+
+  const result = checkFields(schema, data);
+  if (result?.unknownFields) {
+    throw invalid(`Unknown fields in "data" for action "${action}": ${result.unknownFields.join(', ')}`);
+  }
+  if (result) {
+    throw invalid(`Invalid "data.${result.field}" for action "${action}": ${result.problem}`);
+  }
+};
+
+/**
+ * Validate a signaling message. Returns the message or throws
+ * SignalingValidationError (400 for bad messages, 413 if too large).
+ */
+export const validateSignalingMessage = (body) => {
+  if (!isPlainObject(body)) {
+    throw invalid('Request body must be a JSON object');
+  }
+
+  const size = new TextEncoder().encode(JSON.stringify(body)).length;
+  if (size > MAX_SIGNALING_MESSAGE_BYTES) {
+    throw new SignalingValidationError(413, `Signaling message is ${size} bytes (limit ${MAX_SIGNALING_MESSAGE_BYTES})`);
+  }
+
+  const unknownFields = Object.keys(body).filter(field => !ENVELOPE_FIELDS.includes(field));
+  if (unknownFields.length > 0) {
+    throw invalid(`Unknown fields: ${unknownFields.join(', ')}`);
+  }
+
+  if (body.version === undefined) {
+    throw invalid('Missing required field: version');
+  }
+  if (body.version !== SIGNALING_PROTOCOL_VERSION) {
+    throw invalid(`Unsupported protocol version ${JSON.stringify(body.version)} (expected ${SIGNALING_PROTOCOL_VERSION})`);
+  }
+
+  const missing = ['action', 'fromDeviceId', 'toDeviceId', 'familyId'].filter(field => body[field] === undefined);
+  if (missing.length > 0) {
+    throw invalid(`Missing required fields: ${missing.join(', ')}`);
+  }
+
+  for (const field of ['fromDeviceId', 'toDeviceId', 'familyId']) {
+    const problem = requiredString(MAX_ID_LENGTH)(body[field]);
+    if (problem) {
+      throw invalid(`Invalid "${field}": ${problem}`);
+    }
+  }
+
+  if (!SIGNALING_ACTIONS.includes(body.action)) {
+    throw invalid(`Unknown action ${JSON.stringify(body.action)}`);
+  }
+
+  validateData(body.action, body.data);
+  return body;
+};
+
+/**
+ * The Pusher presence channel a family's signaling is delivered on. Its
+ * member list is who in the family is online right now.
+ */
+export const familyChannelName = (familyId) => `presence-family-${familyId}`;
+
+/**
+ * The family a presence channel belongs to, or null for any other channel
+ */
+export const familyIdFromChannelName = (channelName) => {
+  const prefix = familyChannelName('');
+  return typeof channelName === 'string' && channelName.startsWith(prefix) && channelName.length > prefix.length
+    ? channelName.slice(prefix.length)
+    : null;
+};
+
+/**
+ * The Pusher event (name and payload) a validated message is delivered as
+ */
+export const toPusherEvent = (message, timestamp) => {
+  const { action, fromDeviceId: from, toDeviceId: to, data } = message;
+
+  switch (action) {
+    case 'offer':
+      return { event: 'webrtc-offer', payload: { from, to, offer: data, timestamp } };
+    case 'answer':
+      return { event: 'webrtc-answer', payload: { from, to, answer: data, timestamp } };
+    case 'ice-candidates':
+      return {
+        event: 'webrtc-ice-candidates',
+        payload: {
+          from,
+          to,
+          callId: data.callId,
+          generation: data.generation ?? 0,
+          seq: data.seq,
+          candidates: data.candidates,
+          endOfCandidates: data.endOfCandidates === true,
+          timestamp
+        }
+      };
+    case 'end-call':
+      return { event: 'webrtc-end-call', payload: { from, to, reason: data.reason, callId: data.callId, timestamp } };
+    case 'call-request':
+      return {
+        event: 'incoming-call',
+        payload: {
+          from,
+          to,
+          callType: data.callType,
+          callId: data.callId,
+          fromMemberId: data.fromMemberId,
+          participants: data.participants ?? [],
+          timestamp
+        }
+      };
+    case 'call-accepted':
+      return { event: 'call-accepted', payload: { from, to, callId: data.callId, fromMemberId: data.fromMemberId, timestamp } };
+    case 'call-rejected':
+      return {
+        event: 'call-rejected',
+        payload: { from, to, callId: data.callId, fromMemberId: data.fromMemberId, reply: data.reply, timestamp }
+      };
+    case 'call-cancelled':
+      return { event: 'call-cancelled', payload: { from, to, callId: data.callId, answeredBy: data.answeredBy, timestamp } };
+    case 'participant-joined':
+      return {
+        event: 'participant-joined',
+        payload: { from, to, callId: data.callId, memberId: data.memberId, deviceId: data.deviceId, timestamp }
+      };
+    case 'call-hold':
+      return { event: 'call-hold', payload: { from, to, callId: data.callId, held: data.held, timestamp } };
+    case 'family-code-rotated':
+      return { event: 'family-code-rotated', payload: { from, timestamp } };
+    case 'device-revoked':
+      return { event: 'device-revoked', payload: { from, deviceId: data.deviceId, memberId: data.memberId, timestamp } };
+    case 'emergency-alert':
+      return {
+        event: 'emergency-alert',
+        payload: {
+          from,
+          eventId: data.eventId,
+          fromMemberId: data.fromMemberId,
+          status: data.status,
+          startedAt: data.startedAt,
+          answeredBy: data.answeredBy,
+          timestamp
+        }
+      };
+    case 'chat-message':
+      return {
+        event: 'chat-message',
+        payload: { from, to, messageId: data.messageId, fromMemberId: data.fromMemberId, text: data.text, timestamp }
+      };
+    default:
+      throw invalid(`Unknown action ${JSON.stringify(action)}`);
+  }
+};
@@ -0,0 +1,199 @@
+/**
+ * ============================================================================
+ * KIDS CALL HOME - WebSocket Signaling Server
+ * ============================================================================
+ *
+ * Purpose: Self-hosted alternative to Pusher for family signaling
+ * Technology: ws (attached to the dev server's HTTP server)
+ *
+ * Features:
+ * - Session token authentication (first frame, never in the URL)
+ * - One room per family; messages are relayed to every device in it
+ * - Presence per member (a member with two devices is online once),
+ *   recorded in the registry so last-seen times survive restarts
+ * - Same message validation and permission checks as /api/signaling
+ * - Dead connection detection with ping/pong
+ *
+ * Frames (JSON):
+ * - Client: { type: 'auth', token }, { type: 'signal', id, message }
+ * - Server: { type: 'ready', members }, { type: 'member-added', memberId },
+ *   { type: 'member-removed', memberId }, { type: 'event', event, payload },
+ *   { type: 'ack', id }, { type: 'error', id?, status, error }
+ *
+ * Last Updated: 2024-09-09
+ * ============================================================================
+ */
+
+import { WebSocketServer } from 'ws';
+import { recordMemberPresence } from './memberPresence.js';
+import {
+  SessionError,
+  authorizeSignalingMessage,
+  requireApprovedDevice,
+  verifySessionToken
+} from './session.js';
+import {
+  MAX_SIGNALING_MESSAGE_BYTES,
+  SignalingValidationError,
+  toPusherEvent
+} from './signalingProtocol.js';
+
+const AUTH_TIMEOUT_MS = 10 * 1000;
+const PING_INTERVAL_MS = 30 * 1000;
+
+// Close codes the client uses to decide whether to reconnect
+export const CLOSE_UNAUTHORIZED = 4001;
+export const CLOSE_FORBIDDEN = 4003;
+
+const send = (socket, frame) => {
+  if (socket.readyState === socket.OPEN) {
+    socket.send(JSON.stringify(frame));
+  }
+};
+
+/**
+ * Attach the signaling WebSocket server to an HTTP server
+ */
+export const attachSignalingSocketServer = (server, { path = '/ws' } = {}) => {
+  // Allow a little room over the message limit for the frame envelope
+  const wss = new WebSocketServer({ server, path, maxPayload: MAX_SIGNALING_MESSAGE_BYTES + 1024 });
+
+  // Every connection, and familyId -> Set of authenticated clients
+  const clients = new Map();
+  const rooms = new Map();
+
+  const membersOnline = (familyId) =>
+    [...new Set([...(rooms.get(familyId) || [])].map(client => client.session.memberId))];
+
+  const broadcast = (familyId, frame, except) => {
+    for (const client of rooms.get(familyId) || []) {
+      if (client !== except) send(client.socket, frame);
+    }
+  };
+
+  // Presence is written in the background; a failed write only loses a last-seen time
+  const recordPresence = (familyId, memberId, isOnline) => {
+    recordMemberPresence(familyId, memberId, isOnline).catch(error => {
+      console.warn(`Could not record presence for ${memberId}:`, error.message);
+    });
+  };
+
+  // Join the family room, announcing the member if this is their first device
+  const join = (client) => {
+    const { familyId, memberId } = client.session;
+    const wasOnline = membersOnline(familyId).includes(memberId);
+
+    if (!rooms.has(familyId)) rooms.set(familyId, new Set());
+    rooms.get(familyId).add(client);
+
+    if (!wasOnline) {
+      broadcast(familyId, { type: 'member-added', memberId }, client);
+      recordPresence(familyId, memberId, true);
+    }
+    send(client.socket, { type: 'ready', members: membersOnline(familyId) });
+  };
+
+  // Leave the family room, announcing the member if that was their last device
+  const leave = (client) => {
+    if (!client.session) return;
+    const { familyId, memberId } = client.session;
+    const room = rooms.get(familyId);
+    if (!room || !room.delete(client)) return;
+
+    if (room.size === 0) rooms.delete(familyId);
+    if (!membersOnline(familyId).includes(memberId)) {
+      broadcast(familyId, { type: 'member-removed', memberId });
+      recordPresence(familyId, memberId, false);
+    }
+  };
+
+  const authenticate = async (client, token) => {
+    client.authenticating = true;
+    try {
+      const session = verifySessionToken(token);
+      await requireApprovedDevice(session);
+      // The socket may have gone away while we checked the registry
+      if (client.socket.readyState !== client.socket.OPEN) return;
+      client.session = session;
+      clearTimeout(client.authTimer);
+      join(client);
+      console.log(`🔌 ${session.deviceId} joined family ${session.familyId} over WebSocket`);
+    } catch (error) {
+      const status = error instanceof SessionError ? error.status : 500;
+      send(client.socket, { type: 'error', status, error: error.message, code: error.code });
+      client.socket.close(status === 401 ? CLOSE_UNAUTHORIZED : CLOSE_FORBIDDEN, error.message);
+    }
+  };
+
+  const relay = async (client, id, body) => {
+    try {
+      const message = await authorizeSignalingMessage(client.session, body);
+      const { event, payload } = toPusherEvent(message, new Date().toISOString());
+      broadcast(message.familyId, { type: 'event', event, payload });
+      send(client.socket, { type: 'ack', id });
+    } catch (error) {
+      if (error instanceof SignalingValidationError || error instanceof SessionError) {
+        send(client.socket, { type: 'error', id, status: error.status, error: error.message, code: error.code });
+        return;
+      }
+      console.error('WebSocket signaling error:', error);
+      send(client.socket, { type: 'error', id, status: 500, error: 'Internal server error' });
+    }
+  };
+
+  wss.on('connection', (socket) => {
+    const client = { socket, session: null, authenticating: false, alive: true, authTimer: null };
+    client.authTimer = setTimeout(() => socket.close(CLOSE_UNAUTHORIZED, 'Authentication timed out'), AUTH_TIMEOUT_MS);
+    clients.set(socket, client);
+
+    socket.on('pong', () => {
+      client.alive = true;
+    });
+
+    socket.on('message', (raw) => {
+      let frame;
+      try {
+        frame = JSON.parse(raw.toString());
+      } catch {
+        send(socket, { type: 'error', status: 400, error: 'Frames must be JSON' });
+        return;
+      }
+
+      if (!frame || typeof frame !== 'object') {
+        send(socket, { type: 'error', status: 400, error: 'Frames must be JSON objects' });
+      } else if (frame.type === 'auth' && !client.session && !client.authenticating) {
+        authenticate(client, frame.token);
+      } else if (frame.type === 'signal' && client.session) {
+        relay(client, frame.id, frame.message);
+      } else {
+        send(socket, { type: 'error', id: frame.id, status: 400, error: `Unexpected frame type ${JSON.stringify(frame.type)}` });
+      }
+    });
+
+    socket.on('close', () => {
+      clearTimeout(client.authTimer);
+      clients.delete(socket);
+      leave(client);
+    });
+
+    socket.on('error', (error) => {
+      console.warn('WebSocket client error:', error.message);
+    });
+  });
+
+  // Drop connections that stopped answering pings (closed laptop lids, lost WiFi)
+  const pingInterval = setInterval(() => {
+    for (const client of clients.values()) {
+      if (!client.alive) {
+        client.socket.terminate();
+        continue;
+      }
+      client.alive = false;
+      client.socket.ping();
+    }
+  }, PING_INTERVAL_MS);
+
+  wss.on('close', () => clearInterval(pingInterval));
+
+  return wss;
+};
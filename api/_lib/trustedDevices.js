@@ -0,0 +1,119 @@
+/**
+ * ============================================================================
+ * KIDS CALL HOME - Trusted Devices
+ * ============================================================================
+ *
+ * Purpose: Server-side record of which devices each member may sign in on
+ * Technology: node:crypto, family registry
+ *
+ * Features:
+ * - Only the founding guardian's device is trusted from the start (see
+ *   POST /api/families); every device that signs in after that waits as
+ *   "pending" with a 6-digit pairing code that expires after 10 minutes
+ * - Approval (by device or pairing code) and revocation by a guardian
+ * - Each device has a session epoch; bumping it ends the sessions issued
+ *   to the device so far (see api/_lib/session.js)
+ * - Device records devices send are ignored - only this module changes them
+ *
+ * Last Updated: 2024-09-09
+ * ============================================================================
+ */
+
+import { randomInt } from 'crypto';
+import { RegistryError, getFamilyById, updateFamily } from './familyRegistry.js';
+
+const PAIRING_CODE_MINUTES = 10;
+
+const generatePairingCode = () => String(randomInt(0, 1000000)).padStart(6, '0');
+
+/**
+ * Record a device a member signed in on and return it
+ */
+export const registerDevice = (familyId, memberId, { deviceId, name }) => updateFamily(familyId, (family) => {
+  const devices = family.devices || (family.devices = []);
+  const now = new Date();
+
+  let device = devices.find(d => d.deviceId === deviceId && d.memberId === memberId);
+  if (!device) {
+    device = {
+      deviceId,
+      memberId,
+      name: name || 'Unknown device',
+      status: 'pending',
+      registeredAt: now.toISOString()
+    };
+    devices.push(device);
+  }
+
+  if (device.status === 'pending' && (!device.pairingExpires || new Date(device.pairingExpires).getTime() <= now.getTime())) {
+    device.pairingCode = generatePairingCode();
+    device.pairingExpires = new Date(now.getTime() + PAIRING_CODE_MINUTES * 60 * 1000).toISOString();
+  }
+  device.lastSeen = now.toISOString();
+
+  return device;
+});
+
+/**
+ * A device's status for a member, or null if it never signed in
+ */
+export const getDeviceStatus = async (familyId, memberId, deviceId) => {
+  const family = await getFamilyById(familyId);
+  const device = family && (family.devices || []).find(d => d.deviceId === deviceId && d.memberId === memberId);
+  return device ? device.status : null;
+};
+
+/**
+ * Approve or revoke a member's device on behalf of a guardian. The device
+ * is picked by id, or (approving only) by the pairing code it shows.
+ * Returns the updated family and device.
+ */
+export const setDeviceStatus = (familyId, guardianId, { deviceId, memberId, pairingCode }, status) =>
+  updateFamily(familyId, (family) => {
+    const now = new Date();
+    const device = (family.devices || []).find(d => pairingCode
+      ? d.status === 'pending' &&
+        d.pairingCode === String(pairingCode).trim() &&
+        !!d.pairingExpires && new Date(d.pairingExpires).getTime() > now.getTime()
+      : d.deviceId === deviceId && d.memberId === memberId
+    );
+    if (!device) {
+      throw new RegistryError(404, pairingCode ? 'No device is waiting with that pairing code' : 'Device not found');
+    }
+
+    device.status = status;
+    if (status === 'approved') {
+      device.approvedAt = now.toISOString();
+      device.approvedBy = guardianId;
+    }
+    delete device.pairingCode;
+    delete device.pairingExpires;
+    family.lastActive = now.toISOString();
+
+    return { family, device };
+  });
+
+/**
+ * End the sessions of every device in the family except `keep` (a
+ * { deviceId, memberId }), so they have to sign in again. Devices still
+ * waiting for approval are turned away. Changes the family in place.
+ */
+export const endDeviceSessions = (family, keep) => {
+  for (const device of family.devices || []) {
+    if (device.deviceId === keep.deviceId && device.memberId === keep.memberId) continue;
+    device.sessionEpoch = (device.sessionEpoch || 0) + 1;
+    if (device.status === 'pending') {
+      device.status = 'revoked';
+      delete device.pairingCode;
+      delete device.pairingExpires;
+    }
+  }
+};
+
+/**
+ * Keep the stored devices on a family record sent by a device
+ */
+export const withStoredDevices = (family, stored) => ({
+  ...family,
+  devices: (stored && stored.devices) || []
+});
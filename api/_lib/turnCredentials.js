@@ -0,0 +1,61 @@
+/**
+ * ============================================================================
+ * KIDS CALL HOME - TURN Credentials
+ * ============================================================================
+ *
+ * Purpose: Time-limited TURN relay credentials for calls that can't connect
+ *          directly (symmetric NATs on school and cellular networks)
+ * Technology: TURN REST API style shared secret (coturn use-auth-secret)
+ *
+ * Features:
+ * - Servers from TURN_URLS (comma separated turn:/turns: URLs)
+ * - Username "<expiry>:<memberId>", password base64(HMAC-SHA1(TURN_SECRET, username))
+ * - Lifetime from TURN_CREDENTIAL_TTL_SECONDS (default one day)
+ *
+ * Last Updated: 2024-09-09
+ * ============================================================================
+ */
+
+import { createHmac } from 'crypto';
+
+// coturn checks the expiry when the relay is allocated and refreshed,
+// so credentials have to outlast the longest call
+const DEFAULT_TTL_SECONDS = 24 * 60 * 60;
+
+/**
+ * The configured TURN servers, or null when TURN is not set up
+ */
+export const getTurnConfig = () => {
+  const urls = (process.env.TURN_URLS || '')
+    .split(',')
+    .map(url => url.trim())
+    .filter(Boolean);
+  const secret = process.env.TURN_SECRET;
+
+  if (urls.length === 0 || !secret) {
+    return null;
+  }
+
+  const ttlSeconds = Number(process.env.TURN_CREDENTIAL_TTL_SECONDS) || DEFAULT_TTL_SECONDS;
+  return { urls, secret, ttlSeconds };
+};
+
+/**
+ * Mint credentials for a family member. Returns the ICE servers to add to
+ * the peer connection (none when TURN is not configured).
+ */
+export const issueTurnCredentials = (memberId, now = Date.now()) => {
+  const config = getTurnConfig();
+  if (!config) {
+    return { iceServers: [], expiresAt: null };
+  }
+
+  const expiry = Math.floor(now / 1000) + config.ttlSeconds;
+  const username = `${expiry}:${memberId}`;
+  const credential = createHmac('sha1', config.secret).update(username).digest('base64');
+
+  return {
+    iceServers: [{ urls: config.urls, username, credential }],
+    expiresAt: new Date(expiry * 1000).toISOString()
+  };
+};
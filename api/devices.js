@@ -0,0 +1,91 @@
+/**
+ * ============================================================================
+ * KIDS CALL HOME - Trusted Devices API
+ * ============================================================================
+ *
+ * Purpose: Approve and revoke family devices, and let a new device check
+ *          whether it has been approved yet
+ * Technology: Vercel Serverless Functions (also mounted by dev-server.js)
+ *
+ * Endpoints:
+ * - GET  /api/devices?familyId=...&memberId=...&deviceId=... - A device's status
+ * - POST /api/devices?familyId=family-123 - Approve or revoke a device
+ *   ({ action: 'approve' | 'revoke', deviceId, memberId } or
+ *    { action: 'approve', pairingCode })
+ *
+ * Changing a device needs a guardian's "Authorization: Bearer <session
+ * token>" for the family. The status check needs the same, or the device's
+ * own pairing token from /api/sign-in - a pending device has no session
+ * yet - and only answers with the status.
+ *
+ * Last Updated: 2024-09-09
+ * ============================================================================
+ */
+
+import { setCorsHeaders } from './_lib/cors.js';
+import { RegistryError } from './_lib/familyRegistry.js';
+import { toPublicFamily } from './_lib/memberSecrets.js';
+import { SessionError, requireDeviceStatusAccess, requireFamilySession } from './_lib/session.js';
+import { getDeviceStatus, setDeviceStatus } from './_lib/trustedDevices.js';
+
+export default async function handler(req, res) {
+  // Set CORS headers
+  setCorsHeaders(req, res, 'GET, POST');
+
+  if (req.method === 'OPTIONS') {
+    return res.status(200).end();
+  }
+
+  try {
+    const { familyId, memberId, deviceId } = req.query || {};
+    if (!familyId) {
+      throw new RegistryError(400, 'Provide a familyId');
+    }
+
+    switch (req.method) {
+      case 'GET': {
+        if (!memberId || !deviceId) {
+          throw new RegistryError(400, 'Provide a memberId and deviceId');
+        }
+        await requireDeviceStatusAccess(req, { familyId, memberId, deviceId });
+        const status = await getDeviceStatus(familyId, memberId, deviceId);
+        return res.status(200).json({ success: true, data: { status } });
+      }
+
+      case 'POST': {
+        const { session, memberType } = await requireFamilySession(req, familyId);
+        if (memberType !== 'guardian') {
+          throw new SessionError(403, 'Only guardians can approve or revoke devices');
+        }
+
+        const { action, pairingCode, ...target } = req.body || {};
+        if (action !== 'approve' && action !== 'revoke') {
+          throw new RegistryError(400, 'Unknown action');
+        }
+        if (action === 'revoke' && pairingCode) {
+          throw new RegistryError(400, 'Devices are revoked by id');
+        }
+        if (!pairingCode && (!target.deviceId || !target.memberId)) {
+          throw new RegistryError(400, 'Provide a deviceId and memberId, or a pairingCode');
+        }
+
+        const { family, device } = await setDeviceStatus(
+          familyId,
+          session.memberId,
+          { deviceId: target.deviceId, memberId: target.memberId, pairingCode },
+          action === 'approve' ? 'approved' : 'revoked'
+        );
+        return res.status(200).json({ success: true, data: { family: toPublicFamily(family), device } });
+      }
+
+      default:
+        return res.status(405).json({ error: 'Method not allowed' });
+    }
+  } catch (error) {
+    if (error instanceof RegistryError || error instanceof SessionError) {
+      return res.status(error.status).json({ success: false, error: error.message, code: error.code });
+    }
+    console.error('Device error:', error);
+    res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+}
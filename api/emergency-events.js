@@ -0,0 +1,54 @@
+/**
+ * ============================================================================
+ * KIDS CALL HOME - Emergency Events API
+ * ============================================================================
+ *
+ * Purpose: Log emergency button presses on the family
+ * Technology: Vercel Serverless Functions (also mounted by dev-server.js)
+ *
+ * Endpoints:
+ * - POST /api/emergency-events?familyId=family-123 - Add or update an event ({ event })
+ *
+ * Needs "Authorization: Bearer <session token>" for the family. This is
+ * the one family write children can make: a child logs their own presses,
+ * guardians can update any event. The response is the updated family.
+ *
+ * Last Updated: 2024-09-09
+ * ============================================================================
+ */
+
+import { setCorsHeaders } from './_lib/cors.js';
+import { recordEmergencyEvent } from './_lib/emergencyEvents.js';
+import { RegistryError } from './_lib/familyRegistry.js';
+import { toPublicFamily } from './_lib/memberSecrets.js';
+import { SessionError, requireFamilySession } from './_lib/session.js';
+
+export default async function handler(req, res) {
+  // Set CORS headers
+  setCorsHeaders(req, res, 'POST');
+
+  if (req.method === 'OPTIONS') {
+    return res.status(200).end();
+  }
+
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  try {
+    const { familyId } = req.query || {};
+    if (!familyId) {
+      throw new RegistryError(400, 'Provide a familyId');
+    }
+
+    const { session, memberType } = await requireFamilySession(req, familyId);
+    const family = await recordEmergencyEvent(familyId, session.memberId, memberType, (req.body || {}).event);
+    return res.status(200).json({ success: true, data: toPublicFamily(family) });
+  } catch (error) {
+    if (error instanceof RegistryError || error instanceof SessionError) {
+      return res.status(error.status).json({ success: false, error: error.message, code: error.code });
+    }
+    console.error('Emergency event error:', error);
+    res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+}
@@ -0,0 +1,178 @@
+/**
+ * ============================================================================
+ * KIDS CALL HOME - Family Registry API
+ * ============================================================================
+ *
+ * Purpose: Shared family registry so every device sees the same families
+ * Technology: Vercel Serverless Functions (also mounted by dev-server.js)
+ *
+ * Endpoints:
+ * - GET    /api/families?id=family-123 - Look up a family
+ * - POST   /api/families               - Create a family ({ family })
+ * - PUT    /api/families?id=family-123 - Replace a family ({ family }, guardians)
+ * - DELETE /api/families?id=family-123 - Delete a family (guardians)
+ *
+ * GET, PUT and DELETE need "Authorization: Bearer <session token>" for the
+ * family. Creating a family needs no token: it returns the first one, for
+ * the creating guardian on the device that created it ({ family, session }).
+ * Families are found by code only through /api/sign-in.
+ *
+ * Member PIN and picture password hashes never leave the server: responses
+ * only say which kind of secret a member has, and credentials sent by a
+ * device are ignored (see /api/member-secrets). The same goes for the
+ * device list, which only /api/sign-in and /api/devices change, and for
+ * members' online status and last-seen time, which only the signaling
+ * server records (see api/_lib/memberPresence.js).
+ *
+ * A replacement can't change the family code or an existing member's id
+ * or role (guardian or child), and the emergency log is kept as stored -
+ * children add to it through /api/emergency-events.
+ *
+ * Last Updated: 2024-09-09
+ * ============================================================================
+ */
+
+import { setCorsHeaders } from './_lib/cors.js';
+import { withStoredEmergencyEvents } from './_lib/emergencyEvents.js';
+import {
+  RegistryError,
+  createFamily,
+  deleteFamily,
+  saveFamily
+} from './_lib/familyRegistry.js';
+import { withStoredPresence } from './_lib/memberPresence.js';
+import { toPublicFamily, withStoredCredentials } from './_lib/memberSecrets.js';
+import { SessionError, issueSessionToken, requireFamilySession } from './_lib/session.js';
+import { withStoredDevices } from './_lib/trustedDevices.js';
+
+// Helper function to validate the minimal shape of a family record
+const validateFamily = (family) => {
+  if (!family || typeof family !== 'object') {
+    throw new RegistryError(400, 'Missing family in request body');
+  }
+  const missing = ['id', 'code', 'name'].filter(field => typeof family[field] !== 'string' || !family[field]);
+  if (missing.length > 0) {
+    throw new RegistryError(400, `Missing required fields: ${missing.join(', ')}`);
+  }
+  if (!Array.isArray(family.guardians) || !Array.isArray(family.children)) {
+    throw new RegistryError(400, 'Family must include guardians and children arrays');
+  }
+};
+
+// Helper function to keep what a replacement may not change: the family
+// code (with its usage and history) and which members are guardians
+const withStoredIdentity = (family, stored) => {
+  if (!stored) {
+    throw new RegistryError(404, 'Family not found');
+  }
+  if (family.code !== stored.code) {
+    throw new RegistryError(403, 'The family code can only be changed by rotating it');
+  }
+
+  const storedRoles = new Map([
+    ...(stored.guardians || []).map(g => [g.id, 'guardian']),
+    ...(stored.children || []).map(c => [c.id, 'child'])
+  ]);
+  const seen = new Set();
+  const checkMember = (member, role) => {
+    if (!member || typeof member.id !== 'string' || !member.id || seen.has(member.id)) {
+      throw new RegistryError(400, 'Every member needs a unique id');
+    }
+    seen.add(member.id);
+    if (storedRoles.has(member.id) && storedRoles.get(member.id) !== role) {
+      throw new RegistryError(403, 'Members can\'t switch between guardian and child');
+    }
+  };
+  family.guardians.forEach(g => checkMember(g, 'guardian'));
+  family.children.forEach(c => checkMember(c, 'child'));
+
+  return { ...family, codeInfo: stored.codeInfo, codeHistory: stored.codeHistory };
+};
+
+// Helper function to find the device a new family is created on. It's the
+// only device the family starts with, approved for the first guardian.
+const getCreatorDevice = (family) => {
+  const creator = family.guardians[0];
+  const device = creator && (family.devices || []).find(
+    d => d.memberId === creator.id && d.status === 'approved'
+  );
+  if (!device || typeof device.deviceId !== 'string' || !device.deviceId) {
+    throw new RegistryError(400, 'A new family needs its first guardian and their device');
+  }
+  return device;
+};
+
+export default async function handler(req, res) {
+  // Set CORS headers
+  setCorsHeaders(req, res, 'GET, POST, PUT, DELETE');
+
+  if (req.method === 'OPTIONS') {
+    return res.status(200).end();
+  }
+
+  try {
+    const { id } = req.query || {};
+
+    switch (req.method) {
+      case 'GET': {
+        if (!id) {
+          throw new RegistryError(400, 'Provide a family id');
+        }
+        const { family } = await requireFamilySession(req, id);
+        return res.status(200).json({ success: true, data: toPublicFamily(family) });
+      }
+
+      case 'POST': {
+        const { family } = req.body || {};
+        validateFamily(family);
+        const device = getCreatorDevice(family);
+        const created = await createFamily({ ...withStoredCredentials(family, null), devices: [device] });
+        return res.status(201).json({
+          success: true,
+          data: {
+            family: toPublicFamily(created),
+            session: issueSessionToken({ familyId: created.id, memberId: device.memberId, deviceId: device.deviceId })
+          }
+        });
+      }
+
+      case 'PUT': {
+        const { family } = req.body || {};
+        validateFamily(family);
+        if (!id || id !== family.id) {
+          throw new RegistryError(400, 'Family id does not match request');
+        }
+        const { memberType } = await requireFamilySession(req, id);
+        if (memberType !== 'guardian') {
+          throw new SessionError(403, 'Only guardians can change the family');
+        }
+        const result = await saveFamily(family, (incoming, stored) => withStoredEmergencyEvents(
+          withStoredPresence(withStoredDevices(withStoredCredentials(withStoredIdentity(incoming, stored), stored), stored), stored),
+          stored
+        ));
+        return res.status(200).json({ success: true, data: toPublicFamily(result.family) });
+      }
+
+      case 'DELETE': {
+        if (!id) {
+          throw new RegistryError(400, 'Provide a family id');
+        }
+        const { memberType } = await requireFamilySession(req, id);
+        if (memberType !== 'guardian') {
+          throw new SessionError(403, 'Only guardians can delete the family');
+        }
+        await deleteFamily(id);
+        return res.status(200).json({ success: true });
+      }
+
+      default:
+        return res.status(405).json({ error: 'Method not allowed' });
+    }
+  } catch (error) {
+    if (error instanceof RegistryError || error instanceof SessionError) {
+      return res.status(error.status).json({ success: false, error: error.message, code: error.code });
+    }
+    console.error('Family registry error:', error);
+    res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+}
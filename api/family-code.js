@@ -0,0 +1,62 @@
+/**
+ * ============================================================================
+ * KIDS CALL HOME - Family Code API
+ * ============================================================================
+ *
+ * Purpose: Replace a family's code when it may have leaked
+ * Technology: Vercel Serverless Functions (also mounted by dev-server.js)
+ *
+ * Endpoints:
+ * - POST /api/family-code?familyId=family-123 - Rotate the code
+ *   ({ codeOptions?: { wordCount?, expiresInDays?, maxUses? } })
+ *
+ * Needs a guardian's "Authorization: Bearer <session token>" for the
+ * family. The server picks the new code, records the old one in the code
+ * history and ends the sessions of every other device, so anyone who
+ * signed in with the old code has to sign in again with the new one. The
+ * response is the updated family.
+ *
+ * Last Updated: 2024-09-09
+ * ============================================================================
+ */
+
+import { setCorsHeaders } from './_lib/cors.js';
+import { rotateFamilyCode } from './_lib/familyCodes.js';
+import { RegistryError } from './_lib/familyRegistry.js';
+import { toPublicFamily } from './_lib/memberSecrets.js';
+import { SessionError, requireFamilySession } from './_lib/session.js';
+
+export default async function handler(req, res) {
+  // Set CORS headers
+  setCorsHeaders(req, res, 'POST');
+
+  if (req.method === 'OPTIONS') {
+    return res.status(200).end();
+  }
+
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  try {
+    const { familyId } = req.query || {};
+    if (!familyId) {
+      throw new RegistryError(400, 'Provide a familyId');
+    }
+
+    const { session, memberType } = await requireFamilySession(req, familyId);
+    if (memberType !== 'guardian') {
+      throw new SessionError(403, 'Only guardians can change the family code');
+    }
+
+    const { codeOptions } = req.body || {};
+    const family = await rotateFamilyCode(familyId, session.memberId, session.deviceId, codeOptions);
+    return res.status(200).json({ success: true, data: toPublicFamily(family) });
+  } catch (error) {
+    if (error instanceof RegistryError || error instanceof SessionError) {
+      return res.status(error.status).json({ success: false, error: error.message, code: error.code });
+    }
+    console.error('Family code error:', error);
+    res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+}
@@ -0,0 +1,64 @@
+/**
+ * ============================================================================
+ * KIDS CALL HOME - Member Secrets API
+ * ============================================================================
+ *
+ * Purpose: Set or clear a member's PIN or picture password
+ * Technology: Vercel Serverless Functions (also mounted by dev-server.js)
+ *
+ * Endpoints:
+ * - PUT    /api/member-secrets?familyId=family-123&memberId=guardian-1 - Set ({ secret })
+ * - DELETE /api/member-secrets?familyId=family-123&memberId=guardian-1 - Clear
+ *
+ * Needs a guardian's "Authorization: Bearer <session token>" for the family.
+ * Guardians get a 4-8 digit PIN, children a picture password (pictures
+ * joined with spaces). Secrets are hashed here and the response is the
+ * family without any hashes.
+ *
+ * Last Updated: 2024-09-09
+ * ============================================================================
+ */
+
+import { setCorsHeaders } from './_lib/cors.js';
+import { RegistryError } from './_lib/familyRegistry.js';
+import { setMemberSecret, toPublicFamily } from './_lib/memberSecrets.js';
+import { SessionError, requireFamilySession } from './_lib/session.js';
+
+export default async function handler(req, res) {
+  // Set CORS headers
+  setCorsHeaders(req, res, 'PUT, DELETE');
+
+  if (req.method === 'OPTIONS') {
+    return res.status(200).end();
+  }
+
+  if (req.method !== 'PUT' && req.method !== 'DELETE') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  try {
+    const { familyId, memberId } = req.query || {};
+    if (!familyId || !memberId) {
+      throw new RegistryError(400, 'Provide a familyId and memberId');
+    }
+
+    const { memberType } = await requireFamilySession(req, familyId);
+    if (memberType !== 'guardian') {
+      throw new SessionError(403, 'Only guardians can set PINs and picture passwords');
+    }
+
+    const secret = req.method === 'DELETE' ? null : (req.body || {}).secret;
+    if (secret !== null && typeof secret !== 'string') {
+      throw new RegistryError(400, 'Missing secret in request body');
+    }
+
+    const family = await setMemberSecret(familyId, memberId, secret);
+    return res.status(200).json({ success: true, data: toPublicFamily(family) });
+  } catch (error) {
+    if (error instanceof RegistryError || error instanceof SessionError) {
+      return res.status(error.status).json({ success: false, error: error.message, code: error.code });
+    }
+    console.error('Member secret error:', error);
+    res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+}
@@ -0,0 +1,60 @@
+/**
+ * ============================================================================
+ * KIDS CALL HOME - Pusher Channel Authorization API
+ * ============================================================================
+ *
+ * Purpose: Let devices join their own family's presence channel only
+ * Technology: Vercel Serverless Functions + Pusher (also mounted by dev-server.js)
+ *
+ * Endpoints:
+ * - POST /api/pusher/auth - Authorize a subscription ({ socket_id, channel_name })
+ *   with "Authorization: Bearer <session token>"
+ *
+ * Last Updated: 2024-09-09
+ * ============================================================================
+ */
+
+import { setCorsHeaders } from '../_lib/cors.js';
+import { RegistryError } from '../_lib/familyRegistry.js';
+import { getPusher } from '../_lib/pusherServer.js';
+import { SessionError, authenticateRequest, requireApprovedDevice } from '../_lib/session.js';
+import { familyChannelName } from '../_lib/signalingProtocol.js';
+
+export default async function handler(req, res) {
+  // Set CORS headers
+  setCorsHeaders(req, res, 'POST');
+
+  if (req.method === 'OPTIONS') {
+    return res.status(200).end();
+  }
+
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  try {
+    const session = authenticateRequest(req);
+    const { socket_id: socketId, channel_name: channelName } = req.body || {};
+
+    if (!socketId || !channelName) {
+      throw new SessionError(400, 'Missing required fields: socket_id, channel_name');
+    }
+    if (channelName !== familyChannelName(session.familyId)) {
+      throw new SessionError(403, 'Not allowed to subscribe to this channel');
+    }
+
+    await requireApprovedDevice(session);
+
+    // Presence is per member, so a parent on two devices shows up once
+    return res.status(200).json(getPusher().authorizeChannel(socketId, channelName, {
+      user_id: session.memberId,
+      user_info: { deviceId: session.deviceId }
+    }));
+  } catch (error) {
+    if (error instanceof SessionError || error instanceof RegistryError) {
+      return res.status(error.status).json({ error: error.message, code: error.code });
+    }
+    console.error('Pusher auth error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+}
@@ -0,0 +1,60 @@
+/**
+ * ============================================================================
+ * KIDS CALL HOME - Pusher Presence Webhook
+ * ============================================================================
+ *
+ * Purpose: Record in the registry when members come online and go offline
+ * Technology: Vercel Serverless Functions + Pusher (also mounted by dev-server.js)
+ *
+ * Endpoints:
+ * - POST /api/pusher/webhook - Pusher presence webhook (member_added,
+ *   member_removed), signed with the app secret
+ *
+ * Pusher sends member_removed once a member's last device has left the
+ * family channel, so it's when their last-seen time is written. Enable
+ * "Presence" webhooks for this URL in the Pusher dashboard.
+ *
+ * Last Updated: 2024-09-09
+ * ============================================================================
+ */
+
+import { RegistryError } from '../_lib/familyRegistry.js';
+import { recordMemberPresence } from '../_lib/memberPresence.js';
+import { getPusher } from '../_lib/pusherServer.js';
+import { familyIdFromChannelName } from '../_lib/signalingProtocol.js';
+
+const PRESENCE_EVENTS = ['member_added', 'member_removed'];
+
+export default async function handler(req, res) {
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  // The signature covers the body exactly as Pusher sent it
+  const rawBody = typeof req.rawBody === 'string' ? req.rawBody : (typeof req.body === 'string' ? req.body : null);
+  if (rawBody === null) {
+    return res.status(400).json({ error: 'Webhook body is not available to verify' });
+  }
+
+  const webhook = getPusher().webhook({ headers: req.headers, rawBody });
+  if (!webhook.isValid()) {
+    return res.status(401).json({ error: 'Invalid webhook signature' });
+  }
+
+  try {
+    const at = webhook.getTime();
+    for (const event of webhook.getEvents()) {
+      const familyId = familyIdFromChannelName(event.channel);
+      if (!PRESENCE_EVENTS.includes(event.name) || !familyId || !event.user_id) continue;
+      await recordMemberPresence(familyId, event.user_id, event.name === 'member_added', at);
+    }
+    return res.status(200).json({ success: true });
+  } catch (error) {
+    // Pusher retries webhooks that fail, so a busy or missing store is worth another try
+    if (error instanceof RegistryError) {
+      return res.status(error.status).json({ error: error.message });
+    }
+    console.error('Pusher webhook error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+}
@@ -0,0 +1,54 @@
+/**
+ * ============================================================================
+ * KIDS CALL HOME - Session API
+ * ============================================================================
+ *
+ * Purpose: Refresh signed session tokens for signed-in family devices
+ * Technology: Vercel Serverless Functions (also mounted by dev-server.js)
+ *
+ * Endpoints:
+ * - POST /api/session - Trade a valid token for a fresh one
+ *   ("Authorization: Bearer <token>")
+ *
+ * The first token comes from /api/sign-in, which checks the family code
+ * and the member's PIN or picture password, or from creating a family.
+ * A device that has been revoked since can't refresh. Tokens are sent as
+ * "Authorization: Bearer <token>" to the other API endpoints.
+ *
+ * Last Updated: 2024-09-09
+ * ============================================================================
+ */
+
+import { setCorsHeaders } from './_lib/cors.js';
+import { RegistryError } from './_lib/familyRegistry.js';
+import { SessionError, authenticateRequest, issueSessionToken, requireApprovedDevice } from './_lib/session.js';
+
+export default async function handler(req, res) {
+  // Set CORS headers
+  setCorsHeaders(req, res, 'POST');
+
+  if (req.method === 'OPTIONS') {
+    return res.status(200).end();
+  }
+
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  try {
+    const session = authenticateRequest(req);
+    const { device } = await requireApprovedDevice(session);
+
+    const { familyId, memberId, deviceId } = session;
+    return res.status(200).json({
+      success: true,
+      data: issueSessionToken({ familyId, memberId, deviceId, epoch: device.sessionEpoch })
+    });
+  } catch (error) {
+    if (error instanceof SessionError || error instanceof RegistryError) {
+      return res.status(error.status).json({ success: false, error: error.message, code: error.code });
+    }
+    console.error('Session error:', error);
+    res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+}
@@ -0,0 +1,131 @@
+/**
+ * ============================================================================
+ * KIDS CALL HOME - Sign-In API
+ * ============================================================================
+ *
+ * Purpose: Check a member's family code, name and secret on the server,
+ *          then issue the device its first session token
+ * Technology: Vercel Serverless Functions (also mounted by dev-server.js)
+ *
+ * Endpoints:
+ * - POST /api/sign-in - Sign in ({ familyCode, userName, secret?, redeemCode?,
+ *   deviceId, deviceName? })
+ *
+ * Responses:
+ * - 200 - { family, memberId, memberType, session }, family without
+ *         credential hashes, session from issueSessionToken
+ * - 401 - Missing or wrong PIN / picture password, or locked out
+ *         ({ error, secretRequired, lockedUntil? })
+ * - 403 - Code expired or used up, the name is not in the family, or the
+ *         device is revoked - or still pending ({ error, familyId, device,
+ *         pairingToken }: the pairing code a guardian approves it with, and
+ *         the token it checks /api/devices for approval with)
+ * - 404 - No family uses this code
+ *
+ * Later tokens come from refreshing this one at /api/session.
+ *
+ * Last Updated: 2024-09-09
+ * ============================================================================
+ */
+
+import { setCorsHeaders } from './_lib/cors.js';
+import { RegistryError, getFamilyByCode, getFamilyById, updateFamily } from './_lib/familyRegistry.js';
+import { toPublicFamily, verifyMemberSecret } from './_lib/memberSecrets.js';
+import { issuePairingToken, issueSessionToken } from './_lib/session.js';
+import { registerDevice } from './_lib/trustedDevices.js';
+
+// Helper function to find a member by the name they sign in with
+const findMemberByName = (family, userName) => {
+  const name = userName.trim().toLowerCase();
+  const guardian = (family.guardians || []).find(g => g.name.toLowerCase() === name);
+  if (guardian) return { member: guardian, memberType: 'guardian' };
+  const child = (family.children || []).find(c => c.name.toLowerCase() === name);
+  return child ? { member: child, memberType: 'child' } : null;
+};
+
+export default async function handler(req, res) {
+  // Set CORS headers
+  setCorsHeaders(req, res, 'POST');
+
+  if (req.method === 'OPTIONS') {
+    return res.status(200).end();
+  }
+
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  try {
+    const { familyCode, userName, secret, redeemCode, deviceId, deviceName } = req.body || {};
+    const missing = Object.entries({ familyCode, userName, deviceId })
+      .filter(([, value]) => typeof value !== 'string' || !value.trim())
+      .map(([field]) => field);
+    if (missing.length > 0) {
+      throw new RegistryError(400, `Missing required fields: ${missing.join(', ')}`);
+    }
+
+    const family = await getFamilyByCode(familyCode);
+    if (!family) {
+      throw new RegistryError(404, 'Invalid family code. Please check the code and try again, or ask your family for the correct code.');
+    }
+
+    // Check code expiry and usage limit
+    const codeInfo = family.codeInfo;
+    if (codeInfo?.expires && new Date(codeInfo.expires).getTime() <= Date.now()) {
+      throw new RegistryError(403, `This family code has expired. Please ask a parent in the "${family.name}" family for a new code.`);
+    }
+    if (redeemCode && codeInfo?.maxUses !== undefined && (codeInfo.uses || 0) >= codeInfo.maxUses) {
+      throw new RegistryError(403, `This family code has already been used the maximum number of times. Please ask a parent in the "${family.name}" family for a new code.`);
+    }
+
+    const found = findMemberByName(family, userName);
+    if (!found) {
+      throw new RegistryError(403, `Sorry, "${userName.trim()}" is not a member of the "${family.name}" family. Please check your name or ask your parents to add you to the family first.`);
+    }
+
+    // PIN or picture password, with failed attempts counted here
+    const secretCheck = await verifyMemberSecret(family.id, found.member.id, secret);
+    if (!secretCheck.success) {
+      return res.status(401).json({ success: false, ...secretCheck });
+    }
+
+    // Only approved devices get a token; new devices wait for a guardian
+    const memberId = found.member.id;
+    const device = await registerDevice(family.id, memberId, { deviceId, name: deviceName });
+    if (device.status === 'revoked') {
+      throw new RegistryError(403, 'This device has been removed from the family. Please ask a parent for help.');
+    }
+    if (device.status !== 'approved') {
+      return res.status(403).json({
+        success: false,
+        error: 'This device needs a parent\'s OK before it can be used.',
+        familyId: family.id,
+        device,
+        pairingToken: issuePairingToken({ familyId: family.id, memberId, deviceId })
+      });
+    }
+
+    const signedIn = redeemCode && codeInfo
+      ? await updateFamily(family.id, (stored) => {
+          stored.codeInfo.uses = (stored.codeInfo.uses || 0) + 1;
+          return stored;
+        })
+      : await getFamilyById(family.id);
+
+    return res.status(200).json({
+      success: true,
+      data: {
+        family: toPublicFamily(signedIn),
+        memberId,
+        memberType: found.memberType,
+        session: issueSessionToken({ familyId: family.id, memberId, deviceId, epoch: device.sessionEpoch })
+      }
+    });
+  } catch (error) {
+    if (error instanceof RegistryError) {
+      return res.status(error.status).json({ success: false, error: error.message });
+    }
+    console.error('Sign-in error:', error);
+    res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+}
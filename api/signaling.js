@@ -6,51 +6,30 @@
  * Purpose: Handle WebRTC signaling between kids and guardians
  * Technology: Vercel Serverless Functions + Pusher
  * 
- * Endpoints:
- * - POST /api/signaling/offer - Send offer to peer
- * - POST /api/signaling/answer - Send answer to peer
- * - POST /api/signaling/ice-candidate - Send ICE candidate to peer
- * - POST /api/signaling/end-call - End call notification
+ * Endpoint: POST /api/signaling with a versioned signaling message
+ * (see _lib/signalingProtocol.js for the actions and their data) and
+ * "Authorization: Bearer <session token>" from /api/sign-in or /api/session
+ *
+ * Responses:
+ * - 401 - Missing, invalid or expired session token
+ * - 403 - Sender is not the session's device, or not allowed the action
+ * - 400 - Invalid message, unknown action or unsupported protocol version
+ * - 413 - Message larger than Pusher accepts
  * 
  * Last Updated: 2024-09-09
  * ============================================================================
  */
 
-const Pusher = require('pusher');
+import { setCorsHeaders } from './_lib/cors.js';
+import { RegistryError } from './_lib/familyRegistry.js';
+import { sendPusherEvent } from './_lib/pusherServer.js';
+import { SessionError, authenticateRequest, authorizeSignalingMessage } from './_lib/session.js';
+import { SignalingValidationError, familyChannelName, toPusherEvent } from './_lib/signalingProtocol.js';
 
-const pusher = new Pusher({
-  appId: process.env.PUSHER_APP_ID,
-  key: process.env.PUSHER_KEY,
-  secret: process.env.PUSHER_SECRET,
-  cluster: process.env.PUSHER_CLUSTER,
-  useTLS: true
-});
-
-// Helper function to validate required fields
-const validateFields = (body, requiredFields) => {
-  const missing = requiredFields.filter(field => !body[field]);
-  if (missing.length > 0) {
-    throw new Error(`Missing required fields: ${missing.join(', ')}`);
-  }
-};
-
-// Helper function to send Pusher event
-const sendPusherEvent = async (channel, event, data) => {
-  try {
-    await pusher.trigger(channel, event, data);
-    return { success: true };
-  } catch (error) {
-    console.error('Pusher error:', error);
-    throw new Error('Failed to send signaling message');
-  }
-};
-
-// Send offer to peer
+// Relay a signaling message to the family channel
 export default async function handler(req, res) {
   // Set CORS headers
-  res.setHeader('Access-Control-Allow-Origin', '*');
-  res.setHeader('Access-Control-Allow-Methods', 'GET, POST, OPTIONS');
-  res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization');
+  setCorsHeaders(req, res, 'GET, POST');
 
   if (req.method === 'OPTIONS') {
     return res.status(200).end();
@@ -61,89 +40,24 @@ export default async function handler(req, res) {
   }
 
   try {
-    const { action, fromDeviceId, toDeviceId, familyId, data } = req.body;
-
-    // Validate required fields
-    validateFields(req.body, ['action', 'fromDeviceId', 'toDeviceId', 'familyId']);
-
-    const channel = `family-${familyId}`;
+    const session = authenticateRequest(req);
+    const message = await authorizeSignalingMessage(session, req.body);
     const timestamp = new Date().toISOString();
+    const { event, payload } = toPusherEvent(message, timestamp);
 
-    switch (action) {
-      case 'offer':
-        await sendPusherEvent(channel, 'webrtc-offer', {
-          from: fromDeviceId,
-          to: toDeviceId,
-          offer: data,
-          timestamp
-        });
-        break;
-
-      case 'answer':
-        await sendPusherEvent(channel, 'webrtc-answer', {
-          from: fromDeviceId,
-          to: toDeviceId,
-          answer: data,
-          timestamp
-        });
-        break;
-
-      case 'ice-candidate':
-        await sendPusherEvent(channel, 'webrtc-ice-candidate', {
-          from: fromDeviceId,
-          to: toDeviceId,
-          candidate: data,
-          timestamp
-        });
-        break;
-
-      case 'end-call':
-        await sendPusherEvent(channel, 'webrtc-end-call', {
-          from: fromDeviceId,
-          to: toDeviceId,
-          timestamp
-        });
-        break;
-
-      case 'call-request':
-        await sendPusherEvent(channel, 'incoming-call', {
-          from: fromDeviceId,
-          to: toDeviceId,
-          callType: data.callType || 'voice',
-          timestamp
-        });
-        break;
-
-      case 'call-accepted':
-        await sendPusherEvent(channel, 'call-accepted', {
-          from: fromDeviceId,
-          to: toDeviceId,
-          timestamp
-        });
-        break;
-
-      case 'call-rejected':
-        await sendPusherEvent(channel, 'call-rejected', {
-          from: fromDeviceId,
-          to: toDeviceId,
-          timestamp
-        });
-        break;
-
-      default:
-        return res.status(400).json({ error: 'Invalid action' });
-    }
+    await sendPusherEvent(familyChannelName(message.familyId), event, payload);
 
     res.status(200).json({ 
       success: true, 
-      message: `${action} sent successfully`,
+      message: `${message.action} sent successfully`,
       timestamp 
     });
 
   } catch (error) {
+    if (error instanceof SignalingValidationError || error instanceof SessionError || error instanceof RegistryError) {
+      return res.status(error.status).json({ error: error.message, code: error.code });
+    }
     console.error('Signaling error:', error);
-    res.status(500).json({ 
-      error: error.message || 'Internal server error' 
-    });
+    res.status(500).json({ error: 'Internal server error' });
   }
 }
@@ -0,0 +1,51 @@
+/**
+ * ============================================================================
+ * KIDS CALL HOME - TURN Credentials API
+ * ============================================================================
+ *
+ * Purpose: Give signed-in family devices short-lived TURN relay credentials
+ * Technology: Vercel Serverless Functions (also mounted by dev-server.js)
+ *
+ * Endpoints:
+ * - GET /api/turn-credentials - { iceServers, expiresAt } with
+ *   "Authorization: Bearer <session token>". iceServers is empty when the
+ *   deployment has no TURN server configured.
+ *
+ * Last Updated: 2024-09-09
+ * ============================================================================
+ */
+
+import { setCorsHeaders } from './_lib/cors.js';
+import { RegistryError } from './_lib/familyRegistry.js';
+import { SessionError, authenticateRequest, requireApprovedDevice } from './_lib/session.js';
+import { issueTurnCredentials } from './_lib/turnCredentials.js';
+
+export default async function handler(req, res) {
+  // Set CORS headers
+  setCorsHeaders(req, res, 'GET');
+
+  if (req.method === 'OPTIONS') {
+    return res.status(200).end();
+  }
+
+  if (req.method !== 'GET') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  try {
+    const session = authenticateRequest(req);
+
+    // Revoked devices lose the relay along with everything else
+    await requireApprovedDevice(session);
+
+    // Credentials are per request - don't let a shared cache hand them out
+    res.setHeader('Cache-Control', 'no-store');
+    return res.status(200).json({ success: true, data: issueTurnCredentials(session.memberId) });
+  } catch (error) {
+    if (error instanceof SessionError || error instanceof RegistryError) {
+      return res.status(error.status).json({ success: false, error: error.message, code: error.code });
+    }
+    console.error('TURN credentials error:', error);
+    res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+}
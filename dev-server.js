@@ -3,10 +3,24 @@
  * Run with: node dev-server.js
  */
 
-import cors from 'cors';
 import dotenv from 'dotenv';
 import express from 'express';
-import Pusher from 'pusher';
+import devicesHandler from './api/devices.js';
+import emergencyEventsHandler from './api/emergency-events.js';
+import familiesHandler from './api/families.js';
+import familyCodeHandler from './api/family-code.js';
+import memberSecretsHandler from './api/member-secrets.js';
+import pusherAuthHandler from './api/pusher/auth.js';
+import pusherWebhookHandler from './api/pusher/webhook.js';
+import sessionHandler from './api/session.js';
+import signInHandler from './api/sign-in.js';
+import signalingHandler from './api/signaling.js';
+import turnCredentialsHandler from './api/turn-credentials.js';
+import { startLocalPusherBroker } from './api/_lib/localPusherBroker.js';
+import { recordMemberPresence } from './api/_lib/memberPresence.js';
+import { getPusherConfig, isLocalPusher } from './api/_lib/pusherServer.js';
+import { familyIdFromChannelName } from './api/_lib/signalingProtocol.js';
+import { attachSignalingSocketServer } from './api/_lib/signalingSocketServer.js';
 
 // Load environment variables from .env file
 dotenv.config();
@@ -14,140 +28,26 @@ dotenv.config();
 const app = express();
 const PORT = 3001;
 
-// Middleware
-app.use(cors());
-app.use(express.json());
-
-// Real Pusher configuration
-const pusher = new Pusher({
-  appId: process.env.PUSHER_APP_ID || 'your-pusher-app-id',
-  key: process.env.PUSHER_KEY || 'your-pusher-key',
-  secret: process.env.PUSHER_SECRET || 'your-pusher-secret',
-  cluster: process.env.PUSHER_CLUSTER || 'us2',
-  useTLS: true
-});
-
-// Helper function to send Pusher event
-const sendPusherEvent = async (channel, event, data) => {
-  try {
-    console.log(`📡 Sending Pusher event: ${event} on ${channel}`, data);
-    const result = await pusher.trigger(channel, event, data);
-    console.log(`✅ Pusher event sent successfully:`, result);
-    return { success: true };
-  } catch (error) {
-    console.error('Pusher error:', error);
-    throw new Error('Failed to send signaling message');
-  }
-};
-
-// Helper function to validate required fields
-const validateFields = (body, requiredFields) => {
-  const missing = requiredFields.filter(field => !body[field]);
-  if (missing.length > 0) {
-    throw new Error(`Missing required fields: ${missing.join(', ')}`);
-  }
-};
-
-
-// API Routes
-app.post('/api/signaling', async (req, res) => {
-  try {
-    const { action, fromDeviceId, toDeviceId, familyId, data } = req.body;
-
-    // Validate required fields
-    validateFields(req.body, ['action', 'fromDeviceId', 'toDeviceId', 'familyId']);
-
-    const channel = `family-${familyId}`;
-    const timestamp = new Date().toISOString();
-
-    console.log(`📡 Signaling: ${action} from ${fromDeviceId} to ${toDeviceId}`);
-
-    switch (action) {
-      case 'offer':
-        await sendPusherEvent(channel, 'webrtc-offer', {
-          from: fromDeviceId,
-          to: toDeviceId,
-          offer: data,
-          timestamp
-        });
-        break;
-
-      case 'answer':
-        await sendPusherEvent(channel, 'webrtc-answer', {
-          from: fromDeviceId,
-          to: toDeviceId,
-          answer: data,
-          timestamp
-        });
-        break;
-
-      case 'ice-candidate':
-        await sendPusherEvent(channel, 'webrtc-ice-candidate', {
-          from: fromDeviceId,
-          to: toDeviceId,
-          candidate: data,
-          timestamp
-        });
-        break;
-
-      case 'end-call':
-        await sendPusherEvent(channel, 'webrtc-end-call', {
-          from: fromDeviceId,
-          to: toDeviceId,
-          timestamp
-        });
-        break;
-
-      case 'call-request':
-        await sendPusherEvent(channel, 'incoming-call', {
-          from: fromDeviceId,
-          to: toDeviceId,
-          callType: data.callType || 'voice',
-          timestamp
-        });
-        break;
-
-      case 'call-accepted':
-        await sendPusherEvent(channel, 'call-accepted', {
-          from: fromDeviceId,
-          to: toDeviceId,
-          timestamp
-        });
-        break;
-
-      case 'call-rejected':
-        await sendPusherEvent(channel, 'call-rejected', {
-          from: fromDeviceId,
-          to: toDeviceId,
-          timestamp
-        });
-        break;
-
-      case 'status-update':
-        await sendPusherEvent(channel, 'client-status-update', {
-          userId: fromDeviceId,
-          isOnline: data.isOnline,
-          lastSeen: data.lastSeen || timestamp
-        });
-        break;
-
-      default:
-        return res.status(400).json({ error: 'Invalid action' });
-    }
-
-    res.status(200).json({ 
-      success: true, 
-      message: `${action} sent successfully`,
-      timestamp 
-    });
-
-  } catch (error) {
-    console.error('Signaling error:', error);
-    res.status(500).json({ 
-      error: error.message || 'Internal server error' 
-    });
+// Middleware (each handler sets its own CORS headers, see api/_lib/cors.js)
+// Keep the raw body too, Pusher webhook signatures are over the exact bytes sent
+app.use(express.json({
+  verify: (req, res, buffer) => {
+    req.rawBody = buffer.toString('utf8');
   }
-});
+}));
+
+// API Routes (same handlers as the Vercel functions)
+app.all('/api/signaling', signalingHandler);
+app.all('/api/session', sessionHandler);
+app.all('/api/pusher/auth', pusherAuthHandler);
+app.all('/api/pusher/webhook', pusherWebhookHandler);
+app.all('/api/families', familiesHandler);
+app.all('/api/family-code', familyCodeHandler);
+app.all('/api/sign-in', signInHandler);
+app.all('/api/member-secrets', memberSecretsHandler);
+app.all('/api/devices', devicesHandler);
+app.all('/api/emergency-events', emergencyEventsHandler);
+app.all('/api/turn-credentials', turnCredentialsHandler);
 
 // Health check
 app.get('/api/health', (req, res) => {
@@ -155,10 +55,35 @@ app.get('/api/health', (req, res) => {
 });
 
 // Start server
-app.listen(PORT, () => {
+const server = app.listen(PORT, () => {
   console.log(`🚀 Development API server running on http://localhost:${PORT}`);
-  console.log(`📡 Real Pusher configured for live signaling`);
+  console.log(isLocalPusher() ? `📡 Local Pusher broker for offline signaling (PUSHER_LOCAL=true)` : `📡 Real Pusher configured for live signaling`);
   console.log(`🔗 API endpoint: http://localhost:${PORT}/api/signaling`);
-  console.log(`🔑 Pusher Key: ${process.env.PUSHER_KEY || 'your-pusher-key'}`);
-  console.log(`🌍 Pusher Cluster: ${process.env.PUSHER_CLUSTER || 'us2'}`);
+  console.log(`🔌 WebSocket signaling: ws://localhost:${PORT}/ws (VITE_SIGNALING_TRANSPORT=websocket)`);
+  console.log(`🔐 Sessions: http://localhost:${PORT}/api/session`);
+  console.log(`👪 Family registry: http://localhost:${PORT}/api/families`);
+  console.log(`🙋 Sign-in: http://localhost:${PORT}/api/sign-in`);
+  console.log(`🧭 TURN credentials: http://localhost:${PORT}/api/turn-credentials${process.env.TURN_URLS ? '' : ' (TURN_URLS not set - STUN only)'}`);
+  console.log(`🔑 Pusher Key: ${getPusherConfig().key || 'your-pusher-key'}`);
+  if (!isLocalPusher()) {
+    console.log(`🌍 Pusher Cluster: ${process.env.PUSHER_CLUSTER || 'us2'}`);
+  }
 });
+
+// Stand-in for Pusher, so two tabs can call each other without a network
+if (isLocalPusher()) {
+  startLocalPusherBroker({
+    ...getPusherConfig(),
+    // What the Pusher presence webhook (/api/pusher/webhook) does for real Pusher
+    onPresenceChange: ({ channel, userId, isOnline }) => {
+      const familyId = familyIdFromChannelName(channel);
+      if (!familyId) return;
+      recordMemberPresence(familyId, userId, isOnline).catch(error => {
+        console.warn(`Could not record presence for ${userId}:`, error.message);
+      });
+    }
+  });
+}
+
+// Self-hosted signaling for clients configured with VITE_SIGNALING_TRANSPORT=websocket
+attachSignalingSocketServer(server, { path: '/ws' });
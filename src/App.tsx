@@ -24,10 +24,14 @@
  */
 
 import { useEffect } from 'react';
-import { Navigate, Route, BrowserRouter as Router, Routes, useLocation } from 'react-router-dom';
+import { Navigate, Route, BrowserRouter as Router, Routes, useLocation, useNavigate } from 'react-router-dom';
+import { DeviceIdentityService } from './services/deviceIdentityService';
+import FamilyDataService from './services/familyDataService';
 import pusherService from './services/pusherService';
-import websocketService from './services/websocketService';
+import { sessionService } from './services/sessionService';
+import { watchConnectionChanges } from './services/networkMonitor';
 import { useAppStore } from './stores/useAppStore';
+import { watchDeviceInfo } from './utils/deviceDetection';
 
 // Import pages
 import GuardianDashboard from './pages/GuardianDashboard';
@@ -36,6 +40,7 @@ import KidsDashboard from './pages/KidsDashboard';
 import LandingPage from './pages/LandingPage';
 import LoginPage from './pages/LoginPage';
 import MessagesPage from './pages/MessagesPage';
+import PairDevicePage from './pages/PairDevicePage';
 import SetupPage from './pages/SetupPage';
 import VideoCallPage from './pages/VideoCallPage';
 import VoiceCallPage from './pages/VoiceCallPage';
@@ -52,8 +57,54 @@ import PWAInstallPrompt from './components/shared/PWAInstallPrompt';
  * appropriate dashboard based on their user type.
  */
 const AuthGuard: React.FC<{ children: React.ReactNode }> = ({ children }) => {
-  const { currentFamily, currentUser, userType } = useAppStore();
+  const { currentFamily, currentUser, userType, logout } = useAppStore();
   const location = useLocation();
+  const navigate = useNavigate();
+  
+  // Sign out when a guardian changes the family code on another device
+  const familyId = currentFamily?.id;
+  useEffect(() => {
+    if (!familyId) return;
+    
+    return pusherService.onFamilyCodeRotated(() => {
+      console.log('🔑 Family code was changed, signing out');
+      logout();
+      navigate('/login', {
+        replace: true,
+        state: { notice: 'Your family code was changed. Please ask a parent for the new code and sign in again.' },
+      });
+    });
+  }, [familyId, logout, navigate]);
+  
+  // Sign out when a guardian revokes this device
+  const userId = currentUser?.id;
+  useEffect(() => {
+    if (!familyId || !userId) return;
+    
+    return pusherService.onDeviceRevoked((data) => {
+      if (data.memberId !== userId) return;
+      console.log('🚫 This device was removed from the family, signing out');
+      logout();
+      navigate('/login', {
+        replace: true,
+        state: { notice: 'This device was removed from your family. Please ask a parent for help.' },
+      });
+    });
+  }, [familyId, userId, logout, navigate]);
+  
+  // Sign out when the server no longer accepts this device's session
+  useEffect(() => {
+    if (!familyId) return;
+    
+    return sessionService.onSessionEnded(() => {
+      console.log('🔐 Session ended, signing out');
+      logout();
+      navigate('/login', {
+        replace: true,
+        state: { notice: 'You have been signed out. Please sign in again.' },
+      });
+    });
+  }, [familyId, logout, navigate]);
   
   // If user has existing family data and is not already on a dashboard page
   if (currentFamily && currentUser && userType) {
@@ -63,9 +114,10 @@ const AuthGuard: React.FC<{ children: React.ReactNode }> = ({ children }) => {
     const isOnDashboard = location.pathname === '/guardian' || location.pathname === '/kids';
     const isOnCallPage = location.pathname.startsWith('/call/');
     const isOnMessagesPage = location.pathname.startsWith('/messages/');
+    const isOnPairPage = location.pathname === '/pair';
     
     // Allow access to landing, setup, and login pages even if user is logged in
-    if (!isOnLanding && !isOnSetup && !isOnLogin && !isOnDashboard && !isOnCallPage && !isOnMessagesPage) {
+    if (!isOnLanding && !isOnSetup && !isOnLogin && !isOnDashboard && !isOnCallPage && !isOnMessagesPage && !isOnPairPage) {
       // Redirect to appropriate dashboard
       return <Navigate to={userType === 'guardian' ? '/guardian' : '/kids'} replace />;
     }
@@ -102,90 +154,98 @@ function App() {
     }
   }, [initializeApp]);
 
-  // Handle user going offline when page is closed or refreshed
+  // Keep device capabilities current (e.g. a webcam plugged in later)
   useEffect(() => {
-    const handleBeforeUnload = () => {
-      if (currentUser) {
-        // Update user's offline status
-        const { updateFamilyMemberStatus } = useAppStore.getState();
-        updateFamilyMemberStatus(currentUser.id, false, new Date());
-        // Also send via Pusher
-        pusherService.sendStatusUpdate(false).catch(console.error);
-      }
-    };
-
-    const handleVisibilityChange = () => {
-      if (document.hidden && currentUser) {
-        // User switched tabs or minimized browser
-        const { updateFamilyMemberStatus } = useAppStore.getState();
-        updateFamilyMemberStatus(currentUser.id, false, new Date());
-        // Also send via Pusher
-        pusherService.sendStatusUpdate(false).catch(console.error);
-      } else if (!document.hidden && currentUser) {
-        // User came back to the tab
-        const { updateFamilyMemberStatus } = useAppStore.getState();
-        updateFamilyMemberStatus(currentUser.id, true, new Date());
-        // Also send via Pusher
-        pusherService.sendStatusUpdate(true).catch(console.error);
-      }
-    };
+    return watchDeviceInfo((deviceInfo) => useAppStore.getState().setDeviceInfo(deviceInfo));
+  }, []);
 
-    window.addEventListener('beforeunload', handleBeforeUnload);
-    document.addEventListener('visibilitychange', handleVisibilityChange);
-
-    return () => {
-      window.removeEventListener('beforeunload', handleBeforeUnload);
-      document.removeEventListener('visibilitychange', handleVisibilityChange);
-    };
-  }, [currentUser]);
-
-  // Initialize WebSocket connection when user is logged in (production only)
+  // Follow network changes between calls (during a call the call's own stats take over)
   useEffect(() => {
-    // Skip WebSocket in development since we're using Pusher
-    if (import.meta.env.DEV) {
-      console.log('WebSocket disabled in development - using Pusher instead');
-      return;
-    }
-
-    if (currentFamily && currentUser) {
-      websocketService.connect(currentFamily.id, currentUser.id);
-      
-      // Cleanup on unmount or when dependencies change
-      return () => {
-        websocketService.disconnect();
-      };
-    } else {
-      // Disconnect if no user is logged in
-      websocketService.disconnect();
-    }
-  }, [currentFamily?.id, currentUser?.id]); // Only depend on IDs to prevent unnecessary reconnections
+    return watchConnectionChanges((networkInfo) => {
+      const { activeCall, setNetworkInfo } = useAppStore.getState();
+      if (!activeCall) setNetworkInfo(networkInfo);
+    });
+  }, []);
 
-  // Initialize Pusher connection and status updates when user is logged in
+  // Initialize signaling connection and family presence when user is logged in
   useEffect(() => {
     if (currentFamily && currentUser) {
-      // Connect to Pusher
-      pusherService.connect(currentFamily.id, currentUser.deviceId);
+      // Connect to the family's signaling as this browser (calls to this member ring it too).
+      // Members can be signed in on several devices, so the member record can't say which one this is.
+      pusherService.connect(currentFamily.id, DeviceIdentityService.getDeviceId(), currentUser.id);
       
-      // Send initial online status
-      pusherService.sendStatusUpdate(true).catch(console.error);
+      // Whoever is in the family presence channel is online, everyone else isn't
+      const unsubscribeSnapshot = pusherService.onPresenceSnapshot((onlineMemberIds) => {
+        const { currentFamily: family, updateFamilyMemberStatus } = useAppStore.getState();
+        if (!family) return;
+        
+        [...family.guardians, ...family.children].forEach(member => {
+          const isOnline = onlineMemberIds.includes(member.id);
+          if (isOnline) {
+            updateFamilyMemberStatus(member.id, true, new Date());
+          } else if (member.isOnline) {
+            updateFamilyMemberStatus(member.id, false, new Date(member.lastSeen));
+          }
+        });
+      });
       
-      // Listen for status updates from other family members
-      pusherService.onStatusUpdate((data) => {
+      // Members joining or leaving (leaving means their last device disconnected)
+      const unsubscribePresence = pusherService.onPresenceChange(({ memberId, isOnline, at }) => {
         const { updateFamilyMemberStatus } = useAppStore.getState();
-        updateFamilyMemberStatus(data.userId, data.isOnline, new Date(data.lastSeen));
+        updateFamilyMemberStatus(memberId, isOnline, at);
+      });
+      
+      // Family chat messages from other devices
+      const unsubscribeChat = pusherService.onChatMessage((data) => {
+        const { currentFamily: family, addMessage } = useAppStore.getState();
+        const guardian = family?.guardians.find(g => g.id === data.fromMemberId);
+        const sender = guardian || family?.children.find(c => c.id === data.fromMemberId);
+        if (!family || !sender) return;
+        
+        addMessage({
+          id: data.messageId,
+          familyId: family.id,
+          from: { id: sender.id, name: sender.name, type: guardian ? 'guardian' : 'child' },
+          content: { type: 'text', text: data.text },
+          timestamp: new Date(data.timestamp),
+          read: false,
+          delivered: true,
+        });
+      });
+      
+      // Emergency button alerts from a child's device, so guardians see them as they happen
+      const unsubscribeEmergency = pusherService.onEmergencyAlert((data) => {
+        const { currentFamily: family, userType, setCurrentFamily } = useAppStore.getState();
+        const child = family?.children.find(c => c.id === data.fromMemberId);
+        if (!family || !child) return;
+        
+        setCurrentFamily(FamilyDataService.withEmergencyEvent(family, {
+          id: data.eventId,
+          childId: child.id,
+          status: data.status,
+          startedAt: new Date(data.startedAt),
+          answeredBy: data.answeredBy,
+        }));
+        
+        if (userType === 'guardian' && data.status === 'ringing' &&
+            'Notification' in window && Notification.permission === 'granted') {
+          new Notification('🚨 Emergency', { body: `${child.name} pressed the emergency button`, tag: data.eventId });
+        }
       });
       
       // Cleanup on unmount or when dependencies change
       return () => {
-        // Send offline status before disconnecting
-        pusherService.sendStatusUpdate(false).catch(console.error);
+        unsubscribeSnapshot();
+        unsubscribePresence();
+        unsubscribeChat();
+        unsubscribeEmergency();
         pusherService.disconnect();
       };
     } else {
       // Disconnect if no user is logged in
       pusherService.disconnect();
     }
-  }, [currentFamily?.id, currentUser?.id, currentUser?.deviceId]);
+  }, [currentFamily?.id, currentUser?.id]);
 
   // Apply theme to document
   useEffect(() => {
@@ -260,6 +320,9 @@ function App() {
               {/* Login */}
               <Route path="/login" element={<LoginPage />} />
               
+              {/* Device Pairing (opened from the QR code on a new device) */}
+              <Route path="/pair" element={<PairDevicePage />} />
+              
               {/* Guardian Interface */}
               <Route path="/guardian" element={<GuardianDashboard />} />
               
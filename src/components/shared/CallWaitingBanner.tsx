@@ -0,0 +1,145 @@
+/**
+ * ============================================================================
+ * KIDS CALL HOME - Call Waiting Banner Component
+ * ============================================================================
+ *
+ * Purpose: Shows the other call during a call - one ringing, or one on hold
+ * Interface: Shared - used by the voice and video call pages for guardians and kids
+ * Dependencies: React, tailwindcss, callEngine (IncomingCall), zustand
+ *
+ * V1 Features:
+ * - Who's calling, with answer (this call goes on hold) and decline
+ * - Decline with a ready-made reply for the caller
+ * - The call on hold, with a button to switch to it
+ *
+ * Last Updated: 2024-09-09
+ * ============================================================================
+ */
+
+import React, { useState } from 'react';
+import type { IncomingCall } from '../../services/callEngine';
+import { useCurrentUser, useFamily } from '../../stores/useAppStore';
+import type { CallState } from '../../types';
+
+interface CallWaitingBannerProps {
+  waitingCall: IncomingCall | null;
+  heldCall: CallState | null;
+  variant: 'guardian' | 'kids';
+  onAnswer: () => void;
+  onDecline: (reply?: string) => void;
+  onSwitch: () => void;
+}
+
+// Replies a caller can be sent when their call is declined
+const GUARDIAN_REPLIES = [
+  'I\'m on another call - I\'ll call you right back.',
+  'Can\'t talk right now. I\'ll call you soon.',
+  'Is it urgent? Send me a message.',
+];
+const KIDS_REPLIES = [
+  'I\'m on a call - I\'ll call you back! 📞',
+  'Can\'t talk now, talk soon! 👋',
+];
+
+/**
+ * CallWaitingBanner - The second call, shown above the one in progress
+ */
+const CallWaitingBanner: React.FC<CallWaitingBannerProps> = ({
+  waitingCall,
+  heldCall,
+  variant,
+  onAnswer,
+  onDecline,
+  onSwitch,
+}) => {
+  const family = useFamily();
+  const currentUser = useCurrentUser();
+  const [showReplies, setShowReplies] = useState(false);
+
+  if (!waitingCall && !heldCall) return null;
+
+  const isKids = variant === 'kids';
+  const replies = isKids ? KIDS_REPLIES : GUARDIAN_REPLIES;
+  const caller = waitingCall?.fromMemberId
+    ? family?.guardians.find(g => g.id === waitingCall.fromMemberId) || family?.children.find(c => c.id === waitingCall.fromMemberId)
+    : undefined;
+  const heldNames = heldCall?.participants
+    .filter(member => member.id !== currentUser?.id)
+    .map(member => member.name)
+    .join(', ');
+
+  // Answer or decline, closing the replies either way
+  const handleAnswer = () => {
+    setShowReplies(false);
+    onAnswer();
+  };
+  const handleDecline = (reply?: string) => {
+    setShowReplies(false);
+    onDecline(reply);
+  };
+
+  const bannerClassName = isKids
+    ? 'mb-6 p-4 bg-white rounded-2xl shadow-lg text-gray-800'
+    : 'mb-6 p-4 bg-black bg-opacity-30 rounded-lg text-white';
+  const buttonClassName = isKids
+    ? 'px-4 py-3 rounded-2xl text-lg font-bold text-white'
+    : 'px-4 py-2 rounded-lg font-semibold text-white';
+
+  if (waitingCall) {
+    const callType = waitingCall.callType === 'video' ? 'video call' : 'call';
+    return (
+      <div className={bannerClassName}>
+        <p className={isKids ? 'text-xl font-bold mb-3' : 'font-semibold mb-3'}>
+          {isKids
+            ? `${caller?.avatar || '📞'} ${caller?.name || 'Someone'} is calling too!`
+            : `${caller?.name || 'A family member'} is calling (${callType})`}
+        </p>
+
+        <div className="flex flex-wrap gap-2">
+          <button onClick={handleAnswer} className={`${buttonClassName} bg-green-500 hover:bg-green-600`}>
+            {isKids ? 'Answer ✅' : 'Hold & Answer'}
+          </button>
+          <button onClick={() => handleDecline()} className={`${buttonClassName} bg-red-500 hover:bg-red-600`}>
+            {isKids ? 'Not now ❌' : 'Decline'}
+          </button>
+          <button
+            onClick={() => setShowReplies(!showReplies)}
+            className={`${buttonClassName} ${isKids ? 'bg-purple-500' : 'bg-white bg-opacity-20 hover:bg-opacity-30'}`}
+          >
+            {isKids ? 'Send a message 💬' : 'Decline with message'}
+          </button>
+        </div>
+
+        {/* Ready-made replies */}
+        {showReplies && (
+          <div className="mt-3 space-y-2">
+            {replies.map((reply) => (
+              <button
+                key={reply}
+                onClick={() => handleDecline(reply)}
+                className={`block w-full text-left px-3 py-2 rounded-lg ${
+                  isKids ? 'bg-gray-100 text-lg' : 'bg-white bg-opacity-10 hover:bg-opacity-20'
+                }`}
+              >
+                {reply}
+              </button>
+            ))}
+          </div>
+        )}
+      </div>
+    );
+  }
+
+  return (
+    <div className={`${bannerClassName} flex items-center justify-between`}>
+      <p className={isKids ? 'text-xl font-bold' : 'font-semibold'}>
+        {isKids ? `⏸️ ${heldNames} is waiting` : `On hold: ${heldNames}`}
+      </p>
+      <button onClick={onSwitch} className={`${buttonClassName} bg-blue-500 hover:bg-blue-600`}>
+        {isKids ? 'Switch 🔀' : 'Switch'}
+      </button>
+    </div>
+  );
+};
+
+export default CallWaitingBanner;
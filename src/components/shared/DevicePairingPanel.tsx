@@ -0,0 +1,102 @@
+/**
+ * ============================================================================
+ * KIDS CALL HOME - Device Pairing Panel Component
+ * ============================================================================
+ *
+ * Purpose: Shown on a new device while it waits for a guardian's approval
+ * Interface: Shared - used by login and child setup
+ * Dependencies: React, qrcode, familyDataService
+ *
+ * V1 Features:
+ * - Large pairing code a guardian can type in
+ * - QR code that opens the pairing page on the guardian's phone
+ * - Polls until the device is approved or revoked
+ *
+ * Last Updated: 2024-09-09
+ * ============================================================================
+ */
+
+import QRCode from 'qrcode';
+import React, { useEffect, useRef, useState } from 'react';
+import FamilyDataService, { type PendingDevice } from '../../services/familyDataService';
+
+interface DevicePairingPanelProps {
+  pendingDevice: PendingDevice;
+  onApproved: () => void;
+  onRevoked: () => void;
+}
+
+const POLL_INTERVAL_MS = 5000;
+
+/**
+ * DevicePairingPanel - Pairing code, QR code and approval polling
+ */
+const DevicePairingPanel: React.FC<DevicePairingPanelProps> = ({
+  pendingDevice,
+  onApproved,
+  onRevoked,
+}) => {
+  const { familyId, device } = pendingDevice;
+  const [qrCodeUrl, setQrCodeUrl] = useState<string | null>(null);
+
+  // Latest callbacks, so new ones from the parent don't restart the polling
+  const onApprovedRef = useRef(onApproved);
+  const onRevokedRef = useRef(onRevoked);
+  useEffect(() => {
+    onApprovedRef.current = onApproved;
+    onRevokedRef.current = onRevoked;
+  });
+
+  // Render the QR code for the guardian's pairing link
+  useEffect(() => {
+    if (!device.pairingCode) return;
+
+    const params = new URLSearchParams({ family: familyId, code: device.pairingCode });
+    const pairingUrl = `${window.location.origin}/pair?${params}`;
+    QRCode.toDataURL(pairingUrl, { width: 200, margin: 1 })
+      .then(setQrCodeUrl)
+      .catch(error => console.error('Failed to render pairing QR code:', error));
+  }, [familyId, device.pairingCode]);
+
+  // Poll until a guardian approves or revokes this device
+  useEffect(() => {
+    const interval = setInterval(async () => {
+      try {
+        const status = await FamilyDataService.getDeviceStatus(pendingDevice);
+        if (status === 'approved') {
+          onApprovedRef.current();
+        } else if (status === 'revoked') {
+          onRevokedRef.current();
+        }
+      } catch (error) {
+        console.warn('Failed to check device approval:', error);
+      }
+    }, POLL_INTERVAL_MS);
+
+    return () => clearInterval(interval);
+  }, [pendingDevice]);
+
+  return (
+    <div className="card text-center space-y-4">
+      <div className="text-5xl">📱</div>
+      <h2 className="text-xl font-bold text-gray-900">Ask a parent to approve this device</h2>
+      <p className="text-gray-600">
+        A parent can scan the code below, or type this number into Manage Family on their device.
+      </p>
+
+      <div className="text-4xl font-mono font-bold tracking-widest text-gray-900">
+        {device.pairingCode}
+      </div>
+
+      {qrCodeUrl && (
+        <img src={qrCodeUrl} alt="Pairing QR code" className="mx-auto w-48 h-48" />
+      )}
+
+      <p className="text-sm text-gray-500">
+        Waiting for approval... This page will continue by itself.
+      </p>
+    </div>
+  );
+};
+
+export default DevicePairingPanel;
@@ -0,0 +1,306 @@
+/**
+ * ============================================================================
+ * KIDS CALL HOME - Emergency Contacts Editor Component
+ * ============================================================================
+ *
+ * Purpose: Lets guardians manage who the emergency button reaches
+ * Interface: Shared - used by the guardian's family settings
+ * Dependencies: React, tailwindcss
+ *
+ * V1 Features:
+ * - Contacts listed in the order they are tried
+ * - Add, edit and remove contacts
+ * - Pick which children each contact covers
+ * - Link a contact to a family guardian so the emergency button rings them;
+ *   anyone else needs a phone number and is only listed for the child
+ *
+ * Last Updated: 2024-09-09
+ * ============================================================================
+ */
+
+import React, { useState } from 'react';
+import type { Child, EmergencyContact, Guardian } from '../../types';
+
+interface EmergencyContactsEditorProps {
+  contacts: EmergencyContact[];
+  guardians: Guardian[];
+  familyChildren: Child[];
+  onChange: (contacts: EmergencyContact[]) => void;
+  disabled?: boolean;
+}
+
+type ContactDraft = Omit<EmergencyContact, 'priority'> & { priority: string };
+
+const inputClassName = 'w-full px-3 py-2 bg-white bg-opacity-20 text-white rounded-lg placeholder-white placeholder-opacity-60';
+
+/**
+ * Rough check - it only has to catch typos
+ */
+const isValidEmail = (email: string) => /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email);
+
+/**
+ * EmergencyContactsEditor - List and form for the family's emergency contacts
+ */
+const EmergencyContactsEditor: React.FC<EmergencyContactsEditorProps> = ({
+  contacts,
+  guardians,
+  familyChildren,
+  onChange,
+  disabled = false,
+}) => {
+  const [draft, setDraft] = useState<ContactDraft | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const sortedContacts = [...contacts].sort((a, b) => a.priority - b.priority);
+  const isNew = draft !== null && !contacts.some(c => c.id === draft.id);
+
+  // Start a new contact at the end of the list
+  const handleAdd = () => {
+    const lastPriority = contacts.reduce((max, c) => Math.max(max, c.priority), 0);
+    setDraft({
+      id: `contact-${Date.now()}`,
+      name: '',
+      relation: '',
+      phone: '',
+      email: '',
+      priority: String(lastPriority + 1),
+      childIds: [],
+    });
+    setError(null);
+  };
+
+  // Edit an existing contact
+  const handleEdit = (contact: EmergencyContact) => {
+    setDraft({ ...contact, phone: contact.phone || '', email: contact.email || '', priority: String(contact.priority) });
+    setError(null);
+  };
+
+  // Remove a contact
+  const handleRemove = (contact: EmergencyContact) => {
+    if (!confirm(`Remove ${contact.name} from your emergency contacts?`)) return;
+    onChange(contacts.filter(c => c.id !== contact.id));
+    if (draft?.id === contact.id) setDraft(null);
+  };
+
+  // Turn a child on or off for the contact being edited
+  const handleToggleChild = (childId: string) => {
+    if (!draft) return;
+    const childIds = draft.childIds.includes(childId)
+      ? draft.childIds.filter(id => id !== childId)
+      : [...draft.childIds, childId];
+    setDraft({ ...draft, childIds });
+  };
+
+  // Check the form and save the contact
+  const handleSave = () => {
+    if (!draft) return;
+
+    const name = draft.name.trim();
+    const relation = draft.relation.trim();
+    const phone = draft.phone?.trim();
+    const email = draft.email?.trim();
+    const priority = Number(draft.priority);
+
+    if (!name || !relation) {
+      setError('Please enter a name and how they know the family.');
+      return;
+    }
+    if (!phone && !draft.memberId) {
+      setError('The app only rings guardians in your family - add a phone number so your child can phone them instead.');
+      return;
+    }
+    if (email && !isValidEmail(email)) {
+      setError('That email address doesn\'t look right.');
+      return;
+    }
+    if (!Number.isInteger(priority) || priority < 1) {
+      setError('Order must be a whole number, starting at 1.');
+      return;
+    }
+
+    const contact: EmergencyContact = {
+      id: draft.id,
+      name,
+      relation,
+      priority,
+      // Children who have since left the family don't count
+      childIds: draft.childIds.filter(id => familyChildren.some(c => c.id === id)),
+      ...(phone ? { phone } : {}),
+      ...(email ? { email } : {}),
+      ...(draft.memberId ? { memberId: draft.memberId } : {}),
+    };
+
+    onChange(isNew ? [...contacts, contact] : contacts.map(c => (c.id === contact.id ? contact : c)));
+    setDraft(null);
+    setError(null);
+  };
+
+  // Only contacts who are (still) guardians in the family get rung
+  const isFamilyGuardian = (contact: EmergencyContact) => guardians.some(g => g.id === contact.memberId);
+
+  // Who a contact covers, for the list
+  const describeChildren = (contact: EmergencyContact) => {
+    const names = familyChildren.filter(c => contact.childIds.includes(c.id)).map(c => c.name);
+    return names.length > 0 ? names.join(', ') : 'All children';
+  };
+
+  return (
+    <div className="space-y-3">
+      {sortedContacts.length === 0 && !draft && (
+        <p className="text-white text-opacity-75 text-sm">
+          No emergency contacts yet. If nobody answers the emergency button, it rings the contacts who are guardians in your family next. Anyone else is shown to your child as a number to phone.
+        </p>
+      )}
+
+      {/* Contact list, in the order they are tried */}
+      {sortedContacts.map((contact) => (
+        <div key={contact.id} className="p-3 bg-white bg-opacity-10 rounded-lg text-white">
+          <div className="flex items-start justify-between">
+            <div>
+              <p className="font-semibold">
+                {contact.priority}. {contact.name} <span className="font-normal">({contact.relation})</span>
+              </p>
+              <p className="text-sm text-white text-opacity-75">
+                {[contact.phone, contact.email].filter(Boolean).join(' · ')}
+              </p>
+              <p className="text-sm text-white text-opacity-75">
+                {describeChildren(contact)}
+                {isFamilyGuardian(contact) ? ' · Rung by the emergency button' : ' · Phone only, not rung by the app'}
+              </p>
+            </div>
+            <div className="flex space-x-3 text-sm">
+              <button
+                type="button"
+                onClick={() => handleEdit(contact)}
+                disabled={disabled}
+                className="underline disabled:opacity-50"
+              >
+                Edit
+              </button>
+              <button
+                type="button"
+                onClick={() => handleRemove(contact)}
+                disabled={disabled}
+                className="underline disabled:opacity-50"
+              >
+                Remove
+              </button>
+            </div>
+          </div>
+        </div>
+      ))}
+
+      {/* Add / edit form */}
+      {draft ? (
+        <div className="p-3 bg-white bg-opacity-10 rounded-lg space-y-2">
+          <div className="grid grid-cols-2 gap-2">
+            <input
+              type="text"
+              value={draft.name}
+              onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+              placeholder="Name"
+              className={inputClassName}
+            />
+            <input
+              type="text"
+              value={draft.relation}
+              onChange={(e) => setDraft({ ...draft, relation: e.target.value })}
+              placeholder="Relation (e.g. Grandma)"
+              className={inputClassName}
+            />
+            <input
+              type="tel"
+              value={draft.phone}
+              onChange={(e) => setDraft({ ...draft, phone: e.target.value })}
+              placeholder="Phone"
+              className={inputClassName}
+            />
+            <input
+              type="email"
+              value={draft.email}
+              onChange={(e) => setDraft({ ...draft, email: e.target.value })}
+              placeholder="Email"
+              className={inputClassName}
+            />
+          </div>
+
+          <div className="flex items-center space-x-2">
+            <label htmlFor="emergencyContactPriority" className="text-white text-sm">
+              Order
+            </label>
+            <input
+              type="number"
+              id="emergencyContactPriority"
+              min={1}
+              value={draft.priority}
+              onChange={(e) => setDraft({ ...draft, priority: e.target.value })}
+              className="w-20 px-3 py-2 bg-white bg-opacity-20 text-white rounded-lg"
+            />
+            <select
+              value={draft.memberId || ''}
+              onChange={(e) => setDraft({ ...draft, memberId: e.target.value || undefined })}
+              className="flex-1 px-3 py-2 bg-white bg-opacity-20 text-white rounded-lg"
+            >
+              <option value="" className="text-gray-900">Not a family guardian (phone only)</option>
+              {guardians.map((guardian) => (
+                <option key={guardian.id} value={guardian.id} className="text-gray-900">
+                  Family guardian: {guardian.name}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          {familyChildren.length > 0 && (
+            <div className="text-white text-sm">
+              <p className="mb-1">Covers (none ticked means all children)</p>
+              <div className="flex flex-wrap gap-3">
+                {familyChildren.map((child) => (
+                  <label key={child.id} className="flex items-center space-x-1">
+                    <input
+                      type="checkbox"
+                      checked={draft.childIds.includes(child.id)}
+                      onChange={() => handleToggleChild(child.id)}
+                      className="w-4 h-4 rounded"
+                    />
+                    <span>{child.name}</span>
+                  </label>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {error && <p className="text-red-200 text-sm">{error}</p>}
+
+          <div className="flex space-x-2">
+            <button
+              type="button"
+              onClick={handleSave}
+              disabled={disabled}
+              className="flex-1 px-3 py-2 bg-white text-gray-900 rounded-lg hover:bg-gray-100 disabled:opacity-50"
+            >
+              {isNew ? 'Add Contact' : 'Save Contact'}
+            </button>
+            <button
+              type="button"
+              onClick={() => setDraft(null)}
+              className="flex-1 px-3 py-2 text-white rounded-lg border border-white border-opacity-30"
+            >
+              Cancel
+            </button>
+          </div>
+        </div>
+      ) : (
+        <button
+          type="button"
+          onClick={handleAdd}
+          disabled={disabled}
+          className="text-sm text-white text-opacity-75 hover:text-opacity-100 underline disabled:opacity-50"
+        >
+          Add an emergency contact
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default EmergencyContactsEditor;
@@ -0,0 +1,123 @@
+/**
+ * ============================================================================
+ * KIDS CALL HOME - Participant Grid Component
+ * ============================================================================
+ *
+ * Purpose: Shows everyone else in a video call, one tile each
+ * Interface: Shared - used by the video call page for guardians and kids
+ * Dependencies: React, tailwindcss, callEngine (RemoteParticipant), zustand
+ *
+ * V1 Features:
+ * - One big tile for a one-to-one call, a grid for group calls
+ * - Names on the tiles in group calls
+ * - Avatar while someone's video hasn't arrived, and "Connecting..." on
+ *   people joining a group call until their link is up
+ * - "On hold" over anyone who put the call on hold
+ * - Plays on the loudspeaker when the speaker is on (where supported)
+ *
+ * Last Updated: 2024-09-09
+ * ============================================================================
+ */
+
+import React, { useCallback } from 'react';
+import type { RemoteParticipant } from '../../services/callEngine';
+import { useFamily } from '../../stores/useAppStore';
+import { applyAudioOutput } from '../../utils/audioOutput';
+
+interface ParticipantGridProps {
+  participants: RemoteParticipant[];
+  variant: 'guardian' | 'kids';
+  audioOutputId: string;
+}
+
+interface ParticipantVideoProps {
+  stream: MediaStream | null;
+  audioOutputId: string;
+}
+
+/**
+ * ParticipantVideo - Plays one participant's media
+ */
+const ParticipantVideo: React.FC<ParticipantVideoProps> = ({ stream, audioOutputId }) => {
+  // Attach the stream, and play it on the chosen output, whenever either changes
+  const attachStream = useCallback((element: HTMLVideoElement | null) => {
+    if (!element) return;
+    if (element.srcObject !== stream) {
+      element.srcObject = stream;
+    }
+    applyAudioOutput(element, audioOutputId);
+  }, [stream, audioOutputId]);
+
+  return (
+    <video
+      ref={attachStream}
+      autoPlay
+      playsInline
+      className="w-full h-full object-cover"
+    />
+  );
+};
+
+/**
+ * ParticipantGrid - Video tiles for everyone else in the call
+ */
+const ParticipantGrid: React.FC<ParticipantGridProps> = ({ participants, variant, audioOutputId }) => {
+  const family = useFamily();
+
+  // Look up a participant's name and avatar in the family
+  const getMember = (memberId: string) =>
+    family?.guardians.find(g => g.id === memberId) || family?.children.find(c => c.id === memberId);
+
+  if (participants.length === 0) {
+    return <div className="w-full aspect-video" />;
+  }
+
+  const isGroup = participants.length > 1;
+  const labelClassName = variant === 'kids'
+    ? 'text-lg font-bold text-white bg-black bg-opacity-50 px-3 py-1 rounded-lg'
+    : 'text-sm text-white bg-black bg-opacity-50 px-2 py-1 rounded';
+
+  return (
+    <div className={`grid gap-1 ${isGroup ? 'grid-cols-2' : 'grid-cols-1'}`}>
+      {participants.map((participant) => {
+        const member = getMember(participant.memberId);
+        return (
+          <div
+            key={participant.deviceId}
+            className="relative aspect-video bg-gray-900 overflow-hidden"
+          >
+            <ParticipantVideo stream={participant.stream} audioOutputId={audioOutputId} />
+
+            {!participant.stream && (
+              <div className="absolute inset-0 flex items-center justify-center text-6xl">
+                {member?.avatar || '👤'}
+              </div>
+            )}
+
+            {/* One-to-one calls show their status over the whole call instead */}
+            {isGroup && !participant.isConnected && (
+              <div className="absolute inset-0 bg-black bg-opacity-40 flex items-center justify-center text-white">
+                {variant === 'kids' ? 'Connecting... 🔌' : 'Connecting...'}
+              </div>
+            )}
+
+            {participant.isOnHold && (
+              <div className="absolute inset-0 bg-black bg-opacity-60 flex items-center justify-center text-white">
+                {variant === 'kids' ? 'On hold ⏸️' : 'On hold'}
+              </div>
+            )}
+
+            {/* A name tag helps once there's more than one face */}
+            {isGroup && member && (
+              <div className={`absolute bottom-2 left-2 ${labelClassName}`}>
+                {member.name}
+              </div>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+export default ParticipantGrid;
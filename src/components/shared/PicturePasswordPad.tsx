@@ -0,0 +1,95 @@
+/**
+ * ============================================================================
+ * KIDS CALL HOME - Picture Password Pad Component
+ * ============================================================================
+ *
+ * Purpose: Lets children enter (or guardians set) a picture password
+ * Interface: Shared - used by login, child setup and family management
+ * Dependencies: React, tailwindcss, memberCredentialService
+ *
+ * V1 Features:
+ * - Big, tappable picture grid
+ * - Shows picked pictures in order
+ * - Undo and clear buttons
+ *
+ * Last Updated: 2024-09-09
+ * ============================================================================
+ */
+
+import React from 'react';
+import { PICTURE_PASSWORD_LENGTH, PICTURE_PASSWORD_PICTURES } from '../../services/memberCredentialService';
+
+interface PicturePasswordPadProps {
+  value: string[];
+  onChange: (pictures: string[]) => void;
+  disabled?: boolean;
+}
+
+/**
+ * PicturePasswordPad - Tap pictures in order to build a picture password
+ */
+const PicturePasswordPad: React.FC<PicturePasswordPadProps> = ({
+  value,
+  onChange,
+  disabled = false,
+}) => {
+  const isComplete = value.length >= PICTURE_PASSWORD_LENGTH;
+
+  // Add a picture to the sequence
+  const handlePick = (picture: string) => {
+    if (disabled || isComplete) return;
+    onChange([...value, picture]);
+  };
+
+  return (
+    <div className="space-y-4">
+      {/* Picked pictures */}
+      <div className="flex justify-center space-x-3" aria-live="polite">
+        {Array.from({ length: PICTURE_PASSWORD_LENGTH }, (_, index) => (
+          <div
+            key={index}
+            className="w-14 h-14 rounded-xl border-2 border-dashed border-gray-300 bg-white flex items-center justify-center text-3xl"
+          >
+            {value[index] || ''}
+          </div>
+        ))}
+      </div>
+
+      {/* Picture grid */}
+      <div className="grid grid-cols-4 gap-3">
+        {PICTURE_PASSWORD_PICTURES.map((picture) => (
+          <button
+            key={picture}
+            type="button"
+            onClick={() => handlePick(picture)}
+            disabled={disabled || isComplete}
+            className="h-16 rounded-xl bg-gray-100 hover:bg-purple-100 text-4xl transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {picture}
+          </button>
+        ))}
+      </div>
+
+      <div className="flex space-x-3">
+        <button
+          type="button"
+          onClick={() => onChange(value.slice(0, -1))}
+          disabled={disabled || value.length === 0}
+          className="flex-1 px-4 py-2 rounded-lg bg-gray-200 text-gray-800 hover:bg-gray-300 disabled:opacity-50"
+        >
+          Undo
+        </button>
+        <button
+          type="button"
+          onClick={() => onChange([])}
+          disabled={disabled || value.length === 0}
+          className="flex-1 px-4 py-2 rounded-lg bg-gray-200 text-gray-800 hover:bg-gray-300 disabled:opacity-50"
+        >
+          Start Over
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default PicturePasswordPad;
@@ -0,0 +1,28 @@
+/**
+ * ============================================================================
+ * KIDS CALL HOME - Current Time Hook
+ * ============================================================================
+ *
+ * Purpose: Re-render on a timer so relative times ("5 min ago") stay fresh
+ * Interface: Shared across guardian and kids interfaces
+ * Dependencies: React
+ *
+ * Last Updated: 2024-09-09
+ * ============================================================================
+ */
+
+import { useEffect, useState } from 'react';
+
+/**
+ * The current time, updated every `intervalMs` (default one minute)
+ */
+export const useNow = (intervalMs: number = 60 * 1000): Date => {
+  const [now, setNow] = useState(() => new Date());
+
+  useEffect(() => {
+    const interval = setInterval(() => setNow(new Date()), intervalMs);
+    return () => clearInterval(interval);
+  }, [intervalMs]);
+
+  return now;
+};
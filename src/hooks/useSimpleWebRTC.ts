@@ -1,313 +0,0 @@
-/**
- * ============================================================================
- * KIDS CALL HOME - Simple WebRTC Hook
- * ============================================================================
- * 
- * Purpose: Simplified WebRTC implementation for testing calling functionality
- * Technology: Native WebRTC APIs + Mock signaling
- * 
- * Features:
- * - Basic voice/video calling
- * - Mock signaling for development
- * - Simple state management
- * 
- * Last Updated: 2024-09-09
- * ============================================================================
- */
-
-import { useCallback, useEffect, useRef, useState } from 'react';
-import { useAppStore } from '../stores/useAppStore';
-
-interface UseSimpleWebRTCOptions {
-  familyId: string;
-  deviceId: string;
-}
-
-interface UseSimpleWebRTCReturn {
-  // Call management
-  initiateCall: (targetId: string, type: 'voice' | 'video') => Promise<void>;
-  answerCall: () => Promise<void>;
-  endCall: () => void;
-  
-  // Call state
-  isCallActive: boolean;
-  isRinging: boolean;
-  isConnecting: boolean;
-  hasIncomingCall: boolean;
-  incomingCall: any | null;
-  
-  // Media controls
-  toggleMute: () => void;
-  toggleVideo: () => void;
-  isMuted: boolean;
-  isVideoEnabled: boolean;
-  
-  // Error handling
-  error: string | null;
-  clearError: () => void;
-}
-
-export const useSimpleWebRTC = ({
-  familyId: _familyId,
-  deviceId: _deviceId,
-}: UseSimpleWebRTCOptions): UseSimpleWebRTCReturn => {
-  // State management
-  const [isCallActive, setIsCallActive] = useState(false);
-  const [isRinging, setIsRinging] = useState(false);
-  const [isConnecting, setIsConnecting] = useState(false);
-  const [hasIncomingCall, setHasIncomingCall] = useState(false);
-  const [incomingCall, setIncomingCall] = useState<any | null>(null);
-  const [isMuted, setIsMuted] = useState(false);
-  const [isVideoEnabled, setIsVideoEnabled] = useState(true);
-  const [error, setError] = useState<string | null>(null);
-  
-  // Refs
-  const localStreamRef = useRef<MediaStream | null>(null);
-  const peerConnectionRef = useRef<RTCPeerConnection | null>(null);
-  
-  // Zustand store
-  const { setActiveCall: _setActiveCall } = useAppStore();
-  
-  // Clear error
-  const clearError = useCallback(() => {
-    setError(null);
-  }, []);
-  
-  // Initialize local media stream
-  const initializeLocalStream = useCallback(async (video: boolean = true) => {
-    try {
-      const constraints: MediaStreamConstraints = {
-        audio: true,
-        video: video ? {
-          width: { ideal: 640, max: 1280 },
-          height: { ideal: 480, max: 720 },
-          frameRate: { ideal: 30, max: 60 },
-        } : false,
-      };
-      
-      const stream = await navigator.mediaDevices.getUserMedia(constraints);
-      localStreamRef.current = stream;
-      return stream;
-    } catch (err) {
-      console.error('Failed to initialize local stream:', err);
-      throw new Error('Failed to access camera and microphone');
-    }
-  }, []);
-  
-  // Create peer connection
-  const createPeerConnection = useCallback(() => {
-    const peerConnection = new RTCPeerConnection({
-      iceServers: [
-        { urls: 'stun:stun.l.google.com:19302' },
-        { urls: 'stun:global.stun.twilio.com:3478' },
-      ],
-    });
-    
-    // Add local stream
-    if (localStreamRef.current) {
-      localStreamRef.current.getTracks().forEach(track => {
-        peerConnection.addTrack(track, localStreamRef.current!);
-      });
-    }
-    
-    // Handle remote stream
-    peerConnection.ontrack = (_event) => {
-      console.log('📹 Received remote stream');
-      // In a real app, you'd display this in the UI
-    };
-    
-    // Handle connection state changes
-    peerConnection.onconnectionstatechange = () => {
-      console.log('🔗 Connection state:', peerConnection.connectionState);
-      
-      if (peerConnection.connectionState === 'connected') {
-        setIsCallActive(true);
-        setIsConnecting(false);
-        setIsRinging(false);
-      } else if (peerConnection.connectionState === 'disconnected' || 
-                 peerConnection.connectionState === 'failed') {
-        endCall();
-      }
-    };
-    
-    return peerConnection;
-  }, []);
-  
-  // Initiate a call
-  const initiateCall = useCallback(async (targetId: string, type: 'voice' | 'video') => {
-    try {
-      console.log(`📞 Initiating ${type} call to ${targetId}`);
-      setError(null);
-      
-      // Get current family and user from store
-      const { currentFamily, currentUser } = useAppStore.getState();
-      
-      // Validate family membership
-      if (!currentFamily || !currentUser) {
-        throw new Error('You must be logged into a family to make calls.');
-      }
-      
-      // Check if target is in the same family
-      const isTargetInFamily = 
-        currentFamily.guardians.some(g => g.id === targetId) ||
-        currentFamily.children.some(c => c.id === targetId);
-      
-      if (!isTargetInFamily) {
-        throw new Error('You can only call members of your own family.');
-      }
-      
-      // Initialize local stream
-      await initializeLocalStream(type === 'video');
-      
-      // Set ringing state
-      setIsRinging(true);
-      
-      // Create peer connection
-      const peerConnection = createPeerConnection();
-      peerConnectionRef.current = peerConnection;
-      
-      // Create offer
-      const offer = await peerConnection.createOffer();
-      await peerConnection.setLocalDescription(offer);
-      
-      // Simulate sending offer to target (in real app, this would go through signaling server)
-      console.log('📡 Offer created, would send to target via signaling server');
-      
-      // Simulate target accepting call after 2 seconds
-      setTimeout(() => {
-        if (isRinging) {
-          console.log('📞 Target accepted call');
-          setIsRinging(false);
-          setIsConnecting(true);
-          
-          // Simulate connection established after 1 second
-          setTimeout(() => {
-            setIsConnecting(false);
-            setIsCallActive(true);
-          }, 1000);
-        }
-      }, 2000);
-      
-    } catch (err) {
-      console.error('Failed to initiate call:', err);
-      setError(err instanceof Error ? err.message : 'Failed to initiate call');
-      endCall();
-    }
-  }, [initializeLocalStream, createPeerConnection, isRinging]);
-  
-  // Answer an incoming call
-  const answerCall = useCallback(async () => {
-    try {
-      console.log('📞 Answering incoming call');
-      setError(null);
-      
-      if (!incomingCall) {
-        throw new Error('No incoming call to answer');
-      }
-      
-      // Initialize local stream
-      await initializeLocalStream(incomingCall.type === 'video');
-      
-      // Create peer connection
-      const peerConnection = createPeerConnection();
-      peerConnectionRef.current = peerConnection;
-      
-      // Set connecting state
-      setIsConnecting(true);
-      setHasIncomingCall(false);
-      setIncomingCall(null);
-      
-      // Simulate connection established after 1 second
-      setTimeout(() => {
-        setIsConnecting(false);
-        setIsCallActive(true);
-      }, 1000);
-      
-    } catch (err) {
-      console.error('Failed to answer call:', err);
-      setError(err instanceof Error ? err.message : 'Failed to answer call');
-      endCall();
-    }
-  }, [incomingCall, initializeLocalStream, createPeerConnection]);
-  
-  // End the current call
-  const endCall = useCallback(() => {
-    console.log('📴 Ending call');
-    
-    // Close peer connection
-    if (peerConnectionRef.current) {
-      peerConnectionRef.current.close();
-      peerConnectionRef.current = null;
-    }
-    
-    // Stop local stream
-    if (localStreamRef.current) {
-      localStreamRef.current.getTracks().forEach(track => track.stop());
-      localStreamRef.current = null;
-    }
-    
-    // Reset states
-    setIsCallActive(false);
-    setIsRinging(false);
-    setIsConnecting(false);
-    setHasIncomingCall(false);
-    setIncomingCall(null);
-  }, []);
-  
-  // Media control functions
-  const toggleMute = useCallback(() => {
-    if (localStreamRef.current) {
-      const audioTracks = localStreamRef.current.getAudioTracks();
-      audioTracks.forEach(track => {
-        track.enabled = isMuted;
-      });
-      setIsMuted(!isMuted);
-    }
-  }, [isMuted]);
-  
-  const toggleVideo = useCallback(() => {
-    if (localStreamRef.current) {
-      const videoTracks = localStreamRef.current.getVideoTracks();
-      videoTracks.forEach(track => {
-        track.enabled = isVideoEnabled;
-      });
-      setIsVideoEnabled(!isVideoEnabled);
-    }
-  }, [isVideoEnabled]);
-  
-  // Note: Removed automatic call simulation for production use
-  
-  // Cleanup on unmount
-  useEffect(() => {
-    return () => {
-      // Only end call if there's actually an active call
-      if (isCallActive || isRinging || isConnecting) {
-        endCall();
-      }
-    };
-  }, [endCall, isCallActive, isRinging, isConnecting]);
-  
-  return {
-    // Call management
-    initiateCall,
-    answerCall,
-    endCall,
-    
-    // Call state
-    isCallActive,
-    isRinging,
-    isConnecting,
-    hasIncomingCall,
-    incomingCall,
-    
-    // Media controls
-    toggleMute,
-    toggleVideo,
-    isMuted,
-    isVideoEnabled,
-    
-    // Error handling
-    error,
-    clearError,
-  };
-};
@@ -10,8 +10,9 @@
  * V1 Features:
  * - Child cards with status and calling controls
  * - Voice and video calling buttons
- * - "Ring All" emergency functionality
- * - Family settings and message center
+ * - "Ring All" emergency call with each child's ringing status
+ * - Emergency alerts from children's emergency buttons
+ * - Family settings (including emergency contacts) and message center
  * - Professional glassmorphism design
  * 
  * V2 Ready:
@@ -40,11 +41,33 @@ import { motion } from 'framer-motion';
 import React, { useState } from 'react';
 import { useNavigate } from 'react-router-dom';
 import DevelopmentHelper from '../components/shared/DevelopmentHelper';
+import EmergencyContactsEditor from '../components/shared/EmergencyContactsEditor';
 import LoadingSpinner from '../components/shared/LoadingSpinner';
 import PermissionHelper from '../components/shared/PermissionHelper';
-import { useSimpleWebRTC } from '../hooks/useSimpleWebRTC';
+import PicturePasswordPad from '../components/shared/PicturePasswordPad';
+import { useNow } from '../hooks/useNow';
+import { useWebRTC } from '../hooks/useWebRTC';
+import type { RingTargetStatus } from '../services/callEngine';
+import { getCallQualityPreference } from '../services/callQualityController';
+import { FamilyApiError } from '../services/familyApiClient';
 import FamilyDataService from '../services/familyDataService';
-import { useAppStore, useCurrentUser, useFamily } from '../stores/useAppStore';
+import { rateNetworkInfo } from '../services/networkMonitor';
+import { MemberCredentialService } from '../services/memberCredentialService';
+import { useAppStore, useCurrentUser, useDeviceInfo, useFamily, useNetworkInfo } from '../stores/useAppStore';
+import type { EmergencyContact, EmergencyEvent, GuardianPreferences, TrustedDevice } from '../types';
+import { formatLastSeen } from '../utils/formatLastSeen';
+
+// How each child responded to "Ring All"
+const RING_TARGET_LABELS: Record<RingTargetStatus, string> = {
+  ringing: 'Ringing...',
+  answered: 'Answered',
+  declined: 'Busy',
+  cancelled: 'Stopped ringing',
+  failed: "Couldn't reach",
+};
+
+// How many emergency alerts to show
+const RECENT_EMERGENCY_COUNT = 5;
 
 /**
  * GuardianDashboard - Professional interface for guardians
@@ -56,43 +79,70 @@ const GuardianDashboard: React.FC = () => {
   const navigate = useNavigate();
   const family = useFamily();
   const currentUser = useCurrentUser();
-  const { setTheme, setIncomingCall, setCurrentFamily } = useAppStore();
+  const deviceInfo = useDeviceInfo();
+  const { setTheme, setCurrentFamily, setCurrentUser } = useAppStore();
   
   const [isRingAllActive, setIsRingAllActive] = useState(false);
   const [showSettings, setShowSettings] = useState(false);
   const [showPermissionHelper, setShowPermissionHelper] = useState(false);
   const [showDevelopmentHelper, setShowDevelopmentHelper] = useState(false);
   const [copySuccess, setCopySuccess] = useState(false);
+  const [isRotatingCode, setIsRotatingCode] = useState(false);
+  const [isSavingContacts, setIsSavingContacts] = useState(false);
+  const [newPin, setNewPin] = useState('');
+  const [isSavingPin, setIsSavingPin] = useState(false);
+  const [picturePasswordChildId, setPicturePasswordChildId] = useState<string | null>(null);
+  const [picturePasswordDraft, setPicturePasswordDraft] = useState<string[]>([]);
+  const [pairingCodeInput, setPairingCodeInput] = useState('');
+  const [isPairingDevice, setIsPairingDevice] = useState(false);
   const [showFamilyManagement, setShowFamilyManagement] = useState(false);
   const [newMemberName, setNewMemberName] = useState('');
   const [newMemberEmail, setNewMemberEmail] = useState('');
   const [newMemberType, setNewMemberType] = useState<'guardian' | 'child'>('child');
   const [isAddingMember, setIsAddingMember] = useState(false);
-  const [ringAllTimeout, setRingAllTimeout] = useState<NodeJS.Timeout | null>(null);
   
   // WebRTC hook for calling functionality
   const {
     initiateCall,
+    ringAll,
     answerCall,
+    rejectCall,
     endCall,
     isCallActive,
     isRinging,
     isConnecting,
     hasIncomingCall,
     incomingCall,
-  } = useSimpleWebRTC({
-    familyId: family?.id || '',
-    deviceId: currentUser?.deviceId || '',
-  });
+    ringTargets,
+  } = useWebRTC();
+  
+  // Only offer video calls when this device has a camera (unknown until detection finishes)
+  const canVideoCall = deviceInfo?.capabilities.camera !== false;
   
-  // Mock network quality for now
-  const connectionQuality = 'good';
+  // Network quality from the last measurement (unknown if the browser can't tell us)
+  const networkInfo = useNetworkInfo();
+  const connectionQuality = networkInfo ? rateNetworkInfo(networkInfo) : 'unknown';
+  
+  // Keeps "last seen" times current
+  const now = useNow();
   
   // Set guardian theme
   React.useEffect(() => {
     setTheme('guardian');
   }, [setTheme]);
   
+  // Ring All stays here to show who's ringing, then joins the call once a child answers
+  React.useEffect(() => {
+    if (!isRingAllActive) return;
+    
+    if (isConnecting) {
+      setIsRingAllActive(false);
+      navigate(`/call/voice/${family?.id}`);
+    } else if (!isRinging) {
+      setIsRingAllActive(false);
+    }
+  }, [isRingAllActive, isConnecting, isRinging, navigate, family?.id]);
+  
   // Check browser compatibility and request permissions
   const checkBrowserCompatibility = async () => {
     console.log('Checking browser compatibility...');
@@ -180,39 +230,31 @@ const GuardianDashboard: React.FC = () => {
     }
   };
   
-  // Handle ring all emergency
+  // Handle ring all emergency - every online child rings at once, the first to answer gets the call
   const handleRingAll = async () => {
     if (!family?.children) return;
     
-    setIsRingAllActive(true);
-    
-    // Ring all online children
     const onlineChildren = family.children.filter(child => child.isOnline);
-    
-    for (const child of onlineChildren) {
-      try {
-        await initiateCall(child.id, 'voice');
-        // Small delay between calls
-        await new Promise(resolve => setTimeout(resolve, 1000));
-      } catch (error) {
-        console.error(`Failed to ring ${child.name}:`, error);
-      }
+    if (onlineChildren.length === 0) {
+      alert('None of your children are online right now.');
+      return;
     }
     
-    // Set timeout to stop after 10 seconds
-    const timeout = setTimeout(() => {
-      setIsRingAllActive(false);
-      setRingAllTimeout(null);
-    }, 10000);
-    setRingAllTimeout(timeout);
+    if (!(await checkBrowserCompatibility())) return;
+    
+    try {
+      await ringAll(onlineChildren.map(child => child.id), 'voice');
+      setIsRingAllActive(true);
+    } catch (error) {
+      console.error('Failed to ring all children:', error);
+      const errorMessage = error instanceof Error ? error.message : 'Unable to ring your children. Please check your microphone permissions and try again.';
+      alert(errorMessage);
+    }
   };
 
   // Handle cancel ring all
   const handleCancelRingAll = () => {
-    if (ringAllTimeout) {
-      clearTimeout(ringAllTimeout);
-      setRingAllTimeout(null);
-    }
+    endCall();
     setIsRingAllActive(false);
   };
 
@@ -236,6 +278,222 @@ const GuardianDashboard: React.FC = () => {
     }
   };
   
+  // Handle rotate family code
+  const handleRotateFamilyCode = async () => {
+    if (!family || !currentUser) return;
+    
+    if (!confirm('Create a new family code? The old code will stop working and everyone else will need the new code to sign in again.')) return;
+    
+    setIsRotatingCode(true);
+    
+    try {
+      const updatedFamily = await FamilyDataService.rotateFamilyCode(family.id);
+      setCurrentFamily(updatedFamily);
+    } catch (error) {
+      console.error('Failed to rotate family code:', error);
+      alert(error instanceof FamilyApiError
+        ? `The family code was not changed: ${error.message}`
+        : 'Could not reach the server, so the family code was not changed. Please check your connection and try again.');
+    } finally {
+      setIsRotatingCode(false);
+    }
+  };
+  
+  // Handle set or remove my PIN
+  const handleSavePin = async (pin: string | null) => {
+    if (!family || !currentUser) return;
+    
+    setIsSavingPin(true);
+    
+    try {
+      const success = await FamilyDataService.setGuardianPin(family.id, currentUser.id, pin);
+      const updatedFamily = success ? await FamilyDataService.findFamilyById(family.id) : null;
+      if (updatedFamily) {
+        setCurrentFamily(updatedFamily);
+        setCurrentUser(updatedFamily.guardians.find(g => g.id === currentUser.id) || currentUser);
+        setNewPin('');
+      } else {
+        alert('Failed to update your PIN. Please try again.');
+      }
+    } catch (error) {
+      console.error('Failed to update PIN:', error);
+      alert('Failed to update your PIN. Please try again.');
+    } finally {
+      setIsSavingPin(false);
+    }
+  };
+  
+  // Handle call quality preference change
+  const handleCallQualityChange = async (callQuality: GuardianPreferences['callQuality']) => {
+    if (!family || !currentUser) return;
+    
+    try {
+      const success = await FamilyDataService.updateGuardianPreferences(family.id, currentUser.id, { callQuality });
+      const updatedFamily = success ? await FamilyDataService.findFamilyById(family.id) : null;
+      if (updatedFamily) {
+        setCurrentFamily(updatedFamily);
+        setCurrentUser(updatedFamily.guardians.find(g => g.id === currentUser.id) || currentUser);
+      } else {
+        alert('Failed to update call quality. Please try again.');
+      }
+    } catch (error) {
+      console.error('Failed to update call quality:', error);
+      alert('Failed to update call quality. Please try again.');
+    }
+  };
+  
+  // Handle turning private (relay-only) calls on or off for the family
+  const handleRelayOnlyChange = async (relayOnlyCalls: boolean) => {
+    if (!family) return;
+    
+    try {
+      const success = await FamilyDataService.updateFamilySettings(family.id, { relayOnlyCalls });
+      const updatedFamily = success ? await FamilyDataService.findFamilyById(family.id) : null;
+      if (updatedFamily) {
+        setCurrentFamily(updatedFamily);
+      } else {
+        alert('Failed to update private calls. Please try again.');
+      }
+    } catch (error) {
+      console.error('Failed to update private calls:', error);
+      alert('Failed to update private calls. Please try again.');
+    }
+  };
+  
+  // Handle add, edit or remove an emergency contact
+  const handleEmergencyContactsChange = async (emergencyContacts: EmergencyContact[]) => {
+    if (!family) return;
+    
+    setIsSavingContacts(true);
+    try {
+      const success = await FamilyDataService.updateFamilySettings(family.id, { emergencyContacts });
+      const updatedFamily = success ? await FamilyDataService.findFamilyById(family.id) : null;
+      if (updatedFamily) {
+        setCurrentFamily(updatedFamily);
+      } else {
+        alert('Failed to update emergency contacts. Please try again.');
+      }
+    } catch (error) {
+      console.error('Failed to update emergency contacts:', error);
+      alert('Failed to update emergency contacts. Please try again.');
+    } finally {
+      setIsSavingContacts(false);
+    }
+  };
+  
+  // Handle set or remove a child's picture password
+  const handleSavePicturePassword = async (childId: string, pictures: string[] | null) => {
+    if (!family) return;
+    
+    try {
+      const success = await FamilyDataService.setChildPicturePassword(family.id, childId, pictures);
+      const updatedFamily = success ? await FamilyDataService.findFamilyById(family.id) : null;
+      if (updatedFamily) {
+        setCurrentFamily(updatedFamily);
+        setPicturePasswordChildId(null);
+        setPicturePasswordDraft([]);
+      } else {
+        alert('Failed to update the picture password. Please try again.');
+      }
+    } catch (error) {
+      console.error('Failed to update picture password:', error);
+      alert('Failed to update the picture password. Please try again.');
+    }
+  };
+  
+  // Refresh the family in the store after a device change
+  const refreshFamily = async () => {
+    if (!family) return;
+    const updatedFamily = await FamilyDataService.findFamilyById(family.id);
+    if (updatedFamily) {
+      setCurrentFamily(updatedFamily);
+    }
+  };
+  
+  // Handle approve device by pairing code
+  const handleApproveByPairingCode = async () => {
+    if (!family || !currentUser) return;
+    
+    setIsPairingDevice(true);
+    
+    try {
+      const device = await FamilyDataService.approveDeviceByPairingCode(family.id, pairingCodeInput);
+      if (device) {
+        await refreshFamily();
+        setPairingCodeInput('');
+      } else {
+        alert('No device is waiting with that code. Check the number on the other device and try again.');
+      }
+    } catch (error) {
+      console.error('Failed to approve device:', error);
+      alert('Failed to approve the device. Please try again.');
+    } finally {
+      setIsPairingDevice(false);
+    }
+  };
+  
+  // Handle approve or revoke a listed device
+  const handleDeviceAction = async (device: TrustedDevice, action: 'approve' | 'revoke') => {
+    if (!family || !currentUser) return;
+    
+    if (action === 'revoke' && !confirm(`Remove ${device.name}? It will be signed out right away.`)) return;
+    
+    try {
+      const success = action === 'approve'
+        ? await FamilyDataService.approveDevice(family.id, device.deviceId, device.memberId)
+        : await FamilyDataService.revokeDevice(family.id, device.deviceId, device.memberId);
+      if (success) {
+        await refreshFamily();
+      } else {
+        alert('Failed to update the device. Please try again.');
+      }
+    } catch (error) {
+      console.error(`Failed to ${action} device:`, error);
+      alert('Failed to update the device. Please try again.');
+    }
+  };
+  
+  // Render the devices a member has signed in on
+  const renderMemberDevices = (memberId: string) => {
+    const devices = family?.devices?.filter(d => d.memberId === memberId) || [];
+    if (devices.length === 0) return null;
+    
+    return (
+      <div className="mt-3 space-y-2">
+        {devices.map((device) => (
+          <div key={device.deviceId} className="flex items-center justify-between text-sm text-white bg-white bg-opacity-10 rounded-lg px-3 py-2">
+            <div>
+              <span className="font-medium">{device.name}</span>
+              <span className="text-white text-opacity-70 ml-2">
+                {device.status === 'approved' && `Last used ${new Date(device.lastSeen).toLocaleDateString()}`}
+                {device.status === 'pending' && 'Waiting for approval'}
+                {device.status === 'revoked' && 'Removed'}
+              </span>
+            </div>
+            <div className="flex space-x-2">
+              {device.status !== 'approved' && (
+                <button
+                  onClick={() => handleDeviceAction(device, 'approve')}
+                  className="px-2 py-1 rounded bg-green-500 hover:bg-green-600"
+                >
+                  Approve
+                </button>
+              )}
+              {device.status !== 'revoked' && (
+                <button
+                  onClick={() => handleDeviceAction(device, 'revoke')}
+                  className="px-2 py-1 rounded bg-red-500 hover:bg-red-600"
+                >
+                  Remove
+                </button>
+              )}
+            </div>
+          </div>
+        ))}
+      </div>
+    );
+  };
+  
   // Handle settings
   const handleSettings = () => {
     setShowSettings(!showSettings);
@@ -253,8 +511,7 @@ const GuardianDashboard: React.FC = () => {
   };
 
   const handleRejectCall = () => {
-    // TODO: Send rejection through Pusher
-    setIncomingCall(null);
+    rejectCall();
   };
 
   // Handle messages
@@ -280,14 +537,14 @@ const GuardianDashboard: React.FC = () => {
       let result = null;
       
       if (newMemberType === 'guardian') {
-        result = FamilyDataService.addGuardianToFamily(
+        result = await FamilyDataService.addGuardianToFamily(
           family.id, 
           newMemberName.trim(), 
           newMemberEmail.trim() || undefined
         );
         console.log('Guardian add result:', result);
       } else {
-        result = FamilyDataService.addChildToFamily(family.id, {
+        result = await FamilyDataService.addChildToFamily(family.id, {
           childName: newMemberName.trim(),
         });
         console.log('Child add result:', result);
@@ -298,7 +555,7 @@ const GuardianDashboard: React.FC = () => {
       
       if (success) {
         // Update the family in the store
-        const updatedFamily = FamilyDataService.findFamilyById(family.id);
+        const updatedFamily = await FamilyDataService.findFamilyById(family.id);
         console.log('Updated family:', updatedFamily);
         if (updatedFamily) {
           setCurrentFamily(updatedFamily);
@@ -321,7 +578,7 @@ const GuardianDashboard: React.FC = () => {
   };
 
   // Handle remove family member
-  const handleRemoveMember = (memberId: string, memberType: 'guardian' | 'child') => {
+  const handleRemoveMember = async (memberId: string, memberType: 'guardian' | 'child') => {
     if (!family) return;
     
     const confirmMessage = memberType === 'guardian' 
@@ -333,14 +590,14 @@ const GuardianDashboard: React.FC = () => {
     try {
       let success = false;
       if (memberType === 'guardian') {
-        success = FamilyDataService.removeGuardianFromFamily(family.id, memberId);
+        success = await FamilyDataService.removeGuardianFromFamily(family.id, memberId);
       } else {
-        success = FamilyDataService.removeChildFromFamily(family.id, memberId);
+        success = await FamilyDataService.removeChildFromFamily(family.id, memberId);
       }
       
       if (success) {
         // Update the family in the store
-        const updatedFamily = FamilyDataService.findFamilyById(family.id);
+        const updatedFamily = await FamilyDataService.findFamilyById(family.id);
         if (updatedFamily) {
           setCurrentFamily(updatedFamily);
         }
@@ -364,6 +621,23 @@ const GuardianDashboard: React.FC = () => {
     );
   }
   
+  // Most recent emergency button presses first
+  const recentEmergencies = [...(family.emergencyEvents || [])].reverse().slice(0, RECENT_EMERGENCY_COUNT);
+  
+  // Describe how an emergency went
+  const describeEmergency = (event: EmergencyEvent): string => {
+    switch (event.status) {
+      case 'ringing':
+        return 'Calling for help now';
+      case 'answered':
+        return `Answered by ${family.guardians.find(g => g.id === event.answeredBy)?.name || 'a guardian'}`;
+      case 'unanswered':
+        return 'Nobody answered';
+      case 'cancelled':
+        return 'Cancelled';
+    }
+  };
+  
   return (
     <div className="min-h-screen p-4" style={{ background: 'var(--theme-background)' }}>
       {/* Header */}
@@ -409,6 +683,35 @@ const GuardianDashboard: React.FC = () => {
         </div>
       </header>
       
+      {/* Emergency Alerts */}
+      {recentEmergencies.length > 0 && (
+        <section className="container-responsive mb-8">
+          <div className="card border-2 border-red-400">
+            <h2 className="text-xl font-bold text-gray-900 mb-4 flex items-center space-x-2">
+              <ExclamationTriangleIcon className="w-6 h-6 text-red-500" />
+              <span>Emergency Alerts</span>
+            </h2>
+            <ul className="space-y-2">
+              {recentEmergencies.map(event => (
+                <li
+                  key={event.id}
+                  className={`flex items-center justify-between p-3 rounded-lg ${
+                    event.status === 'ringing' || event.status === 'unanswered' ? 'bg-red-50 text-red-700' : 'bg-gray-50 text-gray-700'
+                  }`}
+                >
+                  <span className="font-medium">
+                    {family.children.find(c => c.id === event.childId)?.name || 'A child'} pressed the emergency button
+                  </span>
+                  <span className="text-sm">
+                    {describeEmergency(event)} · {formatLastSeen(event.startedAt, now)}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          </div>
+        </section>
+      )}
+      
       {/* Emergency Ring All */}
       <section className="container-responsive mb-8">
         <motion.button
@@ -502,7 +805,7 @@ const GuardianDashboard: React.FC = () => {
                   <div className="flex items-center space-x-2 text-sm text-gray-600">
                     <ClockIcon className="w-4 h-4" />
                     <span>
-                      Last seen: {new Date(child.lastSeen).toLocaleTimeString()}
+                      {child.isOnline ? 'Online now' : `Last seen ${formatLastSeen(child.lastSeen, now)}`}
                     </span>
                   </div>
                 </div>
@@ -519,14 +822,16 @@ const GuardianDashboard: React.FC = () => {
                       <span>Call</span>
                     </button>
                     
-                    <button
-                      onClick={() => handleVideoCall(child.id)}
-                      disabled={!child.isOnline || isCallActive}
-                      className="flex-1 flex items-center justify-center space-x-2 px-4 py-3 bg-blue-500 text-white rounded-lg hover:bg-blue-600 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
-                    >
-                      <VideoCameraIcon className="w-5 h-5" />
-                      <span>Video</span>
-                    </button>
+                    {canVideoCall && (
+                      <button
+                        onClick={() => handleVideoCall(child.id)}
+                        disabled={!child.isOnline || isCallActive}
+                        className="flex-1 flex items-center justify-center space-x-2 px-4 py-3 bg-blue-500 text-white rounded-lg hover:bg-blue-600 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                      >
+                        <VideoCameraIcon className="w-5 h-5" />
+                        <span>Video</span>
+                      </button>
+                    )}
                   </div>
                   
                   <button
@@ -572,7 +877,7 @@ const GuardianDashboard: React.FC = () => {
           onClick={() => setShowSettings(false)}
         >
           <div
-            className="p-8 rounded-2xl max-w-md w-full"
+            className="p-8 rounded-2xl max-w-md w-full max-h-[90vh] overflow-y-auto"
             style={{
               background: 'rgba(255, 255, 255, 0.25)',
               backdropFilter: 'blur(20px)',
@@ -609,6 +914,110 @@ const GuardianDashboard: React.FC = () => {
                     {copySuccess ? 'Copied!' : 'Copy'}
                   </button>
                 </div>
+                <button
+                  onClick={handleRotateFamilyCode}
+                  disabled={isRotatingCode}
+                  className="mt-2 text-sm text-white text-opacity-75 hover:text-opacity-100 underline disabled:opacity-50"
+                >
+                  {isRotatingCode ? 'Changing code...' : 'Code shared by mistake? Get a new code'}
+                </button>
+                {family.codeHistory && family.codeHistory.length > 0 && (
+                  <p className="text-white text-opacity-75 text-sm mt-2">
+                    Last changed {new Date(family.codeHistory[family.codeHistory.length - 1].rotatedAt).toLocaleDateString()}.
+                  </p>
+                )}
+                {(family.codeInfo?.expires || family.codeInfo?.maxUses !== undefined) && (
+                  <p className="text-white text-opacity-75 text-sm mt-2">
+                    {family.codeInfo.expires && `Expires ${new Date(family.codeInfo.expires).toLocaleDateString()}. `}
+                    {family.codeInfo.maxUses !== undefined &&
+                      `Used ${family.codeInfo.uses || 0} of ${family.codeInfo.maxUses} times.`}
+                  </p>
+                )}
+              </div>
+              
+              <div>
+                <label htmlFor="guardianPin" className="block text-white font-semibold mb-2">
+                  Your PIN
+                </label>
+                <div className="flex items-center space-x-2">
+                  <input
+                    type="password"
+                    id="guardianPin"
+                    inputMode="numeric"
+                    autoComplete="new-password"
+                    value={newPin}
+                    onChange={(e) => setNewPin(e.target.value.replace(/\D/g, ''))}
+                    maxLength={8}
+                    placeholder={currentUser.credentials?.kind === 'pin' ? 'Enter a new PIN' : '4-8 digits'}
+                    className="flex-1 px-4 py-3 bg-white bg-opacity-20 text-white rounded-lg font-mono placeholder-white placeholder-opacity-60"
+                  />
+                  <button
+                    onClick={() => handleSavePin(newPin)}
+                    disabled={isSavingPin || !MemberCredentialService.isValidPin(newPin)}
+                    className="px-4 py-3 bg-white text-gray-900 rounded-lg hover:bg-gray-100 disabled:opacity-50"
+                  >
+                    {currentUser.credentials?.kind === 'pin' ? 'Change' : 'Set PIN'}
+                  </button>
+                </div>
+                <p className="text-white text-opacity-75 text-sm mt-2">
+                  {currentUser.credentials?.kind === 'pin'
+                    ? 'Your PIN is on. You will need it to sign in.'
+                    : 'Add a PIN so nobody else can sign in as you.'}
+                  {currentUser.credentials?.kind === 'pin' && (
+                    <button
+                      onClick={() => handleSavePin(null)}
+                      disabled={isSavingPin}
+                      className="ml-2 underline hover:text-opacity-100 disabled:opacity-50"
+                    >
+                      Remove PIN
+                    </button>
+                  )}
+                </p>
+              </div>
+              
+              <div>
+                <label htmlFor="callQuality" className="block text-white font-semibold mb-2">
+                  Call Quality
+                </label>
+                <select
+                  id="callQuality"
+                  value={getCallQualityPreference(currentUser)}
+                  onChange={(e) => handleCallQualityChange(e.target.value as GuardianPreferences['callQuality'])}
+                  className="w-full px-4 py-3 bg-white bg-opacity-20 text-white rounded-lg"
+                >
+                  <option value="auto" className="text-gray-900">Automatic (adjusts to your connection)</option>
+                  <option value="high" className="text-gray-900">High</option>
+                  <option value="medium" className="text-gray-900">Medium (saves data)</option>
+                  <option value="low" className="text-gray-900">Low (slow connections)</option>
+                </select>
+              </div>
+              
+              <div>
+                <label className="flex items-center space-x-3 text-white font-semibold">
+                  <input
+                    type="checkbox"
+                    checked={family.settings.relayOnlyCalls === true}
+                    onChange={(e) => handleRelayOnlyChange(e.target.checked)}
+                    className="w-5 h-5 rounded"
+                  />
+                  <span>Private Calls</span>
+                </label>
+                <p className="text-white text-opacity-75 text-sm mt-2">
+                  Send every family call through our relay server, so devices never see each other's internet address. Calls may use a little more data.
+                </p>
+              </div>
+              
+              <div>
+                <label className="block text-white font-semibold mb-2">
+                  Emergency Contacts
+                </label>
+                <EmergencyContactsEditor
+                  contacts={family.settings.emergencyContacts}
+                  guardians={family.guardians}
+                  familyChildren={family.children}
+                  onChange={handleEmergencyContactsChange}
+                  disabled={isSavingContacts}
+                />
               </div>
               
               <div>
@@ -662,12 +1071,24 @@ const GuardianDashboard: React.FC = () => {
           <div className="text-center">
             <div className="text-6xl mb-4">📞</div>
             <h2 className="text-3xl font-bold text-white mb-4 text-shadow">
-              {isRinging && 'Ringing...'}
+              {isRinging && (isRingAllActive ? 'Ringing All Children...' : 'Ringing...')}
               {isConnecting && 'Connecting...'}
               {isCallActive && 'Call Active'}
             </h2>
+            {isRingAllActive && (
+              <ul className="mb-6 space-y-2">
+                {family.children.filter(child => ringTargets[child.id]).map(child => (
+                  <li key={child.id} className="flex items-center justify-between space-x-6 text-white text-lg">
+                    <span>{child.avatar || '👶'} {child.name}</span>
+                    <span className={ringTargets[child.id] === 'ringing' ? 'animate-pulse' : 'text-white text-opacity-75'}>
+                      {RING_TARGET_LABELS[ringTargets[child.id]]}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            )}
             <button
-              onClick={endCall}
+              onClick={isRingAllActive ? handleCancelRingAll : endCall}
               className="px-8 py-4 bg-red-500 text-white rounded-lg hover:bg-red-600 text-xl font-semibold"
             >
               End Call
@@ -835,32 +1256,60 @@ const GuardianDashboard: React.FC = () => {
               </div>
             </div>
             
+            {/* Approve New Device */}
+            <div className="mb-8 p-6 rounded-xl bg-white bg-opacity-10">
+              <h4 className="text-lg font-semibold text-white mb-2">Approve a New Device</h4>
+              <p className="text-white text-opacity-75 text-sm mb-4">
+                Type the 6-digit number shown on the new device, or scan its QR code with this phone.
+              </p>
+              <div className="flex space-x-2">
+                <input
+                  type="text"
+                  inputMode="numeric"
+                  placeholder="123456"
+                  value={pairingCodeInput}
+                  onChange={(e) => setPairingCodeInput(e.target.value.replace(/\D/g, '').slice(0, 6))}
+                  className="flex-1 px-4 py-3 bg-white text-gray-900 rounded-lg border-2 border-gray-300 font-mono tracking-widest focus:border-blue-500 focus:outline-none"
+                />
+                <button
+                  onClick={handleApproveByPairingCode}
+                  disabled={pairingCodeInput.length !== 6 || isPairingDevice}
+                  className="px-4 py-3 bg-blue-500 text-white rounded-lg hover:bg-blue-600 disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  {isPairingDevice ? 'Approving...' : 'Approve'}
+                </button>
+              </div>
+            </div>
+            
             {/* Current Guardians */}
             <div className="mb-6">
               <h4 className="text-lg font-semibold text-white mb-4">Guardians</h4>
               <div className="space-y-3">
                 {family.guardians.map((guardian) => (
-                  <div key={guardian.id} className="flex items-center justify-between p-4 bg-white bg-opacity-10 rounded-lg">
-                    <div className="flex items-center space-x-3">
-                      <div className="w-10 h-10 bg-gradient-to-br from-blue-400 to-purple-500 rounded-full flex items-center justify-center text-lg">
-                        {guardian.avatar || '👨‍💼'}
-                      </div>
-                      <div>
-                        <div className="text-white font-medium">{guardian.name}</div>
-                        <div className="text-white text-opacity-70 text-sm">
-                          {guardian.isOnline ? 'Online' : 'Offline'}
+                  <div key={guardian.id} className="p-4 bg-white bg-opacity-10 rounded-lg">
+                    <div className="flex items-center justify-between">
+                      <div className="flex items-center space-x-3">
+                        <div className="w-10 h-10 bg-gradient-to-br from-blue-400 to-purple-500 rounded-full flex items-center justify-center text-lg">
+                          {guardian.avatar || '👨‍💼'}
+                        </div>
+                        <div>
+                          <div className="text-white font-medium">{guardian.name}</div>
+                          <div className="text-white text-opacity-70 text-sm">
+                            {guardian.isOnline ? 'Online' : `Last seen ${formatLastSeen(guardian.lastSeen, now)}`}
+                          </div>
                         </div>
                       </div>
+                      {family.guardians.length > 1 && (
+                        <button
+                          onClick={() => handleRemoveMember(guardian.id, 'guardian')}
+                          className="p-2 text-red-400 hover:bg-red-500 hover:bg-opacity-20 rounded-lg transition-colors"
+                          title="Remove guardian"
+                        >
+                          <UserMinusIcon className="w-5 h-5" />
+                        </button>
+                      )}
                     </div>
-                    {family.guardians.length > 1 && (
-                      <button
-                        onClick={() => handleRemoveMember(guardian.id, 'guardian')}
-                        className="p-2 text-red-400 hover:bg-red-500 hover:bg-opacity-20 rounded-lg transition-colors"
-                        title="Remove guardian"
-                      >
-                        <UserMinusIcon className="w-5 h-5" />
-                      </button>
-                    )}
+                    {renderMemberDevices(guardian.id)}
                   </div>
                 ))}
               </div>
@@ -871,25 +1320,68 @@ const GuardianDashboard: React.FC = () => {
               <h4 className="text-lg font-semibold text-white mb-4">Children</h4>
               <div className="space-y-3">
                 {family.children.map((child) => (
-                  <div key={child.id} className="flex items-center justify-between p-4 bg-white bg-opacity-10 rounded-lg">
-                    <div className="flex items-center space-x-3">
-                      <div className="w-10 h-10 bg-gradient-to-br from-pink-400 to-purple-500 rounded-full flex items-center justify-center text-lg">
-                        {child.avatar || '👶'}
-                      </div>
-                      <div>
-                        <div className="text-white font-medium">{child.name}</div>
-                        <div className="text-white text-opacity-70 text-sm">
-                          {child.isOnline ? 'Online' : 'Offline'}
+                  <div key={child.id} className="p-4 bg-white bg-opacity-10 rounded-lg">
+                    <div className="flex items-center justify-between">
+                      <div className="flex items-center space-x-3">
+                        <div className="w-10 h-10 bg-gradient-to-br from-pink-400 to-purple-500 rounded-full flex items-center justify-center text-lg">
+                          {child.avatar || '👶'}
+                        </div>
+                        <div>
+                          <div className="text-white font-medium">{child.name}</div>
+                          <div className="text-white text-opacity-70 text-sm">
+                            {child.isOnline ? 'Online' : `Last seen ${formatLastSeen(child.lastSeen, now)}`}
+                            {child.credentials?.kind === 'picture' && ' · Picture password on'}
+                          </div>
                         </div>
                       </div>
+                      <div className="flex items-center space-x-1">
+                        <button
+                          onClick={() => {
+                            setPicturePasswordChildId(picturePasswordChildId === child.id ? null : child.id);
+                            setPicturePasswordDraft([]);
+                          }}
+                          className="p-2 text-white hover:bg-white hover:bg-opacity-20 rounded-lg transition-colors text-lg"
+                          title="Picture password"
+                        >
+                          🖼️
+                        </button>
+                        <button
+                          onClick={() => handleRemoveMember(child.id, 'child')}
+                          className="p-2 text-red-400 hover:bg-red-500 hover:bg-opacity-20 rounded-lg transition-colors"
+                          title="Remove child"
+                        >
+                          <UserMinusIcon className="w-5 h-5" />
+                        </button>
+                      </div>
                     </div>
-                    <button
-                      onClick={() => handleRemoveMember(child.id, 'child')}
-                      className="p-2 text-red-400 hover:bg-red-500 hover:bg-opacity-20 rounded-lg transition-colors"
-                      title="Remove child"
-                    >
-                      <UserMinusIcon className="w-5 h-5" />
-                    </button>
+                    
+                    {renderMemberDevices(child.id)}
+                    
+                    {picturePasswordChildId === child.id && (
+                      <div className="mt-4 p-4 bg-white rounded-lg space-y-4">
+                        <p className="text-gray-900 text-sm">
+                          Pick pictures for {child.name} to tap when signing in. Help them remember the order!
+                        </p>
+                        <PicturePasswordPad value={picturePasswordDraft} onChange={setPicturePasswordDraft} />
+                        <div className="flex space-x-3">
+                          <button
+                            onClick={() => handleSavePicturePassword(child.id, picturePasswordDraft)}
+                            disabled={!MemberCredentialService.isValidPicturePassword(picturePasswordDraft)}
+                            className="flex-1 px-4 py-2 bg-blue-500 text-white rounded-lg hover:bg-blue-600 disabled:opacity-50"
+                          >
+                            Save Pictures
+                          </button>
+                          {child.credentials?.kind === 'picture' && (
+                            <button
+                              onClick={() => handleSavePicturePassword(child.id, null)}
+                              className="flex-1 px-4 py-2 bg-red-500 text-white rounded-lg hover:bg-red-600"
+                            >
+                              Turn Off
+                            </button>
+                          )}
+                        </div>
+                      </div>
+                    )}
                   </div>
                 ))}
               </div>
@@ -36,68 +36,29 @@ import { useNavigate, useParams } from 'react-router-dom';
 import { useWebRTC } from '../hooks/useWebRTC';
 import { useCurrentUser, useFamily } from '../stores/useAppStore';
 
-interface IncomingCallData {
-  callId: string;
-  callerName: string;
-  callType: 'voice' | 'video';
-  targetId: string;
-}
-
 const IncomingCallPage: React.FC = () => {
   const { familyId } = useParams<{ familyId: string }>();
   const navigate = useNavigate();
   const currentUser = useCurrentUser();
   const family = useFamily();
   
-  const [incomingCall, setIncomingCall] = useState<IncomingCallData | null>(null);
   const [isAnswering, setIsAnswering] = useState(false);
   const [isDeclining, setIsDeclining] = useState(false);
   
   // WebRTC hook
   const {
     answerCall,
-    endCall,
-    isCallActive: _isCallActive,
-    isRinging: _isRinging,
-    isConnecting: _isConnecting,
-  } = useWebRTC({
-    familyId: familyId || '',
-    deviceId: 'current-device',
-  });
+    rejectCall,
+    incomingCall,
+  } = useWebRTC();
 
-  // Get incoming call data from URL params or store
+  // Nothing ringing (or the caller hung up) - back to the dashboard
   useEffect(() => {
-    // Try to get call data from URL params first
-    const urlParams = new URLSearchParams(window.location.search);
-    const callId = urlParams.get('callId');
-    const callerName = urlParams.get('callerName');
-    const callType = urlParams.get('callType') as 'voice' | 'video';
-    const targetId = urlParams.get('targetId');
-
-    if (callId && callerName && callType && targetId) {
-      setIncomingCall({
-        callId,
-        callerName,
-        callType,
-        targetId
-      });
-    } else {
-      // No call data available, redirect to dashboard
-      console.warn('No incoming call data found, redirecting to dashboard');
+    if (!incomingCall && !isAnswering) {
+      console.warn('No incoming call, redirecting to dashboard');
       navigate('/');
     }
-  }, []);
-
-  // Auto-answer after 30 seconds if not answered
-  useEffect(() => {
-    if (!incomingCall) return;
-
-    const timeout = setTimeout(() => {
-      handleDeclineCall();
-    }, 30000); // 30 seconds timeout
-
-    return () => clearTimeout(timeout);
-  }, [incomingCall]);
+  }, [incomingCall, isAnswering, navigate]);
 
   // Handle answering the call
   const handleAnswerCall = async () => {
@@ -124,7 +85,7 @@ const IncomingCallPage: React.FC = () => {
     setIsDeclining(true);
     
     try {
-      await endCall();
+      rejectCall();
       
       // Go back to dashboard
       const dashboard = currentUser && 'age' in currentUser ? '/kids' : '/guardian';
@@ -140,11 +101,11 @@ const IncomingCallPage: React.FC = () => {
     if (!incomingCall || !family) return null;
     
     // Try to find caller in family members
-    const caller = family.guardians.find(g => g.name === incomingCall.callerName) ||
-                   family.children.find(c => c.name === incomingCall.callerName);
+    const caller = family.guardians.find(g => g.id === incomingCall.fromMemberId) ||
+                   family.children.find(c => c.id === incomingCall.fromMemberId);
     
     return caller || {
-      name: incomingCall.callerName,
+      name: 'Family member',
       avatar: incomingCall.callType === 'video' ? '📹' : '📞',
       isOnline: true
     };
@@ -209,7 +170,7 @@ const IncomingCallPage: React.FC = () => {
           className="text-center mb-8"
         >
           <h1 className="text-3xl font-bold text-white mb-2 text-shadow">
-            {callerInfo?.name || incomingCall.callerName}
+            {callerInfo?.name}
           </h1>
           <p className="text-xl text-white text-opacity-75 text-shadow">
             {incomingCall.callType === 'video' ? 'Video Call' : 'Voice Call'}
@@ -286,7 +247,7 @@ const IncomingCallPage: React.FC = () => {
           className="mt-6 text-center"
         >
           <p className="text-white text-opacity-60 text-sm">
-            Call will auto-decline in 30 seconds
+            Call will stop ringing in {family?.settings.callTimeout || 30} seconds
           </p>
         </motion.div>
       </motion.div>
@@ -10,7 +10,8 @@
  * V1 Features:
  * - Large parent cards with calling buttons
  * - Simple, kid-friendly language
- * - Emergency button with 2-step activation
+ * - Emergency button with 2-step activation - rings every parent, then
+ *   any emergency contacts who are guardians in the family
  * - Playful animations and decorations
  * - Extra-large touch targets
  * 
@@ -31,13 +32,22 @@ import {
     VideoCameraIcon
 } from '@heroicons/react/24/outline';
 import { motion } from 'framer-motion';
-import React, { useState } from 'react';
+import React, { useEffect, useRef, useState } from 'react';
 import { useNavigate } from 'react-router-dom';
 import DevelopmentHelper from '../components/shared/DevelopmentHelper';
 import LoadingSpinner from '../components/shared/LoadingSpinner';
 import PermissionHelper from '../components/shared/PermissionHelper';
-import { useSimpleWebRTC } from '../hooks/useSimpleWebRTC';
-import { useAppStore, useCurrentUser, useFamily } from '../stores/useAppStore';
+import { useNow } from '../hooks/useNow';
+import { useWebRTC } from '../hooks/useWebRTC';
+import { emergencyService, getEmergencyContacts } from '../services/emergencyService';
+import { useAppStore, useCurrentUser, useDeviceInfo, useFamily } from '../stores/useAppStore';
+import { formatLastSeen } from '../utils/formatLastSeen';
+
+// How long the emergency button waits for the second tap
+const EMERGENCY_CONFIRM_WINDOW_MS = 5000;
+
+// A second tap sooner than this is a double-tap or a bounce, not a confirmation
+const EMERGENCY_MIN_CONFIRM_DELAY_MS = 400;
 
 /**
  * KidsDashboard - Playful interface for children
@@ -49,9 +59,16 @@ const KidsDashboard: React.FC = () => {
   const navigate = useNavigate();
   const family = useFamily();
   const currentUser = useCurrentUser();
-  const { setTheme, setIncomingCall } = useAppStore();
+  const deviceInfo = useDeviceInfo();
+  const { setTheme } = useAppStore();
+  
+  // Keeps "last seen" times current
+  const now = useNow();
   
   const [emergencyStep, setEmergencyStep] = useState(0);
+  const [isEmergencyActive, setIsEmergencyActive] = useState(false);
+  const emergencyArmedAt = useRef(0);
+  const emergencyResetTimer = useRef<ReturnType<typeof setTimeout> | null>(null);
   const [showLove, setShowLove] = useState(false);
   const [showPermissionHelper, setShowPermissionHelper] = useState(false);
   const [showDevelopmentHelper, setShowDevelopmentHelper] = useState(false);
@@ -60,22 +77,41 @@ const KidsDashboard: React.FC = () => {
   const {
     initiateCall,
     answerCall,
+    rejectCall,
     endCall,
     isCallActive,
     isRinging,
     isConnecting,
     hasIncomingCall,
     incomingCall,
-  } = useSimpleWebRTC({
-    familyId: family?.id || '',
-    deviceId: currentUser?.deviceId || '',
-  });
+  } = useWebRTC();
+  
+  // Only show video buttons when this device has a camera
+  const canVideoCall = deviceInfo?.capabilities.camera !== false;
+  
+  // Parents can turn the emergency button off for a child
+  const isEmergencyButtonEnabled = !currentUser || !('approvedGuardians' in currentUser) ||
+    currentUser.preferences.emergencyButtonEnabled !== false;
   
   // Set kids theme
   React.useEffect(() => {
     setTheme('kids');
   }, [setTheme]);
   
+  // Don't leave the emergency reset timer running after leaving the page
+  useEffect(() => {
+    return () => {
+      if (emergencyResetTimer.current) clearTimeout(emergencyResetTimer.current);
+    };
+  }, []);
+  
+  // Stay here while calling for help, then join the call once a grown-up answers
+  useEffect(() => {
+    if (isEmergencyActive && isConnecting) {
+      navigate(`/call/voice/${family?.id}`);
+    }
+  }, [isEmergencyActive, isConnecting, navigate, family?.id]);
+  
   // Check browser compatibility and request permissions
   const checkBrowserCompatibility = async () => {
     console.log('Checking browser compatibility...');
@@ -163,23 +199,56 @@ const KidsDashboard: React.FC = () => {
     }
   };
   
-  // Handle emergency call
-  const handleEmergency = () => {
-    console.log('Emergency button clicked, current step:', emergencyStep);
+  // Handle emergency call - only a real tap, then a second one to confirm
+  const handleEmergency = (event: React.MouseEvent) => {
+    if (!event.isTrusted || isEmergencyActive) return;
+    
     if (emergencyStep === 0) {
       setEmergencyStep(1);
-      // Reset after 3 seconds if not confirmed
-      setTimeout(() => setEmergencyStep(0), 3000);
-    } else if (emergencyStep === 1) {
-      // Temporarily disabled automatic calling for debugging
-      console.log('Emergency call would be triggered here - currently disabled for debugging');
-      // TODO: Re-enable after fixing the automatic trigger issue
-      // if (family?.guardians) {
-      //   family.guardians.forEach(guardian => {
-      //     handleVoiceCall(guardian.id);
-      //   });
-      // }
-      setEmergencyStep(0);
+      emergencyArmedAt.current = Date.now();
+      // Reset if not confirmed in time
+      emergencyResetTimer.current = setTimeout(() => setEmergencyStep(0), EMERGENCY_CONFIRM_WINDOW_MS);
+      return;
+    }
+    
+    if (Date.now() - emergencyArmedAt.current < EMERGENCY_MIN_CONFIRM_DELAY_MS) return;
+    
+    if (emergencyResetTimer.current) clearTimeout(emergencyResetTimer.current);
+    setEmergencyStep(0);
+    startEmergency();
+  };
+  
+  // What to do when the app couldn't reach anyone. Contacts outside the
+  // family were never rung, so they're listed to phone another way
+  const getFallbackAdvice = () => {
+    const phoneContacts = family && currentUser && 'approvedGuardians' in currentUser
+      ? getEmergencyContacts(family, currentUser).filter(contact => contact.phone)
+      : [];
+    const phoneList = phoneContacts
+      .map(contact => `\n${contact.name} (${contact.relation}): ${contact.phone}`)
+      .join('');
+    
+    return phoneList
+      ? `The app can't call these grown-ups. Ask someone near you to help you phone:${phoneList}\n\nCall 911 if you are in danger.`
+      : 'Find a grown-up near you, or call 911 if you are in danger.';
+  };
+  
+  // Ring every grown-up who can help until one answers
+  const startEmergency = async () => {
+    if (!(await checkBrowserCompatibility())) return;
+    
+    setIsEmergencyActive(true);
+    try {
+      const status = await emergencyService.start();
+      if (status === 'unanswered') {
+        alert(`Nobody answered. ${getFallbackAdvice()}`);
+      }
+    } catch (error) {
+      console.error('Emergency call failed:', error);
+      const errorMessage = error instanceof Error ? error.message : 'Sorry, I couldn\'t call for help.';
+      alert(`${errorMessage} ${getFallbackAdvice()}`);
+    } finally {
+      setIsEmergencyActive(false);
     }
   };
   
@@ -195,8 +264,7 @@ const KidsDashboard: React.FC = () => {
   };
 
   const handleRejectCall = () => {
-    // TODO: Send rejection through Pusher
-    setIncomingCall(null);
+    rejectCall();
   };
 
   // Handle send love
@@ -341,6 +409,11 @@ const KidsDashboard: React.FC = () => {
                           {guardian.isOnline ? 'Available' : 'Not available'}
                         </span>
                       </div>
+                      {!guardian.isOnline && (
+                        <p className="text-sm text-white text-opacity-75 text-shadow">
+                          Last seen {formatLastSeen(guardian.lastSeen, now)}
+                        </p>
+                      )}
                     </div>
                     
                     {/* Call Buttons */}
@@ -356,16 +429,18 @@ const KidsDashboard: React.FC = () => {
                         <span className="text-lg sm:text-xl font-bold">Call {guardian.name}</span>
                       </motion.button>
                       
-                      <motion.button
-                        whileHover={{ scale: 1.05 }}
-                        whileTap={{ scale: 0.95 }}
-                        onClick={() => handleVideoCall(guardian.id)}
-                        disabled={!guardian.isOnline || isCallActive}
-                        className="w-full btn-kids bg-blue-500 text-white hover:bg-blue-600 disabled:opacity-50 disabled:cursor-not-allowed shadow-lg"
-                      >
-                        <VideoCameraIcon className="w-6 h-6 sm:w-8 sm:h-8 inline-block mr-3" />
-                        <span className="text-lg sm:text-xl font-bold">Video {guardian.name}</span>
-                      </motion.button>
+                      {canVideoCall && (
+                        <motion.button
+                          whileHover={{ scale: 1.05 }}
+                          whileTap={{ scale: 0.95 }}
+                          onClick={() => handleVideoCall(guardian.id)}
+                          disabled={!guardian.isOnline || isCallActive}
+                          className="w-full btn-kids bg-blue-500 text-white hover:bg-blue-600 disabled:opacity-50 disabled:cursor-not-allowed shadow-lg"
+                        >
+                          <VideoCameraIcon className="w-6 h-6 sm:w-8 sm:h-8 inline-block mr-3" />
+                          <span className="text-lg sm:text-xl font-bold">Video {guardian.name}</span>
+                        </motion.button>
+                      )}
                     </div>
                   </motion.div>
                 ))}
@@ -411,22 +486,25 @@ const KidsDashboard: React.FC = () => {
           </motion.button>
           
           {/* Emergency Button */}
-          <motion.button
-            whileHover={{ scale: 1.05 }}
-            whileTap={{ scale: 0.95 }}
-            onClick={handleEmergency}
-            className={`card-kids text-center py-4 sm:py-6 ${
-              emergencyStep === 1 ? 'bg-red-500' : 'bg-red-400'
-            }`}
-          >
-            <ExclamationTriangleIcon className="w-8 h-8 sm:w-12 sm:h-12 text-white mx-auto mb-2 sm:mb-3" />
-            <h3 className="text-lg sm:text-2xl font-bold text-white mb-1 sm:mb-2 text-shadow">
-              {emergencyStep === 0 ? 'Emergency' : 'Calling All Parents!'}
-            </h3>
-            <p className="text-xs sm:text-base text-white text-opacity-75 text-shadow">
-              {emergencyStep === 0 ? 'Tap twice to call all parents' : 'Tap again to confirm'}
-            </p>
-          </motion.button>
+          {isEmergencyButtonEnabled && (
+            <motion.button
+              whileHover={{ scale: 1.05 }}
+              whileTap={{ scale: 0.95 }}
+              onClick={handleEmergency}
+              disabled={isEmergencyActive}
+              className={`card-kids text-center py-4 sm:py-6 disabled:opacity-75 ${
+                emergencyStep === 1 ? 'bg-red-500' : 'bg-red-400'
+              }`}
+            >
+              <ExclamationTriangleIcon className="w-8 h-8 sm:w-12 sm:h-12 text-white mx-auto mb-2 sm:mb-3" />
+              <h3 className="text-lg sm:text-2xl font-bold text-white mb-1 sm:mb-2 text-shadow">
+                {emergencyStep === 0 ? 'Emergency' : 'Calling All Parents!'}
+              </h3>
+              <p className="text-xs sm:text-base text-white text-opacity-75 text-shadow">
+                {emergencyStep === 0 ? 'Tap twice to call all parents' : 'Tap again to confirm'}
+              </p>
+            </motion.button>
+          )}
         </div>
       </section>
       
@@ -465,7 +543,7 @@ const KidsDashboard: React.FC = () => {
               📞
             </motion.div>
             <h2 className="text-4xl font-bold text-white mb-6 text-shadow">
-              {isRinging && 'Ringing...'}
+              {isRinging && (isEmergencyActive ? 'Calling for help...' : 'Ringing...')}
               {isConnecting && 'Connecting...'}
               {isCallActive && 'Talking to Parent!'}
             </h2>
@@ -11,12 +11,12 @@
  * - Family code and user name authentication
  * - Automatic user type detection (guardian vs child)
  * - Error handling for invalid credentials
+ * - Optional PIN / picture password step
+ * - New device pairing with guardian approval
  * - Redirect to appropriate dashboard
  * 
  * V2 Ready:
  * - Remember me functionality
- * - Password-based authentication
- * - Multi-device login management
  * 
  * Last Updated: 2024-09-09
  * ============================================================================
@@ -30,9 +30,12 @@ import {
 } from '@heroicons/react/24/outline';
 import { motion } from 'framer-motion';
 import React, { useState } from 'react';
-import { Link, useNavigate } from 'react-router-dom';
+import { Link, useLocation, useNavigate } from 'react-router-dom';
+import DevicePairingPanel from '../components/shared/DevicePairingPanel';
 import LoadingSpinner from '../components/shared/LoadingSpinner';
-import FamilyDataService from '../services/familyDataService';
+import PicturePasswordPad from '../components/shared/PicturePasswordPad';
+import FamilyDataService, { type PendingDevice } from '../services/familyDataService';
+import { MemberCredentialService, type SecretKind } from '../services/memberCredentialService';
 import { useAppStore } from '../stores/useAppStore';
 
 /**
@@ -44,29 +47,52 @@ import { useAppStore } from '../stores/useAppStore';
  */
 const LoginPage: React.FC = () => {
   const navigate = useNavigate();
+  const location = useLocation();
   const { setCurrentFamily, setCurrentUser, setUserType, setTheme } = useAppStore();
   
   const [familyCode, setFamilyCode] = useState('');
   const [userName, setUserName] = useState('');
   const [isLoading, setIsLoading] = useState(false);
-  const [error, setError] = useState<string | null>(null);
+  const [secretRequired, setSecretRequired] = useState<SecretKind | null>(null);
+  const [pin, setPin] = useState('');
+  const [pictures, setPictures] = useState<string[]>([]);
+  const [pendingDevice, setPendingDevice] = useState<PendingDevice | null>(null);
+  // Show why we were signed out (e.g. the family code was changed)
+  const [error, setError] = useState<string | null>(location.state?.notice ?? null);
 
-  const handleLogin = async (e: React.FormEvent) => {
-    e.preventDefault();
+  const login = async () => {
     if (!familyCode.trim() || !userName.trim()) return;
     
     setIsLoading(true);
     setError(null);
     
+    const secret = secretRequired === 'pin'
+      ? pin
+      : secretRequired === 'picture' && pictures.length > 0
+        ? MemberCredentialService.encodePicturePassword(pictures)
+        : undefined;
+    
     try {
       // Use real family data service to join family
-      const result = FamilyDataService.joinFamily({
+      const result = await FamilyDataService.joinFamily({
         familyCode: familyCode.trim(),
         userName: userName.trim(),
+        secret: secret || undefined,
       });
       
-      if (!result) {
-        setError('Invalid family code or user not found. Please check your information and try again.');
+      if (!result.success) {
+        // New device: wait for a guardian, keeping what was typed for the retry
+        if (result.pendingDevice) {
+          setPendingDevice(result.pendingDevice);
+          return;
+        }
+        setPendingDevice(null);
+        
+        // Ask for the member's PIN or pictures; only show an error once they've tried
+        setSecretRequired(result.secretRequired || null);
+        setError(result.secretRequired && !secret ? null : result.error);
+        setPin('');
+        setPictures([]);
         return;
       }
       
@@ -97,6 +123,16 @@ const LoginPage: React.FC = () => {
     }
   };
 
+  const handleLogin = (e: React.FormEvent) => {
+    e.preventDefault();
+    login();
+  };
+
+  const handleDeviceRevoked = () => {
+    setPendingDevice(null);
+    setError('This device has been removed from the family. Please ask a parent for help.');
+  };
+
   return (
     <div className="min-h-screen bg-gradient-to-br from-blue-500 to-purple-600 p-4">
       <div className="container-responsive py-8">
@@ -128,8 +164,17 @@ const LoginPage: React.FC = () => {
             </p>
           </div>
           
+          {/* Waiting for a guardian to approve this device */}
+          {pendingDevice && (
+            <DevicePairingPanel
+              pendingDevice={pendingDevice}
+              onApproved={login}
+              onRevoked={handleDeviceRevoked}
+            />
+          )}
+          
           {/* Login Form */}
-          <form onSubmit={handleLogin} className="space-y-6">
+          <form onSubmit={handleLogin} className={`space-y-6 ${pendingDevice ? 'hidden' : ''}`}>
             <div className="card">
               <label htmlFor="familyCode" className="block text-lg font-semibold text-gray-900 mb-3">
                 Family Code
@@ -138,7 +183,10 @@ const LoginPage: React.FC = () => {
                 type="text"
                 id="familyCode"
                 value={familyCode}
-                onChange={(e) => setFamilyCode(e.target.value.toUpperCase())}
+                onChange={(e) => {
+                  setFamilyCode(e.target.value.toUpperCase());
+                  setSecretRequired(null);
+                }}
                 placeholder="BEAR-CAKE-2024"
                 className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent text-center font-mono tracking-wider"
                 required
@@ -156,7 +204,10 @@ const LoginPage: React.FC = () => {
                 type="text"
                 id="userName"
                 value={userName}
-                onChange={(e) => setUserName(e.target.value)}
+                onChange={(e) => {
+                  setUserName(e.target.value);
+                  setSecretRequired(null);
+                }}
                 placeholder="Mom, Dad, Emma, Jake, etc."
                 className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
                 required
@@ -166,6 +217,34 @@ const LoginPage: React.FC = () => {
               </p>
             </div>
             
+            {secretRequired === 'pin' && (
+              <div className="card">
+                <label htmlFor="pin" className="block text-lg font-semibold text-gray-900 mb-3">
+                  Your PIN
+                </label>
+                <input
+                  type="password"
+                  id="pin"
+                  inputMode="numeric"
+                  autoComplete="current-password"
+                  value={pin}
+                  onChange={(e) => setPin(e.target.value.replace(/\D/g, ''))}
+                  maxLength={8}
+                  className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent text-center font-mono tracking-widest"
+                  autoFocus
+                />
+              </div>
+            )}
+            
+            {secretRequired === 'picture' && (
+              <div className="card">
+                <p className="text-lg font-semibold text-gray-900 mb-3">
+                  Tap your secret pictures
+                </p>
+                <PicturePasswordPad value={pictures} onChange={setPictures} disabled={isLoading} />
+              </div>
+            )}
+            
             {error && (
               <div className="bg-red-100 border border-red-400 text-red-700 px-4 py-3 rounded-lg flex items-start">
                 <ExclamationTriangleIcon className="w-5 h-5 mr-2 mt-0.5 flex-shrink-0" />
@@ -175,7 +254,11 @@ const LoginPage: React.FC = () => {
             
             <button
               type="submit"
-              disabled={isLoading || !familyCode.trim() || !userName.trim()}
+              disabled={
+                isLoading || !familyCode.trim() || !userName.trim() ||
+                (secretRequired === 'pin' && !MemberCredentialService.isValidPin(pin)) ||
+                (secretRequired === 'picture' && !MemberCredentialService.isValidPicturePassword(pictures))
+              }
               className="w-full btn-primary text-lg py-4 disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center"
             >
               {isLoading ? (
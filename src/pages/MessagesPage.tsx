@@ -33,7 +33,8 @@ import {
 import { motion } from 'framer-motion';
 import React, { useEffect, useRef, useState } from 'react';
 import { useNavigate, useParams } from 'react-router-dom';
-import { useMessages, useTheme, useUserType } from '../stores/useAppStore';
+import pusherService from '../services/pusherService';
+import { useAppStore, useCurrentUser, useMessages, useTheme, useUserType } from '../stores/useAppStore';
 
 /**
  * MessagesPage - Family messaging interface
@@ -47,6 +48,7 @@ const MessagesPage: React.FC = () => {
   const userType = useUserType();
   const theme = useTheme();
   const messages = useMessages();
+  const currentUser = useCurrentUser();
   
   const [newMessage, setNewMessage] = useState('');
   const [_isRecording, _setIsRecording] = useState(false);
@@ -61,11 +63,26 @@ const MessagesPage: React.FC = () => {
   // Handle send message
   const handleSendMessage = (e: React.FormEvent) => {
     e.preventDefault();
-    if (!newMessage.trim()) return;
+    const text = newMessage.trim();
+    if (!text || !currentUser || !userType || !familyId) return;
     
-    // TODO: Send message via WebSocket
-    console.log('Sending message:', newMessage);
+    const messageId = `message-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+    useAppStore.getState().addMessage({
+      id: messageId,
+      familyId,
+      from: { id: currentUser.id, name: currentUser.name, type: userType },
+      content: { type: 'text', text },
+      timestamp: new Date(),
+      read: true,
+      delivered: false,
+    });
     setNewMessage('');
+    
+    // Relay to the rest of the family
+    pusherService.sendChatMessage(messageId, text).catch((error) => {
+      console.error('Failed to send message:', error);
+      alert('Your message could not be sent. Please try again.');
+    });
   };
   
   // Handle voice recording
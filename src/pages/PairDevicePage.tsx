@@ -0,0 +1,169 @@
+/**
+ * ============================================================================
+ * KIDS CALL HOME - Pair Device Page
+ * ============================================================================
+ * 
+ * Purpose: Lets a guardian approve a new device by scanning its QR code
+ * Interface: Guardian - opened from the pairing QR code on the new device
+ * Dependencies: React, react-router-dom, zustand, familyDataService
+ * 
+ * V1 Features:
+ * - Shows which member and device are asking to join
+ * - One-tap approval for signed-in guardians
+ * - Sign-in prompt for everyone else
+ * 
+ * Last Updated: 2024-09-09
+ * ============================================================================
+ */
+
+import { CheckCircleIcon, DevicePhoneMobileIcon } from '@heroicons/react/24/outline';
+import { motion } from 'framer-motion';
+import React, { useEffect, useState } from 'react';
+import { Link, useNavigate, useSearchParams } from 'react-router-dom';
+import LoadingSpinner from '../components/shared/LoadingSpinner';
+import FamilyDataService from '../services/familyDataService';
+import { useAppStore } from '../stores/useAppStore';
+import type { TrustedDevice } from '../types';
+
+/**
+ * PairDevicePage - Guardian approval screen for a pending device
+ */
+const PairDevicePage: React.FC = () => {
+  const navigate = useNavigate();
+  const [searchParams] = useSearchParams();
+  const { currentFamily, currentUser, userType, setCurrentFamily } = useAppStore();
+  
+  const familyId = searchParams.get('family') || '';
+  const pairingCode = searchParams.get('code') || '';
+  const isGuardianOfFamily = userType === 'guardian' && currentFamily?.id === familyId;
+  
+  const [device, setDevice] = useState<TrustedDevice | null>(null);
+  const [memberName, setMemberName] = useState('');
+  const [isLoading, setIsLoading] = useState(true);
+  const [isApproving, setIsApproving] = useState(false);
+  const [approved, setApproved] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  
+  // Look up the pending device for this pairing code
+  useEffect(() => {
+    if (!isGuardianOfFamily) {
+      setIsLoading(false);
+      return;
+    }
+    
+    FamilyDataService.findFamilyById(familyId)
+      .then((family) => {
+        const pending = family?.devices?.find(d => d.status === 'pending' && d.pairingCode === pairingCode);
+        if (!family || !pending) {
+          setError('This pairing code has expired or was already used. Ask for a new code on the other device.');
+          return;
+        }
+        const member = [...family.guardians, ...family.children].find(m => m.id === pending.memberId);
+        setDevice(pending);
+        setMemberName(member?.name || 'Unknown');
+      })
+      .catch(() => setError('Could not load your family. Please try again.'))
+      .finally(() => setIsLoading(false));
+  }, [familyId, pairingCode, isGuardianOfFamily]);
+  
+  // Handle approve device
+  const handleApprove = async () => {
+    if (!currentUser) return;
+    
+    setIsApproving(true);
+    
+    try {
+      const result = await FamilyDataService.approveDeviceByPairingCode(familyId, pairingCode);
+      if (!result) {
+        setError('This pairing code has expired or was already used. Ask for a new code on the other device.');
+        return;
+      }
+      
+      const updatedFamily = await FamilyDataService.findFamilyById(familyId);
+      if (updatedFamily) {
+        setCurrentFamily(updatedFamily);
+      }
+      setApproved(true);
+    } catch (err) {
+      console.error('Failed to approve device:', err);
+      setError('Failed to approve the device. Please try again.');
+    } finally {
+      setIsApproving(false);
+    }
+  };
+  
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-500 to-purple-600 p-4 flex items-center justify-center">
+      <motion.div
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        transition={{ duration: 0.8 }}
+        className="card max-w-md w-full text-center space-y-4"
+      >
+        {isLoading ? (
+          <LoadingSpinner size="large" text="Checking pairing code..." />
+        ) : !isGuardianOfFamily ? (
+          <>
+            <DevicePhoneMobileIcon className="w-12 h-12 mx-auto text-gray-700" />
+            <h1 className="text-xl font-bold text-gray-900">Parent sign-in needed</h1>
+            <p className="text-gray-600">
+              Sign in as a parent in this family on this device, then scan the code again.
+            </p>
+            <Link to="/login" className="btn-primary inline-block px-6 py-3">
+              Sign In
+            </Link>
+          </>
+        ) : approved ? (
+          <>
+            <CheckCircleIcon className="w-12 h-12 mx-auto text-green-500" />
+            <h1 className="text-xl font-bold text-gray-900">Device approved</h1>
+            <p className="text-gray-600">
+              {memberName} can now use {device?.name}. It will finish signing in by itself.
+            </p>
+            <button onClick={() => navigate('/guardian')} className="btn-primary px-6 py-3">
+              Back to Dashboard
+            </button>
+          </>
+        ) : error || !device ? (
+          <>
+            <DevicePhoneMobileIcon className="w-12 h-12 mx-auto text-gray-700" />
+            <h1 className="text-xl font-bold text-gray-900">Can't pair this device</h1>
+            <p className="text-gray-600">{error}</p>
+            <button onClick={() => navigate('/guardian')} className="btn-primary px-6 py-3">
+              Back to Dashboard
+            </button>
+          </>
+        ) : (
+          <>
+            <DevicePhoneMobileIcon className="w-12 h-12 mx-auto text-gray-700" />
+            <h1 className="text-xl font-bold text-gray-900">Approve new device?</h1>
+            <p className="text-gray-600">
+              <strong>{memberName}</strong> wants to sign in on <strong>{device.name}</strong>.
+              Only approve devices you recognize.
+            </p>
+            <div className="text-3xl font-mono font-bold tracking-widest text-gray-900">
+              {pairingCode}
+            </div>
+            <div className="flex space-x-3">
+              <button
+                onClick={() => navigate('/guardian')}
+                className="flex-1 px-4 py-3 rounded-lg bg-gray-200 text-gray-800 hover:bg-gray-300"
+              >
+                Not Now
+              </button>
+              <button
+                onClick={handleApprove}
+                disabled={isApproving}
+                className="flex-1 btn-primary py-3 disabled:opacity-50"
+              >
+                {isApproving ? 'Approving...' : 'Approve'}
+              </button>
+            </div>
+          </>
+        )}
+      </motion.div>
+    </div>
+  );
+};
+
+export default PairDevicePage;
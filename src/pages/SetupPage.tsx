@@ -31,9 +31,12 @@ import {
 import { motion } from 'framer-motion';
 import React, { useEffect, useState } from 'react';
 import { useLocation, useNavigate } from 'react-router-dom';
+import DevicePairingPanel from '../components/shared/DevicePairingPanel';
 import LoadingSpinner from '../components/shared/LoadingSpinner';
+import PicturePasswordPad from '../components/shared/PicturePasswordPad';
 import PWAInstallPrompt from '../components/shared/PWAInstallPrompt';
-import FamilyDataService from '../services/familyDataService';
+import FamilyDataService, { type PendingDevice } from '../services/familyDataService';
+import { MemberCredentialService } from '../services/memberCredentialService';
 import { useAppStore } from '../stores/useAppStore';
 
 type SetupMode = 'guardian' | 'child' | 'select';
@@ -62,6 +65,9 @@ const SetupPage: React.FC = () => {
   // Child setup state
   const [familyCode, setFamilyCode] = useState('');
   const [childName, setChildName] = useState('');
+  const [needsPictures, setNeedsPictures] = useState(false);
+  const [pictures, setPictures] = useState<string[]>([]);
+  const [pendingDevice, setPendingDevice] = useState<PendingDevice | null>(null);
   
   // Get family code from location state if coming from landing page
   useEffect(() => {
@@ -82,7 +88,7 @@ const SetupPage: React.FC = () => {
     
     try {
       // Use real family data service to create family
-      const family = FamilyDataService.createFamily({
+      const family = await FamilyDataService.createFamily({
         familyName: familyName.trim(),
         guardianName: guardianName.trim(),
         guardianEmail: '', // Optional email
@@ -90,13 +96,13 @@ const SetupPage: React.FC = () => {
       
       // Add children to the family
       for (const childName of childrenNames.filter(name => name.trim())) {
-        FamilyDataService.addChildToFamily(family.id, {
+        await FamilyDataService.addChildToFamily(family.id, {
           childName: childName.trim(),
         });
       }
       
       // Reload the family to get updated data with children
-      const updatedFamily = FamilyDataService.findFamilyById(family.id);
+      const updatedFamily = await FamilyDataService.findFamilyById(family.id);
       if (!updatedFamily) {
         throw new Error('Failed to create family');
       }
@@ -126,22 +132,41 @@ const SetupPage: React.FC = () => {
   };
   
   // Handle child family joining
-  const handleChildSetup = async (e: React.FormEvent) => {
-    e.preventDefault();
+  const joinAsChild = async () => {
     if (!familyCode.trim() || !childName.trim()) return;
     
     setIsLoading(true);
     setError(null);
     
+    const secret = needsPictures && pictures.length > 0
+      ? MemberCredentialService.encodePicturePassword(pictures)
+      : undefined;
+    
     try {
       // Use real family data service to join family
-      const result = FamilyDataService.joinFamily({
+      const result = await FamilyDataService.joinFamily({
         familyCode: familyCode.trim(),
         userName: childName.trim(),
+        redeemCode: true,
+        secret,
       });
       
-      if (!result) {
-        setError('Invalid family code or child not found. Please check your information and try again.');
+      if (!result.success) {
+        // New device: wait for a parent, keeping what was typed for the retry
+        if (result.pendingDevice) {
+          setPendingDevice(result.pendingDevice);
+          return;
+        }
+        setPendingDevice(null);
+        
+        if (result.secretRequired === 'pin') {
+          // Only guardians have PINs
+          setError('This name is registered as a guardian. Children should use their own name.');
+          return;
+        }
+        setNeedsPictures(result.secretRequired === 'picture');
+        setError(result.secretRequired && !secret ? null : result.error);
+        setPictures([]);
         return;
       }
       
@@ -177,6 +202,16 @@ const SetupPage: React.FC = () => {
     }
   };
   
+  const handleChildSetup = (e: React.FormEvent) => {
+    e.preventDefault();
+    joinAsChild();
+  };
+  
+  const handleDeviceRevoked = () => {
+    setPendingDevice(null);
+    setError('This device has been removed from the family. Please ask a parent for help.');
+  };
+  
   // Add child name input
   const addChildName = () => {
     setChildrenNames([...childrenNames, '']);
@@ -376,7 +411,16 @@ const SetupPage: React.FC = () => {
               </p>
             </div>
             
-            <form onSubmit={handleChildSetup} className="space-y-6">
+            {/* Waiting for a parent to approve this device */}
+            {pendingDevice && (
+              <DevicePairingPanel
+                pendingDevice={pendingDevice}
+                onApproved={joinAsChild}
+                onRevoked={handleDeviceRevoked}
+              />
+            )}
+            
+            <form onSubmit={handleChildSetup} className={`space-y-6 ${pendingDevice ? 'hidden' : ''}`}>
               <div className="card">
                 <label htmlFor="familyCode" className="block text-lg font-semibold text-gray-900 mb-3">
                   Family Code
@@ -385,7 +429,10 @@ const SetupPage: React.FC = () => {
                   type="text"
                   id="familyCode"
                   value={familyCode}
-                  onChange={(e) => setFamilyCode(e.target.value.toUpperCase())}
+                  onChange={(e) => {
+                    setFamilyCode(e.target.value.toUpperCase());
+                    setNeedsPictures(false);
+                  }}
                   placeholder="BEAR-CAKE-2024"
                   className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-transparent text-center font-mono tracking-wider"
                   required
@@ -403,7 +450,10 @@ const SetupPage: React.FC = () => {
                   type="text"
                   id="childName"
                   value={childName}
-                  onChange={(e) => setChildName(e.target.value)}
+                  onChange={(e) => {
+                    setChildName(e.target.value);
+                    setNeedsPictures(false);
+                  }}
                   placeholder="Your name"
                   className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-transparent"
                   required
@@ -413,6 +463,15 @@ const SetupPage: React.FC = () => {
                 </p>
               </div>
               
+              {needsPictures && (
+                <div className="card">
+                  <p className="text-lg font-semibold text-gray-900 mb-3">
+                    Tap your secret pictures
+                  </p>
+                  <PicturePasswordPad value={pictures} onChange={setPictures} disabled={isLoading} />
+                </div>
+              )}
+              
               {error && (
                 <div className="bg-red-100 border border-red-400 text-red-700 px-4 py-3 rounded-lg">
                   {error}
@@ -421,7 +480,10 @@ const SetupPage: React.FC = () => {
               
               <button
                 type="submit"
-                disabled={isLoading || !familyCode.trim() || !childName.trim()}
+                disabled={
+                  isLoading || !familyCode.trim() || !childName.trim() ||
+                  (needsPictures && !MemberCredentialService.isValidPicturePassword(pictures))
+                }
                 className="w-full btn-primary text-lg py-4 disabled:opacity-50 disabled:cursor-not-allowed"
               >
                 {isLoading ? 'Joining Family...' : 'Join Family'}
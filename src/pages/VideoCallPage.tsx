@@ -9,13 +9,14 @@
  * 
  * V1 Features:
  * - Video call with picture-in-picture
+ * - Group calls: a grid of everyone in the call, and "add person"
  * - Video controls (mute, camera, hang up)
  * - Different layouts for guardian vs kids interfaces
  * - Network quality indicators
+ * - Call hold, and call waiting (answer, switch or decline with a reply)
  * 
  * V2 Ready:
  * - Screen sharing capabilities
- * - Multi-party video calls
  * - Advanced video controls
  * 
  * Last Updated: 2024-09-09
@@ -25,70 +26,119 @@
 import {
     ArrowsPointingOutIcon,
     MicrophoneIcon,
+    PauseIcon,
+    PlayIcon,
     SignalIcon,
     SpeakerWaveIcon,
+    UserPlusIcon,
     VideoCameraIcon,
     XMarkIcon
 } from '@heroicons/react/24/outline';
 import { motion } from 'framer-motion';
 import React, { useEffect, useRef, useState } from 'react';
-import { useNavigate, useParams } from 'react-router-dom';
+import { useNavigate } from 'react-router-dom';
+import CallWaitingBanner from '../components/shared/CallWaitingBanner';
+import ParticipantGrid from '../components/shared/ParticipantGrid';
 import { useWebRTC } from '../hooks/useWebRTC';
-import { useTheme, useUserType } from '../stores/useAppStore';
+import { useFamily, useTheme, useUserType } from '../stores/useAppStore';
 
 /**
  * VideoCallPage - Video calling interface
  * 
  * Provides video calling with different layouts for guardian (child's video
- * as main) and kids (parent's video as main) interfaces.
+ * as main) and kids (parent's video as main) interfaces. Group calls show
+ * everyone else in a grid.
  */
 const VideoCallPage: React.FC = () => {
-  const { familyId } = useParams<{ familyId: string }>();
   const navigate = useNavigate();
   const userType = useUserType();
   const theme = useTheme();
+  const family = useFamily();
   
   const [callDuration, setCallDuration] = useState(0);
-  const [isMuted, setIsMuted] = useState(false);
-  const [isVideoOn, setIsVideoOn] = useState(true);
-  const [isSpeakerOn, setIsSpeakerOn] = useState(false);
   const [isMinimized, setIsMinimized] = useState(false);
+  const [showAddPerson, setShowAddPerson] = useState(false);
   
   // Video refs
   const localVideoRef = useRef<HTMLVideoElement>(null);
-  const remoteVideoRef = useRef<HTMLVideoElement>(null);
   
   // WebRTC hook
   const {
-    initiateCall: _initiateCall,
     endCall,
+    callState,
+    callStatus,
     isCallActive,
     isRinging,
     isConnecting,
+    isReconnecting,
+    hasIncomingCall,
+    holdCall,
+    resumeCall,
+    switchCalls,
+    answerWaitingCall,
+    declineWaitingCall,
+    isHeld,
+    waitingCall,
+    heldCall,
+    declineReply,
+    clearDeclineReply,
     toggleMute,
     toggleVideo,
     toggleSpeaker,
+    isMuted,
+    isVideoEnabled: isVideoOn,
+    isSpeakerEnabled: isSpeakerOn,
+    canUseSpeaker,
+    audioOutputId,
+    localStream,
+    remoteParticipants,
+    addParticipant,
+    invitableMembers,
+    ringTargets,
+    callEndsAt,
     networkQuality,
     connectionQuality,
-  } = useWebRTC({
-    familyId: familyId || '',
-    deviceId: 'current-device', // TODO: Get from store
-  });
+    videoQuality,
+  } = useWebRTC();
   
-  // Call timer
+  // Show our camera (everyone else is in the participant grid)
   useEffect(() => {
-    let interval: NodeJS.Timeout;
-    
-    if (isCallActive) {
-      interval = setInterval(() => {
-        setCallDuration(prev => prev + 1);
-      }, 1000);
+    if (localVideoRef.current) {
+      localVideoRef.current.srcObject = localStream;
+    }
+  }, [localStream]);
+  
+  // Leave the call screen once the call is over (hung up here or by the other
+  // side), or when a call that was waiting starts ringing after it
+  useEffect(() => {
+    if (callStatus === 'idle' || hasIncomingCall) {
+      if (declineReply) {
+        alert(`${declineReply.fromName}: "${declineReply.text}"`);
+        clearDeclineReply();
+      }
+      navigate(userType === 'child' ? '/kids' : '/guardian', { replace: true });
+    }
+  }, [callStatus, hasIncomingCall, declineReply, clearDeclineReply, userType, navigate]);
+  
+  // Switching to a voice call moves to the voice screen
+  useEffect(() => {
+    if (callState?.type === 'voice') {
+      navigate(`/call/voice/${family?.id}`, { replace: true });
     }
+  }, [callState?.type, family?.id, navigate]);
+  
+  // Call timer - counts from when the call started, so it keeps going while
+  // a dropped call reconnects or the call is on hold, and follows call switches
+  const startTime = callState?.startTime;
+  useEffect(() => {
+    if (!startTime) return;
+    
+    const interval = setInterval(() => {
+      setCallDuration(Math.floor((Date.now() - startTime.getTime()) / 1000));
+    }, 1000);
     
-    return () => {
-      if (interval) clearInterval(interval);
-    };
-  }, [isCallActive]);
+    return () => clearInterval(interval);
+  }, [startTime]);
   
   // Format call duration
   const formatDuration = (seconds: number): string => {
@@ -100,25 +150,40 @@ const VideoCallPage: React.FC = () => {
   // Handle mute toggle
   const handleMuteToggle = () => {
     toggleMute();
-    setIsMuted(!isMuted);
   };
   
   // Handle video toggle
   const handleVideoToggle = () => {
     toggleVideo();
-    setIsVideoOn(!isVideoOn);
   };
   
   // Handle speaker toggle
   const handleSpeakerToggle = () => {
     toggleSpeaker();
-    setIsSpeakerOn(!isSpeakerOn);
   };
   
   // Handle end call
   const handleEndCall = () => {
     endCall();
-    navigate(-1); // Go back to previous page
+  };
+  
+  // Handle hold toggle
+  const handleHoldToggle = () => {
+    if (isHeld) {
+      resumeCall();
+    } else {
+      holdCall();
+    }
+  };
+  
+  // Handle answering the call waiting (this call goes on hold)
+  const handleAnswerWaiting = async () => {
+    try {
+      await answerWaitingCall();
+    } catch (error) {
+      console.error('Failed to answer call waiting:', error);
+      alert(error instanceof Error ? error.message : 'Failed to answer the call. Please try again.');
+    }
   };
   
   // Handle minimize
@@ -126,8 +191,40 @@ const VideoCallPage: React.FC = () => {
     setIsMinimized(!isMinimized);
   };
   
+  // Handle add person to the call
+  const handleAddPerson = async (memberId: string) => {
+    setShowAddPerson(false);
+    try {
+      await addParticipant(memberId);
+    } catch (error) {
+      console.error('Failed to add person to call:', error);
+      alert(error instanceof Error ? error.message : 'Failed to add person to the call. Please try again.');
+    }
+  };
+  
+  // People being added to the call who haven't picked up yet
+  const ringingNames = Object.entries(ringTargets)
+    .filter(([, status]) => status === 'ringing' && (isCallActive || isReconnecting))
+    .map(([memberId]) =>
+      family?.guardians.find(g => g.id === memberId)?.name ||
+      family?.children.find(c => c.id === memberId)?.name)
+    .filter(Boolean)
+    .join(', ');
+  const canAddPerson = isCallActive && invitableMembers.length > 0;
+  
   const isKidsInterface = userType === 'child' || theme === 'kids';
   
+  const callWaitingBanner = (
+    <CallWaitingBanner
+      waitingCall={waitingCall}
+      heldCall={heldCall}
+      variant={isKidsInterface ? 'kids' : 'guardian'}
+      onAnswer={handleAnswerWaiting}
+      onDecline={declineWaitingCall}
+      onSwitch={switchCalls}
+    />
+  );
+  
   if (isKidsInterface) {
     return (
       <div className="min-h-screen bg-gradient-to-br from-orange-400 to-pink-500 flex items-center justify-center p-4">
@@ -136,15 +233,12 @@ const VideoCallPage: React.FC = () => {
           animate={{ opacity: 1, scale: 1 }}
           className="w-full max-w-4xl"
         >
+          {callWaitingBanner}
+          
           {/* Video Container */}
           <div className="relative bg-black rounded-2xl overflow-hidden shadow-2xl mb-6">
-            {/* Remote Video (Parent) - Main for kids */}
-            <video
-              ref={remoteVideoRef}
-              autoPlay
-              playsInline
-              className="w-full aspect-video object-cover"
-            />
+            {/* Remote Video (Parent, or everyone in a group call) - Main for kids */}
+            <ParticipantGrid participants={remoteParticipants} variant="kids" audioOutputId={audioOutputId} />
             
             {/* Local Video (Self) - Picture in Picture for kids */}
             <div className="absolute top-4 right-4 w-32 h-24 bg-gray-800 rounded-lg overflow-hidden">
@@ -181,7 +275,14 @@ const VideoCallPage: React.FC = () => {
                   <h2 className="text-3xl font-bold text-white mb-2 text-shadow">
                     {isRinging && 'Ringing...'}
                     {isConnecting && 'Connecting...'}
+                    {isReconnecting && 'Oops, the line got wobbly!'}
+                    {isHeld && 'Call on hold ⏸️'}
                   </h2>
+                  {isReconnecting && (
+                    <p className="text-xl text-white text-shadow">
+                      Hold on, we're fixing it... 🔧
+                    </p>
+                  )}
                 </div>
               </div>
             )}
@@ -192,8 +293,37 @@ const VideoCallPage: React.FC = () => {
                 {formatDuration(callDuration)}
               </div>
             )}
+            
+            {callEndsAt && (
+              <div className="absolute bottom-4 left-1/2 -translate-x-1/2 bg-black bg-opacity-50 text-white px-4 py-2 rounded-lg text-lg">
+                Time to say goodbye soon! 👋
+              </div>
+            )}
+            
+            {ringingNames && (
+              <div className="absolute top-4 left-1/2 -translate-x-1/2 bg-black bg-opacity-50 text-white px-4 py-2 rounded-lg text-lg">
+                Calling {ringingNames}... 📞
+              </div>
+            )}
           </div>
           
+          {/* Add Person */}
+          {showAddPerson && canAddPerson && (
+            <div className="flex flex-wrap justify-center gap-3 mb-6">
+              {invitableMembers.map((member) => (
+                <motion.button
+                  key={member.id}
+                  whileHover={{ scale: 1.05 }}
+                  whileTap={{ scale: 0.95 }}
+                  onClick={() => handleAddPerson(member.id)}
+                  className="px-5 py-3 bg-white rounded-2xl text-lg font-bold text-gray-800 shadow-lg"
+                >
+                  {member.avatar || '👤'} {member.name}
+                </motion.button>
+              ))}
+            </div>
+          )}
+          
           {/* Call Controls */}
           <div className="flex justify-center space-x-6">
             <motion.button
@@ -218,16 +348,46 @@ const VideoCallPage: React.FC = () => {
               {isVideoOn ? '📹' : '📷'}
             </motion.button>
             
-            <motion.button
-              whileHover={{ scale: 1.1 }}
-              whileTap={{ scale: 0.9 }}
-              onClick={handleSpeakerToggle}
-              className={`w-16 h-16 rounded-full flex items-center justify-center text-2xl ${
-                isSpeakerOn ? 'bg-green-500' : 'bg-white bg-opacity-30'
-              } text-white`}
-            >
-              {isSpeakerOn ? '🔊' : '🔈'}
-            </motion.button>
+            {(isCallActive || isHeld) && (
+              <motion.button
+                whileHover={{ scale: 1.1 }}
+                whileTap={{ scale: 0.9 }}
+                onClick={handleHoldToggle}
+                aria-label={isHeld ? 'Take the call off hold' : 'Put the call on hold'}
+                className={`w-16 h-16 rounded-full flex items-center justify-center text-2xl ${
+                  isHeld ? 'bg-yellow-500' : 'bg-white bg-opacity-30'
+                } text-white`}
+              >
+                {isHeld ? '▶️' : '⏸️'}
+              </motion.button>
+            )}
+            
+            {canUseSpeaker && (
+              <motion.button
+                whileHover={{ scale: 1.1 }}
+                whileTap={{ scale: 0.9 }}
+                onClick={handleSpeakerToggle}
+                className={`w-16 h-16 rounded-full flex items-center justify-center text-2xl ${
+                  isSpeakerOn ? 'bg-green-500' : 'bg-white bg-opacity-30'
+                } text-white`}
+              >
+                {isSpeakerOn ? '🔊' : '🔈'}
+              </motion.button>
+            )}
+            
+            {canAddPerson && (
+              <motion.button
+                whileHover={{ scale: 1.1 }}
+                whileTap={{ scale: 0.9 }}
+                onClick={() => setShowAddPerson(!showAddPerson)}
+                aria-label="Add someone to the call"
+                className={`w-16 h-16 rounded-full flex items-center justify-center text-2xl ${
+                  showAddPerson ? 'bg-purple-500' : 'bg-white bg-opacity-30'
+                } text-white`}
+              >
+                ➕
+              </motion.button>
+            )}
             
             <motion.button
               whileHover={{ scale: 1.1 }}
@@ -278,15 +438,12 @@ const VideoCallPage: React.FC = () => {
           </button>
         </div>
         
+        {callWaitingBanner}
+        
         {/* Video Container */}
         <div className="relative bg-black rounded-2xl overflow-hidden shadow-2xl mb-6">
-          {/* Remote Video (Child) - Main for guardian */}
-          <video
-            ref={remoteVideoRef}
-            autoPlay
-            playsInline
-            className="w-full aspect-video object-cover"
-          />
+          {/* Remote Video (Child, or everyone in a group call) - Main for guardian */}
+          <ParticipantGrid participants={remoteParticipants} variant="guardian" audioOutputId={audioOutputId} />
           
           {/* Local Video (Self) - Picture in Picture for guardian */}
           <div className="absolute top-4 right-4 w-40 h-30 bg-gray-800 rounded-lg overflow-hidden">
@@ -307,7 +464,14 @@ const VideoCallPage: React.FC = () => {
                 <h2 className="text-2xl font-bold text-white mb-2 text-shadow">
                   {isRinging && 'Ringing...'}
                   {isConnecting && 'Connecting...'}
+                  {isReconnecting && 'Reconnecting...'}
+                  {isHeld && 'On Hold'}
                 </h2>
+                {isReconnecting && (
+                  <p className="text-sm text-white text-opacity-75">
+                    The connection dropped. Trying to get it back...
+                  </p>
+                )}
               </div>
             </div>
           )}
@@ -321,6 +485,21 @@ const VideoCallPage: React.FC = () => {
               <SignalIcon className="w-4 h-4" />
               <span className="text-sm">{connectionQuality}</span>
             </div>
+            {videoQuality === 'audio-only' && (
+              <div className="bg-black bg-opacity-50 text-white px-3 py-1 rounded-lg text-sm">
+                Weak connection - video paused
+              </div>
+            )}
+            {callEndsAt && (
+              <div className="bg-black bg-opacity-50 text-white px-3 py-1 rounded-lg text-sm">
+                Ends in a minute (family time limit)
+              </div>
+            )}
+            {ringingNames && (
+              <div className="bg-black bg-opacity-50 text-white px-3 py-1 rounded-lg text-sm">
+                Ringing {ringingNames}...
+              </div>
+            )}
           </div>
         </div>
         
@@ -380,32 +559,58 @@ const VideoCallPage: React.FC = () => {
             <VideoCameraIcon className="w-6 h-6" />
           </button>
           
-          <button
-            onClick={handleSpeakerToggle}
-            className={`w-16 h-16 rounded-full flex items-center justify-center ${
-              isSpeakerOn ? 'bg-green-500' : ''
-            } text-white transition-all`}
-            style={!isSpeakerOn ? {
-              background: 'var(--theme-glass)',
-              backdropFilter: 'blur(var(--glass-blur))',
-              WebkitBackdropFilter: 'blur(var(--glass-blur))',
-              border: '1px solid var(--theme-border)'
-            } : {}}
-            onMouseEnter={!isSpeakerOn ? (e) => {
-              e.currentTarget.style.background = 'rgba(255, 255, 255, 0.25)';
-              e.currentTarget.style.backdropFilter = 'blur(20px)';
-              (e.currentTarget.style as any).WebkitBackdropFilter = 'blur(20px)';
-              e.currentTarget.style.border = '1px solid rgba(255, 255, 255, 0.3)';
-            } : undefined}
-            onMouseLeave={!isSpeakerOn ? (e) => {
-              e.currentTarget.style.background = 'var(--theme-glass)';
-              e.currentTarget.style.backdropFilter = 'blur(var(--glass-blur))';
-              (e.currentTarget.style as any).WebkitBackdropFilter = 'blur(var(--glass-blur))';
-              e.currentTarget.style.border = '1px solid var(--theme-border)';
-            } : undefined}
-          >
-            <SpeakerWaveIcon className="w-6 h-6" />
-          </button>
+          {canUseSpeaker && (
+            <button
+              onClick={handleSpeakerToggle}
+              className={`w-16 h-16 rounded-full flex items-center justify-center ${
+                isSpeakerOn ? 'bg-green-500' : ''
+              } text-white transition-all`}
+              style={!isSpeakerOn ? {
+                background: 'var(--theme-glass)',
+                backdropFilter: 'blur(var(--glass-blur))',
+                WebkitBackdropFilter: 'blur(var(--glass-blur))',
+                border: '1px solid var(--theme-border)'
+              } : {}}
+              onMouseEnter={!isSpeakerOn ? (e) => {
+                e.currentTarget.style.background = 'rgba(255, 255, 255, 0.25)';
+                e.currentTarget.style.backdropFilter = 'blur(20px)';
+                (e.currentTarget.style as any).WebkitBackdropFilter = 'blur(20px)';
+                e.currentTarget.style.border = '1px solid rgba(255, 255, 255, 0.3)';
+              } : undefined}
+              onMouseLeave={!isSpeakerOn ? (e) => {
+                e.currentTarget.style.background = 'var(--theme-glass)';
+                e.currentTarget.style.backdropFilter = 'blur(var(--glass-blur))';
+                (e.currentTarget.style as any).WebkitBackdropFilter = 'blur(var(--glass-blur))';
+                e.currentTarget.style.border = '1px solid var(--theme-border)';
+              } : undefined}
+            >
+              <SpeakerWaveIcon className="w-6 h-6" />
+            </button>
+          )}
+          
+          {(isCallActive || isHeld) && (
+            <button
+              onClick={handleHoldToggle}
+              title={isHeld ? 'Resume call' : 'Hold call'}
+              className={`w-16 h-16 rounded-full flex items-center justify-center text-white transition-all ${
+                isHeld ? 'bg-yellow-500' : 'bg-white bg-opacity-20 hover:bg-opacity-30'
+              }`}
+            >
+              {isHeld ? <PlayIcon className="w-6 h-6" /> : <PauseIcon className="w-6 h-6" />}
+            </button>
+          )}
+          
+          {canAddPerson && (
+            <button
+              onClick={() => setShowAddPerson(!showAddPerson)}
+              title="Add person to call"
+              className={`w-16 h-16 rounded-full flex items-center justify-center text-white transition-all ${
+                showAddPerson ? 'bg-purple-500' : 'bg-white bg-opacity-20 hover:bg-opacity-30'
+              }`}
+            >
+              <UserPlusIcon className="w-6 h-6" />
+            </button>
+          )}
           
           <button
             onClick={handleEndCall}
@@ -415,6 +620,32 @@ const VideoCallPage: React.FC = () => {
           </button>
         </div>
         
+        {/* Add Person */}
+        {showAddPerson && canAddPerson && (
+          <div
+            className="mt-6 p-4 rounded-lg"
+            style={{
+              background: 'var(--theme-glass)',
+              backdropFilter: 'blur(var(--glass-blur))',
+              WebkitBackdropFilter: 'blur(var(--glass-blur))',
+              border: '1px solid var(--theme-border)'
+            }}
+          >
+            <h3 className="text-white font-semibold mb-2">Add to Call</h3>
+            <div className="flex flex-wrap gap-2">
+              {invitableMembers.map((member) => (
+                <button
+                  key={member.id}
+                  onClick={() => handleAddPerson(member.id)}
+                  className="px-4 py-2 bg-white text-gray-900 rounded-lg hover:bg-gray-100"
+                >
+                  {member.name}
+                </button>
+              ))}
+            </div>
+          </div>
+        )}
+        
         {/* Technical Details (Guardian only) */}
         {networkQuality && (
           <div 
@@ -8,15 +8,16 @@
  * Dependencies: React, useWebRTC, zustand, tailwindcss
  * 
  * V1 Features:
- * - Voice call controls (mute, speaker, hang up)
+ * - Voice call controls (mute, speaker where the browser supports it, hang up)
  * - Call status and timer display
  * - Different UI for guardian vs kids interfaces
  * - Network quality indicators
+ * - Plays everyone's audio in group calls
+ * - Call hold, and call waiting (answer, switch or decline with a reply)
  * 
  * V2 Ready:
  * - Call recording capabilities
  * - Advanced audio controls
- * - Multi-party calling
  * 
  * Last Updated: 2024-09-09
  * ============================================================================
@@ -24,15 +25,19 @@
 
 import {
     MicrophoneIcon,
+    PauseIcon,
     PhoneIcon,
+    PlayIcon,
     SignalIcon,
     SpeakerWaveIcon
 } from '@heroicons/react/24/outline';
 import { motion } from 'framer-motion';
 import React, { useEffect, useState } from 'react';
-import { useNavigate, useParams } from 'react-router-dom';
+import { useNavigate } from 'react-router-dom';
+import CallWaitingBanner from '../components/shared/CallWaitingBanner';
 import { useWebRTC } from '../hooks/useWebRTC';
-import { useTheme, useUserType } from '../stores/useAppStore';
+import { useFamily, useTheme, useUserType } from '../stores/useAppStore';
+import { applyAudioOutput } from '../utils/audioOutput';
 
 /**
  * VoiceCallPage - Voice calling interface
@@ -41,45 +46,76 @@ import { useTheme, useUserType } from '../stores/useAppStore';
  * (professional) and kids (playful) interfaces.
  */
 const VoiceCallPage: React.FC = () => {
-  const { familyId } = useParams<{ familyId: string }>();
   const navigate = useNavigate();
   const userType = useUserType();
   const theme = useTheme();
+  const family = useFamily();
   
   const [callDuration, setCallDuration] = useState(0);
-  const [isMuted, setIsMuted] = useState(false);
-  const [isSpeakerOn, setIsSpeakerOn] = useState(false);
   
   // WebRTC hook
   const {
-    initiateCall: _initiateCall,
     endCall,
+    callState,
+    callStatus,
     isCallActive,
     isRinging,
     isConnecting,
+    isReconnecting,
+    hasIncomingCall,
+    holdCall,
+    resumeCall,
+    switchCalls,
+    answerWaitingCall,
+    declineWaitingCall,
+    isHeld,
+    waitingCall,
+    heldCall,
+    declineReply,
+    clearDeclineReply,
     toggleMute,
     toggleSpeaker,
+    isMuted,
+    isSpeakerEnabled: isSpeakerOn,
+    canUseSpeaker,
+    audioOutputId,
+    remoteParticipants,
+    callEndsAt,
     networkQuality,
     connectionQuality,
-  } = useWebRTC({
-    familyId: familyId || '',
-    deviceId: 'current-device', // TODO: Get from store
-  });
+  } = useWebRTC();
   
-  // Call timer
+  // Leave the call screen once the call is over (hung up here or by the other
+  // side), or when a call that was waiting starts ringing after it
   useEffect(() => {
-    let interval: NodeJS.Timeout;
-    
-    if (isCallActive) {
-      interval = setInterval(() => {
-        setCallDuration(prev => prev + 1);
-      }, 1000);
+    if (callStatus === 'idle' || hasIncomingCall) {
+      if (declineReply) {
+        alert(`${declineReply.fromName}: "${declineReply.text}"`);
+        clearDeclineReply();
+      }
+      navigate(userType === 'child' ? '/kids' : '/guardian', { replace: true });
+    }
+  }, [callStatus, hasIncomingCall, declineReply, clearDeclineReply, userType, navigate]);
+  
+  // Switching to a video call moves to the video screen
+  useEffect(() => {
+    if (callState?.type === 'video') {
+      navigate(`/call/video/${family?.id}`, { replace: true });
     }
+  }, [callState?.type, family?.id, navigate]);
+  
+  // Call timer - counts from when the call started, so it keeps going while
+  // a dropped call reconnects or the call is on hold, and follows call switches
+  const startTime = callState?.startTime;
+  useEffect(() => {
+    if (!startTime) return;
+    
+    const interval = setInterval(() => {
+      setCallDuration(Math.floor((Date.now() - startTime.getTime()) / 1000));
+    }, 1000);
     
-    return () => {
-      if (interval) clearInterval(interval);
-    };
-  }, [isCallActive]);
+    return () => clearInterval(interval);
+  }, [startTime]);
   
   // Format call duration
   const formatDuration = (seconds: number): string => {
@@ -91,31 +127,80 @@ const VoiceCallPage: React.FC = () => {
   // Handle mute toggle
   const handleMuteToggle = () => {
     toggleMute();
-    setIsMuted(!isMuted);
   };
   
   // Handle speaker toggle
   const handleSpeakerToggle = () => {
     toggleSpeaker();
-    setIsSpeakerOn(!isSpeakerOn);
   };
   
   // Handle end call
   const handleEndCall = () => {
     endCall();
-    navigate(-1); // Go back to previous page
   };
   
+  // Handle hold toggle
+  const handleHoldToggle = () => {
+    if (isHeld) {
+      resumeCall();
+    } else {
+      holdCall();
+    }
+  };
+  
+  // Handle answering the call waiting (this call goes on hold)
+  const handleAnswerWaiting = async () => {
+    try {
+      await answerWaitingCall();
+    } catch (error) {
+      console.error('Failed to answer call waiting:', error);
+      alert(error instanceof Error ? error.message : 'Failed to answer the call. Please try again.');
+    }
+  };
+  
+  // Everyone else put the call on hold
+  const isHeldByOthers = remoteParticipants.length > 0 && remoteParticipants.every(p => p.isOnHold);
+  
+  // Play everyone else's audio (one stream each in a group call), on the
+  // loudspeaker when it's on
+  const remoteAudio = remoteParticipants.map((participant) => (
+    <audio
+      key={participant.deviceId}
+      autoPlay
+      ref={(element) => {
+        if (!element) return;
+        if (element.srcObject !== participant.stream) {
+          element.srcObject = participant.stream;
+        }
+        applyAudioOutput(element, audioOutputId);
+      }}
+    />
+  ));
+  
   const isKidsInterface = userType === 'child' || theme === 'kids';
   
+  const callWaitingBanner = (
+    <CallWaitingBanner
+      waitingCall={waitingCall}
+      heldCall={heldCall}
+      variant={isKidsInterface ? 'kids' : 'guardian'}
+      onAnswer={handleAnswerWaiting}
+      onDecline={declineWaitingCall}
+      onSwitch={switchCalls}
+    />
+  );
+  
   if (isKidsInterface) {
     return (
       <div className="min-h-screen bg-gradient-to-br from-orange-400 to-pink-500 flex items-center justify-center p-4">
+        {remoteAudio}
         <motion.div
           initial={{ opacity: 0, scale: 0.8 }}
           animate={{ opacity: 1, scale: 1 }}
           className="text-center max-w-md w-full"
         >
+          {callWaitingBanner}
+          
           {/* Call Status */}
           <div className="mb-8">
             <motion.div
@@ -137,13 +222,33 @@ const VoiceCallPage: React.FC = () => {
               {isRinging && 'Ringing...'}
               {isConnecting && 'Connecting...'}
               {isCallActive && 'Talking to Parent!'}
+              {isReconnecting && 'Oops, the line got wobbly!'}
+              {isHeld && 'Call on hold ⏸️'}
             </h1>
             
+            {isReconnecting && (
+              <p className="text-2xl text-white text-shadow">
+                Hold on, we're fixing it... 🔧
+              </p>
+            )}
+            
+            {isCallActive && isHeldByOthers && (
+              <p className="text-2xl text-white text-shadow">
+                They'll be right back! ⏸️
+              </p>
+            )}
+            
             {isCallActive && (
               <p className="text-2xl text-white text-opacity-75 text-shadow">
                 {formatDuration(callDuration)}
               </p>
             )}
+            
+            {callEndsAt && (
+              <p className="text-xl text-white mt-2 text-shadow">
+                Time to say goodbye soon! 👋
+              </p>
+            )}
           </div>
           
           {/* Call Controls */}
@@ -160,16 +265,32 @@ const VoiceCallPage: React.FC = () => {
                 {isMuted ? '🔇' : '🎤'}
               </motion.button>
               
-              <motion.button
-                whileHover={{ scale: 1.1 }}
-                whileTap={{ scale: 0.9 }}
-                onClick={handleSpeakerToggle}
-                className={`w-20 h-20 rounded-full flex items-center justify-center text-3xl ${
-                  isSpeakerOn ? 'bg-blue-500' : 'bg-white bg-opacity-30'
-                } text-white`}
-              >
-                {isSpeakerOn ? '🔊' : '🔈'}
-              </motion.button>
+              {canUseSpeaker && (
+                <motion.button
+                  whileHover={{ scale: 1.1 }}
+                  whileTap={{ scale: 0.9 }}
+                  onClick={handleSpeakerToggle}
+                  className={`w-20 h-20 rounded-full flex items-center justify-center text-3xl ${
+                    isSpeakerOn ? 'bg-blue-500' : 'bg-white bg-opacity-30'
+                  } text-white`}
+                >
+                  {isSpeakerOn ? '🔊' : '🔈'}
+                </motion.button>
+              )}
+              
+              {(isCallActive || isHeld) && (
+                <motion.button
+                  whileHover={{ scale: 1.1 }}
+                  whileTap={{ scale: 0.9 }}
+                  onClick={handleHoldToggle}
+                  aria-label={isHeld ? 'Take the call off hold' : 'Put the call on hold'}
+                  className={`w-20 h-20 rounded-full flex items-center justify-center text-3xl ${
+                    isHeld ? 'bg-yellow-500' : 'bg-white bg-opacity-30'
+                  } text-white`}
+                >
+                  {isHeld ? '▶️' : '⏸️'}
+                </motion.button>
+              )}
             </div>
             
             <motion.button
@@ -189,6 +310,7 @@ const VoiceCallPage: React.FC = () => {
   // Guardian interface
   return (
     <div className="min-h-screen bg-gradient-to-br from-blue-500 to-purple-600 flex items-center justify-center p-4">
+      {remoteAudio}
       <motion.div
         initial={{ opacity: 0, scale: 0.8 }}
         animate={{ opacity: 1, scale: 1 }}
@@ -200,6 +322,8 @@ const VoiceCallPage: React.FC = () => {
           border: '1px solid rgba(255, 255, 255, 0.3)'
         }}
       >
+        {callWaitingBanner}
+        
         {/* Call Status */}
         <div className="text-center mb-8">
           <div className="w-24 h-24 bg-white bg-opacity-20 rounded-full flex items-center justify-center mx-auto mb-4">
@@ -210,14 +334,34 @@ const VoiceCallPage: React.FC = () => {
             {isRinging && 'Ringing...'}
             {isConnecting && 'Connecting...'}
             {isCallActive && 'Call Active'}
+            {isReconnecting && 'Reconnecting...'}
+            {isHeld && 'On Hold'}
           </h1>
           
+          {isReconnecting && (
+            <p className="text-sm text-white text-opacity-75">
+              The connection dropped. Trying to get it back...
+            </p>
+          )}
+          
+          {isCallActive && isHeldByOthers && (
+            <p className="text-sm text-white text-opacity-75">
+              You're on hold
+            </p>
+          )}
+          
           {isCallActive && (
             <p className="text-lg text-white text-opacity-75 text-shadow">
               {formatDuration(callDuration)}
             </p>
           )}
           
+          {callEndsAt && (
+            <p className="text-sm text-white mt-2">
+              This call will end in a minute (family time limit)
+            </p>
+          )}
+          
           {/* Network Quality */}
           <div className="flex items-center justify-center space-x-2 mt-4">
             <SignalIcon className="w-5 h-5 text-white" />
@@ -257,14 +401,28 @@ const VoiceCallPage: React.FC = () => {
               <MicrophoneIcon className="w-6 h-6" />
             </button>
             
-            <button
-              onClick={handleSpeakerToggle}
-              className={`w-16 h-16 rounded-full flex items-center justify-center ${
-                isSpeakerOn ? 'bg-blue-500' : 'glass'
-              } text-white hover:glass-strong transition-all`}
-            >
-              <SpeakerWaveIcon className="w-6 h-6" />
-            </button>
+            {canUseSpeaker && (
+              <button
+                onClick={handleSpeakerToggle}
+                className={`w-16 h-16 rounded-full flex items-center justify-center ${
+                  isSpeakerOn ? 'bg-blue-500' : 'glass'
+                } text-white hover:glass-strong transition-all`}
+              >
+                <SpeakerWaveIcon className="w-6 h-6" />
+              </button>
+            )}
+            
+            {(isCallActive || isHeld) && (
+              <button
+                onClick={handleHoldToggle}
+                title={isHeld ? 'Resume call' : 'Hold call'}
+                className={`w-16 h-16 rounded-full flex items-center justify-center text-white transition-all ${
+                  isHeld ? 'bg-yellow-500' : 'bg-white bg-opacity-20 hover:bg-opacity-30'
+                }`}
+              >
+                {isHeld ? <PlayIcon className="w-6 h-6" /> : <PauseIcon className="w-6 h-6" />}
+              </button>
+            )}
           </div>
           
           <button
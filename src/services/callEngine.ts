@@ -0,0 +1,1883 @@
+/**
+ * ============================================================================
+ * KIDS CALL HOME - Call Engine
+ * ============================================================================
+ *
+ * Purpose: The one place calls happen - media, peer connection and signaling
+ * Interface: Framework-agnostic singleton, wrapped by the useWebRTC hook
+ * Dependencies: WebRTC APIs, pusherService, iceServerService, iceCandidateQueue, networkMonitor,
+ *               callQualityController, useAppStore
+ *
+ * V1 Features:
+ * - Explicit state machine: idle → ringing → connecting → active → ended/failed,
+ *   with active ⇄ held while the call is on hold
+ * - Dropped connections (e.g. WiFi to cellular) reconnect with an ICE restart
+ * - Perfect negotiation: when both sides call or offer at once, member ids
+ *   decide who gives way, and two crossing calls merge into one
+ * - Ring timeout and maximum call length from the family's settings
+ * - Outcome (completed, missed, declined, timed out...) recorded in history
+ * - Typed events for state, incoming calls, remote media and network quality
+ * - Native RTCPeerConnections with trickle ICE, batched and buffered until
+ *   the remote description is set
+ * - TURN relay with short-lived credentials, and relay-only private calls
+ * - Calls addressed to a member ring every device they're signed in on
+ * - "Ring All": one call rings several members at once, the first to answer
+ *   gets it and the rest stop ringing
+ * - Group calls of up to four: a mesh with one peer connection per device,
+ *   anyone in the call can add people, and one person leaving doesn't end it
+ * - Call waiting: a second call rings alongside the one in progress and can
+ *   be answered (the first goes on hold, and the two can be swapped),
+ *   declined with a reply, or left to ring once the first call ends
+ * - Network monitoring and adaptive video quality while active
+ * - Loudspeaker switching where the browser can choose the audio output
+ * - Call history and store sync
+ *
+ * V2 Ready:
+ * - End-to-end encryption key exchange
+ *
+ * Last Updated: 2024-09-09
+ * ============================================================================
+ */
+
+import { MAX_CALL_PARTICIPANTS, type CallParticipantInfo } from '../../api/_lib/signalingProtocol.js';
+import { useAppStore } from '../stores/useAppStore';
+import type { CallOutcome, CallState, Child, Family, Guardian, NetworkInfo, WebRTCConfig } from '../types';
+import { findSpeakerOutput } from '../utils/audioOutput';
+import { TypedEventEmitter } from '../utils/typedEventEmitter';
+import { CallQualityController, getCallQualityPreference, getVideoConstraints, type VideoQualityLevel } from './callQualityController';
+import FamilyDataService from './familyDataService';
+import { IceCandidateBatcher, RemoteIceCandidateQueue } from './iceCandidateQueue';
+import { iceServerService } from './iceServerService';
+import { NetworkStatsCollector, rateCallQuality, readConnectionInfo, toNetworkInfo } from './networkMonitor';
+import {
+  pusherService,
+  type CallHoldNotice,
+  type CallNotification,
+  type IceCandidatesNotice,
+  type ParticipantJoinedNotice,
+  type SignalingData,
+} from './pusherService';
+
+export type CallStatus = CallState['status'];
+export type CallType = CallState['type'];
+export type CallDirection = 'outgoing' | 'incoming';
+export type RingTargetStatus = 'ringing' | 'answered' | 'declined' | 'cancelled' | 'failed';
+
+export interface IncomingCall {
+  callId: string;
+  callType: CallType;
+  fromDeviceId: string;
+  fromMemberId?: string;
+  receivedAt: Date;
+}
+
+export interface RemoteParticipant {
+  memberId: string;
+  deviceId: string;
+  stream: MediaStream | null;   // Set once their media arrives
+  isConnected: boolean;
+  isOnHold: boolean;            // They put the call on hold
+}
+
+export interface DeclineReply {
+  fromName: string;
+  text: string;
+}
+
+export interface CallEngineState {
+  status: CallStatus;
+  direction: CallDirection | null;
+  call: CallState | null;
+  incomingCall: IncomingCall | null;  // Set while an incoming call is ringing
+  waitingCall: IncomingCall | null;   // A second call ringing during this one
+  heldCall: CallState | null;         // The other call, on hold while this one goes on
+  ringTargets: Record<string, RingTargetStatus>;  // Members this device rang or added to the call, by id
+  localStream: MediaStream | null;
+  remoteParticipants: RemoteParticipant[];  // Everyone else in the call, one per device
+  isMuted: boolean;
+  isVideoEnabled: boolean;
+  isSpeakerEnabled: boolean;
+  speakerOutputId: string | null;     // Loudspeaker we can switch to, if the browser lets us
+  networkInfo: NetworkInfo | null;
+  videoQuality: VideoQualityLevel;
+  callEndsAt: Date | null;            // Set when the call is about to hit the time limit
+  declineReply: DeclineReply | null;  // What the person we called said when they declined
+  error: string | null;
+}
+
+export type CallEngineEvents = {
+  stateChange: CallEngineState;
+  statusChange: { from: CallStatus; to: CallStatus; call: CallState | null };
+  incomingCall: IncomingCall;
+  remoteStream: { memberId: string; stream: MediaStream };
+  networkInfo: NetworkInfo;
+  callEnded: CallState;
+  timeLimitWarning: { endsAt: Date };
+  error: string;
+};
+
+/**
+ * WebRTC peer configuration - optimized for family calling
+ *
+ * Uses multiple STUN servers for reliability and includes configuration
+ * for optimal performance across different network conditions. TURN
+ * servers are added per call (see getPeerConfig).
+ */
+const PEER_CONFIG: WebRTCConfig = {
+  iceServers: [
+    // Primary STUN servers for NAT traversal
+    { urls: 'stun:stun.l.google.com:19302' },
+    // Backup STUN for reliability
+    { urls: 'stun:global.stun.twilio.com:3478' },
+    // Additional STUN servers for better connectivity
+    { urls: 'stun:stun1.l.google.com:19302' },
+    { urls: 'stun:stun2.l.google.com:19302' },
+  ],
+  iceCandidatePoolSize: 10,
+  bundlePolicy: 'max-bundle',
+  rtcpMuxPolicy: 'require',
+  iceTransportPolicy: 'all',
+};
+
+// Fallbacks for families without settings
+const DEFAULT_CALL_TIMEOUT_SECONDS = 30;
+const DEFAULT_MAX_CALL_MINUTES = 60;
+
+// How long before the time limit to warn
+const TIME_LIMIT_WARNING_SECONDS = 60;
+
+// How long a dropped call may try to reconnect before it fails
+const RECONNECT_GRACE_SECONDS = 30;
+
+// 'disconnected' often recovers by itself - give it this long before restarting ICE
+const ICE_RESTART_DELAY_MS = 3 * 1000;
+
+// Try another ICE restart if the last one hasn't reconnected by now
+const ICE_RESTART_RETRY_MS = 8 * 1000;
+
+// Which status can follow which
+const ALLOWED_TRANSITIONS: Record<CallStatus, CallStatus[]> = {
+  idle: ['ringing'],
+  ringing: ['connecting', 'ended', 'failed'],
+  connecting: ['active', 'ended', 'failed'],
+  active: ['reconnecting', 'held', 'ended', 'failed'],
+  reconnecting: ['active', 'held', 'ended', 'failed'],
+  held: ['active', 'reconnecting', 'ended', 'failed'],
+  ended: ['idle'],
+  failed: ['idle'],
+};
+
+const INITIAL_STATE: CallEngineState = {
+  status: 'idle',
+  direction: null,
+  call: null,
+  incomingCall: null,
+  waitingCall: null,
+  heldCall: null,
+  ringTargets: {},
+  localStream: null,
+  remoteParticipants: [],
+  isMuted: false,
+  isVideoEnabled: true,
+  isSpeakerEnabled: false,
+  speakerOutputId: null,
+  networkInfo: null,
+  videoQuality: 'high',
+  callEndsAt: null,
+  declineReply: null,
+  error: null,
+};
+
+/**
+ * The connection to one other device in the call - a group call is a mesh of these
+ */
+interface PeerLink {
+  memberId: string;
+  deviceId: string;
+  connection: RTCPeerConnection;
+  iceBatcher: IceCandidateBatcher;
+  remoteCandidates: RemoteIceCandidateQueue;
+  isOfferer: boolean;     // Sent the first offer, so it restarts ICE too
+  makingOffer: boolean;   // Between createOffer and sending it
+  hasConnected: boolean;
+  iceRestartTimer: ReturnType<typeof setTimeout> | null;
+  dropTimer: ReturnType<typeof setTimeout> | null;  // Gives up on a link that won't (re)connect
+}
+
+/**
+ * A call set aside on hold while another one goes on - everything needed to pick it up again
+ */
+interface ParkedCall {
+  state: CallEngineState;
+  peers: Map<string, PeerLink>;
+  peerConfig: WebRTCConfig | null;
+  targetMemberIds: string[];
+}
+
+/**
+ * A second call ringing while this device is already in one
+ */
+interface WaitingCall {
+  incomingCall: IncomingCall;
+  call: CallState;
+  devices: CallParticipantInfo[];   // Who to connect to when answering, the caller first
+  timer: ReturnType<typeof setTimeout>;
+}
+
+/**
+ * Find a guardian or child in the family
+ */
+function findMember(family: Family | null, memberId: string): Guardian | Child | undefined {
+  return family?.guardians.find(g => g.id === memberId) ||
+    family?.children.find(c => c.id === memberId);
+}
+
+/**
+ * Perfect negotiation roles. The member with the higher id is the polite
+ * peer and gives way when both sides act at once - both devices work this
+ * out for themselves, so they always agree.
+ */
+function isPolitePeer(selfId: string, otherId: string): boolean {
+  return selfId > otherId;
+}
+
+/**
+ * Turn a getUserMedia error into something a family can act on
+ */
+function getMediaErrorMessage(error: unknown): string {
+  if (!(error instanceof Error)) return 'Failed to access media devices';
+
+  switch (error.name) {
+    case 'NotAllowedError':
+      return 'Camera and microphone access denied. Please allow access and try again.';
+    case 'NotFoundError':
+      return 'No camera or microphone found. Please check your device.';
+    case 'NotSupportedError':
+      return 'Camera and microphone are not supported in this browser.';
+    case 'NotReadableError':
+      return 'Camera or microphone is already in use by another application.';
+    case 'OverconstrainedError':
+      return 'Camera or microphone settings are not supported.';
+    default:
+      return error.message;
+  }
+}
+
+/**
+ * CallEngine - Runs this device's call, plus a second one waiting or on hold
+ */
+class CallEngine extends TypedEventEmitter<CallEngineEvents> {
+  private state: CallEngineState = INITIAL_STATE;
+  private peers = new Map<string, PeerLink>();          // By device id
+  private pendingDevices: CallParticipantInfo[] = [];   // Who to connect to when answering, the caller first
+  private peerConfig: WebRTCConfig | null = null;
+  private targetMemberIds: string[] = [];               // Who an outgoing call is ringing
+  private statsCollector: NetworkStatsCollector | null = null;
+  private qualityController: CallQualityController | null = null;
+  private timers: ReturnType<typeof setTimeout>[] = [];           // For the current status
+  private callLimitTimers: ReturnType<typeof setTimeout>[] = [];  // Kept while reconnecting
+  private inviteTimers: ReturnType<typeof setTimeout>[] = [];     // People being added to the call
+  private parked: ParkedCall | null = null;     // The call on hold behind this one
+  private waiting: WaitingCall | null = null;   // Never set while a call is parked - two calls at most
+
+  constructor() {
+    super();
+
+    // Signaling
+    pusherService.onIncomingCall((data) => this.handleIncomingCall(data));
+    pusherService.onCallAccepted((data) => this.handleCallAccepted(data));
+    pusherService.onCallRejected((data) => this.handleRemoteEnd(data, 'declined'));
+    pusherService.onCallCancelled((data) => this.handleRemoteEnd(data, 'cancelled'));
+    pusherService.onEndCall((data) => this.handleRemoteEnd(data, data.reason));
+    pusherService.onOffer((data) => this.handleOffer(data));
+    pusherService.onAnswer((data) => this.handleAnswer(data));
+    pusherService.onIceCandidates((data) => this.handleIceCandidates(data));
+    pusherService.onParticipantJoined((data) => this.handleParticipantJoined(data));
+    pusherService.onCallHold((data) => this.handleCallHold(data));
+
+    // Apply quality preference changes to a call in progress
+    useAppStore.subscribe((state, previous) => {
+      const preference = getCallQualityPreference(state.currentUser);
+      if (preference !== getCallQualityPreference(previous.currentUser)) {
+        this.qualityController?.setPreference(preference);
+      }
+    });
+  }
+
+  /**
+   * Current state (a new object on every change)
+   */
+  getState(): CallEngineState {
+    return this.state;
+  }
+
+  /**
+   * Call a family member (rings every device they're signed in on)
+   */
+  async startCall(targetMemberId: string, type: CallType): Promise<void> {
+    await this.ring([targetMemberId], type);
+  }
+
+  /**
+   * Ring several family members at once - the first to answer gets the call
+   */
+  async ringAll(targetMemberIds: string[], type: CallType): Promise<void> {
+    await this.ring(targetMemberIds, type);
+  }
+
+  /**
+   * Start an outgoing call ringing the given members in parallel
+   */
+  private async ring(targetMemberIds: string[], type: CallType): Promise<void> {
+    if (this.state.status !== 'idle') {
+      throw new Error('You are already in a call.');
+    }
+
+    const { currentFamily, currentUser, networkInfo } = useAppStore.getState();
+    if (!currentFamily || !currentUser) {
+      throw new Error('You must be logged into a family to make calls.');
+    }
+
+    const targets = targetMemberIds.map(id => findMember(currentFamily, id));
+    if (targets.length === 0 || targets.some(target => !target)) {
+      throw new Error('You can only call members of your own family.');
+    }
+    const members = targets as (Guardian | Child)[];
+
+    try {
+      // Until someone answers, the call record shows the first person rung
+      const call = this.createCall(`call_${Date.now()}`, type, [currentUser, members[0]], networkInfo);
+      const [localStream, peerConfig] = await Promise.all([this.getLocalStream(type === 'video'), this.getPeerConfig()]);
+
+      this.peerConfig = peerConfig;
+      this.targetMemberIds = members.map(member => member.id);
+      const ringTargets = Object.fromEntries(this.targetMemberIds.map(id => [id, 'ringing' as RingTargetStatus]));
+      this.setState({ direction: 'outgoing', call, ringTargets, localStream, isVideoEnabled: type === 'video', declineReply: null, error: null });
+      this.transition('ringing');
+      this.detectSpeakerOutput();
+
+      console.log(`📞 Calling ${members.map(member => member.name).join(', ')} (${type})`);
+      const results = await Promise.allSettled(members.map(member =>
+        pusherService.sendCallRequest(member.id, type, { callId: call.id, fromMemberId: currentUser.id })));
+
+      // Carry on as long as someone is ringing
+      const failed = members.filter((_, index) => results[index].status === 'rejected');
+      failed.forEach(member => this.updateRingTarget(member.id, 'failed'));
+      if (failed.length === members.length) {
+        throw (results[0] as PromiseRejectedResult).reason;
+      }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to start the call';
+      this.fail(message);
+      throw new Error(message);
+    }
+  }
+
+  /**
+   * Answer the ringing incoming call
+   */
+  async answer(): Promise<void> {
+    const { status, direction, call } = this.state;
+    const caller = this.pendingDevices[0];
+    if (status !== 'ringing' || direction !== 'incoming' || !call || !caller) {
+      return;
+    }
+
+    try {
+      const [localStream, peerConfig] = await Promise.all([this.getLocalStream(call.type === 'video'), this.getPeerConfig()]);
+      this.peerConfig = peerConfig;
+      this.setState({ localStream, incomingCall: null, isVideoEnabled: call.type === 'video', error: null });
+      this.detectSpeakerOutput();
+
+      // Everyone already in the call sends us an offer - the caller once it
+      // hears we picked up, the rest once the caller tells them we joined
+      this.pendingDevices.forEach(device => this.createPeer(device, false));
+      this.pendingDevices = [];
+      this.transition('connecting');
+
+      await pusherService.sendCallAccepted(caller.deviceId, call.id);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to answer call';
+      this.fail(message);
+      throw new Error(message);
+    }
+  }
+
+  /**
+   * Decline the ringing incoming call
+   */
+  reject(): void {
+    if (this.state.status !== 'ringing' || this.state.direction !== 'incoming') return;
+
+    const caller = this.pendingDevices[0];
+    if (caller && this.state.call) {
+      pusherService.sendCallRejected(caller.deviceId, this.state.call.id).catch(error => console.warn('Failed to send call rejection:', error));
+    }
+    this.finish('ended', 'declined');
+  }
+
+  /**
+   * Add someone to the call in progress (rings every device they're signed in on)
+   */
+  async addParticipant(memberId: string): Promise<void> {
+    const { call } = this.state;
+    const { currentFamily, currentUser } = useAppStore.getState();
+    const member = this.getInvitableMembers().find(m => m.id === memberId);
+    if (!call || !currentUser || !member) {
+      throw new Error('That person can\'t be added to this call.');
+    }
+
+    // They'll connect to everyone here once they pick up
+    const participants = [...this.peers.values()].map(({ memberId, deviceId }) => ({ memberId, deviceId }));
+    this.setState({ ringTargets: { ...this.state.ringTargets, [member.id]: 'ringing' } });
+    console.log(`📞 Adding ${member.name} to the call`);
+
+    // Stop ringing after the family's call timeout, like any other call
+    const timeoutSeconds = currentFamily?.settings.callTimeout || DEFAULT_CALL_TIMEOUT_SECONDS;
+    this.inviteTimers.push(setTimeout(() => {
+      if (this.state.call?.id !== call.id || this.state.ringTargets[member.id] !== 'ringing') return;
+      console.log(`⏰ ${member.name} did not answer in time`);
+      this.updateRingTarget(member.id, 'cancelled');
+      pusherService.sendEndCall(member.id, 'missed', call.id).catch(error => console.warn('Failed to stop ringing:', error));
+    }, timeoutSeconds * 1000));
+
+    try {
+      await pusherService.sendCallRequest(member.id, call.type, { callId: call.id, fromMemberId: currentUser.id, participants });
+    } catch (error) {
+      this.updateRingTarget(member.id, 'failed');
+      throw new Error(error instanceof Error ? error.message : `Could not ring ${member.name}.`);
+    }
+  }
+
+  /**
+   * Family members who could be added to the call in progress
+   */
+  getInvitableMembers(): (Guardian | Child)[] {
+    const { status, ringTargets } = this.state;
+    const { currentFamily, currentUser } = useAppStore.getState();
+    if (!currentFamily || !currentUser || (status !== 'active' && status !== 'reconnecting')) return [];
+
+    const inCall = new Set([currentUser.id, ...[...this.peers.values()].map(peer => peer.memberId)]);
+    const ringing = Object.keys(ringTargets).filter(id => ringTargets[id] === 'ringing');
+    if (inCall.size + ringing.length >= MAX_CALL_PARTICIPANTS) return [];
+
+    // Children can only call their approved guardians
+    const candidates = 'approvedGuardians' in currentUser
+      ? currentFamily.guardians.filter(g => currentUser.approvedGuardians.includes(g.id))
+      : [...currentFamily.guardians, ...currentFamily.children];
+    return candidates.filter(member => !inCall.has(member.id) && !ringing.includes(member.id));
+  }
+
+  /**
+   * Hang up (or cancel an outgoing call that's still ringing)
+   */
+  hangUp(): void {
+    if (this.state.status === 'idle') return;
+
+    if (this.state.status === 'ringing' && this.state.direction === 'incoming') {
+      this.reject();
+      return;
+    }
+
+    this.endWithOutcome(this.state.status === 'ringing' ? 'cancelled' : 'completed');
+  }
+
+  /**
+   * Put the call on hold - nobody hears or sees anyone until it's resumed
+   */
+  hold(): void {
+    const { status } = this.state;
+    if (status !== 'active' && status !== 'reconnecting') return;
+
+    console.log('⏸️ Putting the call on hold');
+    this.transition('held');
+    this.applyTrackState();
+    this.sendHoldNotice(true);
+  }
+
+  /**
+   * Take the call off hold
+   */
+  resume(): void {
+    if (this.state.status !== 'held') return;
+
+    console.log('▶️ Taking the call off hold');
+    this.transition(this.isAnyoneConnected() ? 'active' : 'reconnecting');
+    this.applyTrackState();
+    this.sendHoldNotice(false);
+  }
+
+  /**
+   * Swap the call in progress with the one on hold
+   */
+  switchCalls(): void {
+    const parked = this.parked;
+    if (!parked || !this.isInCall()) return;
+
+    this.hold();
+    const current = this.parkCurrentCall();
+    this.parked = current;
+    this.unparkCall(parked, { heldCall: current.state.call });
+    console.log('🔀 Switched calls');
+    this.resume();
+  }
+
+  /**
+   * Answer the call waiting - the call in progress goes on hold behind it
+   */
+  async answerWaitingCall(): Promise<void> {
+    if (!this.isInCall()) return;
+    const waiting = this.takeWaitingCall();
+    if (!waiting) return;
+
+    this.hold();
+    this.parked = this.parkCurrentCall();
+
+    // It takes over as a ringing call and is answered like any other
+    this.pendingDevices = waiting.devices;
+    this.replaceState({
+      ...INITIAL_STATE,
+      status: 'ringing',
+      direction: 'incoming',
+      call: { ...waiting.call, status: 'ringing' },
+      incomingCall: waiting.incomingCall,
+      heldCall: this.parked.state.call,
+      networkInfo: this.state.networkInfo,
+    });
+    await this.answer();
+  }
+
+  /**
+   * Decline the call waiting, optionally with a message for the caller
+   */
+  declineWaitingCall(reply?: string): void {
+    const waiting = this.takeWaitingCall();
+    if (!waiting) return;
+
+    const { call, devices } = waiting;
+    pusherService.sendCallRejected(devices[0].deviceId, call.id, reply).catch(error => console.warn('Failed to send call rejection:', error));
+    this.recordEndedCall({ ...call, status: 'ended', outcome: 'declined' });
+  }
+
+  /**
+   * Mute or unmute the microphone
+   */
+  toggleMute(): void {
+    const isMuted = !this.state.isMuted;
+    this.setState({ isMuted });
+    this.applyTrackState();
+  }
+
+  /**
+   * Turn the camera on or off
+   */
+  toggleVideo(): void {
+    const isVideoEnabled = !this.state.isVideoEnabled;
+    this.setState({ isVideoEnabled });
+    this.applyTrackState();
+  }
+
+  /**
+   * Switch between the normal audio output and the loudspeaker. The call
+   * pages play remote audio on it; browsers that can't choose an output
+   * have no speakerOutputId, and no speaker button.
+   */
+  toggleSpeaker(): void {
+    if (!this.state.speakerOutputId) return;
+    this.setState({ isSpeakerEnabled: !this.state.isSpeakerEnabled });
+  }
+
+  /**
+   * Forget the reply from the last declined call (once it's been shown)
+   */
+  clearDeclineReply(): void {
+    this.setState({ declineReply: null });
+  }
+
+  /**
+   * Clear the last error
+   */
+  clearError(): void {
+    this.setState({ error: null });
+    useAppStore.getState().setError(null);
+  }
+
+  // ==========================================================================
+  // State machine
+  // ==========================================================================
+
+  /**
+   * Merge a patch into the state and notify listeners
+   */
+  private setState(patch: Partial<CallEngineState>): void {
+    this.state = { ...this.state, ...patch };
+    this.emit('stateChange', this.state);
+  }
+
+  /**
+   * Move to a new status if the state machine allows it
+   */
+  private transition(to: CallStatus, callPatch: Partial<CallState> = {}): boolean {
+    const from = this.state.status;
+    if (!ALLOWED_TRANSITIONS[from].includes(to)) {
+      console.warn(`Ignoring call transition ${from} → ${to}`);
+      return false;
+    }
+
+    const call = this.state.call ? { ...this.state.call, ...callPatch, status: to } : null;
+    console.log(`📞 Call ${from} → ${to}`);
+    this.setState({ status: to, call });
+    this.emit('statusChange', { from, to, call });
+    this.syncStore();
+    this.updateTimers(from, to);
+    return true;
+  }
+
+  /**
+   * Start or stop the lifecycle timers for a status
+   */
+  private updateTimers(from: CallStatus, status: CallStatus): void {
+    // The time limit keeps counting while a dropped call reconnects or is on hold
+    const isPause = (s: CallStatus) => s === 'reconnecting' || s === 'held';
+    const isSameCall = isPause(status) || (isPause(from) && status === 'active');
+    if (isSameCall) {
+      this.clearStatusTimers();
+    } else {
+      this.clearTimers();
+    }
+    const settings = useAppStore.getState().currentFamily?.settings;
+
+    if (status === 'ringing') {
+      // Unanswered calls stop ringing after the family's call timeout
+      const timeoutSeconds = settings?.callTimeout || DEFAULT_CALL_TIMEOUT_SECONDS;
+      this.timers.push(setTimeout(() => {
+        console.log('⏰ Call was not answered in time');
+        if (this.state.direction === 'outgoing') {
+          this.endWithOutcome('missed');
+        } else {
+          // The caller ends it too; this covers a lost message
+          this.finish('ended', 'missed');
+        }
+      }, timeoutSeconds * 1000));
+    } else if (status === 'active' && !isSameCall) {
+      this.startCallLimitTimers();
+    }
+  }
+
+  /**
+   * Calls end at the family's maximum length (counted from when they
+   * started, so a call picked up again off hold keeps its time), with a warning first
+   */
+  private startCallLimitTimers(): void {
+    const settings = useAppStore.getState().currentFamily?.settings;
+    const maxSeconds = (settings?.maxCallDuration || DEFAULT_MAX_CALL_MINUTES) * 60;
+    const startTime = this.state.call?.startTime?.getTime() ?? Date.now();
+    const endsAt = new Date(startTime + maxSeconds * 1000);
+    const msLeft = endsAt.getTime() - Date.now();
+
+    this.callLimitTimers.push(setTimeout(() => {
+      console.log('⏰ Call is about to reach the time limit');
+      this.setState({ callEndsAt: endsAt });
+      this.emit('timeLimitWarning', { endsAt });
+    }, Math.max(0, msLeft - TIME_LIMIT_WARNING_SECONDS * 1000)));
+    this.callLimitTimers.push(setTimeout(() => {
+      console.log('⏰ Call reached the time limit');
+      this.endWithOutcome('timed-out');
+    }, Math.max(0, msLeft)));
+  }
+
+  /**
+   * Stop the timers for the current status
+   */
+  private clearStatusTimers(): void {
+    this.timers.forEach(timer => clearTimeout(timer));
+    this.timers = [];
+  }
+
+  /**
+   * Stop all lifecycle timers
+   */
+  private clearTimers(): void {
+    this.clearStatusTimers();
+    this.callLimitTimers.forEach(timer => clearTimeout(timer));
+    this.callLimitTimers = [];
+    this.inviteTimers.forEach(timer => clearTimeout(timer));
+    this.inviteTimers = [];
+  }
+
+  /**
+   * Tell everyone else why the call is ending (or that we're leaving), then end it here
+   */
+  private endWithOutcome(outcome: CallOutcome): void {
+    const callId = this.state.call?.id;
+    const sendEndCall = (to: string, reason: CallOutcome) => {
+      pusherService.sendEndCall(to, reason, callId).catch(error => console.warn('Failed to send end call:', error));
+    };
+
+    if (this.peers.size > 0) {
+      this.peers.forEach(peer => sendEndCall(peer.deviceId, outcome));
+      this.cancelInvites();
+    } else {
+      this.targetMemberIds.forEach(memberId => sendEndCall(memberId, outcome));
+    }
+    this.finish('ended', outcome);
+  }
+
+  /**
+   * Stop ringing anyone we were adding to the call
+   */
+  private cancelInvites(): void {
+    const { call, ringTargets } = this.state;
+    Object.keys(ringTargets)
+      .filter(memberId => ringTargets[memberId] === 'ringing')
+      .forEach(memberId => {
+        this.updateRingTarget(memberId, 'cancelled');
+        pusherService.sendEndCall(memberId, 'cancelled', call?.id).catch(error => console.warn('Failed to stop ringing:', error));
+      });
+  }
+
+  /**
+   * Record how one of the members an outgoing call rang responded
+   */
+  private updateRingTarget(memberId: string, status: RingTargetStatus): void {
+    if (!(memberId in this.state.ringTargets)) return;
+    this.setState({ ringTargets: { ...this.state.ringTargets, [memberId]: status } });
+  }
+
+  /**
+   * Mirror the call into the app store
+   */
+  private syncStore(): void {
+    const { call, direction, status } = this.state;
+    const isIncomingRing = direction === 'incoming' && status === 'ringing';
+    const { setIncomingCall, setActiveCall } = useAppStore.getState();
+
+    setIncomingCall(isIncomingRing ? call : null);
+    setActiveCall(isIncomingRing ? null : call);
+  }
+
+  /**
+   * Record an error and fail the call
+   */
+  private fail(message: string): void {
+    console.error('❌ Call failed:', message);
+    this.setState({ error: message });
+    useAppStore.getState().setError(message);
+    this.emit('error', message);
+
+    if (this.state.status === 'idle') {
+      this.releaseMedia();
+    } else {
+      this.finish('failed');
+    }
+  }
+
+  /**
+   * End the call, release everything and return to idle - or to the call
+   * on hold, if there is one. A call waiting starts ringing as usual.
+   */
+  private finish(status: 'ended' | 'failed', outcome: CallOutcome = status === 'failed' ? 'failed' : 'completed'): void {
+    if (!this.transition(status, { outcome })) return;
+
+    this.closePeers();
+    this.releaseMedia();
+
+    const { call, networkInfo, declineReply, error } = this.state;
+    if (call) {
+      this.recordEndedCall(call);
+    }
+
+    this.pendingDevices = [];
+    this.peerConfig = null;
+    this.targetMemberIds = [];
+    this.state = { ...INITIAL_STATE, status, networkInfo, declineReply, error };
+
+    const parked = this.parked;
+    if (parked) {
+      this.parked = null;
+      this.unparkCall(parked, {});
+      return;
+    }
+
+    this.transition('idle');
+    this.ringWaitingCall();
+  }
+
+  /**
+   * Save a call that's over to history
+   */
+  private recordEndedCall(call: CallState): void {
+    const endedCall: CallState = {
+      ...call,
+      endTime: new Date(),
+      duration: call.startTime ? Math.floor((Date.now() - call.startTime.getTime()) / 1000) : 0,
+    };
+    useAppStore.getState().addCallToHistory(endedCall);
+    this.emit('callEnded', endedCall);
+  }
+
+  /**
+   * Switch to a different call's state (a call coming off or going on hold),
+   * outside the usual transitions
+   */
+  private replaceState(next: CallEngineState): void {
+    const from = this.state.status;
+    console.log(`📞 Call ${from} → ${next.status} (switching calls)`);
+    this.state = next;
+    this.emit('stateChange', next);
+    this.emit('statusChange', { from, to: next.status, call: next.call });
+    this.syncStore();
+  }
+
+  /**
+   * Set the call in progress (already on hold) aside so another call can go on.
+   * Its links stay open, but nothing here watches or repairs them until it's back.
+   */
+  private parkCurrentCall(): ParkedCall {
+    this.cancelInvites();
+    this.clearTimers();
+    this.statsCollector?.stop();
+    this.statsCollector = null;
+    this.qualityController = null;
+    this.peers.forEach(peer => this.clearPeerTimers(peer));
+
+    const parked: ParkedCall = {
+      state: this.state,
+      peers: this.peers,
+      peerConfig: this.peerConfig,
+      targetMemberIds: this.targetMemberIds,
+    };
+    this.peers = new Map();
+    this.peerConfig = null;
+    this.targetMemberIds = [];
+    this.pendingDevices = [];
+    return parked;
+  }
+
+  /**
+   * Make a parked call the one in progress again (still on hold)
+   */
+  private unparkCall(parked: ParkedCall, patch: Partial<CallEngineState>): void {
+    this.peers = parked.peers;
+    this.peerConfig = parked.peerConfig;
+    this.targetMemberIds = parked.targetMemberIds;
+    this.replaceState({
+      ...parked.state,
+      networkInfo: this.state.networkInfo,
+      declineReply: this.state.declineReply,
+      error: this.state.error,
+      heldCall: null,
+      ...patch,
+    });
+
+    this.startCallLimitTimers();
+    this.startNetworkMonitoring();
+
+    // Links may have dropped while it was parked - repair them or give up in time
+    this.peers.forEach(peer => {
+      if (peer.connection.connectionState === 'connected') return;
+      this.handleConnectionState(peer);
+      this.startDropTimer(peer);
+    });
+  }
+
+  /**
+   * Everyone left the call on hold - it's over
+   */
+  private endParkedCall(outcome: CallOutcome): void {
+    const parked = this.parked;
+    if (!parked) return;
+
+    this.parked = null;
+    parked.peers.forEach(peer => this.closePeer(peer));
+    parked.state.localStream?.getTracks().forEach(track => track.stop());
+    if (parked.state.call) {
+      this.recordEndedCall({ ...parked.state.call, status: 'ended', outcome });
+    }
+    this.setState({ heldCall: null });
+  }
+
+  /**
+   * Stop tracking the call waiting (it was answered, declined or given up on)
+   */
+  private takeWaitingCall(): WaitingCall | null {
+    const waiting = this.waiting;
+    if (!waiting) return null;
+
+    clearTimeout(waiting.timer);
+    this.waiting = null;
+    this.setState({ waitingCall: null });
+    return waiting;
+  }
+
+  /**
+   * The call waiting stopped ringing without being answered
+   */
+  private endWaitingCall(outcome: CallOutcome): void {
+    const waiting = this.takeWaitingCall();
+    if (!waiting) return;
+
+    this.recordEndedCall({ ...waiting.call, status: 'ended', outcome });
+  }
+
+  /**
+   * The call in progress ended - ring the call waiting, if any, like any other
+   */
+  private ringWaitingCall(): void {
+    const waiting = this.takeWaitingCall();
+    if (!waiting) return;
+
+    const { incomingCall, call, devices } = waiting;
+    this.pendingDevices = devices;
+    this.setState({ direction: 'incoming', call, incomingCall, error: null });
+    this.transition('ringing');
+    this.emit('incomingCall', incomingCall);
+  }
+
+  /**
+   * Whether there's a connected (or reconnecting, or held) call in progress
+   */
+  private isInCall(): boolean {
+    const { status } = this.state;
+    return status === 'active' || status === 'reconnecting' || status === 'held';
+  }
+
+  /**
+   * Turn our mic and camera on or off to match mute, camera and hold. Nobody
+   * is heard while the call is on hold, so the others' audio is off too.
+   */
+  private applyTrackState(): void {
+    const { localStream, isMuted, isVideoEnabled, status } = this.state;
+    const isHeld = status === 'held';
+
+    localStream?.getAudioTracks().forEach(track => {
+      track.enabled = !isMuted && !isHeld;
+    });
+    localStream?.getVideoTracks().forEach(track => {
+      track.enabled = isVideoEnabled && !isHeld;
+    });
+    this.peers.forEach(peer => peer.connection.getReceivers().forEach(receiver => {
+      receiver.track.enabled = !isHeld;
+    }));
+  }
+
+  /**
+   * Tell everyone else in the call that it's on hold (or off hold)
+   */
+  private sendHoldNotice(held: boolean): void {
+    const callId = this.state.call?.id;
+    if (!callId) return;
+
+    this.peers.forEach(peer => {
+      pusherService.sendCallHold(peer.deviceId, callId, held).catch(error => console.warn('Failed to send hold notice:', error));
+    });
+  }
+
+  /**
+   * Close every peer connection and everything watching them
+   */
+  private closePeers(): void {
+    this.statsCollector?.stop();
+    this.statsCollector = null;
+    this.qualityController = null;
+    this.peers.forEach(peer => this.closePeer(peer));
+    this.peers.clear();
+    if (this.state.remoteParticipants.length > 0) {
+      this.setState({ remoteParticipants: [] });
+    }
+  }
+
+  /**
+   * Close one peer connection
+   */
+  private closePeer(peer: PeerLink): void {
+    this.clearPeerTimers(peer);
+    peer.iceBatcher.dispose();
+    peer.connection.close();
+  }
+
+  /**
+   * Stop a link's ICE restart and give-up timers
+   */
+  private clearPeerTimers(peer: PeerLink): void {
+    if (peer.iceRestartTimer) clearTimeout(peer.iceRestartTimer);
+    if (peer.dropTimer) clearTimeout(peer.dropTimer);
+    peer.iceRestartTimer = null;
+    peer.dropTimer = null;
+  }
+
+  /**
+   * Someone left the call - keep going with everyone else
+   */
+  private removePeer(peer: PeerLink): void {
+    this.closePeer(peer);
+    this.peers.delete(peer.deviceId);
+    this.setState({ remoteParticipants: this.state.remoteParticipants.filter(p => p.deviceId !== peer.deviceId) });
+    this.qualityController?.linksChanged();
+
+    if (this.state.status === 'active' && !this.isAnyoneConnected()) {
+      this.transition('reconnecting');
+    }
+  }
+
+  /**
+   * Give up on a link that won't connect. A group call carries on without
+   * them (and tells them so); a call with nobody else left fails.
+   */
+  private dropPeer(peer: PeerLink, message: string): void {
+    if (this.peers.size <= 1) {
+      this.fail(message);
+      return;
+    }
+
+    console.warn(`📴 Dropping ${this.getMemberName(peer.memberId)} from the call: ${message}`);
+    pusherService.sendEndCall(peer.deviceId, 'failed', this.state.call?.id).catch(error => console.warn('Failed to send end call:', error));
+    this.removePeer(peer);
+  }
+
+  /**
+   * Whether any link in the call is up
+   */
+  private isAnyoneConnected(): boolean {
+    return [...this.peers.values()].some(peer => peer.connection.connectionState === 'connected');
+  }
+
+  /**
+   * Update one device in the remote participant list
+   */
+  private updateRemoteParticipant(deviceId: string, patch: Partial<RemoteParticipant>): void {
+    this.setState({
+      remoteParticipants: this.state.remoteParticipants.map(p => (p.deviceId === deviceId ? { ...p, ...patch } : p)),
+    });
+  }
+
+  /**
+   * Add someone who joined to the call record
+   */
+  private addCallParticipant(member: Guardian | Child): void {
+    const { call } = this.state;
+    if (!call || call.participants.some(p => p.id === member.id)) return;
+
+    this.setState({ call: { ...call, participants: [...call.participants, member] } });
+    this.syncStore();
+  }
+
+  /**
+   * A member's name for the logs
+   */
+  private getMemberName(memberId: string): string {
+    return findMember(useAppStore.getState().currentFamily, memberId)?.name ?? 'A family member';
+  }
+
+  /**
+   * Look for a loudspeaker to offer. Output names are only listed once
+   * the page has mic permission, so this runs after getUserMedia.
+   */
+  private detectSpeakerOutput(): void {
+    const callId = this.state.call?.id;
+    findSpeakerOutput()
+      .then((speakerOutputId) => {
+        if (this.state.call?.id === callId) {
+          this.setState({ speakerOutputId });
+        }
+      })
+      .catch(error => console.warn('Failed to list audio outputs:', error));
+  }
+
+  /**
+   * Stop the local camera/mic
+   */
+  private releaseMedia(): void {
+    this.state.localStream?.getTracks().forEach(track => track.stop());
+    if (this.state.localStream) {
+      this.setState({ localStream: null });
+    }
+  }
+
+  // ==========================================================================
+  // Media and peer connection
+  // ==========================================================================
+
+  /**
+   * Build the call record - this device's member first, then everyone else.
+   * Guardians can call each other; children are only ever in a call with
+   * a guardian, and only with guardians they're approved to talk to.
+   */
+  private createCall(id: string, type: CallType, members: (Guardian | Child)[], networkInfo: NetworkInfo | null): CallState {
+    const guardians = members.filter(m => 'email' in m);
+    const children = members.filter((m): m is Child => 'approvedGuardians' in m);
+    const isSafeForChildren = children.length === 0 || (guardians.length > 0 &&
+      children.every(child => guardians.every(guardian => child.approvedGuardians.includes(guardian.id))));
+    if (!isSafeForChildren) {
+      throw new Error('Children can only be in calls with the parents they are allowed to call.');
+    }
+
+    return {
+      id,
+      type,
+      participants: members,
+      status: 'idle',
+      quality: {
+        audio: 'good',
+        video: type === 'video' ? 'good' : undefined,
+        connection: 'stable',
+      },
+      networkInfo: networkInfo || readConnectionInfo() || {
+        connectionType: 'unknown',
+        signalStrength: 'good',
+        bandwidth: 'medium',
+        latency: 0,
+        jitter: 0,
+        packetLoss: 0,
+      },
+    };
+  }
+
+  /**
+   * Open the camera/mic at the member's preferred quality
+   */
+  private async getLocalStream(video: boolean): Promise<MediaStream> {
+    if (!navigator.mediaDevices?.getUserMedia) {
+      throw new Error('getUserMedia is not supported in this browser. Please use a modern browser like Chrome, Firefox, Safari, or Edge.');
+    }
+
+    const preference = getCallQualityPreference(useAppStore.getState().currentUser);
+    const constraints: MediaStreamConstraints = {
+      audio: {
+        echoCancellation: true,
+        noiseSuppression: true,
+        autoGainControl: true,
+      },
+      video: video ? getVideoConstraints(preference) : false,
+    };
+
+    try {
+      return await navigator.mediaDevices.getUserMedia(constraints);
+    } catch (error) {
+      if (error instanceof Error && error.name === 'NotAllowedError') {
+        throw new Error(getMediaErrorMessage(error));
+      }
+
+      // Some devices reject the detailed constraints - try the basics
+      console.log('Detailed constraints failed, trying basic constraints...');
+      try {
+        return await navigator.mediaDevices.getUserMedia({ audio: true, video });
+      } catch (basicError) {
+        throw new Error(getMediaErrorMessage(basicError));
+      }
+    }
+  }
+
+  /**
+   * Peer configuration for a call - our STUN servers plus any TURN relay,
+   * relay-only when the family has private calls turned on
+   */
+  private async getPeerConfig(): Promise<WebRTCConfig> {
+    const turnServers = await iceServerService.getTurnServers();
+    const relayOnly = useAppStore.getState().currentFamily?.settings.relayOnlyCalls === true;
+
+    if (relayOnly && turnServers.length === 0) {
+      throw new Error('Private calls need a relay server, and none is available right now. Try again, or turn off private calls in Settings.');
+    }
+
+    return {
+      ...PEER_CONFIG,
+      iceServers: [...PEER_CONFIG.iceServers, ...turnServers],
+      iceTransportPolicy: relayOnly ? 'relay' : 'all',
+    };
+  }
+
+  /**
+   * Open a peer connection to one device in the call
+   */
+  private createPeer(device: CallParticipantInfo, isOfferer: boolean): PeerLink {
+    const { call, localStream } = this.state;
+    if (!call || !localStream || !this.peerConfig) {
+      throw new Error('The call is not ready to connect.');
+    }
+
+    const connection = new RTCPeerConnection(this.peerConfig);
+    localStream.getTracks().forEach(track => connection.addTrack(track, localStream));
+
+    // Gathering starts with setLocalDescription
+    const iceBatcher = new IceCandidateBatcher(call.id, (batch) => pusherService.sendIceCandidates(device.deviceId, batch));
+
+    const peer: PeerLink = {
+      ...device,
+      connection,
+      iceBatcher,
+      remoteCandidates: new RemoteIceCandidateQueue(connection),
+      isOfferer,
+      makingOffer: false,
+      hasConnected: false,
+      iceRestartTimer: null,
+      dropTimer: null,
+    };
+    const isCurrent = () => this.peers.get(device.deviceId) === peer;
+
+    // A new gathering round after the first is an ICE restart
+    connection.onicegatheringstatechange = () => {
+      if (connection.iceGatheringState === 'gathering') {
+        iceBatcher.startGathering();
+      }
+    };
+
+    // Send our ICE candidates as they're found (a null candidate means gathering is done)
+    connection.onicecandidate = (event) => {
+      if (event.candidate) {
+        iceBatcher.add(event.candidate.toJSON());
+      } else {
+        iceBatcher.end();
+      }
+    };
+
+    // Remote media
+    connection.ontrack = (event) => {
+      const [stream] = event.streams;
+      const participant = this.state.remoteParticipants.find(p => p.deviceId === device.deviceId);
+      if (this.state.status === 'held' && isCurrent()) {
+        event.track.enabled = false;
+      }
+      if (stream && isCurrent() && stream !== participant?.stream) {
+        console.log(`📹 Received media from ${this.getMemberName(device.memberId)}`);
+        this.updateRemoteParticipant(device.deviceId, { stream });
+        this.emit('remoteStream', { memberId: device.memberId, stream });
+      }
+    };
+
+    // Connection progress
+    connection.onconnectionstatechange = () => {
+      console.log(`🔗 Connection state (${this.getMemberName(device.memberId)}):`, connection.connectionState);
+      if (isCurrent()) {
+        this.handleConnectionState(peer);
+      }
+    };
+
+    // Someone joining a call already under way gets as long as a dropped link to connect
+    if (this.peers.size > 0) {
+      this.startDropTimer(peer);
+    }
+
+    this.peers.set(device.deviceId, peer);
+    this.setState({
+      remoteParticipants: [...this.state.remoteParticipants, { ...device, stream: null, isConnected: false, isOnHold: false }],
+    });
+    return peer;
+  }
+
+  /**
+   * A link connected, dropped or failed
+   */
+  private handleConnectionState(peer: PeerLink): void {
+    const { connectionState } = peer.connection;
+
+    if (connectionState === 'connected') {
+      peer.hasConnected = true;
+      this.clearPeerTimers(peer);
+      this.updateRemoteParticipant(peer.deviceId, { isConnected: true });
+
+      if (this.state.status === 'connecting') {
+        this.transition('active', { startTime: new Date() });
+        this.startNetworkMonitoring();
+      } else if (this.state.status === 'reconnecting') {
+        console.log('🔄 Call reconnected');
+        this.transition('active');
+      }
+      // A new link starts at the browser's default bitrate until we set it
+      this.qualityController?.linksChanged();
+    } else if (connectionState === 'disconnected' || connectionState === 'failed') {
+      this.updateRemoteParticipant(peer.deviceId, { isConnected: false });
+      this.handleConnectionLost(peer, connectionState);
+    }
+  }
+
+  /**
+   * A link dropped - reconnect one that was up, give up on one that never was.
+   * The call shows as reconnecting once nobody is connected.
+   */
+  private handleConnectionLost(peer: PeerLink, connectionState: 'disconnected' | 'failed'): void {
+    if (!peer.hasConnected) {
+      if (connectionState === 'failed') this.dropPeer(peer, 'Could not connect the call.');
+      return;
+    }
+
+    if (this.state.status === 'active' && !this.isAnyoneConnected()) {
+      console.log('📶 Call connection dropped, reconnecting...');
+      this.transition('reconnecting');
+    }
+
+    // Once ICE has failed it won't recover by itself
+    this.scheduleIceRestart(peer, connectionState === 'failed' ? 0 : ICE_RESTART_DELAY_MS);
+    this.startDropTimer(peer);
+  }
+
+  /**
+   * Give up on a link if it isn't connected in time
+   */
+  private startDropTimer(peer: PeerLink): void {
+    if (peer.dropTimer) return;
+
+    peer.dropTimer = setTimeout(() => {
+      peer.dropTimer = null;
+      if (this.peers.get(peer.deviceId) !== peer) return;
+      console.log(`⏰ Could not reach ${this.getMemberName(peer.memberId)} in time`);
+      this.dropPeer(peer, 'The call connection was lost.');
+    }, RECONNECT_GRACE_SECONDS * 1000);
+  }
+
+  /**
+   * Restart ICE after a delay, and keep retrying until the link reconnects.
+   * Only the side that sent the first offer restarts, so both sides never
+   * send offers at once; the other side answers the restart offer as usual.
+   */
+  private scheduleIceRestart(peer: PeerLink, delayMs: number): void {
+    if (!peer.isOfferer) return;
+
+    // Replace a later restart with a sooner one, otherwise keep the one already due
+    if (peer.iceRestartTimer) {
+      if (delayMs > 0) return;
+      clearTimeout(peer.iceRestartTimer);
+      peer.iceRestartTimer = null;
+    }
+
+    const isStillDown = () => this.peers.get(peer.deviceId) === peer && peer.connection.connectionState !== 'connected';
+    peer.iceRestartTimer = setTimeout(async () => {
+      peer.iceRestartTimer = null;
+      if (!isStillDown()) return;
+      await this.restartIce(peer);
+      if (isStillDown()) {
+        this.scheduleIceRestart(peer, ICE_RESTART_RETRY_MS);
+      }
+    }, delayMs);
+  }
+
+  /**
+   * Send an ICE restart offer (new network paths for the same call)
+   */
+  private async restartIce(peer: PeerLink): Promise<void> {
+    try {
+      // An earlier restart whose answer never came must be rolled back first
+      if (peer.connection.signalingState === 'have-local-offer') {
+        await peer.connection.setLocalDescription({ type: 'rollback' });
+      }
+
+      console.log(`🔄 Restarting ICE with ${this.getMemberName(peer.memberId)}`);
+      await this.sendLocalOffer(peer, { iceRestart: true });
+    } catch (error) {
+      // Signaling may be down too while the network switches - we'll retry
+      console.warn('ICE restart failed:', error);
+    }
+  }
+
+  /**
+   * Measure the network and adapt outgoing video while the call is active.
+   * Every link shares this device's network, so the first one stands in for all.
+   */
+  private startNetworkMonitoring(): void {
+    const getConnections = () => [...this.peers.values()].map(peer => peer.connection);
+    const qualityController = new CallQualityController(
+      () => getConnections().flatMap(connection => connection.getSenders()),
+      getCallQualityPreference(useAppStore.getState().currentUser),
+      (videoQuality) => this.setState({ videoQuality })
+    );
+
+    const statsCollector = new NetworkStatsCollector(
+      () => getConnections()[0]?.getStats() ?? Promise.reject(new Error('No connection to measure')),
+      (sample) => {
+        const networkInfo = toNetworkInfo(sample);
+        const { call } = this.state;
+        this.setState({
+          networkInfo,
+          call: call ? { ...call, networkInfo, quality: rateCallQuality(networkInfo, call.type === 'video') } : null,
+        });
+        useAppStore.getState().setNetworkInfo(networkInfo);
+        this.emit('networkInfo', networkInfo);
+        qualityController.update(networkInfo);
+      }
+    );
+
+    this.qualityController = qualityController;
+    this.statsCollector = statsCollector;
+    statsCollector.start();
+  }
+
+  // ==========================================================================
+  // Signaling handlers
+  // ==========================================================================
+
+  /**
+   * Someone is calling this device (or adding it to a group call). During
+   * another call it rings as a call waiting.
+   */
+  private async handleIncomingCall(data: CallNotification): Promise<void> {
+    if (this.isCrossingCall(data)) {
+      await this.mergeCrossingCall(data);
+      return;
+    }
+
+    const sendBusy = () => {
+      pusherService.sendCallRejected(data.from, data.callId).catch(error => console.warn('Failed to send busy signal:', error));
+    };
+    if (this.state.status !== 'idle' && !this.canTakeWaitingCall(data)) {
+      // Busy - let the caller know straight away
+      sendBusy();
+      return;
+    }
+
+    const { currentUser } = useAppStore.getState();
+    let { currentFamily } = useAppStore.getState();
+    if (!currentUser || !currentFamily || !data.fromMemberId) return;
+
+    // Everyone else already in the call (a group call), each on one device
+    const others = data.participants.filter((participant, index, all) =>
+      participant.deviceId !== data.from &&
+      participant.memberId !== currentUser.id &&
+      all.findIndex(p => p.deviceId === participant.deviceId) === index);
+    const memberIds = [data.fromMemberId, ...others.map(participant => participant.memberId)];
+
+    // The caller may have joined since we last loaded the family
+    if (memberIds.some(id => !findMember(currentFamily, id))) {
+      currentFamily = await FamilyDataService.findFamilyById(currentFamily.id);
+      if (currentFamily) {
+        useAppStore.getState().setCurrentFamily(currentFamily);
+      }
+    }
+
+    const members = memberIds.map(id => findMember(currentFamily, id));
+    const [caller] = members;
+    if (!caller || members.some(member => !member)) {
+      console.warn('Ignoring incoming call from unknown family member');
+      return;
+    }
+
+    try {
+      const incomingCall: IncomingCall = {
+        callId: data.callId,
+        callType: data.callType,
+        fromDeviceId: data.from,
+        fromMemberId: data.fromMemberId,
+        receivedAt: new Date(),
+      };
+      const call = this.createCall(
+        incomingCall.callId,
+        data.callType,
+        [currentUser, ...(members as (Guardian | Child)[])],
+        useAppStore.getState().networkInfo
+      );
+
+      const devices = [{ memberId: caller.id, deviceId: data.from }, ...others];
+      const withOthers = others.length > 0 ? ` (with ${others.length} more)` : '';
+
+      // The status may have changed while the family loaded
+      if (this.state.status !== 'idle') {
+        if (this.canTakeWaitingCall(data)) {
+          console.log(`📞 Call waiting: ${data.callType} call from ${caller.name}${withOthers}`);
+          this.setWaitingCall(incomingCall, call, devices);
+        } else {
+          sendBusy();
+        }
+        return;
+      }
+
+      console.log(`📞 Incoming ${data.callType} call from ${caller.name}${withOthers}`);
+      this.pendingDevices = devices;
+      this.setState({ direction: 'incoming', call, incomingCall, error: null });
+      this.transition('ringing');
+      this.emit('incomingCall', incomingCall);
+    } catch (error) {
+      this.pendingDevices = [];
+      console.warn('Ignoring incoming call:', error);
+    }
+  }
+
+  /**
+   * Whether a call can ring as a call waiting - only during a call that's
+   * under way, and only one other call at a time
+   */
+  private canTakeWaitingCall(data: CallNotification): boolean {
+    return this.isInCall() &&
+      !this.waiting &&
+      !this.parked &&
+      data.callId !== this.state.call?.id;
+  }
+
+  /**
+   * Ring a call waiting, giving up after the family's call timeout like any other call
+   */
+  private setWaitingCall(incomingCall: IncomingCall, call: CallState, devices: CallParticipantInfo[]): void {
+    const timeoutSeconds = useAppStore.getState().currentFamily?.settings.callTimeout || DEFAULT_CALL_TIMEOUT_SECONDS;
+    const timer = setTimeout(() => {
+      if (this.waiting?.call.id !== call.id) return;
+      console.log('⏰ Call waiting was not answered in time');
+      this.endWaitingCall('missed');
+    }, timeoutSeconds * 1000);
+
+    this.waiting = { incomingCall, call, devices, timer };
+    this.setState({ waitingCall: incomingCall });
+    this.emit('incomingCall', incomingCall);
+  }
+
+  /**
+   * Whether a call request is the person we're ringing calling us at the same time
+   */
+  private isCrossingCall(data: CallNotification): boolean {
+    return this.state.status === 'ringing' &&
+      this.state.direction === 'outgoing' &&
+      data.participants.length === 0 &&
+      !!data.fromMemberId &&
+      this.targetMemberIds.includes(data.fromMemberId);
+  }
+
+  /**
+   * Both sides called each other at once - they become one call. The polite
+   * side cancels its own call and answers the other one; the impolite side
+   * keeps ringing and waits to be answered.
+   */
+  private async mergeCrossingCall(data: CallNotification): Promise<void> {
+    const { currentUser, currentFamily } = useAppStore.getState();
+    const caller = data.fromMemberId ? findMember(currentFamily, data.fromMemberId) : undefined;
+    const ownCallId = this.state.call?.id;
+    if (!currentUser || !caller || !ownCallId) return;
+
+    if (!isPolitePeer(currentUser.id, caller.id)) {
+      console.log(`📞 ${caller.name} called us at the same time - keeping our call`);
+      return;
+    }
+
+    console.log(`📞 ${caller.name} called us at the same time - answering their call`);
+
+    // Stop our call ringing on their other devices (and anyone else we rang)
+    this.targetMemberIds.forEach(memberId => {
+      pusherService.sendEndCall(memberId, 'cancelled', ownCallId).catch(error => console.warn('Failed to cancel crossing call:', error));
+    });
+
+    try {
+      // Our ring timeout no longer applies - their call is the one we're answering
+      this.clearStatusTimers();
+      this.closePeers();
+      this.releaseMedia();
+      this.targetMemberIds = [];
+      this.pendingDevices = [{ memberId: caller.id, deviceId: data.from }];
+
+      // Nobody needs to pick up - we were already calling them
+      const call = this.createCall(data.callId, data.callType, [currentUser, caller], useAppStore.getState().networkInfo);
+      this.setState({ direction: 'incoming', call, incomingCall: null, ringTargets: {} });
+      await this.answer();
+    } catch (error) {
+      console.warn('Failed to merge crossing calls:', error);
+      if (this.state.status !== 'idle') this.fail('Could not connect the call.');
+    }
+  }
+
+  /**
+   * Someone we're calling picked up - the first to answer gets the call,
+   * everyone else stops ringing. Someone we added to a group call picking
+   * up joins it. Either way, send them the offer.
+   */
+  private async handleCallAccepted(data: SignalingData): Promise<void> {
+    const { call, direction, status, ringTargets } = this.state;
+    if (!call || data.callId !== call.id || !data.fromMemberId || this.peers.has(data.from)) return;
+
+    if (this.isInCall() && ringTargets[data.fromMemberId] === 'ringing') {
+      await this.handleParticipantAnswered(data.fromMemberId, data.from);
+      return;
+    }
+
+    if (direction !== 'outgoing' || !this.targetMemberIds.includes(data.fromMemberId)) return;
+
+    if (status !== 'ringing') {
+      // Someone else got there first
+      pusherService.sendCallCancelled(data.from, call.id).catch(error => console.warn('Failed to cancel late answer:', error));
+      return;
+    }
+
+    const answeredBy = findMember(useAppStore.getState().currentFamily, data.fromMemberId);
+    const currentUser = useAppStore.getState().currentUser;
+    if (!answeredBy || !currentUser) return;
+
+    const { participants } = this.createCall(call.id, call.type, [currentUser, answeredBy], call.networkInfo);
+    const updatedRingTargets = Object.fromEntries(Object.entries(ringTargets).map(([memberId, targetStatus]) => [
+      memberId,
+      memberId === answeredBy.id ? 'answered' : targetStatus === 'ringing' ? 'cancelled' : targetStatus,
+    ])) as Record<string, RingTargetStatus>;
+    this.setState({ call: { ...call, participants }, ringTargets: updatedRingTargets });
+    this.transition('connecting');
+
+    // Stop the call ringing everywhere else, including the answerer's other devices
+    this.targetMemberIds.forEach(memberId => {
+      pusherService.sendCallCancelled(memberId, call.id, data.from).catch(error => console.warn('Failed to cancel ringing:', error));
+    });
+
+    await this.connectTo({ memberId: answeredBy.id, deviceId: data.from });
+  }
+
+  /**
+   * Someone we added to the call picked up - connect to them, and tell
+   * everyone else in the call to do the same
+   */
+  private async handleParticipantAnswered(memberId: string, deviceId: string): Promise<void> {
+    const { call } = this.state;
+    const member = findMember(useAppStore.getState().currentFamily, memberId);
+    if (!call || !member) return;
+
+    console.log(`👋 ${member.name} joined the call`);
+    this.updateRingTarget(memberId, 'answered');
+    this.addCallParticipant(member);
+
+    // Stop the call ringing on their other devices
+    pusherService.sendCallCancelled(memberId, call.id, deviceId).catch(error => console.warn('Failed to cancel ringing:', error));
+
+    this.peers.forEach(peer => {
+      pusherService.sendParticipantJoined(peer.deviceId, call.id, { memberId, deviceId })
+        .catch(error => console.warn('Failed to announce new participant:', error));
+    });
+
+    await this.connectTo({ memberId, deviceId });
+  }
+
+  /**
+   * Someone else in the call added a member who has now picked up - connect to them
+   */
+  private async handleParticipantJoined(data: ParticipantJoinedNotice): Promise<void> {
+    const { call, status } = this.state;
+    const isInCall = status === 'connecting' || this.isInCall();
+
+    // Only someone already in the call can bring people into it
+    if (!call || data.callId !== call.id || !isInCall || !this.peers.has(data.from)) return;
+    if (this.peers.has(data.deviceId) || this.peers.size >= MAX_CALL_PARTICIPANTS - 1) return;
+
+    let { currentFamily } = useAppStore.getState();
+    if (!findMember(currentFamily, data.memberId) && currentFamily) {
+      currentFamily = await FamilyDataService.findFamilyById(currentFamily.id);
+      if (currentFamily) {
+        useAppStore.getState().setCurrentFamily(currentFamily);
+      }
+    }
+
+    const member = findMember(currentFamily, data.memberId);
+    if (!member || this.state.call?.id !== call.id || this.peers.has(data.deviceId)) return;
+
+    console.log(`👋 ${member.name} joined the call`);
+    this.addCallParticipant(member);
+    await this.connectTo({ memberId: data.memberId, deviceId: data.deviceId });
+  }
+
+  /**
+   * Connect to someone who just picked up or joined - we send the offer
+   */
+  private async connectTo(device: CallParticipantInfo): Promise<void> {
+    let peer: PeerLink | undefined;
+    try {
+      peer = this.createPeer(device, true);
+      await this.sendLocalOffer(peer);
+    } catch (error) {
+      console.error('Failed to send offer:', error);
+      if (peer && this.peers.get(device.deviceId) === peer) {
+        this.dropPeer(peer, 'Could not connect the call.');
+      } else if (this.peers.size === 0) {
+        this.fail('Could not connect the call.');
+      }
+    }
+  }
+
+  /**
+   * Create an offer, apply it and send it
+   */
+  private async sendLocalOffer(peer: PeerLink, options?: RTCOfferOptions): Promise<void> {
+    peer.makingOffer = true;
+    try {
+      const offer = await peer.connection.createOffer(options);
+      await peer.connection.setLocalDescription(offer);
+      await pusherService.sendOffer(peer.deviceId, offer);
+    } finally {
+      peer.makingOffer = false;
+    }
+  }
+
+  /**
+   * Whether this device gives way when both sides of a link offer at once
+   */
+  private isPolite(peer: PeerLink): boolean {
+    const selfId = useAppStore.getState().currentUser?.id;
+    return !!selfId && isPolitePeer(selfId, peer.memberId);
+  }
+
+  /**
+   * An offer from someone in the call - reply with an answer. If our own offer
+   * crossed with it, the impolite side ignores theirs and the polite side drops its own.
+   */
+  private async handleOffer(data: SignalingData): Promise<void> {
+    const peer = this.peers.get(data.from);
+    if (!peer || !data.offer) return;
+
+    const { connection } = peer;
+    const offerCollision = peer.makingOffer || connection.signalingState !== 'stable';
+    if (offerCollision && !this.isPolite(peer)) {
+      console.log('🤝 Offers crossed - ignoring theirs, ours wins');
+      return;
+    }
+
+    try {
+      if (offerCollision) {
+        console.log('🤝 Offers crossed - dropping ours, answering theirs');
+        await connection.setLocalDescription({ type: 'rollback' });
+      }
+      await connection.setRemoteDescription(data.offer);
+      peer.remoteCandidates.remoteDescriptionSet();
+      const answer = await connection.createAnswer();
+      await connection.setLocalDescription(answer);
+      await pusherService.sendAnswer(data.from, answer);
+    } catch (error) {
+      console.error('Failed to answer offer:', error);
+      this.dropUnlessReconnecting(peer);
+    }
+  }
+
+  /**
+   * The answer to our offer
+   */
+  private async handleAnswer(data: SignalingData): Promise<void> {
+    const peer = this.peers.get(data.from);
+    if (!peer || !data.answer) return;
+
+    // A late answer to an ICE restart offer we've since rolled back
+    if (peer.connection.signalingState !== 'have-local-offer') return;
+
+    try {
+      await peer.connection.setRemoteDescription(data.answer);
+      peer.remoteCandidates.remoteDescriptionSet();
+    } catch (error) {
+      console.error('Failed to apply answer:', error);
+      this.dropUnlessReconnecting(peer);
+    }
+  }
+
+  /**
+   * Negotiation failed - give up on the link, unless an ICE restart can still retry
+   */
+  private dropUnlessReconnecting(peer: PeerLink): void {
+    if (peer.hasConnected && peer.connection.connectionState !== 'connected') return;
+    this.dropPeer(peer, 'Could not connect the call.');
+  }
+
+  /**
+   * ICE candidates from someone in the call - they can arrive before the
+   * offer/answer and out of order, so the queue sorts that out
+   */
+  private handleIceCandidates(data: IceCandidatesNotice): void {
+    const peer = this.peers.get(data.from);
+    if (!peer || data.callId !== this.state.call?.id) return;
+
+    peer.remoteCandidates.receive(data);
+  }
+
+  /**
+   * Someone hung up, declined, was busy or timed out
+   */
+  private handleRemoteEnd(data: SignalingData, reason?: CallOutcome): void {
+    if (this.state.status === 'idle') return;
+
+    // The caller of the call waiting gave up (or it was answered on another of our devices)
+    if (data.callId && data.callId === this.waiting?.call.id) {
+      if (data.from === this.waiting.devices[0].deviceId) {
+        console.log('📴 Call waiting stopped ringing');
+        this.endWaitingCall('missed');
+      }
+      return;
+    }
+
+    // Someone in the call on hold hung up
+    if (data.callId && data.callId === this.parked?.state.call?.id) {
+      this.handleParkedCallEnd(data, reason);
+      return;
+    }
+
+    // An end for a different call (e.g. one that crossed with ours and was cancelled)
+    if (data.callId && data.callId !== this.state.call?.id) return;
+
+    // Someone we rang (or were adding to the call) declined - anyone else keeps ringing
+    const memberId = data.fromMemberId;
+    const peer = this.peers.get(data.from);
+    if (memberId && memberId in this.state.ringTargets && !peer) {
+      if (this.state.ringTargets[memberId] === 'ringing') {
+        this.updateRingTarget(memberId, 'declined');
+      }
+      const isStillRinging = Object.values(this.state.ringTargets).includes('ringing');
+      if (this.state.status !== 'ringing' || isStillRinging) {
+        console.log(`📵 ${this.getMemberName(memberId)} declined`);
+        return;
+      }
+    }
+
+    // One person leaving a group call doesn't end it for everyone else
+    if (peer && this.peers.size > 1) {
+      console.log(`👋 ${this.getMemberName(peer.memberId)} left the call`);
+      this.removePeer(peer);
+      return;
+    }
+
+    // Before pickup, any of the callee's devices may decline an outgoing call
+    const caller = this.pendingDevices[0];
+    const isFromOtherSide = peer !== undefined || (caller
+      ? data.from === caller.deviceId
+      : this.peers.size === 0 && this.state.direction === 'outgoing');
+    if (!isFromOtherSide) return;
+
+    // A call that rang here and was never picked up is missed, whatever the reason
+    const isUnansweredHere = this.state.status === 'ringing' && this.state.direction === 'incoming';
+    const outcome = isUnansweredHere ? 'missed' : reason ?? (this.state.status === 'ringing' ? 'missed' : 'completed');
+
+    console.log(`📴 Call ended by the other side (${outcome})`);
+    if (data.reply) {
+      this.setState({ declineReply: { fromName: this.getMemberName(data.fromMemberId ?? ''), text: data.reply } });
+    }
+    this.finish('ended', outcome);
+  }
+
+  /**
+   * Someone left the call on hold - once everyone has, it's over
+   */
+  private handleParkedCallEnd(data: SignalingData, reason?: CallOutcome): void {
+    const parked = this.parked;
+    const peer = parked?.peers.get(data.from);
+    if (!parked || !peer) return;
+
+    console.log(`👋 ${this.getMemberName(peer.memberId)} left the call on hold`);
+    this.closePeer(peer);
+    parked.peers.delete(peer.deviceId);
+    parked.state = {
+      ...parked.state,
+      remoteParticipants: parked.state.remoteParticipants.filter(p => p.deviceId !== peer.deviceId),
+    };
+
+    if (parked.peers.size === 0) {
+      this.endParkedCall(reason ?? 'completed');
+    }
+  }
+
+  /**
+   * Someone in the call put it on hold or took it off hold
+   */
+  private handleCallHold(data: CallHoldNotice): void {
+    const isOnHold = data.held;
+    const peer = this.peers.get(data.from);
+    if (peer && data.callId === this.state.call?.id) {
+      console.log(`${isOnHold ? '⏸️' : '▶️'} ${this.getMemberName(peer.memberId)} ${isOnHold ? 'put the call on hold' : 'is back'}`);
+      this.updateRemoteParticipant(peer.deviceId, { isOnHold });
+      return;
+    }
+
+    // The call we have on hold - shown once we switch back to it
+    const parked = this.parked;
+    if (parked?.peers.has(data.from) && data.callId === parked.state.call?.id) {
+      parked.state = {
+        ...parked.state,
+        remoteParticipants: parked.state.remoteParticipants.map(p => (p.deviceId === data.from ? { ...p, isOnHold } : p)),
+      };
+    }
+  }
+}
+
+// Export singleton instance
+export const callEngine = new CallEngine();
+export default callEngine;
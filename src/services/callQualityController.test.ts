@@ -0,0 +1,139 @@
+/**
+ * ============================================================================
+ * KIDS CALL HOME - Call Quality Controller Tests
+ * ============================================================================
+ *
+ * Purpose: Quality follows the network without flapping, and levels reach
+ *          every link's video sender in a group call
+ * Dependencies: vitest, fake RTCRtpSenders
+ *
+ * Last Updated: 2024-09-09
+ * ============================================================================
+ */
+
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { NetworkInfo } from '../types';
+import { CallQualityController, VIDEO_PROFILES, type VideoQualityLevel } from './callQualityController';
+
+/**
+ * Keeps the parameters set on it, like a negotiated RTCRtpSender
+ */
+function fakeSender(kind: 'audio' | 'video'): RTCRtpSender {
+  let parameters = { encodings: [{}] } as RTCRtpSendParameters;
+  return {
+    track: { kind, getSettings: () => ({ height: 720 }) },
+    getParameters: () => parameters,
+    setParameters: async (next: RTCRtpSendParameters) => {
+      parameters = next;
+    },
+  } as unknown as RTCRtpSender;
+}
+
+const encodingOf = (sender: RTCRtpSender) => sender.getParameters().encodings[0];
+
+const network = (overrides: Partial<NetworkInfo> = {}): NetworkInfo => ({
+  connectionType: 'wifi',
+  signalStrength: 'excellent',
+  bandwidth: 'high',
+  latency: 40,
+  jitter: 5,
+  packetLoss: 0,
+  ...overrides,
+});
+
+// Let queued setParameters calls run
+const settle = () => new Promise(resolve => setTimeout(resolve, 0));
+
+describe('CallQualityController', () => {
+  let senders: RTCRtpSender[];
+  let controller: CallQualityController;
+
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    senders = [fakeSender('audio'), fakeSender('video')];
+    controller = new CallQualityController(() => senders, 'auto');
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('applies the level to every video sender and splits the bitrate', async () => {
+    senders.push(fakeSender('audio'), fakeSender('video'));
+    controller.update(network());
+    await settle();
+
+    const video = senders.filter(sender => sender.track?.kind === 'video');
+    for (const sender of video) {
+      expect(encodingOf(sender)).toMatchObject({ active: true, maxBitrate: VIDEO_PROFILES.high.maxBitrate / 2 });
+    }
+    expect(encodingOf(senders[0])).toEqual({});
+  });
+
+  it('turns video off on every link for the audio-only fallback', async () => {
+    senders.push(fakeSender('video'));
+    controller.update(network({ packetLoss: 20 }));
+    await settle();
+
+    for (const sender of senders.filter(s => s.track?.kind === 'video')) {
+      expect(encodingOf(sender).active).toBe(false);
+    }
+  });
+
+  it('lowers the bitrate per link as people join', async () => {
+    controller.update(network());
+    await settle();
+    expect(encodingOf(senders[1]).maxBitrate).toBe(VIDEO_PROFILES.high.maxBitrate);
+
+    senders.push(fakeSender('video'), fakeSender('video'));
+    controller.linksChanged();
+    await settle();
+    for (const sender of senders.slice(1)) {
+      expect(encodingOf(sender).maxBitrate).toBe(Math.round(VIDEO_PROFILES.high.maxBitrate / 3));
+    }
+  });
+
+  describe('following the network', () => {
+    let levels: VideoQualityLevel[];
+
+    beforeEach(() => {
+      levels = [];
+      controller = new CallQualityController(() => senders, 'auto', level => levels.push(level));
+    });
+
+    it('drops to audio only on sustained loss and stays there', async () => {
+      controller.update(network());
+      for (let i = 0; i < 5; i++) controller.update(network({ packetLoss: 20 }));
+      await settle();
+
+      expect(levels).toEqual(['audio-only']);
+      expect(encodingOf(senders[1]).active).toBe(false);
+    });
+
+    it('does not flap while the network keeps dipping', () => {
+      controller.update(network({ signalStrength: 'fair' }));
+      for (let i = 0; i < 4; i++) {
+        controller.update(network());
+        controller.update(network());
+        controller.update(network({ signalStrength: 'fair' }));
+      }
+
+      expect(levels).toEqual(['medium']);
+    });
+
+    it('recovers one step at a time after enough good samples in a row', () => {
+      controller.update(network({ packetLoss: 20 }));
+      expect(levels).toEqual(['audio-only']);
+
+      controller.update(network());
+      controller.update(network());
+      expect(levels).toEqual(['audio-only']);
+
+      controller.update(network());
+      expect(levels).toEqual(['audio-only', 'low']);
+
+      for (let i = 0; i < 6; i++) controller.update(network());
+      expect(levels).toEqual(['audio-only', 'low', 'medium', 'high']);
+    });
+  });
+});
@@ -0,0 +1,209 @@
+/**
+ * ============================================================================
+ * KIDS CALL HOME - Call Quality Controller
+ * ============================================================================
+ *
+ * Purpose: Adapt outgoing video to the guardian's preference and the network
+ * Interface: Used by callEngine during calls
+ * Dependencies: WebRTC RTCRtpSender API, types
+ *
+ * V1 Features:
+ * - Capture constraints per quality preference
+ * - Encoder bitrate, resolution and framerate via RTCRtpSender.setParameters,
+ *   on the video sender of every link in the call
+ * - Group calls split the bitrate between links, since they share one uplink
+ * - Drops to audio-only on very poor links
+ * - Steps back up gradually once the network recovers
+ *
+ * Last Updated: 2024-09-09
+ * ============================================================================
+ */
+
+import type { Child, Guardian, GuardianPreferences, NetworkInfo } from '../types';
+
+export type CallQualityPreference = GuardianPreferences['callQuality'];
+export type VideoQualityLevel = 'high' | 'medium' | 'low' | 'audio-only';
+
+interface VideoProfile {
+  width: number;
+  height: number;
+  frameRate: number;
+  maxBitrate: number; // Bits per second
+}
+
+export const VIDEO_PROFILES: Record<Exclude<VideoQualityLevel, 'audio-only'>, VideoProfile> = {
+  high: { width: 1280, height: 720, frameRate: 30, maxBitrate: 1_500_000 },
+  medium: { width: 640, height: 360, frameRate: 24, maxBitrate: 600_000 },
+  low: { width: 320, height: 180, frameRate: 15, maxBitrate: 200_000 },
+};
+
+// Best to worst
+const LEVELS: VideoQualityLevel[] = ['high', 'medium', 'low', 'audio-only'];
+
+// Good samples in a row before stepping quality back up
+const RECOVERY_SAMPLES = 3;
+
+/**
+ * Get a member's call quality preference (children always use auto)
+ */
+export function getCallQualityPreference(user: Guardian | Child | null): CallQualityPreference {
+  return user && 'callQuality' in user.preferences ? user.preferences.callQuality : 'auto';
+}
+
+/**
+ * getUserMedia video constraints for a preference
+ */
+export function getVideoConstraints(preference: CallQualityPreference): MediaTrackConstraints {
+  const profile = VIDEO_PROFILES[preference === 'auto' ? 'high' : preference];
+  return {
+    width: { ideal: profile.width, max: 1920 },
+    height: { ideal: profile.height, max: 1080 },
+    frameRate: { ideal: profile.frameRate, max: 60 },
+  };
+}
+
+/**
+ * The best level the network can carry right now
+ */
+function getNetworkLevel(networkInfo: NetworkInfo): VideoQualityLevel {
+  if (networkInfo.packetLoss >= 15 || networkInfo.latency >= 1000) return 'audio-only';
+  if (networkInfo.signalStrength === 'poor' || networkInfo.bandwidth === 'low') return 'low';
+  if (networkInfo.signalStrength === 'fair' || networkInfo.bandwidth === 'medium') return 'medium';
+  return 'high';
+}
+
+/**
+ * CallQualityController - Applies a quality level to the outgoing video senders
+ */
+export class CallQualityController {
+  private readonly getSenders: () => RTCRtpSender[];
+  private readonly onLevelChange?: (level: VideoQualityLevel) => void;
+  private preference: CallQualityPreference;
+  private level: VideoQualityLevel;
+  private betterSamples = 0;
+  private hasApplied = false;
+  private pending: Promise<void> = Promise.resolve();
+
+  constructor(
+    getSenders: () => RTCRtpSender[],
+    preference: CallQualityPreference,
+    onLevelChange?: (level: VideoQualityLevel) => void
+  ) {
+    this.getSenders = getSenders;
+    this.preference = preference;
+    this.onLevelChange = onLevelChange;
+    this.level = this.getPreferenceLevel();
+  }
+
+  /**
+   * Change the preference mid-call
+   */
+  setPreference(preference: CallQualityPreference): void {
+    this.preference = preference;
+    const ceiling = this.getPreferenceLevel();
+    if (LEVELS.indexOf(this.level) < LEVELS.indexOf(ceiling)) {
+      this.setLevel(ceiling);
+    }
+  }
+
+  /**
+   * Feed a new network measurement. Quality drops straight away
+   * but only recovers one step after several good samples in a row.
+   */
+  update(networkInfo: NetworkInfo): void {
+    // First measurement means the call is up - apply the starting level
+    if (!this.hasApplied) {
+      this.hasApplied = true;
+      this.queueApply(this.level);
+    }
+
+    const targetIndex = Math.max(
+      LEVELS.indexOf(this.getPreferenceLevel()),
+      LEVELS.indexOf(getNetworkLevel(networkInfo))
+    );
+    const currentIndex = LEVELS.indexOf(this.level);
+
+    if (targetIndex > currentIndex) {
+      this.betterSamples = 0;
+      this.setLevel(LEVELS[targetIndex]);
+    } else if (targetIndex < currentIndex) {
+      this.betterSamples++;
+      if (this.betterSamples >= RECOVERY_SAMPLES) {
+        this.betterSamples = 0;
+        this.setLevel(LEVELS[currentIndex - 1]);
+      }
+    } else {
+      this.betterSamples = 0;
+    }
+  }
+
+  /**
+   * Someone joined or left the call - share the bitrate between the links again
+   */
+  linksChanged(): void {
+    if (this.hasApplied) {
+      this.queueApply(this.level);
+    }
+  }
+
+  /**
+   * The preference as a level ceiling
+   */
+  private getPreferenceLevel(): VideoQualityLevel {
+    return this.preference === 'auto' ? 'high' : this.preference;
+  }
+
+  /**
+   * Switch level and apply it
+   */
+  private setLevel(level: VideoQualityLevel): void {
+    if (level === this.level) return;
+
+    console.log(`🎚️ Call quality: ${this.level} → ${level}`);
+    this.level = level;
+    this.onLevelChange?.(level);
+    this.queueApply(level);
+  }
+
+  /**
+   * Queue an apply behind any that are still running
+   */
+  private queueApply(level: VideoQualityLevel): void {
+    this.pending = this.pending
+      .then(() => this.apply(level))
+      .catch(error => console.warn('Failed to apply call quality:', error));
+  }
+
+  /**
+   * Set encoder parameters on every link's video sender. Each link sends
+   * its own copy of our video, so they split the level's bitrate.
+   */
+  private async apply(level: VideoQualityLevel): Promise<void> {
+    const senders = this.getSenders().filter(sender => sender.track?.kind === 'video');
+    await Promise.all(senders.map(sender => this.applyToSender(sender, level, senders.length)));
+  }
+
+  /**
+   * Set encoder parameters on one video sender
+   */
+  private async applyToSender(sender: RTCRtpSender, level: VideoQualityLevel, linkCount: number): Promise<void> {
+    if (!sender.track) return;
+
+    const parameters = sender.getParameters();
+    const encoding = parameters.encodings?.[0];
+    if (!encoding) return; // Not negotiated yet
+
+    if (level === 'audio-only') {
+      encoding.active = false;
+    } else {
+      const profile = VIDEO_PROFILES[level];
+      const captureHeight = sender.track.getSettings().height ?? profile.height;
+      encoding.active = true;
+      encoding.maxBitrate = Math.round(profile.maxBitrate / linkCount);
+      encoding.maxFramerate = profile.frameRate;
+      encoding.scaleResolutionDownBy = Math.max(1, captureHeight / profile.height);
+    }
+
+    await sender.setParameters(parameters);
+  }
+}
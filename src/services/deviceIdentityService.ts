@@ -0,0 +1,59 @@
+/**
+ * ============================================================================
+ * KIDS CALL HOME - Device Identity Service
+ * ============================================================================
+ *
+ * Purpose: Give each browser a stable identity for device trust and pairing
+ * Interface: Used by FamilyDataService, LoginPage, SetupPage, App
+ * Dependencies: Web Crypto API, localStorage, ua-parser-js
+ *
+ * V1 Features:
+ * - Persistent random device id (survives logout, cleared with site data)
+ * - Human-readable device name for the guardian's device list
+ *
+ * Last Updated: 2024-09-09
+ * ============================================================================
+ */
+
+import { UAParser } from 'ua-parser-js';
+
+export class DeviceIdentityService {
+  private static readonly STORAGE_KEY = 'kids-call-home-device-id';
+  private static cachedDeviceId: string | null = null;
+
+  /**
+   * Get this browser's device id, creating one on first use
+   */
+  static getDeviceId(): string {
+    if (this.cachedDeviceId) {
+      return this.cachedDeviceId;
+    }
+
+    let deviceId: string | null = null;
+    try {
+      deviceId = localStorage.getItem(this.STORAGE_KEY);
+      if (!deviceId) {
+        deviceId = `device-${crypto.randomUUID()}`;
+        localStorage.setItem(this.STORAGE_KEY, deviceId);
+      }
+    } catch (error) {
+      // Private browsing or storage disabled - identity lasts for this session only
+      console.warn('Could not persist device id:', error);
+      deviceId = deviceId || `device-${crypto.randomUUID()}`;
+    }
+
+    this.cachedDeviceId = deviceId;
+    return deviceId;
+  }
+
+  /**
+   * Describe this device, e.g. "Safari on iPad"
+   */
+  static getDeviceName(): string {
+    const { browser, os, device } = new UAParser(navigator.userAgent).getResult();
+    const platform = device.model || os.name || 'Unknown device';
+    return browser.name ? `${browser.name} on ${platform}` : platform;
+  }
+}
+
+export default DeviceIdentityService;
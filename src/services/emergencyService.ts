@@ -0,0 +1,167 @@
+/**
+ * ============================================================================
+ * KIDS CALL HOME - Emergency Service
+ * ============================================================================
+ *
+ * Purpose: The kids' emergency button - ring every grown-up who can help
+ * Interface: Used by KidsDashboard (App.tsx shows other devices' alerts)
+ * Dependencies: callEngine, pusherService, FamilyDataService, useAppStore
+ *
+ * V1 Features:
+ * - Rings the child's approved guardians all at once
+ * - When nobody answers, rings the emergency contacts who cover the child
+ *   and are guardians in the family, one at a time in priority order.
+ *   Other contacts are never rung - the child is shown their numbers instead
+ * - Logs the emergency on the family and alerts every guardian's device
+ * - One emergency at a time, and only for children with the button enabled
+ *
+ * Last Updated: 2024-09-09
+ * ============================================================================
+ */
+
+import { useAppStore } from '../stores/useAppStore';
+import type { Child, EmergencyContact, EmergencyEvent, Family } from '../types';
+import { callEngine } from './callEngine';
+import FamilyDataService from './familyDataService';
+import { pusherService } from './pusherService';
+
+type RoundResult = { answeredBy: string } | { outcome: 'cancelled' | 'unanswered' };
+
+/**
+ * The family's emergency contacts who cover this child, most important first
+ */
+export function getEmergencyContacts(family: Family, child: Child): EmergencyContact[] {
+  return family.settings.emergencyContacts
+    .filter(contact => contact.childIds.length === 0 || contact.childIds.includes(child.id))
+    .sort((a, b) => a.priority - b.priority);
+}
+
+/**
+ * Who to ring, round by round: the child's approved guardians together,
+ * then each emergency contact who is a family guardian on their own, in priority order
+ */
+export function getEmergencyRounds(family: Family, child: Child): string[][] {
+  const guardianIds = family.guardians.map(g => g.id);
+  const approved = child.approvedGuardians.filter(id => guardianIds.includes(id));
+  const firstRound = approved.length > 0 ? approved : guardianIds;
+
+  // Only family guardians can take a call from a child
+  const contacts = getEmergencyContacts(family, child)
+    .map(contact => contact.memberId)
+    .filter((id): id is string => !!id && guardianIds.includes(id))
+    .filter((id, index, all) => all.indexOf(id) === index && !firstRound.includes(id));
+
+  return [firstRound, ...contacts.map(id => [id])].filter(round => round.length > 0);
+}
+
+class EmergencyService {
+  private activeEventId: string | null = null;
+
+  /**
+   * Whether an emergency is in progress on this device
+   */
+  isActive(): boolean {
+    return this.activeEventId !== null;
+  }
+
+  /**
+   * Start an emergency for the signed-in child. Resolves once a guardian
+   * answers, the child cancels, or nobody could be reached.
+   */
+  async start(): Promise<EmergencyEvent['status']> {
+    const { currentFamily, currentUser, userType } = useAppStore.getState();
+    if (!currentFamily || !currentUser || userType !== 'child') {
+      throw new Error('Only children can use the emergency button.');
+    }
+
+    const child = currentUser as Child;
+    if (child.preferences.emergencyButtonEnabled === false) {
+      throw new Error('The emergency button is turned off for you.');
+    }
+    if (this.activeEventId) {
+      throw new Error('Already calling for help.');
+    }
+
+    const rounds = getEmergencyRounds(currentFamily, child);
+    if (rounds.length === 0) {
+      throw new Error('There are no grown-ups in your family to call yet.');
+    }
+
+    let event: EmergencyEvent = {
+      id: `emergency_${Date.now()}`,
+      childId: child.id,
+      status: 'ringing',
+      startedAt: new Date(),
+    };
+    this.activeEventId = event.id;
+    console.log('🚨 Emergency button pressed');
+    this.record(event);
+
+    try {
+      for (const [index, memberIds] of rounds.entries()) {
+        console.log(`🚨 Emergency round ${index + 1} of ${rounds.length}`);
+        const result = await this.ringRound(memberIds);
+
+        if ('answeredBy' in result) {
+          event = { ...event, status: 'answered', answeredBy: result.answeredBy };
+          return event.status;
+        }
+        if (result.outcome === 'cancelled') {
+          event = { ...event, status: 'cancelled' };
+          return event.status;
+        }
+      }
+
+      event = { ...event, status: 'unanswered' };
+      return event.status;
+    } catch (error) {
+      event = { ...event, status: 'unanswered' };
+      throw error;
+    } finally {
+      console.log(`🚨 Emergency ${event.status}`);
+      this.activeEventId = null;
+      this.record(event);
+    }
+  }
+
+  /**
+   * Ring one round and wait to hear how it went
+   */
+  private ringRound(memberIds: string[]): Promise<RoundResult> {
+    return new Promise((resolve, reject) => {
+      const unsubscribe = callEngine.on('statusChange', ({ to, call }) => {
+        const answeredBy = call?.participants.find(member => memberIds.includes(member.id));
+        if (to === 'connecting' && answeredBy) {
+          unsubscribe();
+          resolve({ answeredBy: answeredBy.id });
+        } else if (to === 'ended' || to === 'failed') {
+          unsubscribe();
+          resolve({ outcome: call?.outcome === 'cancelled' ? 'cancelled' : 'unanswered' });
+        }
+      });
+
+      callEngine.ringAll(memberIds, 'voice').catch((error) => {
+        unsubscribe();
+        reject(error);
+      });
+    });
+  }
+
+  /**
+   * Save the event to the family's log and alert the other devices
+   */
+  private record(event: EmergencyEvent): void {
+    const { currentFamily, setCurrentFamily } = useAppStore.getState();
+    if (!currentFamily) return;
+
+    setCurrentFamily(FamilyDataService.withEmergencyEvent(currentFamily, event));
+    FamilyDataService.recordEmergencyEvent(currentFamily.id, event)
+      .catch(error => console.warn('Failed to save emergency event:', error));
+    pusherService.sendEmergencyAlert(event)
+      .catch(error => console.warn('Failed to send emergency alert:', error));
+  }
+}
+
+// Export singleton instance
+export const emergencyService = new EmergencyService();
+export default emergencyService;
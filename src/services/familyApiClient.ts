@@ -0,0 +1,243 @@
+/**
+ * ============================================================================
+ * KIDS CALL HOME - Family API Client
+ * ============================================================================
+ *
+ * Purpose: Client adapter for the server-backed family registry
+ * Interface: Used by FamilyDataService
+ * Dependencies: types, familySerializer, sessionService, /api/families,
+ *               /api/sign-in, /api/member-secrets, /api/devices,
+ *               /api/family-code and /api/emergency-events endpoints
+ *
+ * V1 Features:
+ * - Create, lookup (by id), update and delete families on the server
+ * - Sign-in and member secrets checked and stored by the server
+ * - Device approval and revocation done by the server
+ * - Family code rotation done by the server
+ * - Emergency events logged one at a time, so children never replace the family
+ * - Session token sent with every request once signed in
+ * - Date revival for family records received as JSON
+ * - Distinguishes network failures from "not found" responses
+ *
+ * Last Updated: 2024-09-09
+ * ============================================================================
+ */
+
+import type { ApiResponse, EmergencyEvent, Family, TrustedDevice } from '../types';
+import { reviveDevice, reviveFamily } from '../utils/familySerializer';
+import type { SecretKind } from './memberCredentialService';
+import { sessionService, type SessionToken } from './sessionService';
+
+export interface SignInRequest {
+  familyCode: string;
+  userName: string;
+  deviceId: string;
+  deviceName: string;
+  secret?: string;        // PIN or encoded picture password, if the member has one
+  redeemCode?: boolean;   // Count this sign-in against the code's usage limit
+}
+
+export interface FamilyCodeRequestOptions {
+  wordCount?: number;
+  expiresInDays?: number;
+  maxUses?: number;
+}
+
+export type DeviceChange =
+  | { action: 'approve' | 'revoke'; deviceId: string; memberId: string }
+  | { action: 'approve'; pairingCode: string };
+
+export type SignInResult =
+  | { success: true; family: Family; memberId: string; memberType: 'guardian' | 'child'; session: SessionToken }
+  | {
+      success: false;
+      error: string;
+      secretRequired?: SecretKind;
+      lockedUntil?: Date;
+      pendingDevice?: { familyId: string; device: TrustedDevice; pairingToken: string };
+    };
+
+/**
+ * Error thrown when the registry answers with a non-success status.
+ * Network failures surface as the original fetch TypeError instead, which
+ * lets callers fall back to their offline cache.
+ */
+export class FamilyApiError extends Error {
+  readonly status: number;
+
+  constructor(status: number, message: string) {
+    super(message);
+    this.name = 'FamilyApiError';
+    this.status = status;
+  }
+}
+
+class FamilyApiClient {
+  private readonly baseUrl = '/api/families';
+  private readonly signInUrl = '/api/sign-in';
+  private readonly memberSecretsUrl = '/api/member-secrets';
+  private readonly devicesUrl = '/api/devices';
+  private readonly familyCodeUrl = '/api/family-code';
+  private readonly emergencyEventsUrl = '/api/emergency-events';
+
+  /**
+   * Send a request to the registry and unwrap the response
+   */
+  private async request<T>(
+    method: string,
+    query?: Record<string, string>,
+    body?: unknown,
+    endpoint: string = this.baseUrl
+  ): Promise<T> {
+    const url = query ? `${endpoint}?${new URLSearchParams(query)}` : endpoint;
+    const headers: Record<string, string> = {};
+    if (body) headers['Content-Type'] = 'application/json';
+    if (sessionService.isActive()) headers['Authorization'] = `Bearer ${await sessionService.getToken()}`;
+
+    const response = await fetch(url, {
+      method,
+      headers,
+      body: body ? JSON.stringify(body) : undefined,
+    });
+
+    const result: Partial<ApiResponse<T>> = await response.json().catch(() => ({}));
+    if (!response.ok) {
+      sessionService.handleRejection(response.status, result.code);
+      throw new FamilyApiError(response.status, result.error || `HTTP error! status: ${response.status}`);
+    }
+    return result.data as T;
+  }
+
+  /**
+   * Look up a family by id, or null if it doesn't exist
+   */
+  async getFamilyById(id: string): Promise<Family | null> {
+    try {
+      return reviveFamily(await this.request<Family>('GET', { id }));
+    } catch (error) {
+      if (error instanceof FamilyApiError && error.status === 404) return null;
+      throw error;
+    }
+  }
+
+  /**
+   * Register a new family (fails with 409 if the id or code is taken). The
+   * server answers with the creating guardian's first session token.
+   */
+  async createFamily(family: Family): Promise<{ family: Family; session: SessionToken }> {
+    const created = await this.request<{ family: Family; session: SessionToken }>('POST', undefined, { family });
+    return { ...created, family: reviveFamily(created.family) };
+  }
+
+  /**
+   * Replace the stored family record, creating it if needed
+   */
+  async updateFamily(family: Family): Promise<Family> {
+    return reviveFamily(await this.request<Family>('PUT', { id: family.id }, { family }));
+  }
+
+  /**
+   * Delete a family from the registry
+   */
+  async deleteFamily(id: string): Promise<void> {
+    await this.request('DELETE', { id });
+  }
+
+  /**
+   * Check a member's family code, name and secret on the server and get
+   * this device's first session token. A missing or wrong secret, a lockout
+   * or a device waiting for approval is a failed result; anything else the
+   * server rejects throws a FamilyApiError.
+   */
+  async signIn(request: SignInRequest): Promise<SignInResult> {
+    const response = await fetch(this.signInUrl, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(request),
+    });
+
+    const result = await response.json().catch(() => ({}));
+    if (response.status === 401 && result.secretRequired) {
+      return {
+        success: false,
+        error: result.error,
+        secretRequired: result.secretRequired,
+        lockedUntil: result.lockedUntil ? new Date(result.lockedUntil) : undefined,
+      };
+    }
+    if (response.status === 403 && result.device) {
+      return {
+        success: false,
+        error: result.error,
+        pendingDevice: { familyId: result.familyId, device: reviveDevice(result.device), pairingToken: result.pairingToken },
+      };
+    }
+    if (!response.ok) {
+      throw new FamilyApiError(response.status, result.error || `HTTP error! status: ${response.status}`);
+    }
+    return { success: true, ...result.data, family: reviveFamily(result.data.family) };
+  }
+
+  /**
+   * Set (or with null, clear) a member's PIN or encoded picture password.
+   * Returns the updated family.
+   */
+  async setMemberSecret(familyId: string, memberId: string, secret: string | null): Promise<Family> {
+    const family = secret === null
+      ? await this.request<Family>('DELETE', { familyId, memberId }, undefined, this.memberSecretsUrl)
+      : await this.request<Family>('PUT', { familyId, memberId }, { secret }, this.memberSecretsUrl);
+    return reviveFamily(family);
+  }
+
+  /**
+   * Whether a guardian has approved (or revoked) a device waiting for
+   * approval, asked with the pairing token sign-in gave it
+   */
+  async getDeviceStatus(
+    familyId: string,
+    memberId: string,
+    deviceId: string,
+    pairingToken: string
+  ): Promise<TrustedDevice['status'] | null> {
+    const response = await fetch(`${this.devicesUrl}?${new URLSearchParams({ familyId, memberId, deviceId })}`, {
+      headers: { 'Authorization': `Bearer ${pairingToken}` },
+    });
+
+    const result: Partial<ApiResponse<{ status: TrustedDevice['status'] | null }>> = await response.json().catch(() => ({}));
+    if (!response.ok || !result.data) {
+      throw new FamilyApiError(response.status, result.error || `HTTP error! status: ${response.status}`);
+    }
+    return result.data.status;
+  }
+
+  /**
+   * Approve or revoke a device (guardians only). Returns the updated
+   * family and device.
+   */
+  async updateDevice(familyId: string, change: DeviceChange): Promise<{ family: Family; device: TrustedDevice }> {
+    const result = await this.request<{ family: Family; device: TrustedDevice }>(
+      'POST', { familyId }, change, this.devicesUrl
+    );
+    return { family: reviveFamily(result.family), device: reviveDevice(result.device) };
+  }
+
+  /**
+   * Replace the family code (guardians only). The server picks the code
+   * and signs out every other device. Returns the updated family.
+   */
+  async rotateFamilyCode(familyId: string, codeOptions: FamilyCodeRequestOptions = {}): Promise<Family> {
+    return reviveFamily(await this.request<Family>('POST', { familyId }, { codeOptions }, this.familyCodeUrl));
+  }
+
+  /**
+   * Add or update an event in the family's emergency log. Returns the
+   * updated family.
+   */
+  async recordEmergencyEvent(familyId: string, event: EmergencyEvent): Promise<Family> {
+    return reviveFamily(await this.request<Family>('POST', { familyId }, { event }, this.emergencyEventsUrl));
+  }
+}
+
+// Export singleton instance
+export const familyApiClient = new FamilyApiClient();
+export default familyApiClient;
@@ -5,16 +5,20 @@
  * 
  * Purpose: Centralized family data management and persistence
  * Interface: Shared across all components
- * Dependencies: types, familyValidationService
+ * Dependencies: types, familyValidationService, memberCredentialService,
+ *               deviceIdentityService, familyApiClient, familyStore, pusherService,
+ *               sessionService
  * 
  * V1 Features:
  * - Family data creation and validation
  * - User authentication and management
- * - Local storage persistence
- * - Family code generation
+ * - Optional member PINs and picture passwords
+ * - Trusted devices with pairing and remote revoke (approved by the server)
+ * - Server-backed family registry with a pluggable offline cache
+ * - Family code generation and rotation
+ * - Emergency event log shared by the family
  * 
  * V2 Ready:
- * - Backend API integration
  * - Real-time data synchronization
  * - Multi-device support
  * 
@@ -22,20 +26,43 @@
  * ============================================================================
  */
 
-import type { Child, Family, Guardian } from '../types';
+import type { Child, EmergencyEvent, Family, FamilyCode, Guardian, GuardianPreferences, TrustedDevice } from '../types';
+import { generateFamilyCode, type FamilyCodeOptions } from '../utils/familyCodeGenerator';
+import { DeviceIdentityService } from './deviceIdentityService';
+import { FamilyApiError, familyApiClient, type DeviceChange, type SignInResult } from './familyApiClient';
+import { createDefaultFamilyStore, type FamilyStore } from './familyStore';
 import { FamilyValidationService } from './familyValidationService';
+import { MemberCredentialService, type SecretKind } from './memberCredentialService';
+import pusherService from './pusherService';
+import { sessionService } from './sessionService';
 
 export interface CreateFamilyRequest {
   familyName: string;
   guardianName: string;
   guardianEmail?: string;
+  codeOptions?: Pick<FamilyCodeOptions, 'wordCount' | 'expiresInDays' | 'maxUses'>;
 }
 
 export interface JoinFamilyRequest {
   familyCode: string;
   userName: string;
+  redeemCode?: boolean;   // Count this join against the code's usage limit
+  secret?: string;        // PIN or encoded picture password, if the member has one
 }
 
+export type JoinFamilyResult =
+  | { success: true; family: Family; user: Guardian | Child; userType: 'guardian' | 'child' }
+  | { success: false; error: string; secretRequired?: SecretKind; lockedUntil?: Date; pendingDevice?: PendingDevice };
+
+export interface PendingDevice {
+  familyId: string;
+  device: TrustedDevice;
+  pairingToken: string;   // Lets the device check whether it's been approved
+}
+
+// Older emergency events drop off the family's log
+const MAX_EMERGENCY_EVENTS = 50;
+
 export interface AddChildRequest {
   childName: string;
   childAge?: number;
@@ -43,39 +70,43 @@ export interface AddChildRequest {
 }
 
 export class FamilyDataService {
-  private static readonly STORAGE_KEY = 'kids-call-home-families';
-  private static readonly CURRENT_FAMILY_KEY = 'kids-call-home-current-family';
+  private static store: FamilyStore = createDefaultFamilyStore();
 
   /**
-   * Generate a secure, memorable family code
+   * Swap the offline cache backend (e.g. in-memory for tests, IndexedDB)
    */
-  static generateFamilyCode(): string {
-    const adjectives = [
-      'HAPPY', 'SUNNY', 'BRAVE', 'SMART', 'KIND', 'FUNNY', 'CUTE', 'SWEET',
-      'BOLD', 'CALM', 'WISE', 'FAST', 'TALL', 'SMALL', 'BIG', 'LITTLE'
-    ];
-    
-    const nouns = [
-      'BEAR', 'CAT', 'DOG', 'BIRD', 'FISH', 'TREE', 'STAR', 'MOON',
-      'SUN', 'RAIN', 'SNOW', 'WIND', 'FIRE', 'WATER', 'EARTH', 'SKY'
-    ];
-    
-    const numbers = new Date().getFullYear().toString().slice(-2);
-    
-    const adjective = adjectives[Math.floor(Math.random() * adjectives.length)];
-    const noun = nouns[Math.floor(Math.random() * nouns.length)];
-    
-    return `${adjective}-${noun}-${numbers}`;
+  static useStore(store: FamilyStore): void {
+    this.store = store;
+  }
+
+  /**
+   * Generate a secure, memorable family code that no cached family is using
+   * (the registry rejects codes taken by other families when saving)
+   */
+  static async generateFamilyCode(options: Omit<FamilyCodeOptions, 'isCodeTaken'> = {}): Promise<FamilyCode> {
+    return generateFamilyCode({
+      ...options,
+      isCodeTaken: code => this.isFamilyCodeTaken(code),
+    });
+  }
+
+  /**
+   * Check the offline cache for an existing family with this code
+   */
+  private static async isFamilyCodeTaken(code: string): Promise<boolean> {
+    const families = await this.getAllFamilies();
+    return families.some(f => f.code.toUpperCase() === code.toUpperCase());
   }
 
   /**
    * Create a new family with a guardian
    */
-  static createFamily(request: CreateFamilyRequest): Family {
-    const familyCode = this.generateFamilyCode();
+  static async createFamily(request: CreateFamilyRequest): Promise<Family> {
+    const familyCode = await this.generateFamilyCode(request.codeOptions);
     const guardianId = `guardian-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
     const familyId = `family-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
 
+    const deviceId = DeviceIdentityService.getDeviceId();
     const guardian: Guardian = {
       id: guardianId,
       name: request.guardianName,
@@ -83,7 +114,6 @@ export class FamilyDataService {
       avatar: '👨‍💼',
       isOnline: true,
       lastSeen: new Date(),
-      deviceId: this.generateDeviceId(),
       preferences: {
         theme: 'guardian',
         notifications: {
@@ -98,7 +128,8 @@ export class FamilyDataService {
 
     const family: Family = {
       id: familyId,
-      code: familyCode,
+      code: familyCode.code,
+      codeInfo: familyCode,
       name: request.familyName,
       guardians: [guardian],
       children: [],
@@ -111,64 +142,109 @@ export class FamilyDataService {
         maxCallDuration: 60,
         requireGuardianApproval: false,
         timezone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+        relayOnlyCalls: false,
       },
+      // The device that creates the family is trusted from the start
+      devices: [{
+        deviceId,
+        memberId: guardianId,
+        name: DeviceIdentityService.getDeviceName(),
+        status: 'approved',
+        registeredAt: new Date(),
+        approvedAt: new Date(),
+        approvedBy: guardianId,
+        lastSeen: new Date(),
+      }],
     };
 
-    // Save family to local storage
-    this.saveFamily(family);
+    // Register family with the server, keeping a local copy for offline use.
+    // If another device claimed the same code in the meantime, pick a new one.
+    for (let attempt = 0; ; attempt++) {
+      await this.cacheFamily(family);
+      try {
+        const { session } = await familyApiClient.createFamily(family);
+        sessionService.begin({ familyId, memberId: guardianId, deviceId }, session);
+        break;
+      } catch (error) {
+        if (error instanceof FamilyApiError && error.status === 409 && attempt < 2) {
+          const nextCode = await this.generateFamilyCode(request.codeOptions);
+          family.code = nextCode.code;
+          family.codeInfo = nextCode;
+          continue;
+        }
+        this.handleSyncError(error, family.id);
+        break;
+      }
+    }
     
     return family;
   }
 
   /**
-   * Join an existing family
+   * Replace the family code (guardians only). The server picks the new
+   * code and ends every other device's session; devices online now are
+   * told to sign in again. Throws if the server can't be reached or says no.
    */
-  static joinFamily(request: JoinFamilyRequest): { family: Family; user: Guardian | Child; userType: 'guardian' | 'child' } | null {
-    const family = this.findFamilyByCode(request.familyCode);
-    if (!family) {
-      return null;
+  static async rotateFamilyCode(familyId: string, codeOptions: CreateFamilyRequest['codeOptions'] = {}): Promise<Family> {
+    const family = await familyApiClient.rotateFamilyCode(familyId, codeOptions);
+    await this.cacheFamily(family);
+
+    try {
+      await pusherService.sendFamilyCodeRotated();
+    } catch (error) {
+      console.warn('Could not notify family devices about the new code:', error);
     }
 
-    const validation = FamilyValidationService.validateFamilyJoin(
-      family,
-      request.familyCode,
-      request.userName
-    );
+    return family;
+  }
 
-    if (!validation.isValid || !validation.user || !validation.userType) {
-      return null;
+  /**
+   * Join an existing family. The server checks the family code, the name
+   * and the member's PIN or picture password (counting failed attempts),
+   * and only signs in devices a guardian has approved.
+   */
+  static async joinFamily(request: JoinFamilyRequest): Promise<JoinFamilyResult> {
+    const deviceId = DeviceIdentityService.getDeviceId();
+    let signIn: SignInResult;
+    try {
+      signIn = await familyApiClient.signIn({ ...request, deviceId, deviceName: DeviceIdentityService.getDeviceName() });
+    } catch (error) {
+      if (error instanceof FamilyApiError && error.status < 500) {
+        return { success: false, error: error.message };
+      }
+      console.error('Sign-in failed:', error);
+      return { success: false, error: 'Could not reach your family right now. Please check your connection and try again.' };
+    }
+    if (!signIn.success) {
+      return signIn;
     }
 
-    // Update user's online status
-    if (validation.userType === 'guardian') {
-      const guardian = family.guardians.find(g => g.id === validation.user!.id);
-      if (guardian) {
-        guardian.isOnline = true;
-        guardian.lastSeen = new Date();
-      }
-    } else {
-      const child = family.children.find(c => c.id === validation.user!.id);
-      if (child) {
-        child.isOnline = true;
-        child.lastSeen = new Date();
-      }
+    const { family, memberId, memberType, session } = signIn;
+    const user = memberType === 'guardian'
+      ? family.guardians.find(g => g.id === memberId)
+      : family.children.find(c => c.id === memberId);
+    if (!user) {
+      return { success: false, error: FamilyValidationService.getFamilyErrorMessage(family.name, request.userName, 'not_member') };
     }
+    sessionService.begin({ familyId: family.id, memberId, deviceId }, session);
 
-    // Save updated family
-    this.saveFamily(family);
+    // Online status comes from the family channel once signaling connects,
+    // and the server records last-seen times when members leave it
+    await this.cacheFamily(family);
 
     return {
+      success: true,
       family,
-      user: validation.user,
-      userType: validation.userType,
+      user,
+      userType: memberType,
     };
   }
 
   /**
    * Add a child to an existing family
    */
-  static addChildToFamily(familyId: string, request: AddChildRequest): Child | null {
-    const family = this.findFamilyById(familyId);
+  static async addChildToFamily(familyId: string, request: AddChildRequest): Promise<Child | null> {
+    const family = await this.findFamilyById(familyId);
     if (!family) {
       return null;
     }
@@ -179,7 +255,6 @@ export class FamilyDataService {
       name: request.childName,
       age: request.childAge,
       avatar: request.childAvatar || '👶',
-      deviceId: this.generateDeviceId(),
       isOnline: false,
       lastSeen: new Date(),
       preferences: {
@@ -196,50 +271,134 @@ export class FamilyDataService {
     family.lastActive = new Date();
 
     // Save updated family
-    this.saveFamily(family);
+    await this.saveFamily(family);
 
     return child;
   }
 
   /**
-   * Find family by code
+   * Set or clear a guardian's PIN (hashed and stored by the server)
    */
-  static findFamilyByCode(code: string): Family | null {
-    const families = this.getAllFamilies();
-    return families.find(f => f.code.toUpperCase() === code.toUpperCase()) || null;
+  static async setGuardianPin(familyId: string, guardianId: string, pin: string | null): Promise<boolean> {
+    if (pin !== null && !MemberCredentialService.isValidPin(pin)) {
+      return false;
+    }
+
+    const family = await familyApiClient.setMemberSecret(familyId, guardianId, pin);
+    await this.cacheFamily(family);
+    return true;
   }
 
   /**
-   * Find family by ID
+   * Set or clear a child's picture password (hashed and stored by the server)
    */
-  static findFamilyById(id: string): Family | null {
-    const families = this.getAllFamilies();
-    return families.find(f => f.id === id) || null;
+  static async setChildPicturePassword(familyId: string, childId: string, pictures: string[] | null): Promise<boolean> {
+    if (pictures !== null && !MemberCredentialService.isValidPicturePassword(pictures)) {
+      return false;
+    }
+
+    const secret = pictures && MemberCredentialService.encodePicturePassword(pictures);
+    const family = await familyApiClient.setMemberSecret(familyId, childId, secret);
+    await this.cacheFamily(family);
+    return true;
   }
 
   /**
-   * Get all families from storage
+   * Update a guardian's personal preferences
    */
-  static getAllFamilies(): Family[] {
+  static async updateGuardianPreferences(
+    familyId: string,
+    guardianId: string,
+    preferences: Partial<GuardianPreferences>
+  ): Promise<boolean> {
+    const family = await this.findFamilyById(familyId);
+    const guardian = family?.guardians.find(g => g.id === guardianId);
+    if (!family || !guardian) {
+      return false;
+    }
+
+    guardian.preferences = { ...guardian.preferences, ...preferences };
+    family.lastActive = new Date();
+
+    // Save updated family
+    await this.saveFamily(family);
+
+    return true;
+  }
+
+  /**
+   * Check whether a guardian has approved this browser for a member yet
+   */
+  static async getDeviceStatus({ familyId, device, pairingToken }: PendingDevice): Promise<TrustedDevice['status'] | null> {
+    return familyApiClient.getDeviceStatus(familyId, device.memberId, DeviceIdentityService.getDeviceId(), pairingToken);
+  }
+
+  /**
+   * Approve (or restore) a member's device (guardians only)
+   */
+  static async approveDevice(familyId: string, deviceId: string, memberId: string): Promise<boolean> {
+    return (await this.updateDevice(familyId, { action: 'approve', deviceId, memberId })) !== null;
+  }
+
+  /**
+   * Approve the pending device showing this pairing code (guardians only)
+   */
+  static async approveDeviceByPairingCode(familyId: string, pairingCode: string): Promise<TrustedDevice | null> {
+    return this.updateDevice(familyId, { action: 'approve', pairingCode: pairingCode.trim() });
+  }
+
+  /**
+   * Revoke a member's device (guardians only) and sign it out remotely
+   */
+  static async revokeDevice(familyId: string, deviceId: string, memberId: string): Promise<boolean> {
+    if (!(await this.updateDevice(familyId, { action: 'revoke', deviceId, memberId }))) {
+      return false;
+    }
+
+    try {
+      await pusherService.sendDeviceRevoked(deviceId, memberId);
+    } catch (error) {
+      console.warn('Could not notify the revoked device:', error);
+    }
+
+    return true;
+  }
+
+  /**
+   * Have the server approve or revoke a device, caching the updated family.
+   * Null if there is no such device (or no device with that pairing code).
+   */
+  private static async updateDevice(familyId: string, change: DeviceChange): Promise<TrustedDevice | null> {
+    try {
+      const { family, device } = await familyApiClient.updateDevice(familyId, change);
+      await this.cacheFamily(family);
+      return device;
+    } catch (error) {
+      if (error instanceof FamilyApiError && error.status === 404) return null;
+      throw error;
+    }
+  }
+
+  /**
+   * Find family by ID - asks the registry first, falls back to the offline cache
+   */
+  static async findFamilyById(id: string): Promise<Family | null> {
+    try {
+      const family = await familyApiClient.getFamilyById(id);
+      if (family) await this.cacheFamily(family);
+      return family;
+    } catch (error) {
+      console.warn('Family registry unavailable, using offline cache:', error);
+      return this.store.get(id);
+    }
+  }
+
+  /**
+   * Get all families from the offline cache
+   */
+  static async getAllFamilies(): Promise<Family[]> {
     try {
-      const stored = localStorage.getItem(this.STORAGE_KEY);
-      if (!stored) return [];
-      
-      const families = JSON.parse(stored);
-      // Convert date strings back to Date objects
-      return families.map((family: any) => ({
-        ...family,
-        created: new Date(family.created),
-        lastActive: new Date(family.lastActive),
-        guardians: family.guardians.map((guardian: any) => ({
-          ...guardian,
-          lastSeen: new Date(guardian.lastSeen),
-        })),
-        children: family.children.map((child: any) => ({
-          ...child,
-          lastSeen: new Date(child.lastSeen),
-        })),
-      }));
+      return await this.store.getAll();
     } catch (error) {
       console.error('Error loading families from storage:', error);
       return [];
@@ -247,37 +406,43 @@ export class FamilyDataService {
   }
 
   /**
-   * Save family to storage
+   * Save family to the registry and the offline cache
    */
-  static saveFamily(family: Family): void {
+  static async saveFamily(family: Family): Promise<void> {
+    await this.cacheFamily(family);
     try {
-      const families = this.getAllFamilies();
-      const existingIndex = families.findIndex(f => f.id === family.id);
-      
-      if (existingIndex >= 0) {
-        families[existingIndex] = family;
-      } else {
-        families.push(family);
-      }
-      
-      localStorage.setItem(this.STORAGE_KEY, JSON.stringify(families));
+      await familyApiClient.updateFamily(family);
+    } catch (error) {
+      this.handleSyncError(error, family.id);
+    }
+  }
+
+  /**
+   * Write family to the local offline cache
+   */
+  private static async cacheFamily(family: Family): Promise<void> {
+    try {
+      await this.store.save(family);
     } catch (error) {
       console.error('Error saving family to storage:', error);
     }
   }
 
   /**
-   * Generate a unique device ID
+   * Rethrow registry rejections; tolerate being offline (the cache keeps the change)
    */
-  private static generateDeviceId(): string {
-    return `device-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+  private static handleSyncError(error: unknown, familyId: string): void {
+    if (error instanceof FamilyApiError) {
+      throw error;
+    }
+    console.warn(`Family ${familyId} saved offline only, registry unreachable:`, error);
   }
 
   /**
    * Update family member status
    */
-  static updateFamilyMemberStatus(familyId: string, userId: string, isOnline: boolean): void {
-    const family = this.findFamilyById(familyId);
+  static async updateFamilyMemberStatus(familyId: string, userId: string, isOnline: boolean): Promise<void> {
+    const family = await this.findFamilyById(familyId);
     if (!family) return;
 
     // Update guardian status
@@ -295,17 +460,24 @@ export class FamilyDataService {
     }
 
     family.lastActive = new Date();
-    this.saveFamily(family);
+    await this.saveFamily(family);
   }
 
   /**
    * Delete family (for testing/cleanup)
    */
-  static deleteFamily(familyId: string): boolean {
+  static async deleteFamily(familyId: string): Promise<boolean> {
     try {
-      const families = this.getAllFamilies();
-      const filteredFamilies = families.filter(f => f.id !== familyId);
-      localStorage.setItem(this.STORAGE_KEY, JSON.stringify(filteredFamilies));
+      await familyApiClient.deleteFamily(familyId);
+    } catch (error) {
+      if (!(error instanceof FamilyApiError && error.status === 404)) {
+        console.error('Error deleting family from registry:', error);
+        return false;
+      }
+    }
+
+    try {
+      await this.store.remove(familyId);
       return true;
     } catch (error) {
       console.error('Error deleting family:', error);
@@ -316,8 +488,8 @@ export class FamilyDataService {
   /**
    * Add a guardian to an existing family
    */
-  static addGuardianToFamily(familyId: string, guardianName: string, guardianEmail?: string): Guardian | null {
-    const family = this.findFamilyById(familyId);
+  static async addGuardianToFamily(familyId: string, guardianName: string, guardianEmail?: string): Promise<Guardian | null> {
+    const family = await this.findFamilyById(familyId);
     if (!family) {
       return null;
     }
@@ -330,7 +502,6 @@ export class FamilyDataService {
       avatar: '👨‍💼',
       isOnline: false,
       lastSeen: new Date(),
-      deviceId: this.generateDeviceId(),
       preferences: {
         theme: 'guardian',
         notifications: {
@@ -347,7 +518,7 @@ export class FamilyDataService {
     family.lastActive = new Date();
 
     // Save updated family
-    this.saveFamily(family);
+    await this.saveFamily(family);
 
     return guardian;
   }
@@ -355,8 +526,8 @@ export class FamilyDataService {
   /**
    * Remove a guardian from a family
    */
-  static removeGuardianFromFamily(familyId: string, guardianId: string): boolean {
-    const family = this.findFamilyById(familyId);
+  static async removeGuardianFromFamily(familyId: string, guardianId: string): Promise<boolean> {
+    const family = await this.findFamilyById(familyId);
     if (!family) {
       return false;
     }
@@ -370,7 +541,7 @@ export class FamilyDataService {
     family.lastActive = new Date();
 
     // Save updated family
-    this.saveFamily(family);
+    await this.saveFamily(family);
 
     return true;
   }
@@ -378,8 +549,8 @@ export class FamilyDataService {
   /**
    * Remove a child from a family
    */
-  static removeChildFromFamily(familyId: string, childId: string): boolean {
-    const family = this.findFamilyById(familyId);
+  static async removeChildFromFamily(familyId: string, childId: string): Promise<boolean> {
+    const family = await this.findFamilyById(familyId);
     if (!family) {
       return false;
     }
@@ -388,7 +559,7 @@ export class FamilyDataService {
     family.lastActive = new Date();
 
     // Save updated family
-    this.saveFamily(family);
+    await this.saveFamily(family);
 
     return true;
   }
@@ -396,8 +567,8 @@ export class FamilyDataService {
   /**
    * Update family settings
    */
-  static updateFamilySettings(familyId: string, settings: Partial<Family['settings']>): boolean {
-    const family = this.findFamilyById(familyId);
+  static async updateFamilySettings(familyId: string, settings: Partial<Family['settings']>): Promise<boolean> {
+    const family = await this.findFamilyById(familyId);
     if (!family) {
       return false;
     }
@@ -406,16 +577,37 @@ export class FamilyDataService {
     family.lastActive = new Date();
 
     // Save updated family
-    this.saveFamily(family);
+    await this.saveFamily(family);
 
     return true;
   }
 
+  /**
+   * Add or update an emergency event in the family's log (children can log their own)
+   */
+  static async recordEmergencyEvent(familyId: string, event: EmergencyEvent): Promise<Family> {
+    const family = await familyApiClient.recordEmergencyEvent(familyId, event);
+    await this.cacheFamily(family);
+    return family;
+  }
+
+  /**
+   * A copy of the family with the emergency event added, or updated if it's already there
+   */
+  static withEmergencyEvent(family: Family, event: EmergencyEvent): Family {
+    const events = family.emergencyEvents || [];
+    const isKnown = events.some(e => e.id === event.id);
+    const emergencyEvents = isKnown
+      ? events.map(e => (e.id === event.id ? event : e))
+      : [...events, event].slice(-MAX_EMERGENCY_EVENTS);
+    return { ...family, emergencyEvents, lastActive: new Date() };
+  }
+
   /**
    * Update family name
    */
-  static updateFamilyName(familyId: string, newName: string): boolean {
-    const family = this.findFamilyById(familyId);
+  static async updateFamilyName(familyId: string, newName: string): Promise<boolean> {
+    const family = await this.findFamilyById(familyId);
     if (!family) {
       return false;
     }
@@ -424,18 +616,17 @@ export class FamilyDataService {
     family.lastActive = new Date();
 
     // Save updated family
-    this.saveFamily(family);
+    await this.saveFamily(family);
 
     return true;
   }
 
   /**
-   * Clear all family data (for testing/cleanup)
+   * Clear the local family cache (for testing/cleanup)
    */
-  static clearAllFamilies(): void {
+  static async clearAllFamilies(): Promise<void> {
     try {
-      localStorage.removeItem(this.STORAGE_KEY);
-      localStorage.removeItem(this.CURRENT_FAMILY_KEY);
+      await this.store.clear();
     } catch (error) {
       console.error('Error clearing families:', error);
     }
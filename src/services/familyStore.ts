@@ -0,0 +1,191 @@
+/**
+ * ============================================================================
+ * KIDS CALL HOME - Family Store
+ * ============================================================================
+ *
+ * Purpose: Pluggable persistence for the local family cache
+ * Interface: Injected into FamilyDataService
+ * Dependencies: types, familySerializer
+ *
+ * V1 Features:
+ * - FamilyStore interface shared by all backends
+ * - In-memory store (Node, unit tests)
+ * - localStorage store (default in the browser)
+ * - IndexedDB store (larger quota, works in workers)
+ *
+ * Last Updated: 2024-09-09
+ * ============================================================================
+ */
+
+import type { Family } from '../types';
+import { deserializeFamilies, reviveFamily, serializeFamilies } from '../utils/familySerializer';
+
+/**
+ * FamilyStore - Minimal async persistence contract for family records
+ */
+export interface FamilyStore {
+  getAll(): Promise<Family[]>;
+  get(familyId: string): Promise<Family | null>;
+  save(family: Family): Promise<void>;
+  remove(familyId: string): Promise<void>;
+  clear(): Promise<void>;
+}
+
+/**
+ * InMemoryFamilyStore - Keeps families in a Map, cloned on the way in and out
+ */
+export class InMemoryFamilyStore implements FamilyStore {
+  private families = new Map<string, Family>();
+
+  constructor(initialFamilies: Family[] = []) {
+    initialFamilies.forEach(family => this.families.set(family.id, structuredClone(family)));
+  }
+
+  async getAll(): Promise<Family[]> {
+    return Array.from(this.families.values()).map(family => structuredClone(family));
+  }
+
+  async get(familyId: string): Promise<Family | null> {
+    const family = this.families.get(familyId);
+    return family ? structuredClone(family) : null;
+  }
+
+  async save(family: Family): Promise<void> {
+    this.families.set(family.id, structuredClone(family));
+  }
+
+  async remove(familyId: string): Promise<void> {
+    this.families.delete(familyId);
+  }
+
+  async clear(): Promise<void> {
+    this.families.clear();
+  }
+}
+
+/**
+ * LocalStorageFamilyStore - Stores all families as one JSON array
+ */
+export class LocalStorageFamilyStore implements FamilyStore {
+  private static readonly STORAGE_KEY = 'kids-call-home-families';
+  private static readonly CURRENT_FAMILY_KEY = 'kids-call-home-current-family';
+
+  private storage: Storage;
+
+  constructor(storage: Storage = localStorage) {
+    this.storage = storage;
+  }
+
+  async getAll(): Promise<Family[]> {
+    try {
+      const stored = this.storage.getItem(LocalStorageFamilyStore.STORAGE_KEY);
+      return stored ? deserializeFamilies(stored) : [];
+    } catch (error) {
+      console.error('Error loading families from storage:', error);
+      return [];
+    }
+  }
+
+  async get(familyId: string): Promise<Family | null> {
+    const families = await this.getAll();
+    return families.find(f => f.id === familyId) || null;
+  }
+
+  async save(family: Family): Promise<void> {
+    const families = await this.getAll();
+    const existingIndex = families.findIndex(f => f.id === family.id);
+
+    if (existingIndex >= 0) {
+      families[existingIndex] = family;
+    } else {
+      families.push(family);
+    }
+
+    this.write(families);
+  }
+
+  async remove(familyId: string): Promise<void> {
+    const families = await this.getAll();
+    this.write(families.filter(f => f.id !== familyId));
+  }
+
+  async clear(): Promise<void> {
+    this.storage.removeItem(LocalStorageFamilyStore.STORAGE_KEY);
+    this.storage.removeItem(LocalStorageFamilyStore.CURRENT_FAMILY_KEY);
+  }
+
+  private write(families: Family[]): void {
+    this.storage.setItem(LocalStorageFamilyStore.STORAGE_KEY, serializeFamilies(families));
+  }
+}
+
+/**
+ * IndexedDBFamilyStore - One object store keyed by family id
+ *
+ * IndexedDB uses structured clone, so Date fields survive as-is; records are
+ * still revived on read in case they were written by an older JSON-based path.
+ */
+export class IndexedDBFamilyStore implements FamilyStore {
+  private static readonly DATABASE_NAME = 'kids-call-home';
+  private static readonly OBJECT_STORE = 'families';
+  private static readonly VERSION = 1;
+
+  private database: Promise<IDBDatabase> | null = null;
+
+  private open(): Promise<IDBDatabase> {
+    if (!this.database) {
+      this.database = new Promise((resolve, reject) => {
+        const request = indexedDB.open(IndexedDBFamilyStore.DATABASE_NAME, IndexedDBFamilyStore.VERSION);
+        request.onupgradeneeded = () => {
+          request.result.createObjectStore(IndexedDBFamilyStore.OBJECT_STORE, { keyPath: 'id' });
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+      });
+    }
+    return this.database;
+  }
+
+  private async run<T>(mode: IDBTransactionMode, operation: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+    const database = await this.open();
+    return new Promise((resolve, reject) => {
+      const transaction = database.transaction(IndexedDBFamilyStore.OBJECT_STORE, mode);
+      const request = operation(transaction.objectStore(IndexedDBFamilyStore.OBJECT_STORE));
+      transaction.oncomplete = () => resolve(request.result);
+      transaction.onerror = () => reject(transaction.error);
+      transaction.onabort = () => reject(transaction.error);
+    });
+  }
+
+  async getAll(): Promise<Family[]> {
+    const families = await this.run<Family[]>('readonly', store => store.getAll());
+    return families.map(reviveFamily);
+  }
+
+  async get(familyId: string): Promise<Family | null> {
+    const family = await this.run<Family | undefined>('readonly', store => store.get(familyId));
+    return family ? reviveFamily(family) : null;
+  }
+
+  async save(family: Family): Promise<void> {
+    await this.run('readwrite', store => store.put(family));
+  }
+
+  async remove(familyId: string): Promise<void> {
+    await this.run('readwrite', store => store.delete(familyId));
+  }
+
+  async clear(): Promise<void> {
+    await this.run('readwrite', store => store.clear());
+  }
+}
+
+/**
+ * Pick the best available store for the current environment
+ */
+export function createDefaultFamilyStore(): FamilyStore {
+  if (typeof localStorage !== 'undefined') {
+    return new LocalStorageFamilyStore();
+  }
+  return new InMemoryFamilyStore();
+}
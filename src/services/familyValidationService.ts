@@ -26,55 +26,6 @@ export interface FamilyValidationResult {
 }
 
 export class FamilyValidationService {
-  /**
-   * Validate if a user can join a family
-   */
-  static validateFamilyJoin(
-    family: Family,
-    familyCode: string,
-    userName: string
-  ): FamilyValidationResult {
-    // Check family code
-    if (family.code.toUpperCase() !== familyCode.trim().toUpperCase()) {
-      return {
-        isValid: false,
-        error: `Invalid family code. Please check the code and try again, or ask your family for the correct code.`
-      };
-    }
-
-    // Look for user in guardians
-    const guardian = family.guardians.find(
-      g => g.name.toLowerCase() === userName.trim().toLowerCase()
-    );
-
-    if (guardian) {
-      return {
-        isValid: true,
-        user: guardian,
-        userType: 'guardian'
-      };
-    }
-
-    // Look for user in children
-    const child = family.children.find(
-      c => c.name.toLowerCase() === userName.trim().toLowerCase()
-    );
-
-    if (child) {
-      return {
-        isValid: true,
-        user: child,
-        userType: 'child'
-      };
-    }
-
-    // User not found in family
-    return {
-      isValid: false,
-      error: `Sorry, "${userName}" is not a member of the "${family.name}" family. Please check your name or ask your parents to add you to the family first.`
-    };
-  }
-
   /**
    * Validate if a call can be made between two users
    */
@@ -136,7 +87,7 @@ export class FamilyValidationService {
   static getFamilyErrorMessage(
     familyName: string,
     userName: string,
-    errorType: 'not_member' | 'invalid_code' | 'call_unauthorized'
+    errorType: 'not_member' | 'invalid_code' | 'code_expired' | 'code_used_up' | 'call_unauthorized'
   ): string {
     switch (errorType) {
       case 'not_member':
@@ -145,6 +96,12 @@ export class FamilyValidationService {
       case 'invalid_code':
         return `Invalid family code. Please check the code and try again, or ask your family for the correct code.`;
       
+      case 'code_expired':
+        return `This family code has expired. Please ask a parent in the "${familyName}" family for a new code.`;
+      
+      case 'code_used_up':
+        return `This family code has already been used the maximum number of times. Please ask a parent in the "${familyName}" family for a new code.`;
+      
       case 'call_unauthorized':
         return `You can only call members of your own family.`;
       
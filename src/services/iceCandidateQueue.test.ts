@@ -0,0 +1,244 @@
+/**
+ * ============================================================================
+ * KIDS CALL HOME - ICE Candidate Queue Tests
+ * ============================================================================
+ *
+ * Purpose: Trickle ICE ordering when the relay batches, delays or reorders
+ * Dependencies: vitest, a fake RTCPeerConnection
+ *
+ * Last Updated: 2024-09-09
+ * ============================================================================
+ */
+
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { IceCandidateBatch } from '../../api/_lib/signalingProtocol.js';
+import { IceCandidateBatcher, RemoteIceCandidateQueue, type IceCandidateTarget } from './iceCandidateQueue';
+
+const END_OF_CANDIDATES = 'end-of-candidates';
+
+/**
+ * Records the candidates added to it, like a peer connection would apply them
+ */
+class FakePeerConnection implements IceCandidateTarget {
+  remoteDescription: RTCSessionDescription | null = null;
+  added: (string | typeof END_OF_CANDIDATES)[] = [];
+
+  setRemoteDescription(ufrag: string): void {
+    const description = { type: 'offer' as const, sdp: `v=0\r\na=ice-ufrag:${ufrag}\r\na=ice-pwd:secret\r\n` };
+    this.remoteDescription = { ...description, toJSON: () => description };
+  }
+
+  async addIceCandidate(candidate?: RTCIceCandidateInit | null): Promise<void> {
+    this.added.push(candidate?.candidate ?? END_OF_CANDIDATES);
+  }
+}
+
+const candidate = (name: string): RTCIceCandidateInit => ({ candidate: name, sdpMid: '0', sdpMLineIndex: 0 });
+
+const batch = (seq: number, names: string[], extra: Partial<IceCandidateBatch> = {}): IceCandidateBatch => ({
+  callId: 'call-1',
+  seq,
+  candidates: names.map(candidate),
+  ...extra,
+});
+
+// Let the queue's chained addIceCandidate calls run
+const settle = () => new Promise(resolve => setTimeout(resolve, 0));
+
+describe('RemoteIceCandidateQueue', () => {
+  let peer: FakePeerConnection;
+  let queue: RemoteIceCandidateQueue;
+
+  beforeEach(() => {
+    peer = new FakePeerConnection();
+    queue = new RemoteIceCandidateQueue(peer);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('holds candidates that arrive before the remote description', async () => {
+    queue.receive(batch(0, ['a', 'b']));
+    queue.receive(batch(1, ['c'], { endOfCandidates: true }));
+    await settle();
+    expect(peer.added).toEqual([]);
+
+    peer.setRemoteDescription('ufrag1');
+    queue.remoteDescriptionSet();
+    await settle();
+    expect(peer.added).toEqual(['a', 'b', 'c', END_OF_CANDIDATES]);
+  });
+
+  it('applies reordered batches and waits for gaps before ending', async () => {
+    peer.setRemoteDescription('ufrag1');
+    queue.remoteDescriptionSet();
+
+    queue.receive(batch(2, ['e'], { endOfCandidates: true }));
+    queue.receive(batch(0, ['a', 'b']));
+    await settle();
+    expect(peer.added).toEqual(['e', 'a', 'b']);
+
+    queue.receive(batch(1, ['c', 'd']));
+    await settle();
+    expect(peer.added).toEqual(['e', 'a', 'b', 'c', 'd', END_OF_CANDIDATES]);
+  });
+
+  it('ignores a batch it has already received', async () => {
+    peer.setRemoteDescription('ufrag1');
+    queue.remoteDescriptionSet();
+
+    queue.receive(batch(0, ['a']));
+    queue.receive(batch(0, ['a']));
+    await settle();
+    expect(peer.added).toEqual(['a']);
+  });
+
+  it('applies end-of-candidates only after the batch that arrived after it', async () => {
+    peer.setRemoteDescription('ufrag1');
+    queue.remoteDescriptionSet();
+
+    queue.receive(batch(1, [], { endOfCandidates: true }));
+    await settle();
+    expect(peer.added).toEqual([]);
+
+    queue.receive(batch(0, ['a']));
+    await settle();
+    expect(peer.added).toEqual(['a', END_OF_CANDIDATES]);
+
+    // Renegotiating with the same ICE credentials doesn't end candidates again
+    queue.remoteDescriptionSet();
+    await settle();
+    expect(peer.added).toEqual(['a', END_OF_CANDIDATES]);
+  });
+
+  it('holds a new generation until the restart offer with the new ufrag is set', async () => {
+    peer.setRemoteDescription('ufrag1');
+    queue.remoteDescriptionSet();
+    queue.receive(batch(0, ['a'], { generation: 0, endOfCandidates: true }));
+    await settle();
+    expect(peer.added).toEqual(['a', END_OF_CANDIDATES]);
+
+    // The restart's candidates overtake its offer
+    queue.receive(batch(0, ['x'], { generation: 1 }));
+    queue.receive(batch(1, ['y'], { generation: 1, endOfCandidates: true }));
+    await settle();
+    expect(peer.added).toEqual(['a', END_OF_CANDIDATES]);
+
+    peer.setRemoteDescription('ufrag2');
+    queue.remoteDescriptionSet();
+    await settle();
+    expect(peer.added).toEqual(['a', END_OF_CANDIDATES, 'x', 'y', END_OF_CANDIDATES]);
+
+    // A straggler from before the restart is dropped
+    queue.receive(batch(1, ['late'], { generation: 0 }));
+    await settle();
+    expect(peer.added).toEqual(['a', END_OF_CANDIDATES, 'x', 'y', END_OF_CANDIDATES]);
+  });
+
+  it('keeps applying candidates when one fails', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const addIceCandidate = vi.spyOn(peer, 'addIceCandidate');
+    addIceCandidate.mockRejectedValueOnce(new Error('bad candidate'));
+    peer.setRemoteDescription('ufrag1');
+    queue.remoteDescriptionSet();
+
+    queue.receive(batch(0, ['bad', 'good']));
+    await settle();
+    expect(addIceCandidate).toHaveBeenCalledTimes(2);
+    expect(peer.added).toEqual(['good']);
+  });
+});
+
+describe('IceCandidateBatcher', () => {
+  let sent: IceCandidateBatch[];
+  let batcher: IceCandidateBatcher;
+
+  const names = (sentBatch: IceCandidateBatch) => sentBatch.candidates.map(c => c.candidate);
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    sent = [];
+    batcher = new IceCandidateBatcher('call-1', async (sentBatch) => {
+      sent.push(sentBatch);
+    });
+    batcher.startGathering();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it('sends candidates 100ms after the first one', () => {
+    batcher.add(candidate('a'));
+    batcher.add(candidate('b'));
+    vi.advanceTimersByTime(99);
+    expect(sent).toEqual([]);
+
+    vi.advanceTimersByTime(1);
+    expect(sent).toHaveLength(1);
+    expect(sent[0]).toMatchObject({ callId: 'call-1', generation: 0, seq: 0 });
+    expect(names(sent[0])).toEqual(['a', 'b']);
+    expect(sent[0].endOfCandidates).toBeUndefined();
+  });
+
+  it('sends straight away once 12 candidates are waiting', () => {
+    for (let i = 0; i < 13; i++) batcher.add(candidate(`c${i}`));
+    expect(sent).toHaveLength(1);
+    expect(sent[0].candidates).toHaveLength(12);
+
+    vi.advanceTimersByTime(100);
+    expect(sent).toHaveLength(2);
+    expect(sent[1].seq).toBe(1);
+    expect(names(sent[1])).toEqual(['c12']);
+  });
+
+  it('sends what is left with the end of candidates', () => {
+    batcher.add(candidate('a'));
+    batcher.end();
+    expect(sent).toHaveLength(1);
+    expect(sent[0]).toMatchObject({ seq: 0, endOfCandidates: true });
+
+    // Nothing is sent after the end, and the timer is gone
+    batcher.add(candidate('late'));
+    vi.advanceTimersByTime(100);
+    expect(sent).toHaveLength(1);
+  });
+
+  it('sends an empty last batch when nothing is waiting', () => {
+    batcher.add(candidate('a'));
+    vi.advanceTimersByTime(100);
+    batcher.end();
+    expect(sent).toHaveLength(2);
+    expect(sent[1]).toMatchObject({ seq: 1, candidates: [], endOfCandidates: true });
+  });
+
+  it('starts a new generation when gathering starts again', () => {
+    batcher.add(candidate('a'));
+    batcher.end();
+
+    batcher.startGathering();
+    batcher.add(candidate('b'));
+    vi.advanceTimersByTime(100);
+    expect(sent).toHaveLength(2);
+    expect(sent[1]).toMatchObject({ generation: 1, seq: 0 });
+    expect(names(sent[1])).toEqual(['b']);
+  });
+
+  it('drops candidates from the previous round on an ICE restart', () => {
+    batcher.add(candidate('old'));
+    batcher.startGathering();
+    vi.advanceTimersByTime(100);
+    expect(sent).toEqual([]);
+  });
+
+  it('sends nothing after dispose', () => {
+    batcher.add(candidate('a'));
+    batcher.dispose();
+    vi.advanceTimersByTime(100);
+    batcher.add(candidate('b'));
+    batcher.end();
+    expect(sent).toEqual([]);
+  });
+});
@@ -0,0 +1,240 @@
+/**
+ * ============================================================================
+ * KIDS CALL HOME - ICE Candidate Queue
+ * ============================================================================
+ *
+ * Purpose: Trickle ICE over a relay that may batch, delay or reorder messages
+ * Interface: Used by callEngine, one batcher and one queue per call
+ * Dependencies: signalingProtocol (IceCandidateBatch)
+ *
+ * V1 Features:
+ * - Outgoing candidates batched into numbered messages (fewer API calls)
+ * - End-of-candidates sent with the last batch
+ * - Incoming candidates held until the remote description is set
+ * - End-of-candidates applied only once every earlier batch has arrived
+ * - Duplicate batches ignored
+ * - ICE restarts: each gathering round is a new generation, and candidates
+ *   wait for the description they belong to
+ *
+ * Last Updated: 2024-09-09
+ * ============================================================================
+ */
+
+import { MAX_ICE_CANDIDATES_PER_MESSAGE, type IceCandidateBatch } from '../../api/_lib/signalingProtocol.js';
+
+// How long to collect candidates before sending them - most arrive together
+const BATCH_DELAY_MS = 100;
+
+interface GenerationState {
+  receivedSeqs: Set<number>;
+  waiting: RTCIceCandidateInit[];
+  lastSeq: number | null;    // Seq of the batch marked endOfCandidates
+  hasAppliedEnd: boolean;
+}
+
+/**
+ * Read the ICE username fragment from an SDP (it changes on ICE restart)
+ */
+function readIceUfrag(sdp: string | undefined): string | null {
+  return sdp?.match(/^a=ice-ufrag:(\S+)/m)?.[1] ?? null;
+}
+
+/**
+ * Whether every batch up to the last one of a generation has arrived
+ */
+function hasAllBatches(state: GenerationState): boolean {
+  if (state.lastSeq === null) return false;
+  for (let seq = 0; seq <= state.lastSeq; seq++) {
+    if (!state.receivedSeqs.has(seq)) return false;
+  }
+  return true;
+}
+
+/**
+ * IceCandidateBatcher - Collects our candidates and sends them in batches
+ */
+export class IceCandidateBatcher {
+  private readonly callId: string;
+  private readonly send: (batch: IceCandidateBatch) => Promise<void>;
+  private candidates: RTCIceCandidateInit[] = [];
+  private generation = 0;
+  private hasGathered = false;
+  private nextSeq = 0;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private ended = false;
+
+  constructor(callId: string, send: (batch: IceCandidateBatch) => Promise<void>) {
+    this.callId = callId;
+    this.send = send;
+  }
+
+  /**
+   * Gathering started - after the first round, that's an ICE restart
+   */
+  startGathering(): void {
+    if (this.hasGathered) {
+      this.clearTimer();
+      this.generation++;
+      this.nextSeq = 0;
+      this.candidates = [];
+    }
+    this.hasGathered = true;
+    this.ended = false;
+  }
+
+  /**
+   * Queue a candidate, sending straight away once a batch is full
+   */
+  add(candidate: RTCIceCandidateInit): void {
+    if (this.ended) return;
+
+    this.candidates.push(candidate);
+    if (this.candidates.length >= MAX_ICE_CANDIDATES_PER_MESSAGE) {
+      this.flush();
+    } else if (!this.timer) {
+      this.timer = setTimeout(() => this.flush(), BATCH_DELAY_MS);
+    }
+  }
+
+  /**
+   * Gathering finished - send what's left, marked as the last batch
+   */
+  end(): void {
+    if (this.ended) return;
+    this.ended = true;
+    this.flush(true);
+  }
+
+  /**
+   * Stop without sending anything else (the call ended)
+   */
+  dispose(): void {
+    this.ended = true;
+    this.candidates = [];
+    this.clearTimer();
+  }
+
+  /**
+   * Send the queued candidates
+   */
+  private flush(endOfCandidates = false): void {
+    this.clearTimer();
+    if (this.candidates.length === 0 && !endOfCandidates) return;
+
+    const batch: IceCandidateBatch = {
+      callId: this.callId,
+      generation: this.generation,
+      seq: this.nextSeq++,
+      candidates: this.candidates.splice(0, MAX_ICE_CANDIDATES_PER_MESSAGE),
+      ...(endOfCandidates && this.candidates.length === 0 ? { endOfCandidates: true } : {}),
+    };
+
+    this.send(batch).catch(error => console.warn(`Failed to send ICE candidates (batch ${batch.seq}):`, error));
+
+    // A full batch may have left more behind
+    if (this.candidates.length > 0) {
+      this.flush(endOfCandidates);
+    }
+  }
+
+  /**
+   * Cancel the pending send
+   */
+  private clearTimer(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+}
+
+/**
+ * The parts of RTCPeerConnection the queue needs
+ */
+export type IceCandidateTarget = Pick<RTCPeerConnection, 'addIceCandidate' | 'remoteDescription'>;
+
+/**
+ * RemoteIceCandidateQueue - Applies the other side's candidates in a safe order
+ */
+export class RemoteIceCandidateQueue {
+  private readonly target: IceCandidateTarget;
+  private readonly generations = new Map<number, GenerationState>();
+  private remoteGeneration = -1;             // -1 until the first remote description
+  private remoteUfrag: string | null = null;
+  private pending: Promise<void> = Promise.resolve();
+
+  constructor(target: IceCandidateTarget) {
+    this.target = target;
+  }
+
+  /**
+   * A batch from the other side, in whatever order it arrived
+   */
+  receive(batch: IceCandidateBatch): void {
+    const generation = batch.generation ?? 0;
+    if (generation < this.remoteGeneration) return;  // From before an ICE restart
+
+    let state = this.generations.get(generation);
+    if (!state) {
+      state = { receivedSeqs: new Set(), waiting: [], lastSeq: null, hasAppliedEnd: false };
+      this.generations.set(generation, state);
+    }
+    if (state.receivedSeqs.has(batch.seq)) return;
+
+    state.receivedSeqs.add(batch.seq);
+    state.waiting.push(...batch.candidates);
+    if (batch.endOfCandidates) {
+      state.lastSeq = batch.seq;
+    }
+    this.drain();
+  }
+
+  /**
+   * Call after setRemoteDescription - applies anything that arrived early.
+   * New ICE credentials in the description mean the other side restarted ICE.
+   */
+  remoteDescriptionSet(): void {
+    const ufrag = readIceUfrag(this.target.remoteDescription?.sdp);
+    if (this.remoteGeneration < 0 || ufrag !== this.remoteUfrag) {
+      this.remoteGeneration++;
+      this.remoteUfrag = ufrag;
+      for (const generation of [...this.generations.keys()]) {
+        if (generation < this.remoteGeneration) this.generations.delete(generation);
+      }
+    }
+    this.drain();
+  }
+
+  /**
+   * Apply waiting candidates (and end-of-candidates) for the current remote description
+   */
+  private drain(): void {
+    const state = this.generations.get(this.remoteGeneration);
+    if (!state || !this.target.remoteDescription) return;
+
+    const candidates = state.waiting;
+    state.waiting = [];
+    const shouldApplyEnd = !state.hasAppliedEnd && hasAllBatches(state);
+    if (shouldApplyEnd) state.hasAppliedEnd = true;
+
+    // Chain so candidates are applied one at a time, in arrival order
+    this.pending = this.pending.then(async () => {
+      for (const candidate of candidates) {
+        try {
+          await this.target.addIceCandidate(candidate);
+        } catch (error) {
+          console.warn('Failed to add ICE candidate:', error);
+        }
+      }
+
+      if (shouldApplyEnd) {
+        try {
+          await this.target.addIceCandidate();
+        } catch (error) {
+          // Older browsers don't support end-of-candidates - ICE still completes
+          console.warn('Failed to signal end of ICE candidates:', error);
+        }
+      }
+    });
+  }
+}
@@ -0,0 +1,95 @@
+/**
+ * ============================================================================
+ * KIDS CALL HOME - ICE Server Service
+ * ============================================================================
+ *
+ * Purpose: TURN relay servers for the call engine's peer connections
+ * Interface: Used by callEngine before each call
+ * Dependencies: sessionService, /api/turn-credentials endpoint
+ *
+ * V1 Features:
+ * - Short-lived TURN credentials fetched with the session token
+ * - Reused until a couple of hours before they expire
+ * - Calls fall back to STUN only if the server can't be reached
+ *
+ * Last Updated: 2024-09-09
+ * ============================================================================
+ */
+
+import { sessionService } from './sessionService';
+
+interface TurnCredentials {
+  iceServers: RTCIceServer[];
+  expiresAt: string | null;  // null when the deployment has no TURN server
+}
+
+// Credentials must outlast the call they're used for
+const REFRESH_MARGIN_MS = 2 * 60 * 60 * 1000;
+
+// How long to remember that there's no TURN server before asking again
+const NO_TURN_RECHECK_MS = 60 * 60 * 1000;
+
+class IceServerService {
+  private readonly endpoint = '/api/turn-credentials';
+  private cached: { iceServers: RTCIceServer[]; refreshAt: number } | null = null;
+  private pending: Promise<RTCIceServer[]> | null = null;
+
+  /**
+   * Get the TURN servers for a call ([] if there are none or they can't be fetched)
+   */
+  getTurnServers(): Promise<RTCIceServer[]> {
+    if (this.cached && this.cached.refreshAt > Date.now()) {
+      return Promise.resolve(this.cached.iceServers);
+    }
+
+    if (!this.pending) {
+      const request = this.requestCredentials()
+        .then(({ iceServers, expiresAt }) => {
+          const refreshAt = expiresAt
+            ? new Date(expiresAt).getTime() - REFRESH_MARGIN_MS
+            : Date.now() + NO_TURN_RECHECK_MS;
+          if (this.pending === request) {
+            this.cached = { iceServers, refreshAt };
+          }
+          return iceServers;
+        })
+        .catch((error) => {
+          console.warn('⚠️ Could not get TURN credentials, calls will use STUN only:', error);
+          return [];
+        })
+        .finally(() => {
+          if (this.pending === request) this.pending = null;
+        });
+      this.pending = request;
+    }
+    return this.pending;
+  }
+
+  /**
+   * Forget the credentials (sign out - they belong to the signed-in member)
+   */
+  clear(): void {
+    this.cached = null;
+    this.pending = null;
+  }
+
+  /**
+   * Ask the server for credentials
+   */
+  private async requestCredentials(): Promise<TurnCredentials> {
+    const response = await fetch(this.endpoint, {
+      headers: { 'Authorization': `Bearer ${await sessionService.getToken()}` },
+    });
+
+    const result = await response.json().catch(() => ({}));
+    if (!response.ok) {
+      sessionService.handleRejection(response.status, result.code);
+      throw new Error(result.error || `HTTP error! status: ${response.status}`);
+    }
+    return result.data as TurnCredentials;
+  }
+}
+
+// Export singleton instance
+export const iceServerService = new IceServerService();
+export default iceServerService;
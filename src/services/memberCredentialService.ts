@@ -0,0 +1,62 @@
+/**
+ * ============================================================================
+ * KIDS CALL HOME - Member Credential Service
+ * ============================================================================
+ *
+ * Purpose: Per-member PINs and picture passwords on top of the family code
+ * Interface: Used by FamilyDataService, LoginPage, SetupPage, GuardianDashboard
+ * Dependencies: types
+ *
+ * V1 Features:
+ * - Numeric PINs for guardians
+ * - Picture passwords for children (tap pictures in order)
+ * - Format checks before a secret is sent to the server, which hashes,
+ *   verifies and locks out (see api/_lib/memberSecrets.js)
+ *
+ * Last Updated: 2024-09-09
+ * ============================================================================
+ */
+
+import type { Child, Guardian, MemberCredentials } from '../types';
+
+export type SecretKind = MemberCredentials['kind'];
+
+// Pictures a child can pick from, in the order they appear on the pad
+// (api/_lib/memberSecrets.js checks secrets against the same list)
+export const PICTURE_PASSWORD_PICTURES = ['🐶', '🐱', '🦁', '🐸', '🐵', '🦄', '🍎', '⚽', '🚀', '🌈', '⭐', '🌻'];
+export const PICTURE_PASSWORD_LENGTH = 3;
+
+const PIN_PATTERN = /^\d{4,8}$/;
+
+export class MemberCredentialService {
+  /**
+   * Which secret (if any) this member must enter after the family code
+   */
+  static getSecretKind(user: Guardian | Child): SecretKind | null {
+    return user.credentials?.kind ?? null;
+  }
+
+  /**
+   * PINs are 4 to 8 digits
+   */
+  static isValidPin(pin: string): boolean {
+    return PIN_PATTERN.test(pin);
+  }
+
+  /**
+   * Picture passwords are a fixed-length sequence from the picture pad
+   */
+  static isValidPicturePassword(pictures: string[]): boolean {
+    return pictures.length === PICTURE_PASSWORD_LENGTH &&
+      pictures.every(picture => PICTURE_PASSWORD_PICTURES.includes(picture));
+  }
+
+  /**
+   * Turn a picture sequence into the string that gets hashed and verified
+   */
+  static encodePicturePassword(pictures: string[]): string {
+    return pictures.join(' ');
+  }
+}
+
+export default MemberCredentialService;
@@ -0,0 +1,274 @@
+/**
+ * ============================================================================
+ * KIDS CALL HOME - Network Monitor
+ * ============================================================================
+ *
+ * Purpose: Measure real network quality for calls and the dashboards
+ * Interface: Used by useWebRTC, useAppStore, App and dashboards
+ * Dependencies: WebRTC stats API, Network Information API, types
+ *
+ * V1 Features:
+ * - Polls RTCPeerConnection.getStats() during calls
+ * - Round-trip time, jitter, packet loss and available bandwidth
+ * - Connection type from the Network Information API (where supported)
+ * - Ratings for NetworkInfo and CallState.quality
+ *
+ * Last Updated: 2024-09-09
+ * ============================================================================
+ */
+
+import type { CallState, NetworkInfo } from '../types';
+
+export type QualityRating = 'excellent' | 'good' | 'fair' | 'poor';
+
+export interface NetworkStatsSample {
+  roundTripTime?: number;            // Milliseconds
+  jitter: number;                    // Milliseconds
+  packetLoss: number;                // Percentage over the last interval
+  availableOutgoingBitrate?: number; // Bits per second
+}
+
+// Network Information API (not in lib.dom, Chromium and Android only)
+interface NetworkInformationLike extends EventTarget {
+  type?: string;
+  effectiveType?: string;
+  downlink?: number;  // Mbps
+  rtt?: number;       // Milliseconds
+}
+
+// The subset of RTCStats fields we read, across candidate-pair and rtp entries
+type StatsEntry = RTCStats & Partial<{
+  state: string;
+  nominated: boolean;
+  selected: boolean;
+  currentRoundTripTime: number;
+  availableOutgoingBitrate: number;
+  jitter: number;
+  packetsLost: number;
+  packetsReceived: number;
+  roundTripTime: number;
+}>;
+
+const DEFAULT_POLL_INTERVAL_MS = 2000;
+
+/**
+ * Get the Network Information API object, if the browser has one
+ */
+function getConnection(): NetworkInformationLike | undefined {
+  return (navigator as Navigator & { connection?: NetworkInformationLike }).connection;
+}
+
+/**
+ * Map the Network Information API type to our connection type
+ */
+function getConnectionType(connection?: NetworkInformationLike): NetworkInfo['connectionType'] {
+  switch (connection?.type) {
+    case 'wifi':
+      return 'wifi';
+    case 'cellular':
+      return 'cellular';
+    case 'ethernet':
+      return 'ethernet';
+    default:
+      return 'unknown';
+  }
+}
+
+/**
+ * Rate a connection from latency, jitter and loss
+ */
+function rateLink(latency: number, jitter: number, packetLoss: number): QualityRating {
+  if (latency < 100 && jitter < 20 && packetLoss < 1) return 'excellent';
+  if (latency < 200 && jitter < 40 && packetLoss < 3) return 'good';
+  if (latency < 400 && packetLoss < 8) return 'fair';
+  return 'poor';
+}
+
+/**
+ * Bucket available bandwidth (bits per second, or Mbps from the Network Information API)
+ */
+function rateBandwidth(bitsPerSecond?: number, downlinkMbps?: number): NetworkInfo['bandwidth'] {
+  const bps = bitsPerSecond ?? (downlinkMbps !== undefined ? downlinkMbps * 1_000_000 : undefined);
+  if (bps === undefined) return 'medium';
+  if (bps >= 1_500_000) return 'high';
+  if (bps >= 500_000) return 'medium';
+  return 'low';
+}
+
+/**
+ * NetworkInfo from the Network Information API alone (no call running).
+ * Returns null when the browser doesn't expose the API.
+ */
+export function readConnectionInfo(): NetworkInfo | null {
+  const connection = getConnection();
+  if (!connection) return null;
+
+  const latency = connection.rtt ?? 0;
+  const effectiveType = connection.effectiveType;
+  const signalStrength: QualityRating =
+    effectiveType === 'slow-2g' || effectiveType === '2g' ? 'poor'
+      : effectiveType === '3g' ? 'fair'
+        : rateLink(latency, 0, 0);
+
+  return {
+    connectionType: getConnectionType(connection),
+    signalStrength,
+    bandwidth: rateBandwidth(undefined, connection.downlink),
+    latency,
+    jitter: 0,
+    packetLoss: 0,
+  };
+}
+
+/**
+ * Call back when the Network Information API reports a change.
+ * Returns a function that stops watching.
+ */
+export function watchConnectionChanges(onChange: (networkInfo: NetworkInfo) => void): () => void {
+  const connection = getConnection();
+  if (!connection) return () => {};
+
+  const handleChange = () => {
+    const networkInfo = readConnectionInfo();
+    if (networkInfo) onChange(networkInfo);
+  };
+
+  connection.addEventListener('change', handleChange);
+  return () => connection.removeEventListener('change', handleChange);
+}
+
+/**
+ * Combine a stats sample with the Network Information API into NetworkInfo
+ */
+export function toNetworkInfo(sample: NetworkStatsSample): NetworkInfo {
+  const connection = getConnection();
+  const latency = sample.roundTripTime ?? connection?.rtt ?? 0;
+
+  return {
+    connectionType: getConnectionType(connection),
+    signalStrength: rateLink(latency, sample.jitter, sample.packetLoss),
+    bandwidth: rateBandwidth(sample.availableOutgoingBitrate, connection?.downlink),
+    latency: Math.round(latency),
+    jitter: Math.round(sample.jitter),
+    packetLoss: Math.round(sample.packetLoss * 10) / 10,
+  };
+}
+
+/**
+ * Overall rating for a NetworkInfo (what the status badges show)
+ */
+export function rateNetworkInfo(networkInfo: NetworkInfo): QualityRating {
+  return networkInfo.signalStrength;
+}
+
+/**
+ * Map NetworkInfo onto CallState.quality
+ */
+export function rateCallQuality(networkInfo: NetworkInfo, hasVideo: boolean): CallState['quality'] {
+  const audio = rateNetworkInfo(networkInfo);
+  const ratings: QualityRating[] = ['excellent', 'good', 'fair', 'poor'];
+  // Video needs more bandwidth than audio, so low bandwidth costs it a step
+  const video = networkInfo.bandwidth === 'low'
+    ? ratings[Math.min(ratings.indexOf(audio) + 1, ratings.length - 1)]
+    : audio;
+
+  return {
+    audio,
+    video: hasVideo ? video : undefined,
+    connection: networkInfo.packetLoss < 2 && networkInfo.latency < 300
+      ? 'stable'
+      : networkInfo.packetLoss < 8 ? 'unstable' : 'poor',
+  };
+}
+
+/**
+ * NetworkStatsCollector - Polls getStats() and reports one sample per interval
+ */
+export class NetworkStatsCollector {
+  private readonly getStats: () => Promise<RTCStatsReport>;
+  private readonly onSample: (sample: NetworkStatsSample) => void;
+  private readonly intervalMs: number;
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private previousLost = 0;
+  private previousReceived = 0;
+
+  constructor(
+    getStats: () => Promise<RTCStatsReport>,
+    onSample: (sample: NetworkStatsSample) => void,
+    intervalMs: number = DEFAULT_POLL_INTERVAL_MS
+  ) {
+    this.getStats = getStats;
+    this.onSample = onSample;
+    this.intervalMs = intervalMs;
+  }
+
+  /**
+   * Start polling (no-op if already running)
+   */
+  start(): void {
+    if (this.timer) return;
+    this.previousLost = 0;
+    this.previousReceived = 0;
+    this.timer = setInterval(() => {
+      this.collect().catch(error => console.warn('Failed to read call stats:', error));
+    }, this.intervalMs);
+  }
+
+  /**
+   * Stop polling
+   */
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Read one stats report and turn it into a sample
+   */
+  private async collect(): Promise<void> {
+    const report = await this.getStats();
+
+    let roundTripTime: number | undefined;
+    let remoteRoundTripTime: number | undefined;
+    let availableOutgoingBitrate: number | undefined;
+    let jitter = 0;
+    let packetsLost = 0;
+    let packetsReceived = 0;
+
+    report.forEach((stat: StatsEntry) => {
+      switch (stat.type) {
+        case 'candidate-pair':
+          // Chrome/Safari mark the active pair as nominated+succeeded, Firefox as selected
+          if (stat.selected || (stat.nominated && stat.state === 'succeeded')) {
+            if (stat.currentRoundTripTime !== undefined) roundTripTime = stat.currentRoundTripTime * 1000;
+            if (stat.availableOutgoingBitrate !== undefined) availableOutgoingBitrate = stat.availableOutgoingBitrate;
+          }
+          break;
+        case 'inbound-rtp':
+          jitter = Math.max(jitter, (stat.jitter ?? 0) * 1000);
+          packetsLost += stat.packetsLost ?? 0;
+          packetsReceived += stat.packetsReceived ?? 0;
+          break;
+        case 'remote-inbound-rtp':
+          if (stat.roundTripTime !== undefined) remoteRoundTripTime = stat.roundTripTime * 1000;
+          break;
+      }
+    });
+
+    // Loss over the last interval rather than since the call started
+    const lostDelta = Math.max(0, packetsLost - this.previousLost);
+    const receivedDelta = Math.max(0, packetsReceived - this.previousReceived);
+    this.previousLost = packetsLost;
+    this.previousReceived = packetsReceived;
+    const total = lostDelta + receivedDelta;
+
+    this.onSample({
+      roundTripTime: roundTripTime ?? remoteRoundTripTime,
+      jitter,
+      packetLoss: total > 0 ? (lostDelta / total) * 100 : 0,
+      availableOutgoingBitrate,
+    });
+  }
+}
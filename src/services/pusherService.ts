@@ -3,19 +3,37 @@
  * KIDS CALL HOME - Pusher Service
  * ============================================================================
  * 
- * Purpose: Handle real-time communication using Pusher
- * Technology: Pusher-js client library
+ * Purpose: Handle real-time communication with the family
+ * Technology: Pusher or the self-hosted WebSocket server (SignalingTransport)
  * 
  * Features:
  * - WebRTC signaling (offers, answers, ICE candidates)
  * - Call notifications (incoming, accepted, rejected)
+ * - Group calls (who joined)
+ * - Call hold, and replies when declining a call
+ * - Family presence (who is online)
+ * - Family chat messages
+ * - Emergency alerts
  * - Connection management
  * 
  * Last Updated: 2024-09-09
  * ============================================================================
  */
 
-import Pusher from 'pusher-js';
+import {
+  SIGNALING_PROTOCOL_VERSION,
+  validateSignalingMessage,
+  type CallParticipantInfo,
+  type IceCandidateBatch,
+  type SignalingAction,
+  type SignalingDataByAction,
+} from '../../api/_lib/signalingProtocol.js';
+import type { CallOutcome, EmergencyEvent } from '../types';
+import { iceServerService } from './iceServerService';
+import { PusherTransport } from './pusherTransport';
+import { sessionService } from './sessionService';
+import type { PresenceChange, SignalingTransport } from './signalingTransport';
+import { WebSocketTransport } from './websocketTransport';
 
 export interface SignalingData {
   from: string;
@@ -23,187 +41,150 @@ export interface SignalingData {
   timestamp: string;
   offer?: RTCSessionDescriptionInit;
   answer?: RTCSessionDescriptionInit;
-  candidate?: RTCIceCandidateInit;
   callType?: 'voice' | 'video';
+  reason?: CallOutcome;   // Why the other side ended the call
+  callId?: string;        // Which call this is about
+  fromMemberId?: string;  // Who answered or declined
+  reply?: string;         // Message sent with a decline
+}
+
+export interface IceCandidatesNotice extends IceCandidateBatch {
+  from: string;
+  to: string;
+  timestamp: string;
 }
 
 export interface CallNotification {
   from: string;
   to: string;
   callType: 'voice' | 'video';
+  callId: string;
+  fromMemberId?: string;  // Guardian/child id of the caller
+  participants: CallParticipantInfo[];  // Everyone else already in a group call
   timestamp: string;
 }
 
-export interface StatusUpdate {
-  userId: string;
-  isOnline: boolean;
-  lastSeen: string;
+export interface ParticipantJoinedNotice extends CallParticipantInfo {
+  from: string;
+  to: string;
+  callId: string;
+  timestamp: string;
 }
 
-// Custom interface to avoid Pusher.Channel type conflicts
-interface PusherChannel {
-  bind<T = unknown>(event: string, callback: (data: T) => void): void;
-  unbind<T = unknown>(event?: string, callback?: (data: T) => void): void;
-  trigger(event: string, data: unknown): void;
+export interface CallHoldNotice {
+  from: string;
+  to: string;
+  callId: string;
+  held: boolean;
+  timestamp: string;
+}
+
+export interface FamilyCodeRotatedNotice {
+  from: string;
+  timestamp: string;
 }
 
+export interface DeviceRevokedNotice {
+  from: string;
+  deviceId: string;
+  memberId: string;
+  timestamp: string;
+}
+
+export interface EmergencyAlertNotice {
+  from: string;
+  eventId: string;
+  fromMemberId: string;   // The child
+  status: EmergencyEvent['status'];
+  startedAt: string;
+  answeredBy?: string;
+  timestamp: string;
+}
+
+export interface ChatMessageNotice {
+  from: string;
+  to: string;
+  messageId: string;
+  fromMemberId: string;
+  text: string;
+  timestamp: string;
+}
+
+/**
+ * Pick the transport configured with VITE_SIGNALING_TRANSPORT
+ */
+const createTransport = (): SignalingTransport =>
+  import.meta.env.VITE_SIGNALING_TRANSPORT === 'websocket'
+    ? new WebSocketTransport()
+    : new PusherTransport();
+
 class PusherService {
-  private pusher: Pusher | null = null;
-  private channel: PusherChannel | null = null;
+  private readonly transport: SignalingTransport = createTransport();
   private familyId: string = '';
   private deviceId: string = '';
-
-  constructor() {
-    // Initialize Pusher with environment variables
-    if (typeof window !== 'undefined') {
-      const pusherKey = import.meta.env.VITE_PUSHER_KEY;
-      const pusherCluster = import.meta.env.VITE_PUSHER_CLUSTER || 'us2';
-      
-      console.log('🔧 Initializing Pusher with cluster:', pusherCluster);
-      
-      // Check if we have a valid Pusher key
-      if (!pusherKey) {
-        console.error('❌ No valid Pusher key provided. Please set VITE_PUSHER_KEY environment variable.');
-        this.pusher = null;
-        return;
-      }
-      
-      try {
-        this.pusher = new Pusher(pusherKey, {
-          cluster: pusherCluster,
-          forceTLS: true, // Always use TLS for real Pusher connections
-          enabledTransports: ['ws', 'wss'],
-          authEndpoint: '/api/pusher-auth', // Optional auth endpoint
-        });
-        
-        // Set up connection state monitoring
-        this.pusher.connection.bind('state_change', (states: { previous: string; current: string }) => {
-          console.log('Pusher connection state changed:', states.previous, '->', states.current);
-          
-          // If connection is lost, try to reconnect after a delay
-          if (states.current === 'disconnected' && states.previous === 'connected') {
-            console.warn('Pusher connection lost, will attempt to reconnect...');
-            setTimeout(() => {
-              if (this.pusher && this.pusher.connection.state === 'disconnected') {
-                console.log('Attempting to reconnect to Pusher...');
-                this.pusher.connect();
-              }
-            }, 2000);
-          }
-        });
-        
-        this.pusher.connection.bind('error', (error: Error) => {
-          console.error('Pusher connection error:', error);
-        });
-        
-      } catch (error) {
-        console.error('Failed to initialize Pusher:', error);
-        this.pusher = null;
-      }
-    }
-  }
-
+  private memberId: string = '';
 
   /**
-   * Connect to Pusher channel for a specific family
+   * Connect to the family room for a specific family. Messages addressed
+   * to either the device id or the member id are delivered here.
    */
-  connect(familyId: string, deviceId: string): void {
-    if (!this.pusher) {
-      console.error('Pusher not initialized');
-      return;
-    }
-
+  connect(familyId: string, deviceId: string, memberId: string): void {
     // Don't reconnect if already connected to the same family
-    if (this.familyId === familyId && this.deviceId === deviceId && this.channel) {
-      console.log(`Already connected to family channel: family-${familyId}`);
+    if (this.familyId === familyId && this.deviceId === deviceId && this.memberId === memberId) {
+      console.log(`Already connected to family ${familyId} via ${this.transport.name}`);
       return;
     }
 
-    // Disconnect from previous channel if different
-    if (this.channel && (this.familyId !== familyId || this.deviceId !== deviceId)) {
+    // Disconnect from previous family if different
+    if (this.familyId) {
       this.disconnect();
     }
 
-    // Wait for Pusher to be connected before subscribing
-    if (this.pusher.connection.state === 'connected') {
-      this.subscribeToChannel(familyId, deviceId);
-    } else {
-      // Wait for connection to be established
-      this.pusher.connection.bind('connected', () => {
-        this.subscribeToChannel(familyId, deviceId);
-      });
-    }
+    this.familyId = familyId;
+    this.deviceId = deviceId;
+    this.memberId = memberId;
+    sessionService.start({ familyId, memberId, deviceId });
+    this.transport.connect(familyId);
   }
 
   /**
-   * Subscribe to Pusher channel
+   * Check whether a message is addressed to this device (or its member)
    */
-  private subscribeToChannel(familyId: string, deviceId: string): void {
-    try {
-      this.familyId = familyId;
-      this.deviceId = deviceId;
-      this.channel = this.pusher!.subscribe(`family-${familyId}`) as PusherChannel;
-
-      console.log(`Connected to family channel: family-${familyId}`);
-    } catch (error) {
-      console.error('Failed to connect to Pusher channel:', error);
-    }
+  private isForThisDevice(to: string): boolean {
+    return to === this.deviceId || (!!this.memberId && to === this.memberId);
   }
 
   /**
-   * Disconnect from Pusher
+   * Disconnect from the family room and end the session
    */
   disconnect(): void {
-    try {
-      if (this.channel) {
-        this.pusher?.unsubscribe(`family-${this.familyId}`);
-        this.channel = null;
-      }
-      if (this.pusher) {
-        // Check connection state before disconnecting
-        const connectionState = this.pusher.connection.state;
-        if (connectionState === 'connected' || connectionState === 'connecting') {
-          try {
-            this.pusher.disconnect();
-          } catch (disconnectError) {
-            console.warn('Error during Pusher disconnect:', disconnectError);
-          }
-        }
-        // Don't set pusher to null - keep the instance for reconnection
-        // this.pusher = null;
-      }
-    } catch (error) {
-      console.warn('Error during Pusher disconnect:', error);
-      // Reset channel but keep pusher instance
-      this.channel = null;
-    }
+    this.transport.disconnect();
+    sessionService.clear();
+    iceServerService.clear();
+    this.familyId = '';
+    this.deviceId = '';
+    this.memberId = '';
   }
 
   /**
-   * Send signaling data to the server
+   * Send signaling data (checked against the shared schema first)
    */
-  private async sendSignaling(action: string, toDeviceId: string, data?: unknown): Promise<void> {
+  private async sendSignaling<A extends SignalingAction>(
+    action: A,
+    toDeviceId: string,
+    data?: SignalingDataByAction[A]
+  ): Promise<void> {
     try {
-      const response = await fetch('/api/signaling', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          action,
-          fromDeviceId: this.deviceId,
-          toDeviceId,
-          familyId: this.familyId,
-          data
-        })
+      const message = validateSignalingMessage({
+        version: SIGNALING_PROTOCOL_VERSION,
+        action,
+        fromDeviceId: this.deviceId,
+        toDeviceId,
+        familyId: this.familyId,
+        data
       });
 
-      if (!response.ok) {
-        throw new Error(`HTTP error! status: ${response.status}`);
-      }
-
-      const result = await response.json();
-      console.log('Signaling sent:', result);
+      await this.transport.send(message);
     } catch (error) {
       console.error('Failed to send signaling:', error);
       throw error;
@@ -225,47 +206,106 @@ class PusherService {
   }
 
   /**
-   * Send ICE candidate
+   * Send a batch of ICE candidates
    */
-  async sendIceCandidate(toDeviceId: string, candidate: RTCIceCandidateInit): Promise<void> {
-    await this.sendSignaling('ice-candidate', toDeviceId, candidate);
+  async sendIceCandidates(toDeviceId: string, batch: IceCandidateBatch): Promise<void> {
+    await this.sendSignaling('ice-candidates', toDeviceId, batch);
   }
 
   /**
-   * Send call request notification
+   * Send call request notification (toId may be a member id to ring all their devices)
    */
-  async sendCallRequest(toDeviceId: string, callType: 'voice' | 'video'): Promise<void> {
-    await this.sendSignaling('call-request', toDeviceId, { callType });
+  async sendCallRequest(
+    toId: string,
+    callType: 'voice' | 'video',
+    details: { callId: string; fromMemberId: string; participants?: CallParticipantInfo[] }
+  ): Promise<void> {
+    await this.sendSignaling('call-request', toId, { callType, ...details });
   }
 
   /**
    * Send call accepted notification
    */
-  async sendCallAccepted(toDeviceId: string): Promise<void> {
-    await this.sendSignaling('call-accepted', toDeviceId);
+  async sendCallAccepted(toDeviceId: string, callId: string): Promise<void> {
+    await this.sendSignaling('call-accepted', toDeviceId, { callId, fromMemberId: this.memberId });
+  }
+
+  /**
+   * Send call rejected notification, optionally with a message for the caller
+   */
+  async sendCallRejected(toDeviceId: string, callId: string, reply?: string): Promise<void> {
+    await this.sendSignaling('call-rejected', toDeviceId, { callId, fromMemberId: this.memberId, reply });
+  }
+
+  /**
+   * Stop a call ringing (toId may be a member id to reach all their devices).
+   * The device that answered, if any, keeps the call.
+   */
+  async sendCallCancelled(toId: string, callId: string, answeredBy?: string): Promise<void> {
+    await this.sendSignaling('call-cancelled', toId, { callId, answeredBy });
+  }
+
+  /**
+   * Tell someone in a group call to connect to a member who just joined
+   */
+  async sendParticipantJoined(toDeviceId: string, callId: string, participant: CallParticipantInfo): Promise<void> {
+    await this.sendSignaling('participant-joined', toDeviceId, { callId, ...participant });
   }
 
   /**
-   * Send call rejected notification
+   * Tell someone in the call that we put it on hold (or took it off hold)
    */
-  async sendCallRejected(toDeviceId: string): Promise<void> {
-    await this.sendSignaling('call-rejected', toDeviceId);
+  async sendCallHold(toDeviceId: string, callId: string, held: boolean): Promise<void> {
+    await this.sendSignaling('call-hold', toDeviceId, { callId, held });
   }
 
   /**
    * Send end call notification
    */
-  async sendEndCall(toDeviceId: string): Promise<void> {
-    await this.sendSignaling('end-call', toDeviceId);
+  async sendEndCall(toDeviceId: string, reason?: CallOutcome, callId?: string): Promise<void> {
+    await this.sendSignaling('end-call', toDeviceId, { reason, callId });
+  }
+
+  /**
+   * Tell every family device that the family code has changed
+   */
+  async sendFamilyCodeRotated(): Promise<void> {
+    await this.sendSignaling('family-code-rotated', 'all');
+  }
+
+  /**
+   * Tell a revoked device to sign out
+   */
+  async sendDeviceRevoked(deviceId: string, memberId: string): Promise<void> {
+    await this.sendSignaling('device-revoked', 'all', { deviceId, memberId });
+  }
+
+  /**
+   * Tell the whole family about an emergency button press (and how it went)
+   */
+  async sendEmergencyAlert(event: EmergencyEvent): Promise<void> {
+    await this.sendSignaling('emergency-alert', 'all', {
+      eventId: event.id,
+      fromMemberId: event.childId,
+      status: event.status,
+      startedAt: new Date(event.startedAt).toISOString(),
+      answeredBy: event.answeredBy,
+    });
+  }
+
+  /**
+   * Send a chat message to the whole family
+   */
+  async sendChatMessage(messageId: string, text: string): Promise<void> {
+    await this.sendSignaling('chat-message', 'all', { messageId, fromMemberId: this.memberId, text });
   }
 
   /**
    * Listen for WebRTC offers
    */
-  onOffer(callback: (data: SignalingData) => void): void {
-    if (!this.channel) return;
-    this.channel.bind('webrtc-offer', (data: SignalingData) => {
-      if (data.to === this.deviceId) {
+  onOffer(callback: (data: SignalingData) => void): () => void {
+    return this.transport.bind<SignalingData>('webrtc-offer', (data) => {
+      if (this.isForThisDevice(data.to)) {
         callback(data);
       }
     });
@@ -274,22 +314,20 @@ class PusherService {
   /**
    * Listen for WebRTC answers
    */
-  onAnswer(callback: (data: SignalingData) => void): void {
-    if (!this.channel) return;
-    this.channel.bind('webrtc-answer', (data: SignalingData) => {
-      if (data.to === this.deviceId) {
+  onAnswer(callback: (data: SignalingData) => void): () => void {
+    return this.transport.bind<SignalingData>('webrtc-answer', (data) => {
+      if (this.isForThisDevice(data.to)) {
         callback(data);
       }
     });
   }
 
   /**
-   * Listen for ICE candidates
+   * Listen for batches of ICE candidates
    */
-  onIceCandidate(callback: (data: SignalingData) => void): void {
-    if (!this.channel) return;
-    this.channel.bind('webrtc-ice-candidate', (data: SignalingData) => {
-      if (data.to === this.deviceId) {
+  onIceCandidates(callback: (data: IceCandidatesNotice) => void): () => void {
+    return this.transport.bind<IceCandidatesNotice>('webrtc-ice-candidates', (data) => {
+      if (this.isForThisDevice(data.to)) {
         callback(data);
       }
     });
@@ -298,10 +336,9 @@ class PusherService {
   /**
    * Listen for incoming calls
    */
-  onIncomingCall(callback: (data: CallNotification) => void): void {
-    if (!this.channel) return;
-    this.channel.bind('incoming-call', (data: CallNotification) => {
-      if (data.to === this.deviceId) {
+  onIncomingCall(callback: (data: CallNotification) => void): () => void {
+    return this.transport.bind<CallNotification>('incoming-call', (data) => {
+      if (this.isForThisDevice(data.to)) {
         callback(data);
       }
     });
@@ -310,10 +347,9 @@ class PusherService {
   /**
    * Listen for call accepted
    */
-  onCallAccepted(callback: (data: SignalingData) => void): void {
-    if (!this.channel) return;
-    this.channel.bind('call-accepted', (data: SignalingData) => {
-      if (data.to === this.deviceId) {
+  onCallAccepted(callback: (data: SignalingData) => void): () => void {
+    return this.transport.bind<SignalingData>('call-accepted', (data) => {
+      if (this.isForThisDevice(data.to)) {
         callback(data);
       }
     });
@@ -322,10 +358,42 @@ class PusherService {
   /**
    * Listen for call rejected
    */
-  onCallRejected(callback: (data: SignalingData) => void): void {
-    if (!this.channel) return;
-    this.channel.bind('call-rejected', (data: SignalingData) => {
-      if (data.to === this.deviceId) {
+  onCallRejected(callback: (data: SignalingData) => void): () => void {
+    return this.transport.bind<SignalingData>('call-rejected', (data) => {
+      if (this.isForThisDevice(data.to)) {
+        callback(data);
+      }
+    });
+  }
+
+  /**
+   * Listen for calls that should stop ringing here (not on the device that answered)
+   */
+  onCallCancelled(callback: (data: SignalingData) => void): () => void {
+    return this.transport.bind<SignalingData & { answeredBy?: string }>('call-cancelled', (data) => {
+      if (this.isForThisDevice(data.to) && data.answeredBy !== this.deviceId) {
+        callback(data);
+      }
+    });
+  }
+
+  /**
+   * Listen for members joining a group call we're in
+   */
+  onParticipantJoined(callback: (data: ParticipantJoinedNotice) => void): () => void {
+    return this.transport.bind<ParticipantJoinedNotice>('participant-joined', (data) => {
+      if (this.isForThisDevice(data.to)) {
+        callback(data);
+      }
+    });
+  }
+
+  /**
+   * Listen for someone in the call putting it on hold (or taking it off hold)
+   */
+  onCallHold(callback: (data: CallHoldNotice) => void): () => void {
+    return this.transport.bind<CallHoldNotice>('call-hold', (data) => {
+      if (this.isForThisDevice(data.to)) {
         callback(data);
       }
     });
@@ -334,56 +402,68 @@ class PusherService {
   /**
    * Listen for end call
    */
-  onEndCall(callback: (data: SignalingData) => void): void {
-    if (!this.channel) return;
-    this.channel.bind('webrtc-end-call', (data: SignalingData) => {
-      if (data.to === this.deviceId) {
+  onEndCall(callback: (data: SignalingData) => void): () => void {
+    return this.transport.bind<SignalingData>('webrtc-end-call', (data) => {
+      if (this.isForThisDevice(data.to)) {
         callback(data);
       }
     });
   }
 
   /**
-   * Send status update
+   * Listen for the family members online when the room is (re)joined.
+   * Called straight away if the room is already joined.
    */
-  async sendStatusUpdate(isOnline: boolean): Promise<void> {
-    if (!this.familyId || !this.deviceId) return;
-    
-    try {
-      const response = await fetch('http://localhost:3001/api/signaling', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          action: 'status-update',
-          fromDeviceId: this.deviceId,
-          toDeviceId: 'all', // Broadcast to all family members
-          familyId: this.familyId,
-          data: {
-            isOnline,
-            lastSeen: new Date().toISOString()
-          }
-        })
-      });
+  onPresenceSnapshot(callback: (onlineMemberIds: string[]) => void): () => void {
+    return this.transport.onPresenceSnapshot(callback);
+  }
+
+  /**
+   * Listen for family members coming online or going offline
+   */
+  onPresenceChange(callback: (change: PresenceChange) => void): () => void {
+    return this.transport.onPresenceChange(callback);
+  }
+
+  /**
+   * Listen for family code rotations made on other devices
+   */
+  onFamilyCodeRotated(callback: (data: FamilyCodeRotatedNotice) => void): () => void {
+    return this.transport.bind<FamilyCodeRotatedNotice>('family-code-rotated', (data) => {
+      if (data.from !== this.deviceId) {
+        callback(data);
+      }
+    });
+  }
 
-      if (!response.ok) {
-        throw new Error(`HTTP error! status: ${response.status}`);
+  /**
+   * Listen for this device being revoked by a guardian
+   */
+  onDeviceRevoked(callback: (data: DeviceRevokedNotice) => void): () => void {
+    return this.transport.bind<DeviceRevokedNotice>('device-revoked', (data) => {
+      if (data.deviceId === this.deviceId) {
+        callback(data);
       }
+    });
+  }
 
-      console.log('Status update sent successfully');
-    } catch (error) {
-      console.error('Failed to send status update:', error);
-    }
+  /**
+   * Listen for chat messages from other family members
+   */
+  onChatMessage(callback: (data: ChatMessageNotice) => void): () => void {
+    return this.transport.bind<ChatMessageNotice>('chat-message', (data) => {
+      if (data.from !== this.deviceId) {
+        callback(data);
+      }
+    });
   }
 
   /**
-   * Listen for status updates from other family members
+   * Listen for emergency alerts from other family devices
    */
-  onStatusUpdate(callback: (data: StatusUpdate) => void): void {
-    if (!this.channel) return;
-    this.channel.bind('client-status-update', (data: StatusUpdate) => {
-      if (data.userId !== this.deviceId) {
+  onEmergencyAlert(callback: (data: EmergencyAlertNotice) => void): () => void {
+    return this.transport.bind<EmergencyAlertNotice>('emergency-alert', (data) => {
+      if (data.from !== this.deviceId) {
         callback(data);
       }
     });
@@ -393,14 +473,14 @@ class PusherService {
    * Get connection state
    */
   getConnectionState(): string {
-    return this.pusher?.connection?.state || 'disconnected';
+    return this.transport.getConnectionState();
   }
 
   /**
    * Check if connected
    */
   isConnected(): boolean {
-    return this.pusher?.connection?.state === 'connected';
+    return this.transport.isConnected();
   }
 }
 
@@ -0,0 +1,295 @@
+/**
+ * ============================================================================
+ * KIDS CALL HOME - Pusher Transport
+ * ============================================================================
+ *
+ * Purpose: Signaling over Pusher (hosted, or the local broker offline)
+ * Interface: SignalingTransport, used by pusherService
+ * Dependencies: pusher-js, sessionService, /api/signaling, /api/pusher/auth
+ *
+ * V1 Features:
+ * - Messages posted to /api/signaling, relayed on the family presence channel
+ * - Channel subscriptions authorized with the session token
+ * - Listeners survive resubscription and reconnects
+ * - VITE_PUSHER_HOST/VITE_PUSHER_PORT for a Pusher-compatible server
+ *
+ * Last Updated: 2024-09-09
+ * ============================================================================
+ */
+
+import Pusher from 'pusher-js';
+import { familyChannelName, type SignalingMessage } from '../../api/_lib/signalingProtocol.js';
+import { sessionService } from './sessionService';
+import type { PresenceChange, SignalingTransport } from './signalingTransport';
+
+interface PresenceMember {
+  id: string;
+  info?: { deviceId?: string };
+}
+
+interface PresenceMembers {
+  each(callback: (member: PresenceMember) => void): void;
+}
+
+// Custom interface to avoid Pusher.Channel type conflicts
+interface PusherChannel {
+  bind<T = unknown>(event: string, callback: (data: T) => void): void;
+  unbind<T = unknown>(event?: string, callback?: (data: T) => void): void;
+  trigger(event: string, data: unknown): void;
+  subscribed?: boolean;
+  members?: PresenceMembers;
+}
+
+export class PusherTransport implements SignalingTransport {
+  readonly name = 'pusher';
+  private pusher: Pusher | null = null;
+  private channel: PusherChannel | null = null;
+  private channelName = '';
+  // Listeners that survive (re)subscription to the family channel
+  private channelListeners: { event: string; callback: (data: unknown) => void }[] = [];
+
+  constructor() {
+    // Initialize Pusher with environment variables
+    if (typeof window !== 'undefined') {
+      const pusherKey = import.meta.env.VITE_PUSHER_KEY;
+      const pusherCluster = import.meta.env.VITE_PUSHER_CLUSTER || 'us2';
+      // Set for a Pusher-compatible server such as the local broker (PUSHER_LOCAL=true)
+      const pusherHost = import.meta.env.VITE_PUSHER_HOST;
+
+      console.log('🔧 Initializing Pusher with', pusherHost ? `host: ${pusherHost}` : `cluster: ${pusherCluster}`);
+
+      // Check if we have a valid Pusher key
+      if (!pusherKey) {
+        console.error('❌ No valid Pusher key provided. Please set VITE_PUSHER_KEY environment variable.');
+        this.pusher = null;
+        return;
+      }
+
+      try {
+        this.pusher = new Pusher(pusherKey, {
+          cluster: pusherCluster,
+          ...(pusherHost
+            ? { wsHost: pusherHost, wsPort: Number(import.meta.env.VITE_PUSHER_PORT) || 6001, forceTLS: false }
+            : { forceTLS: true }), // Always use TLS for real Pusher connections
+          enabledTransports: ['ws', 'wss'],
+          // Family channels are presence channels - the server checks our session token
+          channelAuthorization: {
+            transport: 'ajax',
+            endpoint: '/api/pusher/auth',
+            customHandler: ({ socketId, channelName }, callback) => {
+              this.authorizeChannel(socketId, channelName)
+                .then(authData => callback(null, authData))
+                .catch(error => callback(error, null));
+            },
+          },
+        });
+
+        // Set up connection state monitoring
+        this.pusher.connection.bind('state_change', (states: { previous: string; current: string }) => {
+          console.log('Pusher connection state changed:', states.previous, '->', states.current);
+
+          // If connection is lost, try to reconnect after a delay
+          if (states.current === 'disconnected' && states.previous === 'connected' && this.channelName) {
+            console.warn('Pusher connection lost, will attempt to reconnect...');
+            setTimeout(() => {
+              if (this.pusher && this.pusher.connection.state === 'disconnected' && this.channelName) {
+                console.log('Attempting to reconnect to Pusher...');
+                this.pusher.connect();
+              }
+            }, 2000);
+          }
+        });
+
+        this.pusher.connection.bind('error', (error: Error) => {
+          console.error('Pusher connection error:', error);
+        });
+
+      } catch (error) {
+        console.error('Failed to initialize Pusher:', error);
+        this.pusher = null;
+      }
+    }
+  }
+
+  /**
+   * Subscribe to the family channel once Pusher is connected
+   */
+  connect(familyId: string): void {
+    if (!this.pusher) {
+      console.error('Pusher not initialized');
+      return;
+    }
+
+    this.channelName = familyChannelName(familyId);
+
+    if (this.pusher.connection.state === 'connected') {
+      this.subscribeToChannel();
+      return;
+    }
+
+    // Wait for the connection (once) - reconnecting after a disconnect() too
+    const onConnected = () => {
+      this.pusher?.connection.unbind('connected', onConnected);
+      this.subscribeToChannel();
+    };
+    this.pusher.connection.bind('connected', onConnected);
+    if (this.pusher.connection.state === 'disconnected' || this.pusher.connection.state === 'initialized') {
+      this.pusher.connect();
+    }
+  }
+
+  /**
+   * Subscribe to Pusher channel
+   */
+  private subscribeToChannel(): void {
+    if (!this.channelName || this.channel) return;
+
+    try {
+      this.channel = this.pusher!.subscribe(this.channelName) as PusherChannel;
+      this.channelListeners.forEach(({ event, callback }) => this.channel!.bind(event, callback));
+
+      console.log(`Connected to family channel: ${this.channelName}`);
+    } catch (error) {
+      console.error('Failed to connect to Pusher channel:', error);
+    }
+  }
+
+  /**
+   * Ask the server to authorize a presence channel subscription
+   */
+  private async authorizeChannel(socketId: string, channelName: string): Promise<{ auth: string; channel_data?: string }> {
+    const response = await fetch('/api/pusher/auth', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${await sessionService.getToken()}`,
+      },
+      body: JSON.stringify({ socket_id: socketId, channel_name: channelName })
+    });
+
+    const result = await response.json().catch(() => null);
+    if (!response.ok) {
+      sessionService.handleRejection(response.status, result?.code);
+      throw new Error(result?.error || `HTTP error! status: ${response.status}`);
+    }
+    return result;
+  }
+
+  /**
+   * Unsubscribe and disconnect from Pusher
+   */
+  disconnect(): void {
+    try {
+      if (this.channel) {
+        this.pusher?.unsubscribe(this.channelName);
+        this.channel = null;
+      }
+      this.channelName = '';
+
+      if (this.pusher) {
+        // Check connection state before disconnecting
+        const connectionState = this.pusher.connection.state;
+        if (connectionState === 'connected' || connectionState === 'connecting') {
+          try {
+            this.pusher.disconnect();
+          } catch (disconnectError) {
+            console.warn('Error during Pusher disconnect:', disconnectError);
+          }
+        }
+        // Keep the instance for reconnection
+      }
+    } catch (error) {
+      console.warn('Error during Pusher disconnect:', error);
+      // Reset channel but keep pusher instance
+      this.channel = null;
+    }
+  }
+
+  /**
+   * Post a message to /api/signaling, which triggers it on the family channel
+   */
+  async send(message: SignalingMessage): Promise<void> {
+    // Take the token before awaiting, so a disconnect right after this call can't lose it
+    const token = sessionService.getToken();
+
+    const response = await fetch('/api/signaling', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${await token}`,
+      },
+      body: JSON.stringify(message)
+    });
+
+    if (!response.ok) {
+      const body = await response.json().catch(() => null);
+      // A rejected token can't be refreshed - the member has to sign in again
+      sessionService.handleRejection(response.status, body?.code);
+      throw new Error(body?.error || `HTTP error! status: ${response.status}`);
+    }
+
+    const result = await response.json();
+    console.log('Signaling sent:', result);
+  }
+
+  /**
+   * Bind a channel event now or as soon as the channel is subscribed
+   */
+  bind<T>(event: string, callback: (data: T) => void): () => void {
+    const listener = { event, callback: callback as (data: unknown) => void };
+    this.channelListeners.push(listener);
+    this.channel?.bind(event, listener.callback);
+
+    return () => {
+      this.channelListeners = this.channelListeners.filter(l => l !== listener);
+      this.channel?.unbind(event, listener.callback);
+    };
+  }
+
+  /**
+   * Members on the presence channel when it is (re)joined
+   */
+  onPresenceSnapshot(callback: (onlineMemberIds: string[]) => void): () => void {
+    const report = (members: PresenceMembers) => {
+      const memberIds: string[] = [];
+      members.each(member => memberIds.push(member.id));
+      callback(memberIds);
+    };
+
+    if (this.channel?.subscribed && this.channel.members) {
+      report(this.channel.members);
+    }
+    return this.bind<PresenceMembers>('pusher:subscription_succeeded', report);
+  }
+
+  /**
+   * Members joining or leaving the presence channel
+   */
+  onPresenceChange(callback: (change: PresenceChange) => void): () => void {
+    const unbindAdded = this.bind<PresenceMember>('pusher:member_added', (member) => {
+      callback({ memberId: member.id, isOnline: true, at: new Date() });
+    });
+    const unbindRemoved = this.bind<PresenceMember>('pusher:member_removed', (member) => {
+      callback({ memberId: member.id, isOnline: false, at: new Date() });
+    });
+
+    return () => {
+      unbindAdded();
+      unbindRemoved();
+    };
+  }
+
+  /**
+   * Whether the family channel is subscribed
+   */
+  isConnected(): boolean {
+    return this.pusher?.connection?.state === 'connected' && !!this.channel?.subscribed;
+  }
+
+  /**
+   * Pusher connection state
+   */
+  getConnectionState(): string {
+    return this.pusher?.connection?.state || 'disconnected';
+  }
+}
@@ -0,0 +1,216 @@
+/**
+ * ============================================================================
+ * KIDS CALL HOME - Session Service
+ * ============================================================================
+ *
+ * Purpose: Hold the signed session token for the signed-in device
+ * Interface: Used by pusherService, familyApiClient and the signaling transports
+ * Dependencies: /api/session endpoint, localStorage
+ *
+ * V1 Features:
+ * - Token issued by the server when a member signs in (or creates the family)
+ * - Kept across reloads and refreshed with itself before it expires
+ * - Concurrent callers share one refresh request
+ * - Notifies the app when the server rejects the token or has revoked
+ *   this device
+ *
+ * Last Updated: 2024-09-09
+ * ============================================================================
+ */
+
+export interface SessionIdentity {
+  familyId: string;
+  memberId: string;
+  deviceId: string;
+}
+
+export interface SessionToken {
+  token: string;
+  expiresAt: string;
+}
+
+// Error code the server sends with a 403 when this device can't be used
+// for the family any more (see api/_lib/session.js)
+const DEVICE_REVOKED = 'device-revoked';
+
+// Refresh once half of the token's lifetime is used up, so a device that is
+// opened every week or two stays signed in
+const REFRESH_MARGIN_MS = 15 * 24 * 60 * 60 * 1000;
+
+class SessionService {
+  private readonly endpoint = '/api/session';
+  private readonly storageKey = 'kids-call-home-session';
+  private identity: SessionIdentity | null = null;
+  private session: { token: string; expiresAt: number } | null = null;
+  private pending: Promise<string> | null = null;
+  private endedListeners = new Set<() => void>();
+
+  /**
+   * Keep the token the server issued when the member signed in (or created
+   * the family) on this device
+   */
+  begin(identity: SessionIdentity, { token, expiresAt }: SessionToken): void {
+    this.identity = { ...identity };
+    this.session = { token, expiresAt: new Date(expiresAt).getTime() };
+    this.pending = null;
+    this.save();
+  }
+
+  /**
+   * Resume the session for the member signed in on this device, e.g. after
+   * a reload (the token is kept in local storage)
+   */
+  start(identity: SessionIdentity): void {
+    if (this.identity && this.isSameIdentity(this.identity, identity)) {
+      return;
+    }
+
+    this.identity = { ...identity };
+    this.session = null;
+    this.pending = null;
+
+    const stored = this.load();
+    if (stored && this.isSameIdentity(stored.identity, identity)) {
+      this.session = { token: stored.token, expiresAt: stored.expiresAt };
+    }
+  }
+
+  /**
+   * Whether a member is signed in on this device
+   */
+  isActive(): boolean {
+    return !!this.identity;
+  }
+
+  /**
+   * Forget the session in memory (the stored token stays for the next start)
+   */
+  clear(): void {
+    this.identity = null;
+    this.session = null;
+    this.pending = null;
+  }
+
+  /**
+   * Sign out: forget the session and the stored token
+   */
+  end(): void {
+    this.clear();
+    localStorage.removeItem(this.storageKey);
+  }
+
+  /**
+   * The server rejected the token (or there is none) - it can't be
+   * refreshed, so the member has to sign in again
+   */
+  invalidate(): void {
+    if (!this.identity) return;
+    this.clear();
+    localStorage.removeItem(this.storageKey);
+    this.endedListeners.forEach(listener => listener());
+  }
+
+  /**
+   * End the session if a server answer means the token is no good any
+   * more: a 401, or a 403 saying this device was revoked
+   */
+  handleRejection(status: number, code?: string): void {
+    if (status === 401 || (status === 403 && code === DEVICE_REVOKED)) {
+      this.invalidate();
+    }
+  }
+
+  /**
+   * Listen for the session ending without the user signing out
+   */
+  onSessionEnded(listener: () => void): () => void {
+    this.endedListeners.add(listener);
+    return () => this.endedListeners.delete(listener);
+  }
+
+  /**
+   * Get a valid token, refreshing it first if it's getting old
+   */
+  getToken(): Promise<string> {
+    const session = this.session;
+    if (session && session.expiresAt - Date.now() > REFRESH_MARGIN_MS) {
+      return Promise.resolve(session.token);
+    }
+    if (!this.identity) {
+      return Promise.reject(new Error('Not signed in'));
+    }
+    if (!session || session.expiresAt <= Date.now()) {
+      this.invalidate();
+      return Promise.reject(new Error('Session expired, please sign in again'));
+    }
+
+    if (!this.pending) {
+      const identity = this.identity;
+      const request = this.refreshToken(session.token)
+        .then(({ token, expiresAt }) => {
+          // Ignore the answer if the user signed out or switched meanwhile
+          if (this.identity === identity) {
+            this.begin(identity, { token, expiresAt });
+          }
+          return token;
+        })
+        .catch((error) => {
+          // A rejected token ended the session; otherwise it's still valid, so retry next time
+          if (this.identity !== identity) throw error;
+          return session.token;
+        })
+        .finally(() => {
+          if (this.pending === request) this.pending = null;
+        });
+      this.pending = request;
+    }
+    return this.pending;
+  }
+
+  /**
+   * Trade the current token for a fresh one
+   */
+  private async refreshToken(token: string): Promise<SessionToken> {
+    const response = await fetch(this.endpoint, {
+      method: 'POST',
+      headers: { 'Authorization': `Bearer ${token}` },
+    });
+
+    const result = await response.json().catch(() => ({}));
+    if (!response.ok) {
+      this.handleRejection(response.status, result.code);
+      throw new Error(result.error || `HTTP error! status: ${response.status}`);
+    }
+    return result.data as SessionToken;
+  }
+
+  /**
+   * Same family, member and device
+   */
+  private isSameIdentity(a: SessionIdentity, b: SessionIdentity): boolean {
+    return a.familyId === b.familyId && a.memberId === b.memberId && a.deviceId === b.deviceId;
+  }
+
+  /**
+   * Keep the session for the next reload
+   */
+  private save(): void {
+    if (!this.identity || !this.session) return;
+    localStorage.setItem(this.storageKey, JSON.stringify({ identity: this.identity, ...this.session }));
+  }
+
+  /**
+   * The session kept by the last save, if any
+   */
+  private load(): { identity: SessionIdentity; token: string; expiresAt: number } | null {
+    try {
+      return JSON.parse(localStorage.getItem(this.storageKey) || 'null');
+    } catch {
+      return null;
+    }
+  }
+}
+
+// Export singleton instance
+export const sessionService = new SessionService();
+export default sessionService;
@@ -0,0 +1,62 @@
+/**
+ * ============================================================================
+ * KIDS CALL HOME - Signaling Transport
+ * ============================================================================
+ *
+ * Purpose: The contract pusherService uses to reach other family devices
+ * Interface: Implemented by PusherTransport and WebSocketTransport
+ * Dependencies: signalingProtocol
+ *
+ * V1 Features:
+ * - Pusher (hosted) or the self-hosted WebSocket server, picked with
+ *   VITE_SIGNALING_TRANSPORT ('pusher' by default, or 'websocket')
+ * - Relayed events keep the same names and payloads on both transports
+ * - Family presence (who is online)
+ *
+ * Last Updated: 2024-09-09
+ * ============================================================================
+ */
+
+import type { SignalingMessage } from '../../api/_lib/signalingProtocol.js';
+
+export type SignalingTransportName = 'pusher' | 'websocket';
+
+export interface PresenceChange {
+  memberId: string;  // Guardian/child id (one entry however many devices they use)
+  isOnline: boolean;
+  at: Date;
+}
+
+/**
+ * SignalingTransport - Delivers signaling messages to the family
+ *
+ * The signed-in identity comes from sessionService, so connect() only
+ * needs to know which family room to join.
+ */
+export interface SignalingTransport {
+  readonly name: SignalingTransportName;
+
+  /** Join the family's room (channel) */
+  connect(familyId: string): void;
+
+  /** Leave the room and close the connection */
+  disconnect(): void;
+
+  /** Deliver a validated message; rejects with the server's error */
+  send(message: SignalingMessage): Promise<void>;
+
+  /** Listen for a relayed event such as 'webrtc-offer'. Returns an unsubscribe function. */
+  bind<T>(event: string, callback: (data: T) => void): () => void;
+
+  /** Listen for the members online when the room is (re)joined, called straight away if already joined */
+  onPresenceSnapshot(callback: (onlineMemberIds: string[]) => void): () => void;
+
+  /** Listen for members coming online or going offline */
+  onPresenceChange(callback: (change: PresenceChange) => void): () => void;
+
+  /** Whether the room is joined */
+  isConnected(): boolean;
+
+  /** Human-readable connection state, for diagnostics */
+  getConnectionState(): string;
+}
@@ -0,0 +1,306 @@
+/**
+ * ============================================================================
+ * KIDS CALL HOME - WebSocket Transport
+ * ============================================================================
+ *
+ * Purpose: Signaling over the self-hosted WebSocket server (dev-server.js /ws)
+ * Interface: SignalingTransport, used by pusherService
+ * Dependencies: WebSocket API, sessionService
+ *
+ * V1 Features:
+ * - Session token sent as the first frame after connecting
+ * - Messages acknowledged (or rejected with the server's error)
+ * - Family presence from the server's room membership
+ * - Reconnects with exponential backoff, fetching a new token if needed
+ *
+ * Last Updated: 2024-09-09
+ * ============================================================================
+ */
+
+import type { SignalingMessage } from '../../api/_lib/signalingProtocol.js';
+import { sessionService } from './sessionService';
+import type { PresenceChange, SignalingTransport } from './signalingTransport';
+
+type ServerFrame =
+  | { type: 'ready'; members: string[] }
+  | { type: 'member-added'; memberId: string }
+  | { type: 'member-removed'; memberId: string }
+  | { type: 'event'; event: string; payload: unknown }
+  | { type: 'ack'; id: number }
+  | { type: 'error'; id?: number; status: number; error: string; code?: string };
+
+// Close codes sent by the server (see signalingSocketServer.js)
+const CLOSE_UNAUTHORIZED = 4001;
+const CLOSE_FORBIDDEN = 4003;
+
+const SEND_TIMEOUT_MS = 10 * 1000;
+const MAX_RECONNECT_DELAY_MS = 30 * 1000;
+
+// Internal event names for presence, alongside the relayed event names
+const PRESENCE_SNAPSHOT = 'presence:snapshot';
+const PRESENCE_CHANGE = 'presence:change';
+
+interface PendingSend {
+  resolve: () => void;
+  reject: (error: Error) => void;
+  timer: ReturnType<typeof setTimeout>;
+}
+
+export class WebSocketTransport implements SignalingTransport {
+  readonly name = 'websocket';
+  private socket: WebSocket | null = null;
+  private familyId = '';
+  private ready = false;
+  private onlineMemberIds: string[] = [];
+  private reconnectAttempts = 0;
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  private nextRequestId = 1;
+  private pending = new Map<number, PendingSend>();
+  private listeners = new Map<string, Set<(data: unknown) => void>>();
+
+  /**
+   * Server URL - VITE_SIGNALING_WS_URL, or /ws on this host (proxied by Vite in development)
+   */
+  private get url(): string {
+    const configured = import.meta.env.VITE_SIGNALING_WS_URL;
+    if (configured) return configured;
+    const protocol = window.location.protocol === 'https:' ? 'wss' : 'ws';
+    return `${protocol}://${window.location.host}/ws`;
+  }
+
+  /**
+   * Connect and join the family room
+   */
+  connect(familyId: string): void {
+    this.familyId = familyId;
+    if (this.socket) return;
+
+    const socket = new WebSocket(this.url);
+    this.socket = socket;
+
+    socket.onopen = async () => {
+      try {
+        socket.send(JSON.stringify({ type: 'auth', token: await sessionService.getToken() }));
+      } catch (error) {
+        console.error('Could not get a session token for WebSocket signaling:', error);
+        socket.close();
+      }
+    };
+
+    socket.onmessage = (event) => {
+      try {
+        this.handleFrame(JSON.parse(event.data) as ServerFrame);
+      } catch (error) {
+        console.error('Failed to parse WebSocket message:', error);
+      }
+    };
+
+    socket.onclose = (event) => {
+      if (this.socket !== socket) return;
+      console.log('WebSocket signaling disconnected', event.code, event.reason);
+      this.handleClosed();
+
+      if (event.code === CLOSE_FORBIDDEN) {
+        console.error('WebSocket signaling refused this device:', event.reason);
+        return;
+      }
+      if (event.code === CLOSE_UNAUTHORIZED) {
+        sessionService.invalidate();
+      }
+      this.scheduleReconnect();
+    };
+
+    socket.onerror = (error) => {
+      console.error('WebSocket error:', error);
+    };
+  }
+
+  /**
+   * Leave the room and stop reconnecting
+   */
+  disconnect(): void {
+    this.familyId = '';
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+    this.reconnectAttempts = 0;
+
+    const socket = this.socket;
+    this.socket = null;
+    socket?.close();
+    this.handleClosed();
+  }
+
+  /**
+   * Send a message and wait for the server to acknowledge it
+   */
+  send(message: SignalingMessage): Promise<void> {
+    const socket = this.socket;
+    if (!socket || !this.ready) {
+      return Promise.reject(new Error('Not connected to the signaling server'));
+    }
+
+    const id = this.nextRequestId++;
+    return new Promise<void>((resolve, reject) => {
+      const timer = setTimeout(() => {
+        this.pending.delete(id);
+        reject(new Error('Signaling server did not answer'));
+      }, SEND_TIMEOUT_MS);
+
+      this.pending.set(id, { resolve, reject, timer });
+      socket.send(JSON.stringify({ type: 'signal', id, message }));
+    });
+  }
+
+  /**
+   * Listen for a relayed event
+   */
+  bind<T>(event: string, callback: (data: T) => void): () => void {
+    const listener = callback as (data: unknown) => void;
+    const listeners = this.listeners.get(event) ?? new Set();
+    listeners.add(listener);
+    this.listeners.set(event, listeners);
+
+    return () => {
+      this.listeners.get(event)?.delete(listener);
+    };
+  }
+
+  /**
+   * Members in the room when it is (re)joined
+   */
+  onPresenceSnapshot(callback: (onlineMemberIds: string[]) => void): () => void {
+    if (this.ready) {
+      callback([...this.onlineMemberIds]);
+    }
+    return this.bind<string[]>(PRESENCE_SNAPSHOT, callback);
+  }
+
+  /**
+   * Members joining or leaving the room
+   */
+  onPresenceChange(callback: (change: PresenceChange) => void): () => void {
+    return this.bind<PresenceChange>(PRESENCE_CHANGE, callback);
+  }
+
+  /**
+   * Whether the room is joined
+   */
+  isConnected(): boolean {
+    return this.ready;
+  }
+
+  /**
+   * Socket state
+   */
+  getConnectionState(): string {
+    if (this.ready) return 'connected';
+    return this.socket ? 'connecting' : 'disconnected';
+  }
+
+  /**
+   * Handle a frame from the server
+   */
+  private handleFrame(frame: ServerFrame): void {
+    switch (frame.type) {
+      case 'ready':
+        this.ready = true;
+        this.reconnectAttempts = 0;
+        this.onlineMemberIds = frame.members;
+        console.log(`Connected to family room over WebSocket: ${this.familyId}`);
+        this.emit(PRESENCE_SNAPSHOT, [...frame.members]);
+        break;
+
+      case 'member-added':
+        this.onlineMemberIds = [...new Set([...this.onlineMemberIds, frame.memberId])];
+        this.emit(PRESENCE_CHANGE, { memberId: frame.memberId, isOnline: true, at: new Date() });
+        break;
+
+      case 'member-removed':
+        this.onlineMemberIds = this.onlineMemberIds.filter(id => id !== frame.memberId);
+        this.emit(PRESENCE_CHANGE, { memberId: frame.memberId, isOnline: false, at: new Date() });
+        break;
+
+      case 'event':
+        this.emit(frame.event, frame.payload);
+        break;
+
+      case 'ack':
+        this.settle(frame.id);
+        break;
+
+      case 'error':
+        sessionService.handleRejection(frame.status, frame.code);
+        if (frame.id !== undefined) {
+          this.settle(frame.id, new Error(frame.error));
+        } else {
+          console.error('WebSocket signaling server error:', frame.error);
+        }
+        break;
+
+      default:
+        console.warn('Unknown WebSocket frame:', frame);
+    }
+  }
+
+  /**
+   * Resolve or reject a pending send
+   */
+  private settle(id: number, error?: Error): void {
+    const pending = this.pending.get(id);
+    if (!pending) return;
+
+    clearTimeout(pending.timer);
+    this.pending.delete(id);
+    if (error) {
+      pending.reject(error);
+    } else {
+      pending.resolve();
+    }
+  }
+
+  /**
+   * Call the listeners for an event
+   */
+  private emit(event: string, data: unknown): void {
+    this.listeners.get(event)?.forEach(listener => {
+      try {
+        listener(data);
+      } catch (error) {
+        console.error(`Error in ${event} listener:`, error);
+      }
+    });
+  }
+
+  /**
+   * Reset connection state and fail sends still waiting for an answer
+   */
+  private handleClosed(): void {
+    this.socket = null;
+    this.ready = false;
+    this.onlineMemberIds = [];
+
+    this.pending.forEach(({ reject, timer }) => {
+      clearTimeout(timer);
+      reject(new Error('Disconnected from the signaling server'));
+    });
+    this.pending.clear();
+  }
+
+  /**
+   * Reconnect with exponential backoff while we still want the room
+   */
+  private scheduleReconnect(): void {
+    if (!this.familyId || this.reconnectTimer) return;
+
+    const delay = Math.min(1000 * Math.pow(2, this.reconnectAttempts), MAX_RECONNECT_DELAY_MS);
+    this.reconnectAttempts++;
+    console.log(`Attempting to reconnect in ${delay}ms (attempt ${this.reconnectAttempts})`);
+
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      if (this.familyId) this.connect(this.familyId);
+    }, delay);
+  }
+}
@@ -5,7 +5,7 @@
  * 
  * Purpose: Centralized state management using Zustand for family communication
  * Interface: Shared across all components
- * Dependencies: zustand, types
+ * Dependencies: zustand, types, deviceDetection, networkMonitor
  * 
  * V1 Features:
  * - Family and user state management
@@ -25,6 +25,9 @@
 
 import { create } from 'zustand';
 import { devtools, persist } from 'zustand/middleware';
+import { readConnectionInfo } from '../services/networkMonitor';
+import { sessionService } from '../services/sessionService';
+import { detectDeviceInfo } from '../utils/deviceDetection';
 import type {
     AppState,
     CallState,
@@ -215,13 +218,7 @@ export const useAppStore = create<AppStore>()(
           set(initialState, false, 'reset'),
         
         logout: () => {
-          const state = get();
-          // Update user's offline status before logging out
-          if (state.currentUser) {
-            const { updateFamilyMemberStatus } = get();
-            updateFamilyMemberStatus(state.currentUser.id, false, new Date());
-          }
-          
+          sessionService.end();
           set({
             currentFamily: null,
             currentUser: null,
@@ -240,8 +237,16 @@ export const useAppStore = create<AppStore>()(
           set({ isLoading: true }, false, 'initializeApp/start');
           
           try {
-            // TODO: Initialize device detection
-            // TODO: Initialize network monitoring
+            // Detect device capabilities (camera, mic, WebRTC...)
+            const deviceInfo = await detectDeviceInfo();
+            set({ deviceInfo }, false, 'initializeApp/deviceInfo');
+            
+            // Baseline network info until a call starts measuring the real thing
+            const networkInfo = readConnectionInfo();
+            if (networkInfo) {
+              set({ networkInfo }, false, 'initializeApp/networkInfo');
+            }
+            
             // TODO: Connect to WebSocket
             
             // Check for existing family data and redirect if found
@@ -249,11 +254,8 @@ export const useAppStore = create<AppStore>()(
             if (state.currentFamily && state.currentUser && state.userType) {
               // User has existing family data, they should be redirected to their dashboard
               // This will be handled by the App component's routing logic
+              // Online status comes from the family presence channel once connected
               console.log('Existing family data found, user should be redirected to dashboard');
-              
-              // Update user's online status when app initializes
-              const { updateFamilyMemberStatus } = get();
-              updateFamilyMemberStatus(state.currentUser.id, true, new Date());
             }
             
             set({ isLoading: false }, false, 'initializeApp/success');
@@ -38,6 +38,44 @@ export interface Family {
   created: Date;
   lastActive: Date;
   settings: FamilySettings;
+  codeInfo?: FamilyCode; // Expiry and usage limits for the current code
+  codeHistory?: FamilyCodeRotation[]; // Previous codes, newest last
+  devices?: TrustedDevice[]; // Devices each member has signed in on
+  emergencyEvents?: EmergencyEvent[]; // Emergency button presses, newest last
+}
+
+/**
+ * EmergencyEvent - A child pressed the emergency button
+ * 
+ * Kept with the family so every guardian can see it afterwards, including
+ * guardians whose devices were offline when it happened.
+ */
+export interface EmergencyEvent {
+  id: string;
+  childId: string;
+  status: 'ringing' | 'answered' | 'unanswered' | 'cancelled';
+  startedAt: Date;
+  answeredBy?: string;   // Guardian ID
+}
+
+/**
+ * TrustedDevice - A browser a member has signed in on
+ * 
+ * Only the device a family was created on starts out trusted. Every other
+ * device waits as "pending" until a guardian approves it with the pairing
+ * code, and guardians can revoke a lost or stolen device at any time.
+ */
+export interface TrustedDevice {
+  deviceId: string;      // Persistent per-browser id
+  memberId: string;      // Guardian or child using this device
+  name: string;          // "Safari on iPad"
+  status: 'pending' | 'approved' | 'revoked';
+  pairingCode?: string;  // 6 digits, shown on the pending device
+  pairingExpires?: Date;
+  registeredAt: Date;
+  approvedAt?: Date;
+  approvedBy?: string;   // Guardian ID
+  lastSeen: Date;
 }
 
 /**
@@ -53,8 +91,8 @@ export interface Guardian {
   avatar?: string;       // Profile picture or emoji
   isOnline: boolean;
   lastSeen: Date;
-  deviceId: string;      // Browser fingerprint for device tracking
   preferences: GuardianPreferences;
+  credentials?: MemberCredentials; // Optional PIN on top of the family code
 }
 
 /**
@@ -68,11 +106,23 @@ export interface Child {
   name: string;          // "Emma", "Jake" - first name only
   age?: number;          // Optional - for age-appropriate features
   avatar?: string;       // Profile picture or emoji
-  deviceId: string;      // Browser fingerprint for device tracking
   isOnline: boolean;
   lastSeen: Date;
   preferences: ChildPreferences;
   approvedGuardians: string[]; // Array of guardian IDs who can be called
+  credentials?: MemberCredentials; // Optional picture password on top of the family code
+}
+
+/**
+ * MemberCredentials - Per-member secret checked after the family code
+ * 
+ * Guardians use a numeric PIN, children a short sequence of pictures.
+ * Secrets are stored as bcrypt hashes on the server and checked there;
+ * devices only learn which kind of secret a member has.
+ */
+export interface MemberCredentials {
+  kind: 'pin' | 'picture';      // PIN for guardians, pictures for children
+  lockedUntil?: Date;           // Set after too many failed attempts
 }
 
 /**
@@ -80,11 +130,30 @@ export interface Child {
  */
 export interface FamilySettings {
   allowChildInitiatedCalls: boolean;
-  emergencyContacts: string[];
+  emergencyContacts: EmergencyContact[];
   callTimeout: number;   // Seconds before call times out
   maxCallDuration: number; // Maximum call length in minutes
   requireGuardianApproval: boolean;
   timezone: string;
+  relayOnlyCalls?: boolean; // Private calls - relayed through TURN so devices never see each other's IP address
+}
+
+/**
+ * EmergencyContact - A grown-up to try when a child presses the emergency button
+ * 
+ * Contacts can be anyone the family trusts (grandparents, neighbours), but
+ * the app only rings contacts who are guardians in this family. The rest
+ * are a phone list, shown to the child when nobody could be reached.
+ */
+export interface EmergencyContact {
+  id: string;
+  name: string;
+  relation: string;      // "Grandma", "Neighbour"
+  phone?: string;
+  email?: string;
+  priority: number;      // 1 is tried first
+  childIds: string[];    // Children they cover - empty means all of them
+  memberId?: string;     // Guardian in this family - only these are rung by the app
 }
 
 /**
@@ -117,15 +186,14 @@ export interface ChildPreferences {
  * 
  * Tracks the current state of voice/video calls with quality metrics
  * and connection information for both guardian and child interfaces.
+ * Calls have at least one guardian and one child, and up to four people.
  */
 export interface CallState {
   id: string;
   type: 'voice' | 'video';
-  participants: {
-    guardian: Guardian;
-    child: Child;
-  };
-  status: 'idle' | 'ringing' | 'connecting' | 'active' | 'ended' | 'failed';
+  participants: (Guardian | Child)[]; // Everyone who has joined, this device's member included
+  status: 'idle' | 'ringing' | 'connecting' | 'active' | 'reconnecting' | 'held' | 'ended' | 'failed';  // held: this device put it on hold
+  outcome?: CallOutcome; // How the call finished (set once it's over)
   startTime?: Date;
   endTime?: Date;
   duration?: number;     // Seconds
@@ -137,6 +205,14 @@ export interface CallState {
   networkInfo: NetworkInfo;
 }
 
+/**
+ * Call Outcome - How a call finished, as recorded in call history
+ * 
+ * missed: nobody answered within the family's call timeout (or the caller gave up)
+ * timed-out: the call reached the family's maximum call duration
+ */
+export type CallOutcome = 'completed' | 'missed' | 'declined' | 'cancelled' | 'timed-out' | 'failed';
+
 /**
  * Network Information - Real-time network quality monitoring
  * 
@@ -167,7 +243,7 @@ export interface Message {
     name: string;
     type: 'guardian' | 'child';
   };
-  to: {
+  to?: {                 // Omitted for messages to the whole family
     id: string;
     name: string;
     type: 'guardian' | 'child';
@@ -270,6 +346,7 @@ export interface ApiResponse<T = any> {
   success: boolean;
   data?: T;
   error?: string;
+  code?: string;         // Set with some errors, e.g. "device-revoked"
   message?: string;
   timestamp: Date;
 }
@@ -283,8 +360,18 @@ export interface ApiResponse<T = any> {
 export interface FamilyCode {
   code: string;          // "BEAR-CAKE-2024"
   words: string[];       // ["BEAR", "CAKE", "2024"]
-  expires: Date;         // Optional expiration
+  expires?: Date;        // Optional expiration
   maxUses?: number;      // Optional usage limit
+  uses?: number;         // Times the code has been redeemed
+}
+
+/**
+ * FamilyCodeRotation - Record of a family code being replaced
+ */
+export interface FamilyCodeRotation {
+  previousCode: string;
+  rotatedAt: Date;
+  rotatedBy: string;     // Guardian ID
 }
 
 // Types are already exported above, no need for duplicate exports
@@ -0,0 +1,53 @@
+/**
+ * ============================================================================
+ * KIDS CALL HOME - Audio Output
+ * ============================================================================
+ *
+ * Purpose: Play call audio on the loudspeaker where the browser allows it
+ * Interface: Used by callEngine (finding the speaker) and the call pages'
+ *            media elements (switching to it)
+ * Dependencies: HTMLMediaElement.setSinkId, MediaDevices.enumerateDevices
+ *
+ * V1 Features:
+ * - Finds an output labelled as a speaker (labels need the mic permission)
+ * - Switches media elements between it and the default output
+ * - Nothing to offer where setSinkId isn't supported (Safari on iOS, for one),
+ *   so the speaker button is hidden there
+ *
+ * Last Updated: 2024-09-09
+ * ============================================================================
+ */
+
+// Outputs that follow the system's choice rather than naming a device
+const SYSTEM_OUTPUT_IDS = ['', 'default', 'communications'];
+
+/**
+ * Whether this browser lets a page choose where media plays
+ */
+export function canChooseAudioOutput(): boolean {
+  return typeof HTMLMediaElement !== 'undefined' && 'setSinkId' in HTMLMediaElement.prototype;
+}
+
+/**
+ * The loudspeaker's output device id, or null if there isn't one we can pick
+ */
+export async function findSpeakerOutput(): Promise<string | null> {
+  if (!canChooseAudioOutput() || !navigator.mediaDevices?.enumerateDevices) return null;
+
+  const devices = await navigator.mediaDevices.enumerateDevices();
+  const speaker = devices.find(device =>
+    device.kind === 'audiooutput' &&
+    !SYSTEM_OUTPUT_IDS.includes(device.deviceId) &&
+    /speaker/i.test(device.label)
+  );
+  return speaker?.deviceId ?? null;
+}
+
+/**
+ * Play an element on an output device ('' is the default output)
+ */
+export function applyAudioOutput(element: HTMLMediaElement, deviceId: string): void {
+  if (!canChooseAudioOutput() || element.sinkId === deviceId) return;
+
+  element.setSinkId(deviceId).catch(error => console.warn('Failed to switch audio output:', error));
+}
@@ -22,12 +22,12 @@ import type { Family } from '../types';
 /**
  * Create a demo family for testing purposes
  */
-export function createDemoFamily(): Family {
+export async function createDemoFamily(): Promise<Family> {
   // Clear any existing demo families
-  FamilyDataService.clearAllFamilies();
+  await FamilyDataService.clearAllFamilies();
   
   // Create demo family
-  const demoFamily = FamilyDataService.createFamily({
+  const demoFamily = await FamilyDataService.createFamily({
     familyName: 'The Johnson Family',
     guardianName: 'Mom',
     guardianEmail: 'mom@johnsonfamily.com'
@@ -41,7 +41,6 @@ export function createDemoFamily(): Family {
     avatar: '👨‍💼',
     isOnline: true,
     lastSeen: new Date(),
-    deviceId: `device-${Date.now()}-dad`,
     preferences: {
       theme: 'guardian' as const,
       notifications: {
@@ -56,42 +55,41 @@ export function createDemoFamily(): Family {
   
   // Add dad to the family
   demoFamily.guardians.push(dadGuardian);
+  await FamilyDataService.saveFamily(demoFamily);
   
   // Add children
-  FamilyDataService.addChildToFamily(demoFamily.id, {
+  await FamilyDataService.addChildToFamily(demoFamily.id, {
     childName: 'Emma',
     childAge: 8,
     childAvatar: '👧'
   });
   
-  FamilyDataService.addChildToFamily(demoFamily.id, {
+  await FamilyDataService.addChildToFamily(demoFamily.id, {
     childName: 'Jake',
     childAge: 6,
     childAvatar: '👦'
   });
   
-  FamilyDataService.addChildToFamily(demoFamily.id, {
+  await FamilyDataService.addChildToFamily(demoFamily.id, {
     childName: 'Sophie',
     childAge: 10,
     childAvatar: '👩'
   });
   
-  // Update the family with all members
-  FamilyDataService.saveFamily(demoFamily);
-  
-  return demoFamily;
+  // Reload the family with all members
+  return (await FamilyDataService.findFamilyById(demoFamily.id)) || demoFamily;
 }
 
 /**
  * Get demo family information for display
  */
-export function getDemoFamilyInfo(): {
+export async function getDemoFamilyInfo(): Promise<{
   familyCode: string;
   guardians: string[];
   children: string[];
   instructions: string[];
-} {
-  const families = FamilyDataService.getAllFamilies();
+}> {
+  const families = await FamilyDataService.getAllFamilies();
   const demoFamily = families.find(f => f.name === 'The Johnson Family');
   
   if (!demoFamily) {
@@ -124,8 +122,8 @@ export function getDemoFamilyInfo(): {
 /**
  * Reset demo data
  */
-export function resetDemoData(): void {
-  FamilyDataService.clearAllFamilies();
+export async function resetDemoData(): Promise<void> {
+  await FamilyDataService.clearAllFamilies();
 }
 
 export default {
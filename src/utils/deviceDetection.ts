@@ -0,0 +1,139 @@
+/**
+ * ============================================================================
+ * KIDS CALL HOME - Device Detection
+ * ============================================================================
+ *
+ * Purpose: Describe the current device and what it can do
+ * Interface: Used by useAppStore (initializeApp) and App
+ * Dependencies: ua-parser-js, deviceIdentityService, types
+ *
+ * V1 Features:
+ * - Platform, browser and form factor from the user agent
+ * - iPadOS detection (reports itself as desktop Safari)
+ * - Screen size
+ * - WebRTC, WebSocket, notification, camera, microphone and touch support
+ * - Re-detection when cameras/mics are plugged in or the window resizes
+ *
+ * Last Updated: 2024-09-09
+ * ============================================================================
+ */
+
+import { UAParser } from 'ua-parser-js';
+import { DeviceIdentityService } from '../services/deviceIdentityService';
+import type { DeviceInfo } from '../types';
+
+/**
+ * Map ua-parser's OS name to our platform union
+ */
+function detectPlatform(osName: string | undefined, isIPad: boolean): DeviceInfo['platform'] {
+  if (isIPad) return 'ios';
+
+  const name = (osName || '').toLowerCase();
+  if (name === 'ios') return 'ios';
+  if (name === 'android') return 'android';
+  if (name === 'windows') return 'windows';
+  if (name === 'macos' || name === 'mac os') return 'macos';
+  if (name === 'linux' || name === 'ubuntu' || name === 'chromium os' || name === 'chrome os') return 'linux';
+  return 'unknown';
+}
+
+/**
+ * Map ua-parser's browser name to our browser union
+ */
+function detectBrowser(browserName: string | undefined): DeviceInfo['browser'] {
+  const name = (browserName || '').toLowerCase();
+  if (name.includes('edge')) return 'edge';
+  if (name.includes('firefox')) return 'firefox';
+  if (name.includes('safari')) return 'safari';
+  if (name.includes('chrome') || name.includes('chromium')) return 'chrome';
+  return 'unknown';
+}
+
+/**
+ * Map ua-parser's device type to our form factor union
+ */
+function detectType(deviceType: string | undefined, isIPad: boolean): DeviceInfo['type'] {
+  if (isIPad || deviceType === 'tablet') return 'tablet';
+  if (deviceType === 'mobile') return 'phone';
+  if (deviceType === 'wearable') return 'watch';
+  return 'desktop';
+}
+
+/**
+ * Check which kinds of media devices are attached.
+ * Device kinds are visible before permission is granted; labels are not.
+ */
+async function detectMediaDevices(): Promise<{ camera: boolean; microphone: boolean }> {
+  if (!navigator.mediaDevices?.enumerateDevices) {
+    return { camera: false, microphone: false };
+  }
+
+  try {
+    const devices = await navigator.mediaDevices.enumerateDevices();
+    return {
+      camera: devices.some(device => device.kind === 'videoinput'),
+      microphone: devices.some(device => device.kind === 'audioinput'),
+    };
+  } catch (error) {
+    console.warn('Could not list media devices:', error);
+    return { camera: false, microphone: false };
+  }
+}
+
+/**
+ * Detect the current device
+ */
+export async function detectDeviceInfo(): Promise<DeviceInfo> {
+  const userAgent = navigator.userAgent;
+  const { os, browser, device } = new UAParser(userAgent).getResult();
+
+  // iPadOS 13+ sends a desktop Safari user agent, but has a touch screen
+  const isIPad = os.name === 'macOS' && navigator.maxTouchPoints > 1;
+  const media = await detectMediaDevices();
+
+  return {
+    id: DeviceIdentityService.getDeviceId(),
+    type: detectType(device.type, isIPad),
+    platform: detectPlatform(os.name, isIPad),
+    browser: detectBrowser(browser.name),
+    screenSize: {
+      width: window.screen.width,
+      height: window.screen.height,
+    },
+    capabilities: {
+      webRTC: typeof RTCPeerConnection !== 'undefined' && !!navigator.mediaDevices?.getUserMedia,
+      webSocket: typeof WebSocket !== 'undefined',
+      notifications: 'Notification' in window,
+      camera: media.camera,
+      microphone: media.microphone,
+      touch: navigator.maxTouchPoints > 0,
+    },
+    userAgent,
+  };
+}
+
+/**
+ * Re-detect when media devices change or the screen is resized.
+ * Returns a function that stops watching.
+ */
+export function watchDeviceInfo(onChange: (deviceInfo: DeviceInfo) => void): () => void {
+  let resizeTimer: ReturnType<typeof setTimeout> | null = null;
+
+  const update = () => {
+    detectDeviceInfo().then(onChange).catch(error => console.warn('Device detection failed:', error));
+  };
+
+  const handleResize = () => {
+    if (resizeTimer) clearTimeout(resizeTimer);
+    resizeTimer = setTimeout(update, 500);
+  };
+
+  navigator.mediaDevices?.addEventListener?.('devicechange', update);
+  window.addEventListener('resize', handleResize);
+
+  return () => {
+    if (resizeTimer) clearTimeout(resizeTimer);
+    navigator.mediaDevices?.removeEventListener?.('devicechange', update);
+    window.removeEventListener('resize', handleResize);
+  };
+}
@@ -0,0 +1,106 @@
+/**
+ * ============================================================================
+ * KIDS CALL HOME - Family Code Generator
+ * ============================================================================
+ *
+ * Purpose: Generate memorable, hard-to-guess family codes
+ * Interface: Used by FamilyDataService
+ * Dependencies: Web Crypto API, types, shared word list (api/_lib/familyCodeWords.js)
+ *
+ * V1 Features:
+ * - Cryptographically strong randomness (crypto.getRandomValues)
+ * - Large child-friendly word list (easy to read, spell and say)
+ * - Configurable word count
+ * - Uniqueness checking against existing families
+ * - Optional expiry date and usage limit
+ *
+ * Last Updated: 2024-09-09
+ * ============================================================================
+ */
+
+import { FAMILY_CODE_WORDS } from '../../api/_lib/familyCodeWords.js';
+import type { FamilyCode } from '../types';
+
+// The server picks rotated codes from the same words (api/_lib/familyCodes.js)
+export { FAMILY_CODE_WORDS };
+
+export interface FamilyCodeOptions {
+  wordCount?: number;          // Number of words before the numeric suffix (default 3)
+  includeNumber?: boolean;     // Append a two-digit number (default true)
+  expiresInDays?: number;      // Optional expiry, counted from now
+  maxUses?: number;            // Optional limit on how many times the code can be redeemed
+  isCodeTaken?: (code: string) => boolean | Promise<boolean>;
+  maxAttempts?: number;        // Give up after this many collisions (default 10)
+}
+
+const DEFAULT_WORD_COUNT = 3;
+const DEFAULT_MAX_ATTEMPTS = 10;
+
+/**
+ * Uniform random integer in [0, max) using rejection sampling so every
+ * value is equally likely (no modulo bias).
+ */
+export function secureRandomInt(max: number): number {
+  if (!Number.isInteger(max) || max <= 0 || max > 0x100000000) {
+    throw new RangeError(`secureRandomInt: max must be an integer in (0, 2^32], got ${max}`);
+  }
+
+  const limit = Math.floor(0x100000000 / max) * max;
+  const buffer = new Uint32Array(1);
+  do {
+    crypto.getRandomValues(buffer);
+  } while (buffer[0] >= limit);
+
+  return buffer[0] % max;
+}
+
+/**
+ * Build a single candidate code without checking uniqueness
+ */
+export function createCodeCandidate(wordCount: number = DEFAULT_WORD_COUNT, includeNumber: boolean = true): FamilyCode {
+  if (!Number.isInteger(wordCount) || wordCount < 1) {
+    throw new RangeError(`Family codes need at least one word, got ${wordCount}`);
+  }
+
+  const words = Array.from({ length: wordCount }, () => FAMILY_CODE_WORDS[secureRandomInt(FAMILY_CODE_WORDS.length)]);
+  if (includeNumber) {
+    words.push(String(10 + secureRandomInt(90)));
+  }
+
+  return {
+    code: words.join('-'),
+    words,
+  };
+}
+
+/**
+ * Generate a unique family code, retrying on collisions
+ */
+export async function generateFamilyCode(options: FamilyCodeOptions = {}): Promise<FamilyCode> {
+  const {
+    wordCount = DEFAULT_WORD_COUNT,
+    includeNumber = true,
+    expiresInDays,
+    maxUses,
+    isCodeTaken,
+    maxAttempts = DEFAULT_MAX_ATTEMPTS,
+  } = options;
+
+  for (let attempt = 0; attempt < maxAttempts; attempt++) {
+    const candidate = createCodeCandidate(wordCount, includeNumber);
+    if (isCodeTaken && await isCodeTaken(candidate.code)) {
+      continue;
+    }
+
+    return {
+      ...candidate,
+      expires: expiresInDays !== undefined
+        ? new Date(Date.now() + expiresInDays * 24 * 60 * 60 * 1000)
+        : undefined,
+      maxUses,
+      uses: 0,
+    };
+  }
+
+  throw new Error(`Could not find an unused family code after ${maxAttempts} attempts`);
+}
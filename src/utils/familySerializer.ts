@@ -0,0 +1,86 @@
+/**
+ * ============================================================================
+ * KIDS CALL HOME - Family Serializer
+ * ============================================================================
+ *
+ * Purpose: Convert family records to and from JSON
+ * Interface: Used by family stores and the family API client
+ * Dependencies: types
+ *
+ * V1 Features:
+ * - JSON serialization of family lists
+ * - Date revival for every date field (family, members, devices, codes, lockouts)
+ *
+ * Last Updated: 2024-09-09
+ * ============================================================================
+ */
+
+import type { Family, MemberCredentials, TrustedDevice } from '../types';
+
+/**
+ * Revive the lockout date on member credentials
+ */
+function reviveCredentials(credentials?: MemberCredentials): MemberCredentials | undefined {
+  return credentials && {
+    ...credentials,
+    lockedUntil: credentials.lockedUntil ? new Date(credentials.lockedUntil) : undefined,
+  };
+}
+
+/**
+ * Convert date strings back to Date objects on a parsed family record
+ */
+export function reviveFamily(family: Family): Family {
+  return {
+    ...family,
+    created: new Date(family.created),
+    lastActive: new Date(family.lastActive),
+    guardians: family.guardians.map(guardian => ({
+      ...guardian,
+      lastSeen: new Date(guardian.lastSeen),
+      credentials: reviveCredentials(guardian.credentials),
+    })),
+    children: family.children.map(child => ({
+      ...child,
+      lastSeen: new Date(child.lastSeen),
+      credentials: reviveCredentials(child.credentials),
+    })),
+    codeInfo: family.codeInfo && {
+      ...family.codeInfo,
+      expires: family.codeInfo.expires ? new Date(family.codeInfo.expires) : undefined,
+    },
+    codeHistory: family.codeHistory?.map(rotation => ({
+      ...rotation,
+      rotatedAt: new Date(rotation.rotatedAt),
+    })),
+    devices: family.devices?.map(reviveDevice),
+  };
+}
+
+/**
+ * Convert date strings back to Date objects on a parsed device record
+ */
+export function reviveDevice(device: TrustedDevice): TrustedDevice {
+  return {
+    ...device,
+    registeredAt: new Date(device.registeredAt),
+    lastSeen: new Date(device.lastSeen),
+    approvedAt: device.approvedAt ? new Date(device.approvedAt) : undefined,
+    pairingExpires: device.pairingExpires ? new Date(device.pairingExpires) : undefined,
+  };
+}
+
+/**
+ * Serialize a list of families to JSON
+ */
+export function serializeFamilies(families: Family[]): string {
+  return JSON.stringify(families);
+}
+
+/**
+ * Parse a JSON list of families, reviving dates
+ */
+export function deserializeFamilies(json: string): Family[] {
+  const families: Family[] = JSON.parse(json);
+  return families.map(reviveFamily);
+}
@@ -0,0 +1,43 @@
+/**
+ * ============================================================================
+ * KIDS CALL HOME - Last Seen Formatter
+ * ============================================================================
+ *
+ * Purpose: Describe when a family member was last online
+ * Interface: Used by guardian and kids dashboards
+ * Dependencies: None
+ *
+ * V1 Features:
+ * - Relative wording ("just now", "5 min ago", "2 hours ago", "yesterday")
+ * - Calendar date for anything older than a week
+ *
+ * Last Updated: 2024-09-09
+ * ============================================================================
+ */
+
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
+const DAY = 24 * HOUR;
+
+/**
+ * Format a last-seen time relative to now, e.g. "5 min ago"
+ */
+export function formatLastSeen(lastSeen: Date | string, now: Date = new Date()): string {
+  const seen = new Date(lastSeen);
+  if (isNaN(seen.getTime())) {
+    return 'a while ago';
+  }
+
+  const elapsed = now.getTime() - seen.getTime();
+
+  if (elapsed < MINUTE) return 'just now';
+  if (elapsed < HOUR) return `${Math.floor(elapsed / MINUTE)} min ago`;
+  if (elapsed < DAY) {
+    const hours = Math.floor(elapsed / HOUR);
+    return `${hours} ${hours === 1 ? 'hour' : 'hours'} ago`;
+  }
+  if (elapsed < 2 * DAY) return 'yesterday';
+  if (elapsed < 7 * DAY) return `${Math.floor(elapsed / DAY)} days ago`;
+
+  return `on ${seen.toLocaleDateString()}`;
+}
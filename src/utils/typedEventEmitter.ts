@@ -0,0 +1,52 @@
+/**
+ * ============================================================================
+ * KIDS CALL HOME - Typed Event Emitter
+ * ============================================================================
+ *
+ * Purpose: Small event emitter with per-event payload types
+ * Interface: Base class for framework-agnostic services (call engine)
+ * Dependencies: None
+ *
+ * V1 Features:
+ * - on() returns an unsubscribe function
+ * - A throwing listener doesn't stop the others
+ *
+ * Last Updated: 2024-09-09
+ * ============================================================================
+ */
+
+export type EventListener<T> = (payload: T) => void;
+
+export class TypedEventEmitter<Events extends { [K in keyof Events]: unknown }> {
+  private listeners: { [K in keyof Events]?: Set<EventListener<Events[K]>> } = {};
+
+  /**
+   * Listen for an event. Returns a function that removes the listener.
+   */
+  on<K extends keyof Events>(event: K, listener: EventListener<Events[K]>): () => void {
+    const listeners = this.listeners[event] ?? new Set<EventListener<Events[K]>>();
+    listeners.add(listener);
+    this.listeners[event] = listeners;
+    return () => this.off(event, listener);
+  }
+
+  /**
+   * Remove a listener
+   */
+  off<K extends keyof Events>(event: K, listener: EventListener<Events[K]>): void {
+    this.listeners[event]?.delete(listener);
+  }
+
+  /**
+   * Call every listener for an event
+   */
+  protected emit<K extends keyof Events>(event: K, payload: Events[K]): void {
+    this.listeners[event]?.forEach(listener => {
+      try {
+        listener(payload);
+      } catch (error) {
+        console.error(`Error in ${String(event)} listener:`, error);
+      }
+    });
+  }
+}
@@ -39,6 +39,11 @@ export default defineConfig({
         target: 'http://localhost:3001',
         changeOrigin: true,
         secure: false,
+      },
+      // Self-hosted signaling (VITE_SIGNALING_TRANSPORT=websocket)
+      '/ws': {
+        target: 'ws://localhost:3001',
+        ws: true,
       }
     }
   }